@@ -0,0 +1,74 @@
+-- Baseline: the schema created by database/init/001_initial_schema.sql.
+-- Statements are idempotent so databases initialized by the Postgres
+-- container can be brought under migration control.
+
+-- migrate:up
+CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
+
+CREATE TABLE IF NOT EXISTS analysis_jobs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    problem_description TEXT NOT NULL,
+    status VARCHAR(50) DEFAULT 'pending',
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    completed_at TIMESTAMP,
+    user_id VARCHAR(255),
+    metadata JSONB
+);
+
+CREATE TABLE IF NOT EXISTS query_results (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    query_hash VARCHAR(255) UNIQUE NOT NULL,
+    query_text TEXT NOT NULL,
+    results JSONB,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    expires_at TIMESTAMP,
+    size_bytes INTEGER
+);
+
+CREATE TABLE IF NOT EXISTS analysis_results (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    job_id UUID REFERENCES analysis_jobs(id),
+    analysis_type VARCHAR(100) NOT NULL,
+    results JSONB NOT NULL,
+    insights TEXT[],
+    confidence_score DECIMAL(3,2),
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS reports (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    job_id UUID REFERENCES analysis_jobs(id),
+    report_type VARCHAR(50) DEFAULT 'pdf',
+    file_path TEXT,
+    file_size INTEGER,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    email_sent BOOLEAN DEFAULT FALSE,
+    email_sent_at TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS ml_models (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name VARCHAR(255) NOT NULL,
+    model_type VARCHAR(100) NOT NULL,
+    version VARCHAR(50) DEFAULT '1.0',
+    file_path TEXT,
+    accuracy DECIMAL(5,4),
+    training_data_hash VARCHAR(255),
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    is_active BOOLEAN DEFAULT TRUE
+);
+
+CREATE INDEX IF NOT EXISTS idx_analysis_jobs_status ON analysis_jobs(status);
+CREATE INDEX IF NOT EXISTS idx_analysis_jobs_created_at ON analysis_jobs(created_at);
+CREATE INDEX IF NOT EXISTS idx_query_results_hash ON query_results(query_hash);
+CREATE INDEX IF NOT EXISTS idx_query_results_expires_at ON query_results(expires_at);
+CREATE INDEX IF NOT EXISTS idx_analysis_results_job_id ON analysis_results(job_id);
+CREATE INDEX IF NOT EXISTS idx_reports_job_id ON reports(job_id);
+
+-- migrate:down
+DROP TABLE IF EXISTS reports;
+DROP TABLE IF EXISTS analysis_results;
+DROP TABLE IF EXISTS query_results;
+DROP TABLE IF EXISTS ml_models;
+DROP TABLE IF EXISTS analysis_jobs;
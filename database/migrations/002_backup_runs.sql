@@ -0,0 +1,21 @@
+-- History of backup runs recorded by the database server's backup scheduler
+
+-- migrate:up
+CREATE TABLE IF NOT EXISTS backup_runs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    backup_id VARCHAR(255),
+    trigger VARCHAR(20) NOT NULL,
+    status VARCHAR(20) NOT NULL,
+    format VARCHAR(10) NOT NULL,
+    started_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    completed_at TIMESTAMP,
+    size_bytes BIGINT,
+    tables JSONB,
+    error TEXT,
+    pruned_at TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_backup_runs_started_at ON backup_runs(started_at);
+
+-- migrate:down
+DROP TABLE IF EXISTS backup_runs;
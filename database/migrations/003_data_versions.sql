@@ -0,0 +1,29 @@
+-- Version history for key/value tables with versioning enabled
+
+-- migrate:up
+CREATE TABLE IF NOT EXISTS versioned_tables (
+    table_name VARCHAR(255) PRIMARY KEY,
+    enabled_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS data_versions (
+    id BIGSERIAL PRIMARY KEY,
+    table_name VARCHAR(255) NOT NULL,
+    key VARCHAR(255) NOT NULL,
+    version INTEGER NOT NULL,
+    operation VARCHAR(10) NOT NULL,
+    data JSONB,
+    expires_at TIMESTAMP,
+    author VARCHAR(255),
+    job_id UUID,
+    reverted_from INTEGER,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (table_name, key, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_data_versions_created_at ON data_versions(table_name, key, created_at);
+CREATE INDEX IF NOT EXISTS idx_data_versions_job_id ON data_versions(job_id);
+
+-- migrate:down
+DROP TABLE IF EXISTS data_versions;
+DROP TABLE IF EXISTS versioned_tables;
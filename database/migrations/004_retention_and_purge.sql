@@ -0,0 +1,29 @@
+-- Retention policies for analysis and key/value tables, and an audit log of purges
+
+-- migrate:up
+CREATE TABLE IF NOT EXISTS retention_policies (
+    table_name VARCHAR(255) PRIMARY KEY,
+    max_age_days INTEGER CHECK (max_age_days > 0),
+    max_rows INTEGER CHECK (max_rows >= 0),
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    CHECK (max_age_days IS NOT NULL OR max_rows IS NOT NULL)
+);
+
+CREATE TABLE IF NOT EXISTS purge_log (
+    id BIGSERIAL PRIMARY KEY,
+    purge_type VARCHAR(20) NOT NULL,
+    target VARCHAR(255) NOT NULL,
+    requested_by VARCHAR(255),
+    reason TEXT,
+    deleted JSONB NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_purge_log_target ON purge_log(purge_type, target);
+CREATE INDEX IF NOT EXISTS idx_analysis_jobs_user_id ON analysis_jobs(user_id);
+
+-- migrate:down
+DROP INDEX IF EXISTS idx_analysis_jobs_user_id;
+DROP TABLE IF EXISTS purge_log;
+DROP TABLE IF EXISTS retention_policies;
@@ -0,0 +1,50 @@
+-- Change notifications on the data_changes channel: analysis job status changes and
+-- writes to key/value tables. The server adds the key/value table triggers itself.
+
+-- migrate:up
+CREATE OR REPLACE FUNCTION notify_job_change() RETURNS trigger AS $$
+DECLARE
+    job analysis_jobs;
+BEGIN
+    IF TG_OP = 'DELETE' THEN
+        job := OLD;
+    ELSE
+        job := NEW;
+    END IF;
+
+    IF TG_OP = 'UPDATE' AND OLD.status IS NOT DISTINCT FROM NEW.status THEN
+        RETURN NULL;
+    END IF;
+
+    PERFORM pg_notify('data_changes', json_build_object(
+        'schema', TG_TABLE_SCHEMA,
+        'table', TG_TABLE_NAME,
+        'key', job.id,
+        'operation', CASE WHEN TG_OP = 'DELETE' THEN 'delete' ELSE 'store' END,
+        'status', CASE WHEN TG_OP = 'DELETE' THEN NULL ELSE job.status END,
+        'previous_status', CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END
+    )::text);
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER notify_job_change
+    AFTER INSERT OR UPDATE OF status OR DELETE ON analysis_jobs
+    FOR EACH ROW EXECUTE FUNCTION notify_job_change();
+
+CREATE OR REPLACE FUNCTION notify_kv_change() RETURNS trigger AS $$
+BEGIN
+    PERFORM pg_notify('data_changes', json_build_object(
+        'schema', TG_TABLE_SCHEMA,
+        'table', TG_TABLE_NAME,
+        'key', CASE WHEN TG_OP = 'DELETE' THEN OLD.key ELSE NEW.key END,
+        'operation', CASE WHEN TG_OP = 'DELETE' THEN 'delete' ELSE 'store' END
+    )::text);
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+-- migrate:down
+DROP TRIGGER IF EXISTS notify_job_change ON analysis_jobs;
+DROP FUNCTION IF EXISTS notify_job_change();
+DROP FUNCTION IF EXISTS notify_kv_change() CASCADE;
@@ -0,0 +1,32 @@
+-- Copy the rows of public.cache_data, where store_data wrote before key/value tables
+-- moved to their own schema, into cache_data of the configured KV_SCHEMA (the runner
+-- substitutes ${KV_SCHEMA}). Keys that already exist there keep their current value;
+-- public.cache_data is left in place so it can be checked and dropped by hand.
+
+-- migrate:up
+DO $$
+BEGIN
+    IF to_regclass('public.cache_data') IS NULL THEN
+        RETURN;
+    END IF;
+
+    CREATE SCHEMA IF NOT EXISTS ${KV_SCHEMA};
+
+    CREATE TABLE IF NOT EXISTS ${KV_SCHEMA}.cache_data (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        key VARCHAR(255) UNIQUE NOT NULL,
+        data JSONB NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        expires_at TIMESTAMP,
+        table_name VARCHAR(255)
+    );
+
+    INSERT INTO ${KV_SCHEMA}.cache_data (key, data, created_at, expires_at, table_name)
+    SELECT key, data, created_at, expires_at, table_name
+    FROM public.cache_data
+    ON CONFLICT (key) DO NOTHING;
+END
+$$;
+
+-- migrate:down
+-- The copied rows cannot be told apart from later writes, so they stay in the key/value cache_data
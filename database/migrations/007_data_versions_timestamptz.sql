@@ -0,0 +1,8 @@
+-- Store version timestamps as timestamptz so that asOf lookups compare instants.
+-- Existing values are read in the session time zone they were written in.
+
+-- migrate:up
+ALTER TABLE data_versions ALTER COLUMN created_at TYPE TIMESTAMPTZ;
+
+-- migrate:down
+ALTER TABLE data_versions ALTER COLUMN created_at TYPE TIMESTAMP;
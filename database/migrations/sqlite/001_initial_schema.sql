@@ -0,0 +1,89 @@
+-- The analysis and backup tables for STORAGE_BACKEND=sqlite, matching the
+-- Postgres migrations in the parent directory. Timestamps are ISO 8601 text in UTC,
+-- JSON columns hold JSON text and row IDs are UUIDs generated by the server. The
+-- key/value tables, versioned_tables and data_versions are created by the server.
+
+-- migrate:up
+CREATE TABLE IF NOT EXISTS analysis_jobs (
+    id TEXT PRIMARY KEY,
+    problem_description TEXT NOT NULL,
+    status TEXT DEFAULT 'pending',
+    created_at TEXT DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+    updated_at TEXT DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+    completed_at TEXT,
+    user_id TEXT,
+    metadata TEXT
+);
+
+CREATE TABLE IF NOT EXISTS query_results (
+    id TEXT PRIMARY KEY,
+    query_hash TEXT UNIQUE NOT NULL,
+    query_text TEXT NOT NULL,
+    results TEXT,
+    created_at TEXT DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+    expires_at TEXT,
+    size_bytes INTEGER
+);
+
+CREATE TABLE IF NOT EXISTS analysis_results (
+    id TEXT PRIMARY KEY,
+    job_id TEXT REFERENCES analysis_jobs(id),
+    analysis_type TEXT NOT NULL,
+    results TEXT NOT NULL,
+    insights TEXT,
+    confidence_score REAL,
+    created_at TEXT DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
+
+CREATE TABLE IF NOT EXISTS reports (
+    id TEXT PRIMARY KEY,
+    job_id TEXT REFERENCES analysis_jobs(id),
+    report_type TEXT DEFAULT 'pdf',
+    file_path TEXT,
+    file_size INTEGER,
+    created_at TEXT DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+    email_sent INTEGER DEFAULT 0,
+    email_sent_at TEXT
+);
+
+CREATE TABLE IF NOT EXISTS ml_models (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    model_type TEXT NOT NULL,
+    version TEXT DEFAULT '1.0',
+    file_path TEXT,
+    accuracy REAL,
+    training_data_hash TEXT,
+    created_at TEXT DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+    is_active INTEGER DEFAULT 1
+);
+
+CREATE TABLE IF NOT EXISTS backup_runs (
+    id TEXT PRIMARY KEY,
+    backup_id TEXT,
+    trigger TEXT NOT NULL,
+    status TEXT NOT NULL,
+    format TEXT NOT NULL,
+    started_at TEXT DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+    completed_at TEXT,
+    size_bytes INTEGER,
+    tables TEXT,
+    error TEXT,
+    pruned_at TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_analysis_jobs_status ON analysis_jobs(status);
+CREATE INDEX IF NOT EXISTS idx_analysis_jobs_created_at ON analysis_jobs(created_at);
+CREATE INDEX IF NOT EXISTS idx_analysis_jobs_user_id ON analysis_jobs(user_id);
+CREATE INDEX IF NOT EXISTS idx_query_results_expires_at ON query_results(expires_at);
+CREATE INDEX IF NOT EXISTS idx_analysis_results_job_id ON analysis_results(job_id);
+CREATE INDEX IF NOT EXISTS idx_reports_job_id ON reports(job_id);
+CREATE INDEX IF NOT EXISTS idx_backup_runs_started_at ON backup_runs(started_at);
+
+-- migrate:down
+DROP TABLE IF EXISTS backup_runs;
+DROP TABLE IF EXISTS reports;
+DROP TABLE IF EXISTS analysis_results;
+DROP TABLE IF EXISTS query_results;
+DROP TABLE IF EXISTS ml_models;
+DROP TABLE IF EXISTS analysis_jobs;
@@ -0,0 +1,28 @@
+-- Retention policies for analysis and key/value tables, and an audit log of purges,
+-- matching 004_retention_and_purge.sql in the parent directory
+
+-- migrate:up
+CREATE TABLE IF NOT EXISTS retention_policies (
+    table_name TEXT PRIMARY KEY,
+    max_age_days INTEGER CHECK (max_age_days > 0),
+    max_rows INTEGER CHECK (max_rows >= 0),
+    created_at TEXT DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+    updated_at TEXT DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+    CHECK (max_age_days IS NOT NULL OR max_rows IS NOT NULL)
+);
+
+CREATE TABLE IF NOT EXISTS purge_log (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    purge_type TEXT NOT NULL,
+    target TEXT NOT NULL,
+    requested_by TEXT,
+    reason TEXT,
+    deleted TEXT NOT NULL,
+    created_at TEXT DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_purge_log_target ON purge_log(purge_type, target);
+
+-- migrate:down
+DROP TABLE IF EXISTS purge_log;
+DROP TABLE IF EXISTS retention_policies;
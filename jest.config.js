@@ -0,0 +1,21 @@
+/** @type {import('jest').Config} */
+module.exports = {
+  testEnvironment: 'node',
+  testMatch: ['<rootDir>/tests/**/*.test.[jt]s'],
+  transform: {
+    '^.+\\.ts$': ['ts-jest', {
+      tsconfig: {
+        module: 'commonjs',
+        target: 'ES2022',
+        esModuleInterop: true,
+        strict: true,
+        skipLibCheck: true,
+        isolatedModules: true
+      }
+    }]
+  },
+  // The servers are ES modules that import their siblings with .js extensions
+  moduleNameMapper: {
+    '^(\\.{1,2}/.*)\\.js$': '$1'
+  }
+};
@@ -6,9 +6,15 @@ import {
   StopQueryExecutionCommand,
   ListDatabasesCommand,
   ListTableMetadataCommand,
-  GetTableMetadataCommand
+  GetTableMetadataCommand,
+  ListQueryExecutionsCommand,
+  BatchGetQueryExecutionCommand,
+  QueryExecution as AthenaQueryExecution
 } from '@aws-sdk/client-athena';
-import { AthenaConfig, QueryExecution, QueryResults, TableMetadata, Database, QueryCostEstimate } from './types.js';
+import { AthenaConfig, QueryExecution, QueryResults, TableMetadata, Database } from './types.js';
+
+// BatchGetQueryExecution accepts at most 50 IDs per call
+const BATCH_GET_LIMIT = 50;
 
 export class AthenaClientWrapper {
   private client: AthenaClient;
@@ -25,12 +31,16 @@ export class AthenaClientWrapper {
     });
   }
 
-  async executeQuery(query: string, database?: string, workgroup?: string): Promise<string> {
+  /**
+   * @param executionParameters Literal values for the ? placeholders in the query, in order
+   */
+  async executeQuery(query: string, database?: string, workgroup?: string, executionParameters?: string[]): Promise<string> {
     try {
       const command = new StartQueryExecutionCommand({
         QueryString: query,
         QueryExecutionContext: database ? { Database: database } : undefined,
         WorkGroup: workgroup || this.config.ATHENA_WORKGROUP,
+        ExecutionParameters: executionParameters && executionParameters.length > 0 ? executionParameters : undefined,
         ResultConfiguration: {
           OutputLocation: this.config.ATHENA_OUTPUT_LOCATION
         }
@@ -55,31 +65,42 @@ export class AthenaClientWrapper {
         throw new Error('Query execution not found');
       }
 
-      return {
-        QueryExecutionId: response.QueryExecution.QueryExecutionId!,
-        Query: response.QueryExecution.Query!,
-        Status: {
-          State: response.QueryExecution.Status?.State as any,
-          SubmissionDateTime: response.QueryExecution.Status?.SubmissionDateTime,
-          CompletionDateTime: response.QueryExecution.Status?.CompletionDateTime,
-          StateChangeReason: response.QueryExecution.Status?.StateChangeReason
-        },
-        Statistics: response.QueryExecution.Statistics ? {
-          EngineExecutionTimeInMillis: response.QueryExecution.Statistics.EngineExecutionTimeInMillis,
-          DataScannedInBytes: response.QueryExecution.Statistics.DataScannedInBytes,
-          TotalExecutionTimeInMillis: response.QueryExecution.Statistics.TotalExecutionTimeInMillis,
-          QueryQueueTimeInMillis: response.QueryExecution.Statistics.QueryQueueTimeInMillis,
-          ServiceProcessingTimeInMillis: response.QueryExecution.Statistics.ServiceProcessingTimeInMillis
-        } : undefined,
-        ResultConfiguration: response.QueryExecution.ResultConfiguration ? {
-          OutputLocation: response.QueryExecution.ResultConfiguration.OutputLocation
-        } : undefined
-      };
+      return this.mapQueryExecution(response.QueryExecution);
     } catch (error) {
       throw new Error(`Failed to get query status: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
+  /**
+   * The most recent query executions of a workgroup, newest first
+   */
+  async listRecentQueryExecutions(workgroup?: string, limit: number = 200): Promise<QueryExecution[]> {
+    try {
+      const ids: string[] = [];
+      let nextToken: string | undefined;
+      do {
+        const response = await this.client.send(new ListQueryExecutionsCommand({
+          WorkGroup: workgroup || this.config.ATHENA_WORKGROUP,
+          MaxResults: Math.min(BATCH_GET_LIMIT, limit - ids.length),
+          NextToken: nextToken
+        }));
+        ids.push(...(response.QueryExecutionIds || []));
+        nextToken = response.NextToken;
+      } while (nextToken && ids.length < limit);
+
+      const executions: QueryExecution[] = [];
+      for (let i = 0; i < ids.length; i += BATCH_GET_LIMIT) {
+        const response = await this.client.send(new BatchGetQueryExecutionCommand({
+          QueryExecutionIds: ids.slice(i, i + BATCH_GET_LIMIT)
+        }));
+        executions.push(...(response.QueryExecutions || []).map(execution => this.mapQueryExecution(execution)));
+      }
+      return executions;
+    } catch (error) {
+      throw new Error(`Failed to list query executions: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   async getQueryResults(queryExecutionId: string, maxResults?: number, nextToken?: string): Promise<QueryResults> {
     try {
       const command = new GetQueryResultsCommand({
@@ -196,38 +217,6 @@ export class AthenaClientWrapper {
     }
   }
 
-  async estimateQueryCost(query: string, database?: string): Promise<QueryCostEstimate> {
-    // This is a simplified estimation
-    // In a real implementation, you might use AWS Cost Explorer API or historical data
-    
-    // Estimate based on query complexity and typical data scan patterns
-    const queryLower = query.toLowerCase();
-    let estimatedDataScanned = 1024 * 1024; // 1MB base
-    
-    // Increase estimate based on query patterns
-    if (queryLower.includes('select *')) {
-      estimatedDataScanned *= 10; // Full table scans are expensive
-    }
-    if (queryLower.includes('join')) {
-      estimatedDataScanned *= 5; // Joins increase data scan
-    }
-    if (queryLower.includes('group by')) {
-      estimatedDataScanned *= 2; // Aggregations require more data
-    }
-    
-    // AWS Athena pricing: $5 per TB scanned
-    const estimatedCost = (estimatedDataScanned / (1024 * 1024 * 1024 * 1024)) * 5;
-    
-    // Estimate execution time based on data size
-    const estimatedExecutionTime = Math.max(5, estimatedDataScanned / (1024 * 1024 * 10)); // 10MB/sec processing rate
-    
-    return {
-      estimatedDataScanned,
-      estimatedCost,
-      estimatedExecutionTime
-    };
-  }
-
   async waitForQueryCompletion(queryExecutionId: string, maxWaitTime: number = 300000): Promise<QueryExecution> {
     const startTime = Date.now();
     
@@ -244,4 +233,32 @@ export class AthenaClientWrapper {
     
     throw new Error('Query execution timeout');
   }
+
+  private mapQueryExecution(execution: AthenaQueryExecution): QueryExecution {
+    return {
+      QueryExecutionId: execution.QueryExecutionId!,
+      Query: execution.Query!,
+      Status: {
+        State: execution.Status?.State as any,
+        SubmissionDateTime: execution.Status?.SubmissionDateTime,
+        CompletionDateTime: execution.Status?.CompletionDateTime,
+        StateChangeReason: execution.Status?.StateChangeReason
+      },
+      Statistics: execution.Statistics ? {
+        EngineExecutionTimeInMillis: execution.Statistics.EngineExecutionTimeInMillis,
+        DataScannedInBytes: execution.Statistics.DataScannedInBytes,
+        TotalExecutionTimeInMillis: execution.Statistics.TotalExecutionTimeInMillis,
+        QueryQueueTimeInMillis: execution.Statistics.QueryQueueTimeInMillis,
+        ServiceProcessingTimeInMillis: execution.Statistics.ServiceProcessingTimeInMillis
+      } : undefined,
+      ResultConfiguration: execution.ResultConfiguration ? {
+        OutputLocation: execution.ResultConfiguration.OutputLocation
+      } : undefined,
+      QueryExecutionContext: execution.QueryExecutionContext ? {
+        Database: execution.QueryExecutionContext.Database,
+        Catalog: execution.QueryExecutionContext.Catalog
+      } : undefined,
+      WorkGroup: execution.WorkGroup
+    };
+  }
 }
\ No newline at end of file
@@ -0,0 +1,323 @@
+import { createHash, randomUUID } from 'crypto';
+import { AthenaClientWrapper } from './athena-client.js';
+import { queryCost } from './cost-estimator.js';
+import { BudgetDecision, BudgetSpend, BudgetStatus, QueryCostEstimate, WorkgroupBudgetSpend } from './types.js';
+
+const APPROVAL_TTL_MS = 10 * 60 * 1000;
+// Earlier executions read to find what a workgroup has already spent today
+const WORKGROUP_HISTORY_LIMIT = 500;
+
+interface PendingQuery {
+  workgroup: string;
+  reservedCost: number;
+}
+
+interface Approval {
+  fingerprint: string;
+  expiresAt: number;
+}
+
+interface SpendCounters {
+  queries: number;
+  dataScannedBytes: number;
+  cost: number;
+}
+
+/**
+ * Parse per-workgroup budgets written as "primary=25,analytics=100"
+ */
+export function parseWorkgroupBudgets(value: string): Record<string, number> {
+  const budgets: Record<string, number> = {};
+  for (const entry of value.split(',').map(part => part.trim()).filter(Boolean)) {
+    const [workgroup, amount] = entry.split('=').map(part => part.trim());
+    const limit = Number(amount);
+    if (!workgroup || !Number.isFinite(limit) || limit < 0) {
+      throw new Error(`Invalid workgroup budget "${entry}": expected workgroup=usd`);
+    }
+    budgets[workgroup] = limit;
+  }
+  return budgets;
+}
+
+function utcDay(date: Date = new Date()): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function roundUSD(amount: number): number {
+  return Math.round(amount * 1000000) / 1000000;
+}
+
+/**
+ * BudgetManager decides whether a query may be submitted given its cost
+ * estimate, and tracks what submitted queries actually cost.
+ *
+ * - A query whose estimate (the high end of its range) exceeds the maximum
+ *   query cost, or would take the session or its workgroup over budget, is
+ *   rejected.
+ * - Above the approval threshold a query needs an approval token, issued on
+ *   the first attempt and valid for one submission of that exact query for
+ *   ten minutes. So
+ *   does a query whose estimate is a guess: the default range, or a table of
+ *   unknown size.
+ *
+ * Submitted queries reserve their estimated cost until they finish; their
+ * DataScannedInBytes then replaces the reservation. The session budget covers
+ * the lifetime of the server, and workgroup budgets cover the current UTC day,
+ * starting from what the workgroup's recent executions already scanned.
+ */
+export class BudgetManager {
+  private athenaClient: AthenaClientWrapper;
+  private defaultWorkgroup: string;
+  private pricePerTB: number;
+  private sessionBudget?: number;
+  private workgroupBudgets: Record<string, number>;
+  private approvalThreshold: number;
+  private maxQueryCost?: number;
+  private startedAt = new Date();
+  private session: SpendCounters = { queries: 0, dataScannedBytes: 0, cost: 0 };
+  private workgroups = new Map<string, SpendCounters & { periodStart: string }>();
+  private pending = new Map<string, PendingQuery>();
+  private approvals = new Map<string, Approval>();
+
+  /**
+   * Budgets and the maximum query cost are in USD; 0 means no limit
+   */
+  constructor(athenaClient: AthenaClientWrapper, options: {
+    defaultWorkgroup: string;
+    pricePerTB: number;
+    sessionBudget: number;
+    workgroupBudgets: Record<string, number>;
+    approvalThreshold: number;
+    maxQueryCost: number;
+  }) {
+    this.athenaClient = athenaClient;
+    this.defaultWorkgroup = options.defaultWorkgroup;
+    this.pricePerTB = options.pricePerTB;
+    this.sessionBudget = options.sessionBudget > 0 ? options.sessionBudget : undefined;
+    this.workgroupBudgets = options.workgroupBudgets;
+    this.approvalThreshold = options.approvalThreshold;
+    this.maxQueryCost = options.maxQueryCost > 0 ? options.maxQueryCost : undefined;
+  }
+
+  /**
+   * Throws when the query is over a limit; otherwise approves it, or returns
+   * an approval token when it needs one
+   */
+  async authorize(
+    query: string,
+    options: { database?: string; workgroup?: string; approve?: string },
+    estimate: QueryCostEstimate
+  ): Promise<BudgetDecision> {
+    await this.settle();
+    const workgroup = options.workgroup || this.defaultWorkgroup;
+    const checkedCost = estimate.costRange.high;
+
+    if (this.maxQueryCost !== undefined && checkedCost > this.maxQueryCost) {
+      throw new Error(`Query rejected: estimated cost up to $${checkedCost} exceeds the maximum of $${this.maxQueryCost} per query`);
+    }
+
+    const session = this.spend(this.session, this.sessionBudget, this.pendingFor());
+    if (session.remaining !== undefined && checkedCost > session.remaining) {
+      throw new Error(`Query rejected: estimated cost up to $${checkedCost} exceeds the $${session.remaining} left in the session budget of $${session.limit}`);
+    }
+
+    const workgroupSpend = await this.workgroupSpend(workgroup);
+    if (workgroupSpend.remaining !== undefined && checkedCost > workgroupSpend.remaining) {
+      throw new Error(`Query rejected: estimated cost up to $${checkedCost} exceeds the $${workgroupSpend.remaining} left in today's budget of $${workgroupSpend.limit} for workgroup ${workgroup}`);
+    }
+
+    const uncertainty = this.uncertainty(estimate);
+    if (checkedCost <= this.approvalThreshold && !uncertainty) {
+      return { status: 'approved', checkedCost };
+    }
+
+    const fingerprint = this.fingerprint(query, options.database, workgroup);
+    if (options.approve) {
+      const approval = this.approvals.get(options.approve);
+      if (!approval || approval.expiresAt < Date.now() || approval.fingerprint !== fingerprint) {
+        this.approvals.delete(options.approve);
+        throw new Error('Invalid or expired approval token; approval tokens are single-use and only valid for the query they were issued for');
+      }
+      // Consumed by track, so a submission that fails can be retried with the same token
+      return { status: 'approved', checkedCost, approvalToken: options.approve };
+    }
+
+    this.removeExpiredApprovals();
+    const approvalToken = randomUUID();
+    const expiresAt = Date.now() + APPROVAL_TTL_MS;
+    this.approvals.set(approvalToken, { fingerprint, expiresAt });
+    return {
+      status: 'approval_required',
+      checkedCost,
+      approvalToken,
+      approvalExpiresAt: new Date(expiresAt).toISOString(),
+      reason: checkedCost > this.approvalThreshold
+        ? `Estimated cost up to $${checkedCost} is above the approval threshold of $${this.approvalThreshold}`
+        : `${uncertainty}, so the estimate of up to $${checkedCost} may be far too low`
+    };
+  }
+
+  /**
+   * Reserve the estimated cost of a submitted query until it finishes, and
+   * use up the approval token it was submitted with
+   */
+  track(queryExecutionId: string, workgroup: string | undefined, estimate: QueryCostEstimate, approvalToken?: string): void {
+    if (approvalToken) {
+      this.approvals.delete(approvalToken);
+    }
+    this.pending.set(queryExecutionId, {
+      workgroup: workgroup || this.defaultWorkgroup,
+      reservedCost: estimate.costRange.high
+    });
+  }
+
+  async getStatus(): Promise<BudgetStatus> {
+    await this.settle();
+
+    const names = new Set([...Object.keys(this.workgroupBudgets), ...this.workgroups.keys()]);
+    const workgroups: WorkgroupBudgetSpend[] = [];
+    for (const workgroup of names) {
+      workgroups.push({ workgroup, ...(await this.workgroupSpend(workgroup)) });
+    }
+
+    return {
+      pricePerTB: this.pricePerTB,
+      approvalThreshold: this.approvalThreshold,
+      maxQueryCost: this.maxQueryCost,
+      session: {
+        ...this.spend(this.session, this.sessionBudget, this.pendingFor()),
+        startedAt: this.startedAt.toISOString()
+      },
+      workgroups
+    };
+  }
+
+  /**
+   * Why an estimate cannot be trusted to stay under the approval threshold,
+   * or undefined when it can
+   */
+  private uncertainty(estimate: QueryCostEstimate): string | undefined {
+    if (estimate.basis === 'default') {
+      return 'There are no table statistics, query history or EXPLAIN estimate for this query';
+    }
+    if (estimate.unsizedTables.length > 0) {
+      return `The size of ${estimate.unsizedTables.join(', ')} is unknown`;
+    }
+    return undefined;
+  }
+
+  /**
+   * Replace the reservations of finished queries with what they scanned.
+   * Failed queries are not billed; cancelled ones are billed for what they
+   * scanned before stopping.
+   */
+  private async settle(): Promise<void> {
+    const checks = await Promise.all([...this.pending].map(async ([queryExecutionId, query]) => {
+      try {
+        return { queryExecutionId, query, execution: await this.athenaClient.getQueryStatus(queryExecutionId) };
+      } catch (error) {
+        console.error(`Failed to check the cost of query ${queryExecutionId}:`, error instanceof Error ? error.message : error);
+        return undefined;
+      }
+    }));
+
+    for (const check of checks) {
+      if (!check) {
+        continue;
+      }
+      const { queryExecutionId, query, execution } = check;
+      const state = execution.Status.State;
+      if (state !== 'SUCCEEDED' && state !== 'FAILED' && state !== 'CANCELLED') {
+        continue;
+      }
+
+      // Load the workgroup's day first, so a day's history does not count this query twice
+      const workgroup = await this.workgroupCounters(query.workgroup);
+      this.pending.delete(queryExecutionId);
+
+      const bytes = execution.Statistics?.DataScannedInBytes || 0;
+      const cost = state === 'FAILED' || (state === 'CANCELLED' && bytes === 0) ? 0 : queryCost(bytes, this.pricePerTB);
+      for (const counters of [this.session, workgroup]) {
+        counters.queries++;
+        counters.dataScannedBytes += bytes;
+        counters.cost = roundUSD(counters.cost + cost);
+      }
+    }
+  }
+
+  private spend(counters: SpendCounters, limit: number | undefined, pendingCost: number): BudgetSpend {
+    return {
+      ...counters,
+      pendingQueries: this.pending.size,
+      pendingCost: roundUSD(pendingCost),
+      limit,
+      remaining: limit !== undefined ? roundUSD(Math.max(0, limit - counters.cost - pendingCost)) : undefined
+    };
+  }
+
+  private async workgroupSpend(workgroup: string): Promise<Omit<WorkgroupBudgetSpend, 'workgroup'>> {
+    const counters = await this.workgroupCounters(workgroup);
+    const spend = this.spend(counters, this.workgroupBudgets[workgroup], this.pendingFor(workgroup));
+    return {
+      ...spend,
+      pendingQueries: [...this.pending.values()].filter(query => query.workgroup === workgroup).length,
+      periodStart: counters.periodStart
+    };
+  }
+
+  private pendingFor(workgroup?: string): number {
+    return [...this.pending.values()]
+      .filter(query => workgroup === undefined || query.workgroup === workgroup)
+      .reduce((total, query) => total + query.reservedCost, 0);
+  }
+
+  /**
+   * Today's counters for a workgroup. A budgeted workgroup starts each day
+   * from the executions Athena has already recorded for it that day.
+   */
+  private async workgroupCounters(workgroup: string): Promise<SpendCounters & { periodStart: string }> {
+    const today = utcDay();
+    const existing = this.workgroups.get(workgroup);
+    if (existing?.periodStart === today) {
+      return existing;
+    }
+
+    const counters = { queries: 0, dataScannedBytes: 0, cost: 0, periodStart: today };
+    this.workgroups.set(workgroup, counters);
+    if (this.workgroupBudgets[workgroup] === undefined) {
+      return counters;
+    }
+
+    try {
+      const executions = await this.athenaClient.listRecentQueryExecutions(workgroup, WORKGROUP_HISTORY_LIMIT);
+      for (const execution of executions) {
+        const submitted = execution.Status.SubmissionDateTime;
+        if (!submitted || utcDay(new Date(submitted)) !== today || this.pending.has(execution.QueryExecutionId)) {
+          continue;
+        }
+        const bytes = execution.Statistics?.DataScannedInBytes || 0;
+        if (execution.Status.State === 'SUCCEEDED' || (execution.Status.State === 'CANCELLED' && bytes > 0)) {
+          counters.queries++;
+          counters.dataScannedBytes += bytes;
+          counters.cost = roundUSD(counters.cost + queryCost(bytes, this.pricePerTB));
+        }
+      }
+    } catch (error) {
+      console.error(`Failed to load today's spend for workgroup ${workgroup}:`, error instanceof Error ? error.message : error);
+    }
+    return counters;
+  }
+
+  private fingerprint(query: string, database: string | undefined, workgroup: string): string {
+    return createHash('sha256').update(`${workgroup}\n${database || ''}\n${query.trim()}`).digest('hex');
+  }
+
+  private removeExpiredApprovals(): void {
+    const now = Date.now();
+    for (const [token, approval] of this.approvals) {
+      if (approval.expiresAt < now) {
+        this.approvals.delete(token);
+      }
+    }
+  }
+}
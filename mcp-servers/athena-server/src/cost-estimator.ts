@@ -0,0 +1,564 @@
+import { AthenaClientWrapper } from './athena-client.js';
+import { analyzeQuery, normalizeQuery } from './query-analyzer.js';
+import {
+  ByteRange,
+  EstimateBasis,
+  QueryAnalysis,
+  QueryCostEstimate,
+  QueryExecution,
+  SimilarQueryStats,
+  TableMetadata,
+  TableReference,
+  TableScanEstimate
+} from './types.js';
+
+const BYTES_PER_TB = 1024 ** 4;
+// Athena bills at least 10 MB per query
+const MIN_BILLED_BYTES = 10 * 1024 * 1024;
+// Rough scan throughput used for the execution time when there is no history
+const SCAN_BYTES_PER_SECOND = 200 * 1024 * 1024;
+const HISTORY_LIMIT = 200;
+// Table statistics change with ANALYZE or a crawler run; the query history with every query
+const METADATA_CACHE_TTL_MS = 5 * 60 * 1000;
+const HISTORY_CACHE_TTL_MS = 60 * 1000;
+const EXPLAIN_TIMEOUT_MS = 60000;
+const DEFAULT_RANGE = { low: MIN_BILLED_BYTES, likely: 1024 ** 3, high: 100 * 1024 ** 3 };
+
+const COLUMNAR_FORMATS = new Set(['parquet', 'orc']);
+const SIZE_PARAMETERS = ['totalSize', 'spark.sql.statistics.totalSize', 'sizeKey'];
+const ROW_COUNT_PARAMETERS = ['numRows', 'recordCount', 'spark.sql.statistics.numRows'];
+
+interface FractionRange {
+  low: number;
+  likely: number;
+  high: number;
+}
+
+interface ScanRange extends ByteRange {
+  likely: number;
+}
+
+interface CachedLookup<T> {
+  value: Promise<T>;
+  expiresAt: number;
+}
+
+/**
+ * Relative width of a column type, for the share of a columnar file a
+ * column takes up
+ */
+function columnWeight(type: string): number {
+  const base = type.toLowerCase().replace(/[(<].*$/, '').trim();
+  if (['array', 'map', 'struct'].includes(base)) {
+    return 64;
+  }
+  if (['string', 'varchar', 'char', 'binary', 'varbinary', 'json'].includes(base)) {
+    return 32;
+  }
+  if (['bigint', 'double', 'timestamp', 'decimal'].includes(base)) {
+    return 8;
+  }
+  if (['smallint'].includes(base)) {
+    return 2;
+  }
+  if (['tinyint', 'boolean'].includes(base)) {
+    return 1;
+  }
+  return 4;
+}
+
+function numericParameter(parameters: Record<string, string>, names: string[]): { name: string; value: number } | undefined {
+  for (const name of names) {
+    const value = Number(parameters[name]);
+    if (parameters[name] !== undefined && Number.isFinite(value) && value >= 0) {
+      return { name, value };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * A table's size in bytes from its statistics, and the parameter(s) it came
+ * from: a total size, the uncompressed rawDataSize, or the row count times
+ * averageRecordSize
+ */
+export function tableSize(metadata: TableMetadata): { bytes: number; source: 'size' | 'rawDataSize' | 'averageRecordSize' } | undefined {
+  const parameters = metadata.Parameters || {};
+  const size = numericParameter(parameters, SIZE_PARAMETERS);
+  if (size) {
+    return { bytes: size.value, source: 'size' };
+  }
+  const rawSize = numericParameter(parameters, ['rawDataSize']);
+  if (rawSize) {
+    return { bytes: rawSize.value, source: 'rawDataSize' };
+  }
+  const rowCount = numericParameter(parameters, ROW_COUNT_PARAMETERS);
+  const recordSize = numericParameter(parameters, ['averageRecordSize']);
+  if (rowCount && recordSize) {
+    return { bytes: rowCount.value * recordSize.value, source: 'averageRecordSize' };
+  }
+  return undefined;
+}
+
+/**
+ * Storage format from the Glue classification, input format or SerDe
+ */
+function tableFormat(metadata: TableMetadata): string | undefined {
+  const parameters = metadata.Parameters || {};
+  if (parameters.table_type?.toUpperCase() === 'ICEBERG') {
+    return (parameters.write_format_default || 'parquet').toLowerCase();
+  }
+  if (parameters.classification) {
+    return parameters.classification.toLowerCase();
+  }
+  const described = `${parameters.inputformat || ''} ${parameters['serde.serialization.lib'] || ''}`.toLowerCase();
+  return ['parquet', 'orc', 'avro', 'json', 'csv', 'text']
+    .find(format => described.includes(format) || (format === 'csv' && described.includes('opencsv')));
+}
+
+/**
+ * The number of values of a partition key, from its partition projection
+ * settings, when they are enumerable
+ */
+function partitionCardinality(parameters: Record<string, string>, key: string): number | undefined {
+  const type = parameters[`projection.${key}.type`]?.toLowerCase();
+  if (type === 'enum' && parameters[`projection.${key}.values`]) {
+    return parameters[`projection.${key}.values`].split(',').length;
+  }
+  if (type === 'integer' && parameters[`projection.${key}.range`]) {
+    const [low, high] = parameters[`projection.${key}.range`].split(',').map(Number);
+    const interval = Number(parameters[`projection.${key}.interval`] || 1);
+    if (Number.isFinite(low) && Number.isFinite(high) && high >= low && interval > 0) {
+      return Math.floor((high - low) / interval) + 1;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * What Athena bills for scanning a number of bytes, in USD, with its
+ * per-query minimum
+ */
+export function queryCost(bytes: number, pricePerTB: number): number {
+  const billed = Math.max(bytes, MIN_BILLED_BYTES);
+  return Math.round((billed / BYTES_PER_TB) * pricePerTB * 1000000) / 1000000;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function formatBytes(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  let size = bytes;
+  let unit = 0;
+  while (size >= 1024 && unit < units.length - 1) {
+    size /= 1024;
+    unit++;
+  }
+  return `${unit === 0 ? size : size.toFixed(1)} ${units[unit]}`;
+}
+
+/**
+ * CostEstimator predicts how much data a query will scan, and so what it will
+ * cost, from three sources in order of preference: Athena's own EXPLAIN (TYPE
+ * IO) estimate when requested, the DataScannedInBytes of earlier runs of the
+ * same query shape in the workgroup, and the Glue statistics of the tables it
+ * reads narrowed down by the columns and partitions it uses. The result is a
+ * range with a confidence level, and every assumption made along the way is
+ * listed with it. Table metadata and the query history are cached for a
+ * few minutes, as every query submitted is estimated.
+ */
+export class CostEstimator {
+  private athenaClient: AthenaClientWrapper;
+  private pricePerTB: number;
+  private metadataCache = new Map<string, CachedLookup<TableMetadata>>();
+  private historyCache = new Map<string, CachedLookup<QueryExecution[]>>();
+
+  constructor(athenaClient: AthenaClientWrapper, pricePerTB: number = 5) {
+    this.athenaClient = athenaClient;
+    this.pricePerTB = pricePerTB;
+  }
+
+  async estimate(query: string, options: { database?: string; workgroup?: string; explain?: boolean } = {}): Promise<QueryCostEstimate> {
+    const analysis = analyzeQuery(query);
+    const assumptions: string[] = [];
+
+    const unsizedTables: string[] = [];
+    const tables = await this.estimateTables(analysis, options.database, unsizedTables, assumptions);
+    const history = await this.findSimilarQueries(query, analysis, options.database, options.workgroup, assumptions);
+    const explainBytes = options.explain
+      ? await this.explainScan(query, options.database, options.workgroup, assumptions)
+      : undefined;
+
+    let basis: EstimateBasis;
+    let range: ScanRange;
+    let confidence: QueryCostEstimate['confidence'];
+    const metadataRange = this.sumTableRanges(tables, analysis, options.database);
+
+    if (explainBytes !== undefined) {
+      basis = 'explain';
+      range = { low: explainBytes / 4, likely: explainBytes / 2, high: explainBytes };
+      confidence = 'high';
+      assumptions.push('EXPLAIN reports uncompressed sizes; the scan is assumed to be 2-4x smaller once compressed');
+    } else if (history?.sameShape) {
+      basis = 'history';
+      confidence = history.matched >= 3 ? 'high' : 'medium';
+      assumptions.push(`Based on ${history.matched} earlier run(s) of the same query shape; different literals may select different partitions`);
+      if (history.matched >= 3) {
+        range = { low: history.minBytes, likely: history.medianBytes, high: history.maxBytes };
+      } else {
+        range = { low: history.minBytes / 2, likely: history.medianBytes, high: history.maxBytes * 2 };
+        assumptions.push('With fewer than 3 earlier runs the range is widened to half the smallest and twice the largest scan');
+      }
+    } else if (metadataRange) {
+      basis = 'metadata';
+      range = metadataRange;
+      // Medium when every partition filter could be resolved exactly
+      confidence = tables.every(table => table.estimatedBytes!.low === table.estimatedBytes!.high) ? 'medium' : 'low';
+    } else if (history) {
+      basis = 'history';
+      range = { low: history.minBytes, likely: history.medianBytes, high: history.maxBytes };
+      confidence = 'low';
+      assumptions.push(`Based on ${history.matched} earlier queries reading the same tables with a different shape`);
+    } else {
+      basis = 'default';
+      range = { ...DEFAULT_RANGE };
+      confidence = 'low';
+      assumptions.push(`No table statistics, query history or EXPLAIN estimate: assuming ${formatBytes(DEFAULT_RANGE.low)} to ${formatBytes(DEFAULT_RANGE.high)}`);
+    }
+
+    if (analysis.hasLimit) {
+      assumptions.push('LIMIT may stop the scan early, but Athena usually reads whole files and row groups, so it is not taken into account');
+    }
+
+    const executionSeconds = basis === 'history' && history?.sameShape && history.medianExecutionTimeMs !== undefined
+      ? history.medianExecutionTimeMs / 1000
+      : Math.max(2, range.likely / SCAN_BYTES_PER_SECOND);
+
+    return {
+      estimatedDataScanned: Math.round(range.likely),
+      estimatedCost: queryCost(range.likely, this.pricePerTB),
+      estimatedExecutionTime: Math.round(executionSeconds * 10) / 10,
+      dataScannedRange: { low: Math.round(range.low), high: Math.round(range.high) },
+      costRange: { low: queryCost(range.low, this.pricePerTB), high: queryCost(range.high, this.pricePerTB) },
+      confidence,
+      basis,
+      tables,
+      unsizedTables,
+      similarQueries: history,
+      explainBytes,
+      assumptions
+    };
+  }
+
+  private async estimateTables(
+    analysis: QueryAnalysis,
+    database: string | undefined,
+    unsized: string[],
+    assumptions: string[]
+  ): Promise<TableScanEstimate[]> {
+    const estimates: TableScanEstimate[] = [];
+    const seen = new Set<string>();
+
+    for (const reference of analysis.tables) {
+      const tableDatabase = reference.database || database;
+      if (!tableDatabase) {
+        unsized.push(reference.table);
+        assumptions.push(`No database given for table ${reference.table}; its size is unknown`);
+        continue;
+      }
+      const key = `${reference.catalog || ''}.${tableDatabase}.${reference.table}`;
+      if (seen.has(key)) {
+        continue;
+      }
+      seen.add(key);
+
+      try {
+        const metadata = await this.cached(this.metadataCache, key, METADATA_CACHE_TTL_MS, () => (
+          this.athenaClient.describeTable(tableDatabase, reference.table, reference.catalog)
+        ));
+        const estimate = this.estimateTable(tableDatabase, reference, metadata, analysis, assumptions);
+        if (estimate.tableBytes === undefined) {
+          unsized.push(`${tableDatabase}.${reference.table}`);
+        }
+        estimates.push(estimate);
+      } catch (error) {
+        unsized.push(`${tableDatabase}.${reference.table}`);
+        assumptions.push(`Could not describe ${tableDatabase}.${reference.table}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+    return estimates;
+  }
+
+  private estimateTable(
+    database: string,
+    reference: TableReference,
+    metadata: TableMetadata,
+    analysis: QueryAnalysis,
+    assumptions: string[]
+  ): TableScanEstimate {
+    const name = `${database}.${reference.table}`;
+    const parameters = metadata.Parameters || {};
+    const format = tableFormat(metadata);
+
+    const rowCount = numericParameter(parameters, ROW_COUNT_PARAMETERS)?.value;
+    const size = tableSize(metadata);
+    const tableBytes = size?.bytes;
+    if (!size) {
+      assumptions.push(`${name}: no size statistics in the table parameters (run ANALYZE or a Glue crawler to add them)`);
+    } else if (size.source === 'rawDataSize') {
+      assumptions.push(`${name}: size taken from rawDataSize, which is uncompressed and may overstate the scan`);
+    } else if (size.source === 'averageRecordSize') {
+      assumptions.push(`${name}: size estimated as row count x averageRecordSize`);
+    }
+
+    // Columns the query reads: every column for SELECT * or alias.*, otherwise the names it mentions
+    const partitionKeys = metadata.PartitionKeys.map(key => key.Name.toLowerCase());
+    const readsAll = analysis.selectsAll || analysis.starQualifiers.some(qualifier => (
+      qualifier === reference.table || qualifier === reference.alias
+    ));
+    const identifiers = new Set(analysis.identifiers);
+    const columnsRead = metadata.Columns
+      .filter(column => readsAll || identifiers.has(column.Name.toLowerCase()))
+      .map(column => column.Name);
+
+    let columnFraction = 1;
+    if (format && COLUMNAR_FORMATS.has(format)) {
+      const totalWeight = metadata.Columns.reduce((total, column) => total + columnWeight(column.Type), 0);
+      const readWeight = metadata.Columns
+        .filter(column => columnsRead.includes(column.Name))
+        .reduce((total, column) => total + columnWeight(column.Type), 0);
+      columnFraction = totalWeight > 0 ? readWeight / totalWeight : 1;
+      if (!readsAll) {
+        assumptions.push(`${name}: ${format} is columnar, so only ${columnsRead.length} of ${metadata.Columns.length} column(s) are read, weighted by type width`);
+      }
+    } else {
+      assumptions.push(`${name}: ${format || 'unknown'} format is row-oriented, so whole files are read whatever the columns`);
+    }
+
+    const partitions = this.partitionFraction(name, reference, partitionKeys, parameters, analysis, assumptions);
+    const estimate: TableScanEstimate = {
+      database,
+      table: reference.table,
+      format,
+      tableBytes,
+      rowCount,
+      columnsRead,
+      columnFraction: Math.round(columnFraction * 10000) / 10000,
+      partitionKeys,
+      partitionFilters: partitions.filters,
+      partitionFraction: Math.round(partitions.fraction.likely * 10000) / 10000
+    };
+
+    if (tableBytes !== undefined) {
+      estimate.estimatedBytes = {
+        low: Math.round(tableBytes * columnFraction * partitions.fraction.low),
+        high: Math.round(tableBytes * columnFraction * partitions.fraction.high)
+      };
+    }
+    return estimate;
+  }
+
+  /**
+   * The share of partitions a query reads, from its filters on partition keys.
+   * Equality and IN filters are exact when partition projection says how many
+   * values the key has; other filters get a wide range.
+   */
+  private partitionFraction(
+    name: string,
+    reference: TableReference,
+    partitionKeys: string[],
+    parameters: Record<string, string>,
+    analysis: QueryAnalysis,
+    assumptions: string[]
+  ): { fraction: FractionRange; filters: string[] } {
+    const fraction: FractionRange = { low: 1, likely: 1, high: 1 };
+    const filters: string[] = [];
+    if (partitionKeys.length === 0) {
+      return { fraction, filters };
+    }
+
+    for (const key of partitionKeys) {
+      const predicates = analysis.predicates.filter(predicate => (
+        predicate.column === key && predicate.operator !== 'other' &&
+        (!predicate.qualifier || predicate.qualifier === reference.table || predicate.qualifier === reference.alias)
+      ));
+      if (predicates.length === 0) {
+        continue;
+      }
+      filters.push(key);
+
+      const equality = predicates.find(predicate => predicate.operator === 'eq' || predicate.operator === 'in');
+      const cardinality = partitionCardinality(parameters, key);
+      if (equality && cardinality) {
+        const share = Math.min(1, new Set(equality.values).size / cardinality);
+        fraction.low *= share;
+        fraction.likely *= share;
+        fraction.high *= share;
+        assumptions.push(`${name}: ${key} selects ${new Set(equality.values).size} of ${cardinality} projected partition value(s)`);
+      } else if (equality) {
+        fraction.low *= 0.01;
+        fraction.likely *= 0.1;
+        fraction.high *= 0.5;
+        assumptions.push(`${name}: the number of ${key} partitions is unknown; its filter is assumed to keep 1-50% of them (10% likely)`);
+      } else {
+        fraction.low *= 0.01;
+        fraction.likely *= 0.25;
+        fraction.high *= 1;
+        assumptions.push(`${name}: the range filter on ${key} is assumed to keep 1-100% of partitions (25% likely)`);
+      }
+    }
+
+    if (filters.length === 0) {
+      assumptions.push(`${name}: no filter on partition key(s) ${partitionKeys.join(', ')}, so every partition is scanned`);
+    }
+    return { fraction, filters };
+  }
+
+  /**
+   * The total of the table estimates, or undefined when any table the query
+   * reads could not be described or is missing a size
+   */
+  private sumTableRanges(tables: TableScanEstimate[], analysis: QueryAnalysis, database: string | undefined): ScanRange | undefined {
+    const referenced = new Set(analysis.tables.map(table => (
+      `${table.catalog || ''}.${table.database || database || ''}.${table.table}`
+    )));
+    if (tables.length === 0 || tables.length < referenced.size || tables.some(table => table.tableBytes === undefined)) {
+      return undefined;
+    }
+    return tables.reduce<ScanRange>((total, table) => {
+      const likely = table.tableBytes! * table.columnFraction * table.partitionFraction;
+      return {
+        low: total.low + table.estimatedBytes!.low,
+        likely: total.likely + likely,
+        high: total.high + table.estimatedBytes!.high
+      };
+    }, { low: 0, likely: 0, high: 0 });
+  }
+
+  /**
+   * Data scanned by earlier successful queries in the workgroup: those with
+   * the same normalized text if there are any, otherwise those reading the
+   * same set of tables
+   */
+  private async findSimilarQueries(
+    query: string,
+    analysis: QueryAnalysis,
+    database: string | undefined,
+    workgroup: string | undefined,
+    assumptions: string[]
+  ): Promise<SimilarQueryStats | undefined> {
+    let executions: QueryExecution[];
+    try {
+      executions = await this.cached(this.historyCache, workgroup || '', HISTORY_CACHE_TTL_MS, () => (
+        this.athenaClient.listRecentQueryExecutions(workgroup, HISTORY_LIMIT)
+      ));
+    } catch (error) {
+      assumptions.push(`Query history unavailable: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return undefined;
+    }
+
+    const completed = executions.filter(execution => (
+      execution.Status.State === 'SUCCEEDED' &&
+      execution.Statistics?.DataScannedInBytes !== undefined &&
+      !/^\s*explain\b/i.test(execution.Query || '')
+    ));
+
+    const shape = normalizeQuery(query);
+    let matches = completed.filter(execution => normalizeQuery(execution.Query) === shape);
+    const sameShape = matches.length > 0;
+
+    if (!sameShape) {
+      const tableKey = (tables: TableReference[], defaultDatabase?: string) => tables
+        .map(table => `${table.database || defaultDatabase || ''}.${table.table}`)
+        .sort()
+        .join(',');
+      const wanted = tableKey(analysis.tables, database);
+      matches = analysis.tables.length === 0 ? [] : completed.filter(execution => (
+        tableKey(analyzeQuery(execution.Query).tables, execution.QueryExecutionContext?.Database) === wanted
+      ));
+    }
+    if (matches.length === 0) {
+      return undefined;
+    }
+
+    const scanned = matches.map(execution => execution.Statistics!.DataScannedInBytes!);
+    const times = matches
+      .map(execution => execution.Statistics?.EngineExecutionTimeInMillis)
+      .filter((time): time is number => time !== undefined);
+    return {
+      matched: matches.length,
+      sameShape,
+      minBytes: Math.min(...scanned),
+      medianBytes: median(scanned),
+      maxBytes: Math.max(...scanned),
+      medianExecutionTimeMs: times.length > 0 ? median(times) : undefined
+    };
+  }
+
+  /**
+   * Total input size from EXPLAIN (TYPE IO, FORMAT JSON), or undefined when
+   * Athena has no estimate (tables without statistics report NaN)
+   */
+  private async explainScan(
+    query: string,
+    database: string | undefined,
+    workgroup: string | undefined,
+    assumptions: string[]
+  ): Promise<number | undefined> {
+    try {
+      const statement = `EXPLAIN (TYPE IO, FORMAT JSON) ${query.trim().replace(/;+$/, '')}`;
+      const queryExecutionId = await this.athenaClient.executeQuery(statement, database, workgroup);
+      const execution = await this.athenaClient.waitForQueryCompletion(queryExecutionId, EXPLAIN_TIMEOUT_MS);
+      if (execution.Status.State !== 'SUCCEEDED') {
+        throw new Error(execution.Status.StateChangeReason || `EXPLAIN ${execution.Status.State.toLowerCase()}`);
+      }
+
+      const results = await this.athenaClient.getQueryResults(queryExecutionId);
+      const text = results.ResultSet.Rows
+        .map(row => row.Data.map(data => data.VarCharValue || '').join(''))
+        .join('\n');
+      const plan = JSON.parse(text.slice(text.indexOf('{'), text.lastIndexOf('}') + 1));
+      const sizes = (plan.inputTableColumnInfos || [])
+        .map((input: any) => Number(input.estimate?.outputSizeInBytes));
+
+      if (sizes.length === 0 || sizes.some((size: number) => !Number.isFinite(size))) {
+        assumptions.push('EXPLAIN (TYPE IO) had no size estimate for every table; it was not used');
+        return undefined;
+      }
+      return sizes.reduce((total: number, size: number) => total + size, 0);
+    } catch (error) {
+      assumptions.push(`EXPLAIN (TYPE IO) failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * A lookup from the cache while it is fresh, otherwise a new one that is
+   * kept for ttlMs. Failed lookups are not kept.
+   */
+  private cached<T>(cache: Map<string, CachedLookup<T>>, key: string, ttlMs: number, load: () => Promise<T>): Promise<T> {
+    const now = Date.now();
+    const entry = cache.get(key);
+    if (entry && entry.expiresAt > now) {
+      return entry.value;
+    }
+
+    for (const [cachedKey, cachedEntry] of cache) {
+      if (cachedEntry.expiresAt <= now) {
+        cache.delete(cachedKey);
+      }
+    }
+    const value = load();
+    cache.set(key, { value, expiresAt: now + ttlMs });
+    value.catch(() => {
+      if (cache.get(key)?.value === value) {
+        cache.delete(key);
+      }
+    });
+    return value;
+  }
+}
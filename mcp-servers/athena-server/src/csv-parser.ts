@@ -0,0 +1,59 @@
+import { Readable } from 'stream';
+
+/**
+ * Parse a CSV stream (RFC 4180, as Athena writes query output) one row at a
+ * time. Athena quotes every value and leaves NULLs empty and unquoted, so an
+ * unquoted empty field is returned as undefined and a quoted one as ''.
+ */
+export async function* parseCsv(stream: Readable): AsyncGenerator<(string | undefined)[]> {
+  let row: (string | undefined)[] = [];
+  let field = '';
+  let quoted = false;
+  let inQuotes = false;
+  // A quote inside a quoted field: an escaped quote if another follows, else the end of the field
+  let quotePending = false;
+
+  const endField = () => {
+    row.push(quoted || field.length > 0 ? field : undefined);
+    field = '';
+    quoted = false;
+  };
+
+  stream.setEncoding('utf-8');
+  for await (const chunk of stream as AsyncIterable<string>) {
+    for (const char of chunk) {
+      if (quotePending) {
+        quotePending = false;
+        if (char === '"') {
+          field += '"';
+          continue;
+        }
+        inQuotes = false;
+      }
+
+      if (inQuotes) {
+        if (char === '"') {
+          quotePending = true;
+        } else {
+          field += char;
+        }
+      } else if (char === '"' && field.length === 0 && !quoted) {
+        quoted = true;
+        inQuotes = true;
+      } else if (char === ',') {
+        endField();
+      } else if (char === '\n') {
+        endField();
+        yield row;
+        row = [];
+      } else if (char !== '\r') {
+        field += char;
+      }
+    }
+  }
+
+  if (row.length > 0 || field.length > 0 || quoted) {
+    endField();
+    yield row;
+  }
+}
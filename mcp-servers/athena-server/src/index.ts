@@ -9,13 +9,31 @@ import {
   ReadResourceRequestSchema,
 } from '@modelcontextprotocol/sdk';
 import { AthenaClientWrapper } from './athena-client.js';
+import { BudgetManager, parseWorkgroupBudgets } from './budget-manager.js';
+import { CostEstimator } from './cost-estimator.js';
+import { LocalObjectStore } from './local-object-store.js';
+import { MAX_SAMPLE_SIZE, ResultStreamer } from './result-streamer.js';
+import { S3ObjectStore } from './s3-object-store.js';
+import { QueryHistory } from './query-history.js';
+import { appendLimit } from './query-analyzer.js';
 import { QueryManager } from './query-manager.js';
-import { AthenaConfig } from './types.js';
+import { parseNameList, QueryPolicy } from './query-policy.js';
+import { SavedQueryLibrary } from './saved-queries.js';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { AthenaConfig, PolicyResult, QueryCostEstimate, QueryState, SavedQueryParameter, ToolResponse } from './types.js';
 
 class AthenaServer {
   private server: Server;
   private athenaClient: AthenaClientWrapper;
   private queryManager: QueryManager;
+  private queryHistory: QueryHistory;
+  private submitter: string;
+  private costEstimator: CostEstimator;
+  private budgetManager: BudgetManager;
+  private resultStreamer: ResultStreamer;
+  private savedQueries: SavedQueryLibrary;
+  private queryPolicy: QueryPolicy;
 
   constructor() {
     this.server = new Server(
@@ -37,11 +55,54 @@ class AthenaServer {
       AWS_SECRET_ACCESS_KEY: process.env.AWS_SECRET_ACCESS_KEY || '',
       AWS_REGION: process.env.AWS_REGION || 'us-east-1',
       ATHENA_WORKGROUP: process.env.ATHENA_WORKGROUP || 'primary',
-      ATHENA_OUTPUT_LOCATION: process.env.ATHENA_OUTPUT_LOCATION || ''
+      ATHENA_OUTPUT_LOCATION: process.env.ATHENA_OUTPUT_LOCATION || '',
+      ATHENA_PRICE_PER_TB: parseFloat(process.env.ATHENA_PRICE_PER_TB || '5'),
+      ATHENA_SESSION_BUDGET_USD: parseFloat(process.env.ATHENA_SESSION_BUDGET_USD || '0'),
+      ATHENA_WORKGROUP_BUDGETS_USD: parseWorkgroupBudgets(process.env.ATHENA_WORKGROUP_BUDGETS_USD || ''),
+      ATHENA_APPROVAL_THRESHOLD_USD: parseFloat(process.env.ATHENA_APPROVAL_THRESHOLD_USD || '1'),
+      ATHENA_MAX_QUERY_COST_USD: parseFloat(process.env.ATHENA_MAX_QUERY_COST_USD || '0'),
+      ATHENA_RESULT_STORE: process.env.ATHENA_RESULT_STORE === 'local' ? 'local' : 's3',
+      ATHENA_RESULT_STORE_ROOT: process.env.ATHENA_RESULT_STORE_ROOT || './athena-results',
+      ATHENA_EXPORT_DIR: process.env.ATHENA_EXPORT_DIR || join(tmpdir(), 'athena-exports'),
+      ATHENA_QUERY_TTL_SECONDS: parseInt(process.env.ATHENA_QUERY_TTL_SECONDS || '3600'),
+      ATHENA_HISTORY_PATH: process.env.ATHENA_HISTORY_PATH || './data/athena-query-history.jsonl',
+      ATHENA_HISTORY_MAX_ENTRIES: parseInt(process.env.ATHENA_HISTORY_MAX_ENTRIES || '10000'),
+      ATHENA_SUBMITTER: process.env.ATHENA_SUBMITTER || 'agent',
+      ATHENA_SAVED_QUERIES_PATH: process.env.ATHENA_SAVED_QUERIES_PATH || './data/athena-saved-queries.json',
+      ATHENA_READ_ONLY: process.env.ATHENA_READ_ONLY !== 'false',
+      ATHENA_DENIED_DATABASES: parseNameList(process.env.ATHENA_DENIED_DATABASES || ''),
+      ATHENA_DENIED_TABLES: parseNameList(process.env.ATHENA_DENIED_TABLES || ''),
+      ATHENA_REQUIRE_PARTITION_FILTER: process.env.ATHENA_REQUIRE_PARTITION_FILTER !== 'false',
+      ATHENA_PARTITION_FILTER_MIN_GB: parseFloat(process.env.ATHENA_PARTITION_FILTER_MIN_GB || '10'),
+      ATHENA_AUTO_LIMIT: parseInt(process.env.ATHENA_AUTO_LIMIT || '1000')
     };
 
     this.athenaClient = new AthenaClientWrapper(config);
-    this.queryManager = new QueryManager(this.athenaClient);
+    this.queryHistory = new QueryHistory(config.ATHENA_HISTORY_PATH, config.ATHENA_HISTORY_MAX_ENTRIES, config.ATHENA_PRICE_PER_TB);
+    this.queryManager = new QueryManager(this.athenaClient, config.ATHENA_QUERY_TTL_SECONDS, this.queryHistory);
+    this.submitter = config.ATHENA_SUBMITTER;
+    this.savedQueries = new SavedQueryLibrary(config.ATHENA_SAVED_QUERIES_PATH);
+    this.queryPolicy = new QueryPolicy(this.athenaClient, {
+      readOnly: config.ATHENA_READ_ONLY,
+      deniedDatabases: config.ATHENA_DENIED_DATABASES,
+      deniedTables: config.ATHENA_DENIED_TABLES,
+      requirePartitionFilter: config.ATHENA_REQUIRE_PARTITION_FILTER,
+      partitionFilterMinGB: config.ATHENA_PARTITION_FILTER_MIN_GB,
+      autoLimit: config.ATHENA_AUTO_LIMIT
+    });
+    this.costEstimator = new CostEstimator(this.athenaClient, config.ATHENA_PRICE_PER_TB);
+    this.budgetManager = new BudgetManager(this.athenaClient, {
+      defaultWorkgroup: config.ATHENA_WORKGROUP,
+      pricePerTB: config.ATHENA_PRICE_PER_TB,
+      sessionBudget: config.ATHENA_SESSION_BUDGET_USD,
+      workgroupBudgets: config.ATHENA_WORKGROUP_BUDGETS_USD,
+      approvalThreshold: config.ATHENA_APPROVAL_THRESHOLD_USD,
+      maxQueryCost: config.ATHENA_MAX_QUERY_COST_USD
+    });
+    const objectStore = config.ATHENA_RESULT_STORE === 'local'
+      ? new LocalObjectStore(config.ATHENA_RESULT_STORE_ROOT)
+      : new S3ObjectStore(config);
+    this.resultStreamer = new ResultStreamer(this.athenaClient, objectStore, config.ATHENA_EXPORT_DIR);
 
     this.setupHandlers();
   }
@@ -53,13 +114,32 @@ class AthenaServer {
         tools: [
           {
             name: 'execute_query',
-            description: 'Execute SQL query on AWS Athena',
+            description: 'Execute SQL query on AWS Athena. The query is checked against the query policy first (see lint_query); a SELECT that neither limits nor aggregates its rows gets a LIMIT. It is then checked against the cost budgets; above the approval threshold, or when its cost cannot be estimated from table sizes, it returns an approval token, and must be sent again with approve set to that token.',
             inputSchema: {
               type: 'object',
               properties: {
                 query: { type: 'string', description: 'SQL query to execute' },
                 database: { type: 'string', description: 'Database name' },
-                workgroup: { type: 'string', description: 'Athena workgroup (optional)' }
+                workgroup: { type: 'string', description: 'Athena workgroup (optional)' },
+                approve: { type: 'string', description: 'Approval token returned by an earlier attempt to run this exact query' },
+                submitter: { type: 'string', description: 'Who the query is run for, recorded in the query history' }
+              },
+              required: ['query']
+            }
+          },
+          {
+            name: 'run_query',
+            description: 'Run a SQL query on AWS Athena, wait for it to finish and return its rows as JSON objects with typed values. Subject to the same query policy, budgets and approval gate as execute_query.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                query: { type: 'string', description: 'SQL query to run' },
+                database: { type: 'string', description: 'Database name' },
+                workgroup: { type: 'string', description: 'Athena workgroup (optional)' },
+                approve: { type: 'string', description: 'Approval token returned by an earlier attempt to run this exact query' },
+                submitter: { type: 'string', description: 'Who the query is run for, recorded in the query history' },
+                timeoutSeconds: { type: 'number', description: 'How long to wait for the query to finish (default: 300)' },
+                maxRows: { type: 'number', description: 'Maximum number of rows to return (default: 1000)' }
               },
               required: ['query']
             }
@@ -110,6 +190,22 @@ class AthenaServer {
               required: ['queryExecutionId']
             }
           },
+          {
+            name: 'list_queries',
+            description: 'List tracked queries, newest first, with their state and progress (queue time, engine time, data scanned so far)',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                states: {
+                  type: 'array',
+                  items: { type: 'string', enum: ['QUEUED', 'RUNNING', 'SUCCEEDED', 'FAILED', 'CANCELLED'] },
+                  description: 'Only queries in these states'
+                },
+                maxAgeSeconds: { type: 'number', description: 'Only queries submitted in the last this many seconds' },
+                limit: { type: 'number', description: 'Maximum number of queries to return' }
+              }
+            }
+          },
           {
             name: 'get_query_results',
             description: 'Retrieve query results',
@@ -123,6 +219,25 @@ class AthenaServer {
               required: ['queryExecutionId']
             }
           },
+          {
+            name: 'stream_query_results',
+            description: 'Read the results of a succeeded query from its CSV output file, with optional column projection and sampling, as JSON Lines of row objects or of columnar chunks. Writes to outputFile for large results.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                queryExecutionId: { type: 'string', description: 'Query execution ID' },
+                columns: { type: 'array', items: { type: 'string' }, description: 'Columns to keep (default: all)' },
+                format: { type: 'string', enum: ['jsonl', 'columnar'], description: 'One JSON object per row, or one chunk of column arrays per line (default: jsonl)' },
+                chunkSize: { type: 'number', description: 'Rows per columnar chunk (default: 1000)' },
+                sampleRate: { type: 'number', description: 'Keep each row with this probability, between 0 and 1' },
+                sampleSize: { type: 'number', maximum: MAX_SAMPLE_SIZE, description: `Keep a uniform random sample of this many rows, at most ${MAX_SAMPLE_SIZE}` },
+                seed: { type: 'number', description: 'Seed for reproducible sampling' },
+                maxRows: { type: 'number', description: 'Maximum rows to return (default: 1000 inline, unlimited with outputFile)' },
+                outputFile: { type: 'string', description: 'File name under the export directory to write to instead of returning the rows' }
+              },
+              required: ['queryExecutionId']
+            }
+          },
           {
             name: 'cancel_query',
             description: 'Cancel running queries',
@@ -134,14 +249,131 @@ class AthenaServer {
               required: ['queryExecutionId']
             }
           },
+          {
+            name: 'get_query_history',
+            description: 'List previously submitted queries, newest first, with their SQL, timings, data scanned, cost and final state',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                limit: { type: 'number', description: 'Maximum number of queries to return (default: 50)' },
+                offset: { type: 'number', description: 'Number of queries to skip (default: 0)' }
+              }
+            }
+          },
+          {
+            name: 'search_query_history',
+            description: 'Search previously submitted queries by SQL text, database, workgroup, submitter, state and submission time',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                text: { type: 'string', description: 'Text to find in the SQL or query ID (case-insensitive)' },
+                database: { type: 'string', description: 'Database name' },
+                workgroup: { type: 'string', description: 'Athena workgroup' },
+                submitter: { type: 'string', description: 'Who the query was run for' },
+                states: {
+                  type: 'array',
+                  items: { type: 'string', enum: ['QUEUED', 'RUNNING', 'SUCCEEDED', 'FAILED', 'CANCELLED'] },
+                  description: 'Only queries in these states'
+                },
+                since: { type: 'string', description: 'Submitted at or after this time (ISO 8601)' },
+                until: { type: 'string', description: 'Submitted at or before this time (ISO 8601)' },
+                limit: { type: 'number', description: 'Maximum number of queries to return (default: 50)' },
+                offset: { type: 'number', description: 'Number of queries to skip (default: 0)' }
+              }
+            }
+          },
+          {
+            name: 'rerun_query',
+            description: 'Submit a query from the history again with the same SQL, database and workgroup. Subject to the same query policy, budgets and approval gate as execute_query.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                queryExecutionId: { type: 'string', description: 'ID of the query to run again' },
+                approve: { type: 'string', description: 'Approval token returned by an earlier attempt to rerun this query' },
+                submitter: { type: 'string', description: 'Who the query is run for, recorded in the query history' }
+              },
+              required: ['queryExecutionId']
+            }
+          },
+          {
+            name: 'save_query',
+            description: 'Save a SQL query with named, typed {{parameter}} placeholders to the saved-query library, so it can be run again with different values',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                name: { type: 'string', description: 'Name of the saved query (letters, digits, _, . and -)' },
+                description: { type: 'string', description: 'What the query answers' },
+                sql: { type: 'string', description: 'SQL with {{name}} placeholders written bare, e.g. WHERE dt BETWEEN {{start}} AND {{end}}' },
+                parameters: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      name: { type: 'string', description: 'Placeholder name' },
+                      type: { type: 'string', enum: ['date', 'string', 'number', 'list'], description: 'Parameter type; dates are YYYY-MM-DD' },
+                      itemType: { type: 'string', enum: ['date', 'string', 'number'], description: 'Type of list items (default: string)' },
+                      required: { type: 'boolean', description: 'Whether a value must be given (default: true unless there is a default)' },
+                      default: { description: 'Value used when none is given' },
+                      description: { type: 'string', description: 'What the parameter means' }
+                    },
+                    required: ['name', 'type']
+                  },
+                  description: 'Parameters used in the SQL'
+                },
+                database: { type: 'string', description: 'Default database for the query' },
+                workgroup: { type: 'string', description: 'Default Athena workgroup for the query' },
+                inlineParameters: { type: 'boolean', description: 'Write values into the SQL as literals instead of passing them as execution parameters, for statements that do not accept ? (default: false)' },
+                overwrite: { type: 'boolean', description: 'Replace an existing saved query with the same name (default: false)' }
+              },
+              required: ['name', 'sql']
+            }
+          },
+          {
+            name: 'list_saved_queries',
+            description: 'List the saved queries with their parameters',
+            inputSchema: {
+              type: 'object',
+              properties: {}
+            }
+          },
+          {
+            name: 'execute_saved_query',
+            description: 'Run a saved query with values for its parameters. Values are validated against the parameter types and bound as execution parameters. Subject to the same query policy, budgets and approval gate as execute_query.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                name: { type: 'string', description: 'Name of the saved query' },
+                parameters: { type: 'object', description: 'Parameter values by name; lists as arrays' },
+                database: { type: 'string', description: 'Database name (default: the saved query\'s database)' },
+                workgroup: { type: 'string', description: 'Athena workgroup (default: the saved query\'s workgroup)' },
+                approve: { type: 'string', description: 'Approval token returned by an earlier attempt to run this query with the same values' },
+                submitter: { type: 'string', description: 'Who the query is run for, recorded in the query history' }
+              },
+              required: ['name']
+            }
+          },
+          {
+            name: 'lint_query',
+            description: 'Check a query against the query policy without running it: read-only mode, denied databases and tables, and partition filters on large partitioned tables. Returns the violations with suggested fixes, and the SQL that would be submitted.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                query: { type: 'string', description: 'SQL query to check' },
+                database: { type: 'string', description: 'Database name' }
+              },
+              required: ['query']
+            }
+          },
           {
             name: 'estimate_query_cost',
-            description: 'Estimate query execution cost',
+            description: 'Estimate the data a query will scan and its cost, as a range with a confidence level and the assumptions made, from table statistics, similar past queries and optionally EXPLAIN (TYPE IO)',
             inputSchema: {
               type: 'object',
               properties: {
                 query: { type: 'string', description: 'SQL query to estimate cost for' },
-                database: { type: 'string', description: 'Database name' }
+                database: { type: 'string', description: 'Database name' },
+                workgroup: { type: 'string', description: 'Athena workgroup whose query history is used (optional)' },
+                explain: { type: 'boolean', description: 'Also run EXPLAIN (TYPE IO) for Athena\'s own estimate (default: false)' }
               },
               required: ['query']
             }
@@ -168,6 +400,21 @@ class AthenaServer {
             uri: 'athena://table/{database}/{table}/schema',
             mimeType: 'application/json',
             name: 'Table schema information'
+          },
+          {
+            uri: 'athena://queries',
+            mimeType: 'application/json',
+            name: 'Tracked queries with their state and progress'
+          },
+          {
+            uri: 'athena://budget',
+            mimeType: 'application/json',
+            name: 'Query spend so far against the session and workgroup budgets'
+          },
+          {
+            uri: 'athena://saved-queries',
+            mimeType: 'application/json',
+            name: 'Saved queries with their parameters'
           }
         ]
       };
@@ -191,6 +438,43 @@ class AthenaServer {
           };
         }
 
+        if (uri === 'athena://queries') {
+          return {
+            contents: [
+              {
+                uri,
+                mimeType: 'application/json',
+                text: JSON.stringify(this.queryManager.listQueries())
+              }
+            ]
+          };
+        }
+
+        if (uri === 'athena://budget') {
+          const budget = await this.budgetManager.getStatus();
+          return {
+            contents: [
+              {
+                uri,
+                mimeType: 'application/json',
+                text: JSON.stringify(budget)
+              }
+            ]
+          };
+        }
+
+        if (uri === 'athena://saved-queries') {
+          return {
+            contents: [
+              {
+                uri,
+                mimeType: 'application/json',
+                text: JSON.stringify(this.savedQueries.list())
+              }
+            ]
+          };
+        }
+
         const dbTablesMatch = uri.match(/^athena:\/\/database\/([^/]+)\/tables$/);
         if (dbTablesMatch) {
           const databaseName = dbTablesMatch[1];
@@ -248,13 +532,28 @@ class AthenaServer {
       try {
         switch (name) {
           case 'execute_query': {
-            const { query, database, workgroup } = args as { 
+            const { query, database, workgroup, approve, submitter } = args as { 
               query: string; 
               database?: string; 
               workgroup?: string;
+              approve?: string;
+              submitter?: string;
             };
             
-            const queryId = await this.queryManager.submitQuery(query, database, workgroup);
+            const { policy, rejection } = await this.checkPolicy(query, database);
+            if (rejection) {
+              return rejection;
+            }
+
+            const { estimate, approvalToken, approvalResponse } = await this.checkBudget(name, policy.query, database, workgroup, approve);
+            if (approvalResponse) {
+              return approvalResponse;
+            }
+
+            const queryId = await this.queryManager.submitQuery(policy.query, database, workgroup, {
+              submitter: submitter || this.submitter
+            });
+            this.budgetManager.track(queryId, workgroup, estimate, approvalToken);
             
             return {
               content: [
@@ -262,13 +561,58 @@ class AthenaServer {
                   type: 'text',
                   text: JSON.stringify({
                     queryExecutionId: queryId,
-                    message: 'Query submitted successfully'
+                    message: 'Query submitted successfully',
+                    estimatedCost: estimate.estimatedCost,
+                    estimatedCostRange: estimate.costRange,
+                    policyNotes: policy.notes.length > 0 ? policy.notes : undefined
                   })
                 }
               ]
             };
           }
 
+          case 'run_query': {
+            const { query, database, workgroup, approve, submitter, timeoutSeconds, maxRows } = args as {
+              query: string;
+              database?: string;
+              workgroup?: string;
+              approve?: string;
+              submitter?: string;
+              timeoutSeconds?: number;
+              maxRows?: number;
+            };
+
+            if (maxRows !== undefined && (!Number.isInteger(maxRows) || maxRows < 1)) {
+              throw new Error('maxRows must be a positive integer');
+            }
+
+            const { policy, rejection } = await this.checkPolicy(query, database);
+            if (rejection) {
+              return rejection;
+            }
+
+            const { estimate, approvalToken, approvalResponse } = await this.checkBudget(name, policy.query, database, workgroup, approve);
+            if (approvalResponse) {
+              return approvalResponse;
+            }
+
+            const result = await this.queryManager.runQuery(policy.query, database, workgroup, {
+              timeoutMs: (timeoutSeconds ?? 300) * 1000,
+              maxRows,
+              submitter: submitter || this.submitter,
+              onSubmitted: queryId => this.budgetManager.track(queryId, workgroup, estimate, approvalToken)
+            });
+
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(policy.notes.length > 0 ? { ...result, policyNotes: policy.notes } : result)
+                }
+              ]
+            };
+          }
+
           case 'get_query_status': {
             const { queryExecutionId } = args as { queryExecutionId: string };
             const status = await this.queryManager.getQueryStatus(queryExecutionId);
@@ -283,6 +627,25 @@ class AthenaServer {
             };
           }
 
+          case 'list_queries': {
+            const { states, maxAgeSeconds, limit } = args as {
+              states?: QueryState[];
+              maxAgeSeconds?: number;
+              limit?: number;
+            };
+
+            const queries = this.queryManager.listQueries({ states, maxAgeSeconds, limit });
+
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify({ queries, count: queries.length })
+                }
+              ]
+            };
+          }
+
           case 'get_query_results': {
             const { queryExecutionId, maxResults, nextToken } = args as { 
               queryExecutionId: string; 
@@ -302,6 +665,56 @@ class AthenaServer {
             };
           }
 
+          case 'stream_query_results': {
+            const { queryExecutionId, columns, format, chunkSize, sampleRate, sampleSize, seed, maxRows, outputFile } = args as {
+              queryExecutionId: string;
+              columns?: string[];
+              format?: 'jsonl' | 'columnar';
+              chunkSize?: number;
+              sampleRate?: number;
+              sampleSize?: number;
+              seed?: number;
+              maxRows?: number;
+              outputFile?: string;
+            };
+
+            if (format !== undefined && format !== 'jsonl' && format !== 'columnar') {
+              throw new Error('format must be jsonl or columnar');
+            }
+            if (sampleRate !== undefined && !(sampleRate > 0 && sampleRate <= 1)) {
+              throw new Error('sampleRate must be greater than 0 and at most 1');
+            }
+            for (const [option, value] of Object.entries({ chunkSize, sampleSize, maxRows })) {
+              if (value !== undefined && (!Number.isInteger(value) || value < 1)) {
+                throw new Error(`${option} must be a positive integer`);
+              }
+            }
+            if (sampleSize !== undefined && sampleSize > MAX_SAMPLE_SIZE) {
+              throw new Error(`sampleSize must be at most ${MAX_SAMPLE_SIZE}; use sampleRate for larger samples`);
+            }
+
+            const { summary, data } = await this.resultStreamer.stream(queryExecutionId, {
+              columns,
+              format: format || 'jsonl',
+              chunkSize: chunkSize ?? 1000,
+              sampleRate,
+              sampleSize,
+              seed,
+              maxRows: maxRows ?? (outputFile ? undefined : 1000),
+              outputFile
+            });
+
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(summary)
+                },
+                ...(data !== undefined ? [{ type: 'text', text: data }] : [])
+              ]
+            };
+          }
+
           case 'cancel_query': {
             const { queryExecutionId } = args as { queryExecutionId: string };
             await this.queryManager.cancelQuery(queryExecutionId);
@@ -369,13 +782,212 @@ class AthenaServer {
             };
           }
 
+          case 'get_query_history': {
+            const { limit, offset } = args as { limit?: number; offset?: number };
+            const history = this.queryHistory.search({ limit: limit ?? 50, offset });
+
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(history)
+                }
+              ]
+            };
+          }
+
+          case 'search_query_history': {
+            const { text, database, workgroup, submitter, states, since, until, limit, offset } = args as {
+              text?: string;
+              database?: string;
+              workgroup?: string;
+              submitter?: string;
+              states?: QueryState[];
+              since?: string;
+              until?: string;
+              limit?: number;
+              offset?: number;
+            };
+
+            const history = this.queryHistory.search({
+              text, database, workgroup, submitter, states, since, until, limit: limit ?? 50, offset
+            });
+
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(history)
+                }
+              ]
+            };
+          }
+
+          case 'rerun_query': {
+            const { queryExecutionId, approve, submitter } = args as {
+              queryExecutionId: string;
+              approve?: string;
+              submitter?: string;
+            };
+
+            const original = this.queryHistory.get(queryExecutionId);
+            if (!original) {
+              throw new Error(`Query ${queryExecutionId} is not in the query history`);
+            }
+
+            // The policy may have changed since the query first ran
+            const { policy, rejection } = await this.checkPolicy(original.query, original.database);
+            if (rejection) {
+              return rejection;
+            }
+
+            const { estimate, approvalToken, approvalResponse } = await this.checkBudget(
+              name, policy.query, original.database, original.workgroup, approve
+            );
+            if (approvalResponse) {
+              return approvalResponse;
+            }
+
+            const queryId = await this.queryManager.submitQuery(policy.query, original.database, original.workgroup, {
+              submitter: submitter || this.submitter,
+              rerunOf: queryExecutionId,
+              savedQuery: original.savedQuery,
+              executionParameters: original.executionParameters
+            });
+            this.budgetManager.track(queryId, original.workgroup, estimate, approvalToken);
+
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify({
+                    queryExecutionId: queryId,
+                    rerunOf: queryExecutionId,
+                    message: 'Query submitted successfully',
+                    estimatedCost: estimate.estimatedCost,
+                    estimatedCostRange: estimate.costRange
+                  })
+                }
+              ]
+            };
+          }
+
+          case 'save_query': {
+            const { name: queryName, description, sql, parameters, database, workgroup, inlineParameters, overwrite } = args as {
+              name: string;
+              description?: string;
+              sql: string;
+              parameters?: SavedQueryParameter[];
+              database?: string;
+              workgroup?: string;
+              inlineParameters?: boolean;
+              overwrite?: boolean;
+            };
+
+            const saved = await this.savedQueries.save(
+              { name: queryName, description, sql, parameters: parameters || [], database, workgroup, inlineParameters },
+              overwrite
+            );
+
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify({ message: `Saved query ${saved.name}`, savedQuery: saved })
+                }
+              ]
+            };
+          }
+
+          case 'list_saved_queries': {
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(this.savedQueries.list())
+                }
+              ]
+            };
+          }
+
+          case 'execute_saved_query': {
+            const { name: queryName, parameters, approve, submitter, ...target } = args as {
+              name: string;
+              parameters?: Record<string, any>;
+              database?: string;
+              workgroup?: string;
+              approve?: string;
+              submitter?: string;
+            };
+
+            const saved = this.savedQueries.get(queryName);
+            const database = target.database || saved.database;
+            const workgroup = target.workgroup || saved.workgroup;
+            const bound = this.savedQueries.bind(queryName, parameters);
+
+            // Lint, estimate and approve the query with its values in place
+            const { policy, rejection } = await this.checkPolicy(bound.inlineSql, database);
+            if (rejection) {
+              return rejection;
+            }
+            const { estimate, approvalToken, approvalResponse } = await this.checkBudget(name, policy.query, database, workgroup, approve);
+            if (approvalResponse) {
+              return approvalResponse;
+            }
+
+            const sql = policy.limitApplied !== undefined ? appendLimit(bound.sql, policy.limitApplied) : bound.sql;
+            const queryId = await this.queryManager.submitQuery(sql, database, workgroup, {
+              submitter: submitter || this.submitter,
+              savedQuery: queryName,
+              executionParameters: bound.executionParameters
+            });
+            this.budgetManager.track(queryId, workgroup, estimate, approvalToken);
+
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify({
+                    queryExecutionId: queryId,
+                    savedQuery: queryName,
+                    query: policy.query,
+                    message: 'Query submitted successfully',
+                    estimatedCost: estimate.estimatedCost,
+                    estimatedCostRange: estimate.costRange,
+                    policyNotes: policy.notes.length > 0 ? policy.notes : undefined
+                  })
+                }
+              ]
+            };
+          }
+
+          case 'lint_query': {
+            const { query, database } = args as {
+              query: string;
+              database?: string;
+            };
+
+            const policy = await this.queryPolicy.check(query, database);
+
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(policy)
+                }
+              ]
+            };
+          }
+
           case 'estimate_query_cost': {
-            const { query, database } = args as { 
+            const { query, database, workgroup, explain } = args as { 
               query: string; 
-              database?: string 
+              database?: string;
+              workgroup?: string;
+              explain?: boolean;
             };
             
-            const costEstimate = await this.athenaClient.estimateQueryCost(query, database);
+            const costEstimate = await this.costEstimator.estimate(query, { database, workgroup, explain });
             
             return {
               content: [
@@ -404,11 +1016,85 @@ class AthenaServer {
     });
   }
 
+  /**
+   * Check a query against the query policy. When it breaks a rule, returns
+   * the lint messages as the tool response instead of running it.
+   */
+  private async checkPolicy(query: string, database?: string): Promise<{ policy: PolicyResult; rejection?: ToolResponse }> {
+    const policy = await this.queryPolicy.check(query, database);
+    if (policy.allowed) {
+      return { policy };
+    }
+
+    return {
+      policy,
+      rejection: {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              status: 'rejected',
+              message: `Query not submitted: it breaks ${policy.violations.length} query policy rule(s). Fix the query as suggested and try again.`,
+              violations: policy.violations,
+              notes: policy.notes.length > 0 ? policy.notes : undefined
+            })
+          }
+        ],
+        isError: true
+      }
+    };
+  }
+
+  /**
+   * Estimate a query and check it against the budgets. Throws when it is over
+   * a limit; when it needs approval, returns the tool response to send instead
+   * of running it. An accepted approval token is passed on to track once the
+   * query is submitted.
+   */
+  private async checkBudget(
+    tool: string,
+    query: string,
+    database?: string,
+    workgroup?: string,
+    approve?: string
+  ): Promise<{ estimate: QueryCostEstimate; approvalToken?: string; approvalResponse?: ToolResponse }> {
+    const estimate = await this.costEstimator.estimate(query, { database, workgroup });
+    const decision = await this.budgetManager.authorize(query, { database, workgroup, approve }, estimate);
+    if (decision.status !== 'approval_required') {
+      return { estimate, approvalToken: decision.approvalToken };
+    }
+
+    return {
+      estimate,
+      approvalResponse: {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              ...decision,
+              message: `${decision.reason}. Call ${tool} again with the same query and approve set to the approval token to run it.`,
+              estimate
+            })
+          }
+        ]
+      }
+    };
+  }
+
   async start() {
+    await this.queryHistory.load();
+    await this.savedQueries.load();
+    await this.queryManager.resume(this.queryHistory.unfinished());
+
     const transport = new StdioServerTransport();
     await this.server.connect(transport);
     console.error('Athena MCP server running on stdio');
   }
+
+  async stop() {
+    this.queryManager.stop();
+    await this.queryHistory.flush();
+  }
 }
 
 // Start the server
@@ -419,12 +1105,14 @@ server.start().catch((error: unknown) => {
 });
 
 // Handle graceful shutdown
-process.on('SIGINT', () => {
+process.on('SIGINT', async () => {
   console.error('Athena MCP server shutting down');
+  await server.stop();
   process.exit(0);
 });
 
-process.on('SIGTERM', () => {
+process.on('SIGTERM', async () => {
   console.error('Athena MCP server shutting down');
+  await server.stop();
   process.exit(0);
 });
\ No newline at end of file
@@ -0,0 +1,31 @@
+import { createReadStream } from 'fs';
+import { access } from 'fs/promises';
+import { resolve, sep } from 'path';
+import { Readable } from 'stream';
+import { ObjectStoreReader, parseObjectUri } from './object-store.js';
+
+/**
+ * Reads s3://bucket/key from <root>/bucket/key
+ */
+export class LocalObjectStore implements ObjectStoreReader {
+  private root: string;
+
+  constructor(root: string) {
+    this.root = resolve(root);
+  }
+
+  async openStream(uri: string): Promise<Readable> {
+    const { bucket, key } = parseObjectUri(uri);
+    const path = resolve(this.root, bucket, key);
+    if (!path.startsWith(this.root + sep)) {
+      throw new Error(`Object path escapes the store root: ${uri}`);
+    }
+
+    try {
+      await access(path);
+    } catch {
+      throw new Error(`Failed to read ${uri}: ${path} does not exist`);
+    }
+    return createReadStream(path);
+  }
+}
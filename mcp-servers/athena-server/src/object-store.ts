@@ -0,0 +1,24 @@
+import { Readable } from 'stream';
+
+/**
+ * Where query output files are read from. S3ObjectStore reads them from S3;
+ * LocalObjectStore maps s3:// URIs onto a local directory, e.g. for tests or
+ * for result files synced to disk.
+ */
+export interface ObjectStoreReader {
+  /**
+   * Stream the object at an s3://bucket/key URI
+   */
+  openStream(uri: string): Promise<Readable>;
+}
+
+/**
+ * The bucket and key of an s3://bucket/key URI
+ */
+export function parseObjectUri(uri: string): { bucket: string; key: string } {
+  const match = uri.match(/^s3:\/\/([^/]+)\/(.+)$/);
+  if (!match) {
+    throw new Error(`Not an s3://bucket/key URI: ${uri}`);
+  }
+  return { bucket: match[1], key: match[2] };
+}
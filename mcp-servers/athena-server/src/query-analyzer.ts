@@ -0,0 +1,492 @@
+import { QueryAnalysis, QueryPredicate, StatementTarget, TableReference } from './types.js';
+
+interface Token {
+  type: 'ident' | 'string' | 'number' | 'symbol';
+  value: string;
+  quoted?: boolean;
+  // Offset just past the token in the query
+  end: number;
+}
+
+const COMPARISON_OPERATORS = new Set(['=', '<', '>', '<=', '>=', '<>', '!=']);
+
+// Functions whose arguments use FROM, e.g. EXTRACT(year FROM ts)
+const FROM_FUNCTIONS = new Set(['extract', 'substring', 'trim', 'overlay', 'position']);
+
+// Keywords that end a FROM clause or cannot be a table alias
+const CLAUSE_KEYWORDS = new Set([
+  'where', 'group', 'order', 'having', 'limit', 'offset', 'union', 'intersect', 'except', 'join', 'inner',
+  'left', 'right', 'full', 'cross', 'natural', 'on', 'using', 'window', 'fetch', 'tablesample', 'for', 'with',
+  'lateral', 'select', 'values'
+]);
+
+const AGGREGATE_FUNCTIONS = new Set([
+  'count', 'count_if', 'sum', 'avg', 'min', 'max', 'min_by', 'max_by', 'arbitrary', 'any_value', 'approx_distinct',
+  'approx_percentile', 'approx_most_frequent', 'array_agg', 'map_agg', 'multimap_agg', 'histogram', 'listagg',
+  'bool_and', 'bool_or', 'every', 'checksum', 'stddev', 'stddev_pop', 'stddev_samp', 'variance', 'var_pop',
+  'var_samp', 'corr', 'covar_pop', 'covar_samp', 'geometric_mean', 'kurtosis', 'skewness'
+]);
+
+// Keywords that start a new boolean expression, e.g. the condition of WHERE or ON
+const CONDITION_KEYWORDS = new Set([
+  'select', 'from', 'join', 'on', 'using', 'where', 'group', 'having', 'order', 'limit', 'union', 'intersect', 'except'
+]);
+
+// Words between a statement's verb and the name of the table or database it acts on
+const TARGET_MODIFIERS = new Set([
+  'or', 'replace', 'external', 'materialized', 'table', 'view', 'database', 'schema', 'if', 'not', 'exists',
+  'into', 'from', 'repair', 'create', 'columns', 'partitions', 'tblproperties', 'in', 'tables', 'views', 'formatted',
+  'extended'
+]);
+
+/**
+ * Split a query into tokens, dropping whitespace and comments
+ */
+function tokenize(query: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < query.length) {
+    const char = query[i];
+    const rest = query.slice(i);
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (rest.startsWith('--')) {
+      const end = query.indexOf('\n', i);
+      i = end === -1 ? query.length : end + 1;
+    } else if (rest.startsWith('/*')) {
+      const end = query.indexOf('*/', i + 2);
+      i = end === -1 ? query.length : end + 2;
+    } else if (char === '\'' || char === '"' || char === '`') {
+      let value = '';
+      let j = i + 1;
+      while (j < query.length) {
+        if (query[j] === char && query[j + 1] === char) {
+          value += char;
+          j += 2;
+        } else if (query[j] === char) {
+          break;
+        } else {
+          value += query[j++];
+        }
+      }
+      i = j + 1;
+      tokens.push(char === '\'' ? { type: 'string', value, end: i } : { type: 'ident', value, quoted: true, end: i });
+    } else if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(query[i + 1] ?? ''))) {
+      const match = rest.match(/^[0-9]*\.?[0-9]+(?:[eE][+-]?[0-9]+)?/)!;
+      i += match[0].length;
+      tokens.push({ type: 'number', value: match[0], end: i });
+    } else if (/[A-Za-z_]/.test(char)) {
+      const match = rest.match(/^[A-Za-z_][A-Za-z0-9_$]*/)!;
+      i += match[0].length;
+      tokens.push({ type: 'ident', value: match[0], end: i });
+    } else {
+      const operator = ['<=', '>=', '<>', '!=', '||'].find(candidate => rest.startsWith(candidate));
+      i += operator ? operator.length : 1;
+      tokens.push({ type: 'symbol', value: operator ?? char, end: i });
+    }
+  }
+  return tokens;
+}
+
+function isKeyword(token: Token | undefined, ...keywords: string[]): boolean {
+  return token?.type === 'ident' && !token.quoted && keywords.includes(token.value.toLowerCase());
+}
+
+function isSymbol(token: Token | undefined, symbol: string): boolean {
+  return token?.type === 'symbol' && token.value === symbol;
+}
+
+/**
+ * Identifier names are case-insensitive in Athena unless quoted; catalog names are lower case anyway
+ */
+function identifierName(token: Token): string {
+  return token.value.toLowerCase();
+}
+
+/**
+ * A literal at position i (a string, a number, DATE/TIMESTAMP '...' or a ?
+ * execution parameter), and the position after it
+ */
+function readLiteral(tokens: Token[], i: number): { value: string; next: number } | null {
+  const token = tokens[i];
+  if (token?.type === 'string' || token?.type === 'number' || isSymbol(token, '?')) {
+    return { value: token.value, next: i + 1 };
+  }
+  if (isKeyword(token, 'date', 'timestamp') && tokens[i + 1]?.type === 'string') {
+    return { value: tokens[i + 1].value, next: i + 2 };
+  }
+  if (isSymbol(token, '-') && tokens[i + 1]?.type === 'number') {
+    return { value: `-${tokens[i + 1].value}`, next: i + 2 };
+  }
+  return null;
+}
+
+/**
+ * A dotted name (table, db.table or catalog.db.table) at position i
+ */
+function readQualifiedName(tokens: Token[], i: number): { parts: string[]; next: number } | null {
+  if (tokens[i]?.type !== 'ident') {
+    return null;
+  }
+  const parts = [identifierName(tokens[i])];
+  let next = i + 1;
+  while (isSymbol(tokens[next], '.') && tokens[next + 1]?.type === 'ident') {
+    parts.push(identifierName(tokens[next + 1]));
+    next += 2;
+  }
+  return { parts, next };
+}
+
+/**
+ * A table alias ("[AS] alias") at position i, if there is one
+ */
+function readAlias(tokens: Token[], i: number): { alias?: string; next: number } {
+  let next = i;
+  if (isKeyword(tokens[next], 'as')) {
+    next++;
+  }
+  if (tokens[next]?.type === 'ident' && (tokens[next].quoted || !CLAUSE_KEYWORDS.has(tokens[next].value.toLowerCase()))) {
+    return { alias: identifierName(tokens[next]), next: next + 1 };
+  }
+  return { next: i };
+}
+
+/**
+ * Read a table reference after FROM, JOIN or a comma in a FROM list.
+ * Subqueries, table functions such as UNNEST and CTE names yield null.
+ */
+function readTableReference(tokens: Token[], i: number, cteNames: Set<string>): { table: TableReference | null; next: number } {
+  const name = readQualifiedName(tokens, i);
+  if (!name || isSymbol(tokens[name.next], '(') || (name.parts.length === 1 && isKeyword(tokens[i], 'unnest', 'lateral'))) {
+    return { table: null, next: i + 1 };
+  }
+
+  const { alias, next } = readAlias(tokens, name.next);
+  if (name.parts.length === 1 && cteNames.has(name.parts[0])) {
+    return { table: null, next };
+  }
+
+  const [table, database, catalog] = [...name.parts].reverse();
+  return {
+    table: { catalog, database, table, alias },
+    next
+  };
+}
+
+/**
+ * The statements in a query, split at top-level semicolons, without empty ones
+ */
+function splitStatements(tokens: Token[]): Token[][] {
+  const statements: Token[][] = [[]];
+  for (const token of tokens) {
+    if (isSymbol(token, ';')) {
+      statements.push([]);
+    } else {
+      statements[statements.length - 1].push(token);
+    }
+  }
+  return statements.filter(statement => statement.length > 0);
+}
+
+/**
+ * What a statement does, as the lower-case keyword it starts with. WITH and
+ * parenthesized queries are SELECTs; EXPLAIN ANALYZE runs its statement, so
+ * it takes that statement's type.
+ */
+function statementType(tokens: Token[]): string {
+  let i = 0;
+  while (isSymbol(tokens[i], '(')) {
+    i++;
+  }
+  const first = tokens[i];
+  if (first?.type !== 'ident' || first.quoted) {
+    return 'unknown';
+  }
+  const verb = first.value.toLowerCase();
+  if (verb === 'with') {
+    return 'select';
+  }
+  if (verb === 'explain' && isKeyword(tokens[i + 1], 'analyze')) {
+    let next = i + 2;
+    if (isKeyword(tokens[next], 'verbose')) {
+      next++;
+    }
+    return statementType(tokens.slice(next));
+  }
+  return verb === 'desc' ? 'describe' : verb;
+}
+
+/**
+ * The table or database a statement other than a query acts on, e.g. the
+ * table of INSERT INTO or DROP TABLE, or the database of CREATE DATABASE
+ */
+function statementTarget(tokens: Token[], type: string): StatementTarget | undefined {
+  if (['select', 'values', 'table', 'explain', 'unknown', 'unload'].includes(type) || isKeyword(tokens[0], 'explain')) {
+    return undefined;
+  }
+
+  let i = 1;
+  let database = false;
+  while (isKeyword(tokens[i], ...TARGET_MODIFIERS)) {
+    // SHOW TABLES IN db and SHOW VIEWS IN db name a database
+    database ||= isKeyword(tokens[i], 'database', 'schema', 'tables', 'views');
+    i++;
+  }
+  const name = readQualifiedName(tokens, i);
+  if (!name) {
+    return undefined;
+  }
+  if (database) {
+    return { database: name.parts[name.parts.length - 1] };
+  }
+  const [table, schema] = [...name.parts].reverse();
+  return { database: schema, table };
+}
+
+/**
+ * The query with a LIMIT clause added at the end, after any trailing
+ * semicolons and comments
+ */
+export function appendLimit(query: string, limit: number): string {
+  const tokens = tokenize(query);
+  while (isSymbol(tokens[tokens.length - 1], ';')) {
+    tokens.pop();
+  }
+  const end = tokens.length > 0 ? tokens[tokens.length - 1].end : 0;
+  return `${query.slice(0, end)}\nLIMIT ${limit}`;
+}
+
+/**
+ * Find the tables, columns and filter predicates a query refers to. This is a
+ * lexical analysis, not a full SQL parser: it is meant for estimating scans,
+ * and errs towards reporting more columns and fewer predicates than the
+ * query really uses. Only predicates that every matching row satisfies are
+ * reported: one ORed with another condition, at its own level or around an
+ * enclosing parenthesis, is left out.
+ */
+export function analyzeQuery(query: string): QueryAnalysis {
+  const tokens = tokenize(query);
+
+  // CTE names ("name AS (" or "name (cols) AS (") are not tables
+  const cteNames = new Set<string>();
+  tokens.forEach((token, index) => {
+    if (token.type === 'ident' && isKeyword(tokens[index + 1], 'as') && isSymbol(tokens[index + 2], '(')) {
+      cteNames.add(identifierName(token));
+    }
+  });
+
+  const tables: TableReference[] = [];
+  const identifiers = new Set<string>();
+  const starQualifiers = new Set<string>();
+  const predicates: QueryPredicate[] = [];
+  let selectsAll = false;
+  // LIMIT, FETCH, GROUP BY and aggregate functions outside subqueries and CTEs
+  let limited = false;
+  let aggregated = false;
+  // Name of the function each open parenthesis belongs to ('' for subqueries and lists)
+  const parens: string[] = [];
+  // Parenthesis depth of the FROM list being read, while commas still separate tables
+  let fromDepth: number | undefined;
+  // The boolean expression being read at each parenthesis depth, those that contain an OR,
+  // and the expressions around each predicate found
+  const conditions: number[] = [0];
+  let conditionCount = 1;
+  const ored = new Set<number>();
+  const predicateConditions: number[][] = [];
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+
+    if (isSymbol(token, '(')) {
+      const previous = tokens[i - 1];
+      parens.push(previous?.type === 'ident' && !previous.quoted ? previous.value.toLowerCase() : '');
+      continue;
+    }
+    if (isSymbol(token, ')')) {
+      parens.pop();
+      if (fromDepth !== undefined && parens.length < fromDepth) {
+        fromDepth = undefined;
+      }
+      continue;
+    }
+    const depth = parens.length;
+    conditions.length = Math.min(conditions.length, depth + 1);
+    while (conditions.length < depth + 1) {
+      conditions.push(conditionCount++);
+    }
+    if (isKeyword(token, ...CONDITION_KEYWORDS) && !isSymbol(tokens[i + 1], '(')) {
+      conditions[depth] = conditionCount++;
+    } else if (isKeyword(token, 'or')) {
+      ored.add(conditions[depth]);
+    }
+
+    if (depth === 0 && isKeyword(token, 'limit', 'fetch')) {
+      limited = true;
+    }
+    if (depth === 0 && (
+      (isKeyword(token, 'group') && isKeyword(tokens[i + 1], 'by')) ||
+      (isKeyword(token, ...AGGREGATE_FUNCTIONS) && isSymbol(tokens[i + 1], '('))
+    )) {
+      aggregated = true;
+    }
+
+    if (isSymbol(token, '*')) {
+      const previous = tokens[i - 1];
+      if (isSymbol(previous, '.') && tokens[i - 2]?.type === 'ident') {
+        starQualifiers.add(identifierName(tokens[i - 2]));
+      } else if (isKeyword(previous, 'select', 'distinct', 'all') || isSymbol(previous, ',')) {
+        selectsAll = true;
+      }
+      continue;
+    }
+
+    // TABLE t, as a statement or a set operand, reads all of t like SELECT * FROM t
+    if (isKeyword(token, 'table') && (
+      i === 0 || isSymbol(tokens[i - 1], '(') || isSymbol(tokens[i - 1], ')') || isSymbol(tokens[i - 1], ';') ||
+      isKeyword(tokens[i - 1], 'union', 'intersect', 'except', 'all', 'distinct')
+    )) {
+      const reference = readTableReference(tokens, i + 1, cteNames);
+      if (reference.table) {
+        tables.push(reference.table);
+      }
+      selectsAll = true;
+      i = reference.next - 1;
+      continue;
+    }
+
+    const inFromFunction = FROM_FUNCTIONS.has(parens[parens.length - 1]);
+    if ((isKeyword(token, 'from', 'join') && !inFromFunction) || (isSymbol(token, ',') && fromDepth === depth)) {
+      fromDepth = isKeyword(token, 'join') ? undefined : depth;
+
+      // Parenthesized relations, e.g. FROM (db.t) t or FROM (a JOIN b ON ...), are read
+      // from inside their parentheses; subqueries are left to the loop
+      let start = i + 1;
+      while (isSymbol(tokens[start], '(')) {
+        start++;
+      }
+      if (start > i + 1 && (tokens[start]?.type !== 'ident' || isKeyword(tokens[start], 'select', 'with', 'values', 'table'))) {
+        continue;
+      }
+      for (let open = i + 1; open < start; open++) {
+        parens.push('');
+      }
+
+      const reference = readTableReference(tokens, start, cteNames);
+      let next = reference.next;
+      if (reference.table) {
+        // An alias after the closing parentheses, when they close right after the table
+        let closed = 0;
+        while (closed < start - i - 1 && isSymbol(tokens[next + closed], ')')) {
+          closed++;
+        }
+        if (start > i + 1 && closed === start - i - 1 && !reference.table.alias) {
+          parens.splice(parens.length - closed, closed);
+          const outer = readAlias(tokens, next + closed);
+          reference.table.alias = outer.alias;
+          next = outer.next;
+        }
+        tables.push(reference.table);
+      }
+      i = next - 1;
+      continue;
+    }
+    if (fromDepth === depth && token.type === 'ident' && !token.quoted && CLAUSE_KEYWORDS.has(token.value.toLowerCase())) {
+      fromDepth = undefined;
+    }
+
+    if (token.type !== 'ident') {
+      continue;
+    }
+    identifiers.add(identifierName(token));
+
+    // Predicates: column op literal, column [NOT] IN (literals), column [NOT] BETWEEN literal AND literal
+    const name = readQualifiedName(tokens, i);
+    if (!name || isSymbol(tokens[name.next], '(')) {
+      continue;
+    }
+    const column = name.parts[name.parts.length - 1];
+    const qualifier = name.parts.length > 1 ? name.parts[name.parts.length - 2] : undefined;
+    let next = name.next;
+    const negated = isKeyword(tokens[next], 'not');
+    if (negated) {
+      next++;
+    }
+
+    const found = predicates.length;
+    const operator = tokens[next];
+    if (!negated && operator?.type === 'symbol' && COMPARISON_OPERATORS.has(operator.value)) {
+      const literal = readLiteral(tokens, next + 1);
+      if (literal) {
+        predicates.push({
+          column,
+          qualifier,
+          operator: operator.value === '=' ? 'eq' : ['<>', '!='].includes(operator.value) ? 'other' : 'range',
+          values: [literal.value]
+        });
+      }
+    } else if (isKeyword(operator, 'in') && isSymbol(tokens[next + 1], '(')) {
+      const values: string[] = [];
+      let j = next + 2;
+      let literal = readLiteral(tokens, j);
+      while (literal) {
+        values.push(literal.value);
+        j = literal.next;
+        if (!isSymbol(tokens[j], ',')) {
+          break;
+        }
+        literal = readLiteral(tokens, ++j);
+      }
+      if (isSymbol(tokens[j], ')') && values.length > 0) {
+        predicates.push({ column, qualifier, operator: negated ? 'other' : 'in', values });
+      }
+    } else if (isKeyword(operator, 'between')) {
+      const low = readLiteral(tokens, next + 1);
+      const high = low && isKeyword(tokens[low.next], 'and') ? readLiteral(tokens, low.next + 1) : null;
+      if (low && high) {
+        predicates.push({ column, qualifier, operator: negated ? 'other' : 'range', values: [low.value, high.value] });
+      }
+    }
+    if (predicates.length > found) {
+      predicateConditions.push(conditions.slice());
+    }
+    i = name.next - 1;
+    identifiers.add(column);
+    if (qualifier) {
+      identifiers.add(qualifier);
+    }
+  }
+
+  const statements = splitStatements(tokens);
+  const type = statementType(statements[0] || []);
+  return {
+    tables,
+    identifiers: [...identifiers],
+    selectsAll,
+    starQualifiers: [...starQualifiers],
+    predicates: predicates.filter((_, index) => !predicateConditions[index].some(condition => ored.has(condition))),
+    hasLimit: tokens.some(token => isKeyword(token, 'limit')),
+    statementType: type,
+    statementCount: statements.length,
+    target: statements[0] ? statementTarget(statements[0], type) : undefined,
+    limited,
+    aggregated
+  };
+}
+
+/**
+ * The shape of a query for comparing it with earlier ones: comments removed,
+ * literals replaced with "?", keywords and names lower-cased and whitespace
+ * normalized
+ */
+export function normalizeQuery(query: string): string {
+  return tokenize(query)
+    .map(token => {
+      if (token.type === 'string' || token.type === 'number') {
+        return '?';
+      }
+      return token.type === 'ident' ? token.value.toLowerCase() : token.value;
+    })
+    .join(' ');
+}
@@ -0,0 +1,215 @@
+import { appendFile, mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import { queryCost } from './cost-estimator.js';
+import { QueryExecution, QueryHistoryEntry, QueryHistorySearch } from './types.js';
+
+const TERMINAL_STATES = ['SUCCEEDED', 'FAILED', 'CANCELLED'];
+
+/**
+ * QueryHistory keeps a record of every query submitted through the server in
+ * a JSON Lines file, so query ids, SQL and outcomes survive restarts. Each
+ * change appends the entry's new version; the file is compacted to one line
+ * per entry when it is loaded and whenever superseded lines outnumber the
+ * live ones. Only the newest maxEntries entries are kept.
+ */
+export class QueryHistory {
+  private path: string;
+  private maxEntries: number;
+  private pricePerTB: number;
+  private entries = new Map<string, QueryHistoryEntry>();
+  private linesWritten = 0;
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(path: string, maxEntries: number, pricePerTB: number) {
+    this.path = path;
+    this.maxEntries = maxEntries;
+    this.pricePerTB = pricePerTB;
+  }
+
+  async load(): Promise<void> {
+    let content: string;
+    try {
+      content = await readFile(this.path, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return;
+      }
+      throw new Error(`Failed to load query history: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    for (const line of content.split('\n')) {
+      if (!line.trim()) {
+        continue;
+      }
+      try {
+        const entry = JSON.parse(line) as QueryHistoryEntry;
+        this.entries.set(entry.queryExecutionId, entry);
+      } catch {
+        console.error('Skipping unreadable query history line');
+      }
+    }
+    this.trim();
+    await this.enqueue(() => this.compact());
+    console.error(`Loaded ${this.entries.size} queries from ${this.path}`);
+  }
+
+  /**
+   * Record a newly submitted query
+   */
+  async recordSubmission(
+    execution: QueryExecution,
+    details: {
+      database?: string;
+      workgroup?: string;
+      submitter?: string;
+      rerunOf?: string;
+      savedQuery?: string;
+      executionParameters?: string[];
+    }
+  ): Promise<void> {
+    const entry: QueryHistoryEntry = {
+      queryExecutionId: execution.QueryExecutionId,
+      query: execution.Query,
+      database: details.database ?? execution.QueryExecutionContext?.Database,
+      workgroup: details.workgroup ?? execution.WorkGroup,
+      submitter: details.submitter,
+      rerunOf: details.rerunOf,
+      savedQuery: details.savedQuery,
+      executionParameters: details.executionParameters,
+      state: execution.Status.State,
+      submittedAt: new Date(execution.Status.SubmissionDateTime ?? Date.now()).toISOString()
+    };
+    await this.save({ ...entry, ...this.outcome(execution) });
+  }
+
+  /**
+   * Update the state, timings and cost of a recorded query. Queries that
+   * were not submitted through the server are ignored.
+   */
+  async recordExecution(execution: QueryExecution): Promise<void> {
+    const entry = this.entries.get(execution.QueryExecutionId);
+    if (!entry) {
+      return;
+    }
+    await this.save({ ...entry, ...this.outcome(execution) });
+  }
+
+  get(queryExecutionId: string): QueryHistoryEntry | undefined {
+    return this.entries.get(queryExecutionId);
+  }
+
+  /**
+   * Ids of recorded queries that had not finished when last seen
+   */
+  unfinished(): string[] {
+    return [...this.entries.values()]
+      .filter(entry => !TERMINAL_STATES.includes(entry.state))
+      .map(entry => entry.queryExecutionId);
+  }
+
+  /**
+   * Matching entries, newest first. text matches the SQL or the query id,
+   * ignoring case; since and until bound the submission time.
+   */
+  search(filter: QueryHistorySearch = {}): { total: number; entries: QueryHistoryEntry[] } {
+    const text = filter.text?.toLowerCase();
+    const since = filter.since ? Date.parse(filter.since) : undefined;
+    const until = filter.until ? Date.parse(filter.until) : undefined;
+    if (Number.isNaN(since) || Number.isNaN(until)) {
+      throw new Error('since and until must be ISO 8601 dates');
+    }
+
+    const matches = [...this.entries.values()]
+      .filter(entry => !text || entry.query.toLowerCase().includes(text) || entry.queryExecutionId.toLowerCase().includes(text))
+      .filter(entry => !filter.database || entry.database === filter.database)
+      .filter(entry => !filter.workgroup || entry.workgroup === filter.workgroup)
+      .filter(entry => !filter.submitter || entry.submitter === filter.submitter)
+      .filter(entry => !filter.states || filter.states.includes(entry.state))
+      .filter(entry => since === undefined || Date.parse(entry.submittedAt) >= since)
+      .filter(entry => until === undefined || Date.parse(entry.submittedAt) <= until)
+      .sort((a, b) => Date.parse(b.submittedAt) - Date.parse(a.submittedAt));
+
+    const offset = filter.offset ?? 0;
+    return {
+      total: matches.length,
+      entries: matches.slice(offset, filter.limit !== undefined ? offset + filter.limit : undefined)
+    };
+  }
+
+  /**
+   * Wait for pending writes
+   */
+  async flush(): Promise<void> {
+    await this.writes;
+  }
+
+  private outcome(execution: QueryExecution): Partial<QueryHistoryEntry> {
+    const { Status: status, Statistics: statistics } = execution;
+    const terminal = TERMINAL_STATES.includes(status.State);
+    const bytes = statistics?.DataScannedInBytes;
+    return {
+      state: status.State,
+      stateChangeReason: status.StateChangeReason,
+      completedAt: status.CompletionDateTime ? new Date(status.CompletionDateTime).toISOString() : undefined,
+      queueTimeMs: statistics?.QueryQueueTimeInMillis,
+      engineExecutionTimeMs: statistics?.EngineExecutionTimeInMillis,
+      totalExecutionTimeMs: statistics?.TotalExecutionTimeInMillis,
+      dataScannedInBytes: bytes,
+      // Failed queries are not billed
+      cost: terminal && bytes !== undefined && status.State !== 'FAILED' && bytes > 0 ? queryCost(bytes, this.pricePerTB) : undefined
+    };
+  }
+
+  private async save(entry: QueryHistoryEntry): Promise<void> {
+    this.entries.set(entry.queryExecutionId, entry);
+    const trimmed = this.trim();
+
+    await this.enqueue(async () => {
+      if (trimmed || this.linesWritten > 2 * Math.max(this.entries.size, 100)) {
+        await this.compact();
+      } else {
+        await mkdir(dirname(this.path), { recursive: true });
+        await appendFile(this.path, `${JSON.stringify(entry)}\n`);
+        this.linesWritten++;
+      }
+    });
+  }
+
+  /**
+   * Drop the oldest entries beyond maxEntries; true if any were dropped
+   */
+  private trim(): boolean {
+    if (this.entries.size <= this.maxEntries) {
+      return false;
+    }
+    const oldest = [...this.entries.values()]
+      .sort((a, b) => Date.parse(a.submittedAt) - Date.parse(b.submittedAt))
+      .slice(0, this.entries.size - this.maxEntries);
+    for (const entry of oldest) {
+      this.entries.delete(entry.queryExecutionId);
+    }
+    return true;
+  }
+
+  /**
+   * Rewrite the file with one line per entry, replacing it atomically
+   */
+  private async compact(): Promise<void> {
+    const temporary = `${this.path}.tmp`;
+    await mkdir(dirname(this.path), { recursive: true });
+    await writeFile(temporary, [...this.entries.values()].map(entry => `${JSON.stringify(entry)}\n`).join(''));
+    await rename(temporary, this.path);
+    this.linesWritten = this.entries.size;
+  }
+
+  /**
+   * Run file writes one at a time, in order; a failed write is logged and
+   * does not stop later ones
+   */
+  private enqueue(write: () => Promise<void>): Promise<void> {
+    this.writes = this.writes.then(write).catch(error => {
+      console.error('Failed to write query history:', error instanceof Error ? error.message : error);
+    });
+    return this.writes;
+  }
+}
@@ -1,28 +1,169 @@
 import { AthenaClientWrapper } from './athena-client.js';
-import { QueryExecution } from './types.js';
+import { QueryHistory } from './query-history.js';
+import { convertRows, isHeaderRow } from './result-converter.js';
+import { ColumnInfo, QueryExecution, QueryState, Row, RunQueryResult, TrackedQuery } from './types.js';
 
+// GetQueryResults returns at most 1000 rows per page
+const MAX_PAGE_SIZE = 1000;
+const TERMINAL_STATES: QueryState[] = ['SUCCEEDED', 'FAILED', 'CANCELLED'];
+const MIN_POLL_INTERVAL_MS = 1000;
+const MAX_POLL_INTERVAL_MS = 30000;
+
+interface QueryEntry {
+  execution: QueryExecution;
+  database?: string;
+  workgroup?: string;
+  firstSeenAt: number;
+  lastPolledAt: number;
+  polls: number;
+  pollIntervalMs: number;
+  nextPollAt?: number;
+  finishedAt?: number;
+}
+
+/**
+ * QueryManager tracks the queries submitted through it (and any other query
+ * whose status is asked for). Queries that have not finished are polled in
+ * the background, starting every second and backing off to every 30 seconds
+ * while their state does not change; finished queries are kept for a TTL and
+ * then forgotten. With a QueryHistory, submissions and state changes are also
+ * persisted there.
+ */
 export class QueryManager {
   private athenaClient: AthenaClientWrapper;
-  private runningQueries: Map<string, QueryExecution>;
+  private queries = new Map<string, QueryEntry>();
+  private ttlMs: number;
+  private pollTimer?: NodeJS.Timeout;
+  private polling = false;
+  private history?: QueryHistory;
 
-  constructor(athenaClient: AthenaClientWrapper) {
+  /**
+   * @param ttlSeconds How long finished queries stay listed
+   */
+  constructor(athenaClient: AthenaClientWrapper, ttlSeconds: number = 3600, history?: QueryHistory) {
     this.athenaClient = athenaClient;
-    this.runningQueries = new Map();
+    this.ttlMs = ttlSeconds * 1000;
+    this.history = history;
   }
 
-  async submitQuery(query: string, database?: string, workgroup?: string): Promise<string> {
-    const queryExecutionId = await this.athenaClient.executeQuery(query, database, workgroup);
+  async submitQuery(
+    query: string,
+    database?: string,
+    workgroup?: string,
+    details: { submitter?: string; rerunOf?: string; savedQuery?: string; executionParameters?: string[] } = {}
+  ): Promise<string> {
+    const queryExecutionId = await this.athenaClient.executeQuery(query, database, workgroup, details.executionParameters);
     const queryExecution = await this.athenaClient.getQueryStatus(queryExecutionId);
-    this.runningQueries.set(queryExecutionId, queryExecution);
+    await this.history?.recordSubmission(queryExecution, { database, workgroup, ...details });
+    this.record(queryExecutionId, queryExecution, { database, workgroup });
     return queryExecutionId;
   }
 
+  /**
+   * Start tracking queries again after a restart, e.g. the unfinished
+   * queries in the history
+   */
+  async resume(queryExecutionIds: string[]): Promise<void> {
+    for (const queryExecutionId of queryExecutionIds) {
+      try {
+        await this.pollQueryStatus(queryExecutionId);
+      } catch (error) {
+        console.error(`Failed to resume tracking query ${queryExecutionId}:`, error instanceof Error ? error.message : error);
+      }
+    }
+  }
+
+  /**
+   * The cached status of a finished query, or the current status of one
+   * still queued or running
+   */
   async getQueryStatus(queryExecutionId: string): Promise<QueryExecution> {
-    if (!this.runningQueries.has(queryExecutionId)) {
-      const queryExecution = await this.athenaClient.getQueryStatus(queryExecutionId);
-      this.runningQueries.set(queryExecutionId, queryExecution);
+    const entry = this.queries.get(queryExecutionId);
+    if (entry && this.isTerminal(entry.execution)) {
+      return entry.execution;
+    }
+    return this.pollQueryStatus(queryExecutionId);
+  }
+
+  /**
+   * Tracked queries, newest first, optionally only those in some states or
+   * submitted in the last maxAgeSeconds
+   */
+  listQueries(filter: { states?: QueryState[]; maxAgeSeconds?: number; limit?: number } = {}): TrackedQuery[] {
+    this.evictExpired();
+    const now = Date.now();
+    return [...this.queries.values()]
+      .map(entry => this.toTrackedQuery(entry, now))
+      .filter(query => !filter.states || filter.states.includes(query.state))
+      .filter(query => filter.maxAgeSeconds === undefined || now - Date.parse(query.submittedAt) <= filter.maxAgeSeconds * 1000)
+      .sort((a, b) => Date.parse(b.submittedAt) - Date.parse(a.submittedAt))
+      .slice(0, filter.limit);
+  }
+
+  /**
+   * Submit a query, wait for it to finish and return up to maxRows typed rows,
+   * following NextToken across pages. If it is still running after timeoutMs
+   * the result has its current state and no rows. onSubmitted is called as
+   * soon as Athena has accepted the query.
+   */
+  async runQuery(
+    query: string,
+    database?: string,
+    workgroup?: string,
+    options: { timeoutMs?: number; maxRows?: number; submitter?: string; onSubmitted?: (queryExecutionId: string) => void } = {}
+  ): Promise<RunQueryResult> {
+    const maxRows = options.maxRows ?? MAX_PAGE_SIZE;
+    const queryExecutionId = await this.submitQuery(query, database, workgroup, { submitter: options.submitter });
+    options.onSubmitted?.(queryExecutionId);
+    const execution = await this.athenaClient.waitForQueryCompletion(queryExecutionId, options.timeoutMs)
+      .catch(() => this.athenaClient.getQueryStatus(queryExecutionId));
+    this.record(queryExecutionId, execution);
+
+    const { State: state, StateChangeReason: reason } = execution.Status;
+    if (state === 'FAILED' || state === 'CANCELLED') {
+      throw new Error(`Query ${queryExecutionId} ${state.toLowerCase()}${reason ? `: ${reason}` : ''}`);
+    }
+
+    const summary = {
+      queryExecutionId,
+      state,
+      dataScannedInBytes: execution.Statistics?.DataScannedInBytes,
+      executionTimeMs: execution.Statistics?.EngineExecutionTimeInMillis
+    };
+    if (state !== 'SUCCEEDED') {
+      return { ...summary, columns: [], rows: [], rowCount: 0, truncated: false };
     }
-    return this.runningQueries.get(queryExecutionId)!;
+
+    const rows: Row[] = [];
+    let columns: ColumnInfo[] = [];
+    let nextToken: string | undefined;
+    let firstPage = true;
+    do {
+      // One extra row on the first page for the header
+      const pageSize = Math.min(MAX_PAGE_SIZE, maxRows - rows.length + (firstPage ? 1 : 0));
+      const page = await this.athenaClient.getQueryResults(queryExecutionId, pageSize, nextToken);
+      let pageRows = page.ResultSet.Rows;
+      if (firstPage) {
+        columns = page.ResultSet.ResultSetMetadata.ColumnInfo;
+        if (isHeaderRow(pageRows[0], columns)) {
+          pageRows = pageRows.slice(1);
+        }
+        firstPage = false;
+      }
+      rows.push(...pageRows);
+      nextToken = page.NextToken;
+    } while (nextToken && rows.length < maxRows);
+
+    const truncated = rows.length > maxRows || nextToken !== undefined;
+    const converted = convertRows(rows.slice(0, maxRows), columns);
+    return {
+      ...summary,
+      columns: columns.map(column => ({ name: column.Name, type: column.Type })),
+      rows: converted,
+      rowCount: converted.length,
+      truncated,
+      nextToken
+    };
   }
 
   async getQueryResults(queryExecutionId: string, maxResults?: number, nextToken?: string) {
@@ -31,13 +172,139 @@ export class QueryManager {
 
   async cancelQuery(queryExecutionId: string): Promise<void> {
     await this.athenaClient.cancelQuery(queryExecutionId);
-    this.runningQueries.delete(queryExecutionId);
+    await this.pollQueryStatus(queryExecutionId);
   }
 
-  // Optional: Method to poll query status and update runningQueries
+  /**
+   * Fetch the current status of a query and update its tracking entry
+   */
   async pollQueryStatus(queryExecutionId: string): Promise<QueryExecution> {
     const queryExecution = await this.athenaClient.getQueryStatus(queryExecutionId);
-    this.runningQueries.set(queryExecutionId, queryExecution);
+    this.record(queryExecutionId, queryExecution);
     return queryExecution;
   }
-}
\ No newline at end of file
+
+  stop(): void {
+    if (this.pollTimer) {
+      clearTimeout(this.pollTimer);
+      this.pollTimer = undefined;
+    }
+  }
+
+  private isTerminal(execution: QueryExecution): boolean {
+    return TERMINAL_STATES.includes(execution.Status.State);
+  }
+
+  private record(queryExecutionId: string, execution: QueryExecution, context: { database?: string; workgroup?: string } = {}): void {
+    const now = Date.now();
+    const entry = this.queries.get(queryExecutionId);
+    const stateChanged = !entry || entry.execution.Status.State !== execution.Status.State;
+    const updated: QueryEntry = {
+      database: context.database ?? execution.QueryExecutionContext?.Database,
+      workgroup: context.workgroup ?? execution.WorkGroup,
+      firstSeenAt: now,
+      polls: 0,
+      pollIntervalMs: MIN_POLL_INTERVAL_MS,
+      ...entry,
+      execution,
+      lastPolledAt: now
+    };
+    updated.polls++;
+
+    if (this.isTerminal(execution)) {
+      updated.finishedAt ??= now;
+      updated.nextPollAt = undefined;
+    } else {
+      // Back off while nothing changes
+      updated.pollIntervalMs = stateChanged ? MIN_POLL_INTERVAL_MS : Math.min(MAX_POLL_INTERVAL_MS, updated.pollIntervalMs * 2);
+      updated.nextPollAt = now + updated.pollIntervalMs;
+    }
+    this.queries.set(queryExecutionId, updated);
+    if (stateChanged) {
+      void this.history?.recordExecution(execution);
+    }
+
+    this.evictExpired();
+    this.schedulePoll();
+  }
+
+  /**
+   * Set the poll timer for the query due soonest. The timer does not keep
+   * the process alive.
+   */
+  private schedulePoll(): void {
+    this.stop();
+    const due = [...this.queries.values()]
+      .map(entry => entry.nextPollAt)
+      .filter((time): time is number => time !== undefined);
+    if (due.length === 0) {
+      return;
+    }
+
+    this.pollTimer = setTimeout(() => {
+      this.pollTimer = undefined;
+      void this.pollDue();
+    }, Math.max(0, Math.min(...due) - Date.now()));
+    this.pollTimer.unref();
+  }
+
+  private async pollDue(): Promise<void> {
+    if (this.polling) {
+      return;
+    }
+    this.polling = true;
+    try {
+      const now = Date.now();
+      for (const [queryExecutionId, entry] of this.queries) {
+        if (entry.nextPollAt === undefined || entry.nextPollAt > now) {
+          continue;
+        }
+        try {
+          await this.pollQueryStatus(queryExecutionId);
+        } catch (error) {
+          console.error(`Failed to poll query ${queryExecutionId}:`, error instanceof Error ? error.message : error);
+          entry.pollIntervalMs = Math.min(MAX_POLL_INTERVAL_MS, entry.pollIntervalMs * 2);
+          entry.nextPollAt = Date.now() + entry.pollIntervalMs;
+        }
+      }
+    } finally {
+      this.polling = false;
+    }
+    this.schedulePoll();
+  }
+
+  private evictExpired(): void {
+    const cutoff = Date.now() - this.ttlMs;
+    for (const [queryExecutionId, entry] of this.queries) {
+      if (entry.finishedAt !== undefined && entry.finishedAt < cutoff) {
+        this.queries.delete(queryExecutionId);
+      }
+    }
+  }
+
+  private toTrackedQuery(entry: QueryEntry, now: number): TrackedQuery {
+    const { execution } = entry;
+    const submitted = execution.Status.SubmissionDateTime ? new Date(execution.Status.SubmissionDateTime).getTime() : entry.firstSeenAt;
+    const completed = execution.Status.CompletionDateTime ? new Date(execution.Status.CompletionDateTime).getTime() : entry.finishedAt;
+
+    return {
+      queryExecutionId: execution.QueryExecutionId,
+      query: execution.Query,
+      database: entry.database,
+      workgroup: entry.workgroup,
+      state: execution.Status.State,
+      stateChangeReason: execution.Status.StateChangeReason,
+      submittedAt: new Date(submitted).toISOString(),
+      completedAt: completed !== undefined ? new Date(completed).toISOString() : undefined,
+      lastPolledAt: new Date(entry.lastPolledAt).toISOString(),
+      nextPollAt: entry.nextPollAt !== undefined ? new Date(entry.nextPollAt).toISOString() : undefined,
+      polls: entry.polls,
+      progress: {
+        elapsedMs: (completed ?? now) - submitted,
+        queueTimeMs: execution.Statistics?.QueryQueueTimeInMillis,
+        engineExecutionTimeMs: execution.Statistics?.EngineExecutionTimeInMillis,
+        dataScannedInBytes: execution.Statistics?.DataScannedInBytes
+      }
+    };
+  }
+}
@@ -0,0 +1,222 @@
+import { AthenaClientWrapper } from './athena-client.js';
+import { tableSize } from './cost-estimator.js';
+import { analyzeQuery, appendLimit } from './query-analyzer.js';
+import { PolicyResult, PolicyViolation, QueryAnalysis, TableReference } from './types.js';
+
+// Statements that only read data or metadata
+const READ_STATEMENTS = new Set(['select', 'values', 'table', 'show', 'describe', 'explain']);
+// Statements that read metadata only, so scan no partitions
+const METADATA_STATEMENTS = new Set(['show', 'describe', 'explain']);
+// Athena runs queries without a database in this one
+const DEFAULT_DATABASE = 'default';
+
+/**
+ * Parse a comma-separated list of names, lower-cased
+ */
+export function parseNameList(value: string): string[] {
+  return value.split(',').map(name => name.trim().toLowerCase()).filter(Boolean);
+}
+
+function formatGB(bytes: number): string {
+  return `${Math.round(bytes / 1024 ** 3 * 10) / 10} GB`;
+}
+
+/**
+ * QueryPolicy checks SQL before it is submitted and rewrites exploratory
+ * queries:
+ *
+ * - In read-only mode only SELECT, SHOW, DESCRIBE and EXPLAIN statements run.
+ * - Denied databases and tables cannot be read, written or described. Tables
+ *   are denied as db.table, or as a bare name in every database.
+ * - Partitioned tables at least the minimum size (or of unknown size) must be
+ *   filtered on a partition key, so a query cannot scan every partition.
+ * - A SELECT or TABLE statement that neither limits nor aggregates its rows
+ *   gets a LIMIT.
+ *
+ * Violations come back as lint messages with a suggested fix, and the query
+ * is not submitted.
+ */
+export class QueryPolicy {
+  private athenaClient: AthenaClientWrapper;
+  private readOnly: boolean;
+  private deniedDatabases: Set<string>;
+  private deniedTables: Set<string>;
+  private partitionFilterMinBytes?: number;
+  private autoLimit?: number;
+
+  /**
+   * @param options.partitionFilterMinGB Smallest table that needs a partition filter; 0 for every partitioned table
+   * @param options.autoLimit Rows to limit exploratory queries to; 0 to leave them unlimited
+   */
+  constructor(athenaClient: AthenaClientWrapper, options: {
+    readOnly: boolean;
+    deniedDatabases: string[];
+    deniedTables: string[];
+    requirePartitionFilter: boolean;
+    partitionFilterMinGB: number;
+    autoLimit: number;
+  }) {
+    this.athenaClient = athenaClient;
+    this.readOnly = options.readOnly;
+    this.deniedDatabases = new Set(options.deniedDatabases.map(name => name.toLowerCase()));
+    this.deniedTables = new Set(options.deniedTables.map(name => name.toLowerCase()));
+    this.partitionFilterMinBytes = options.requirePartitionFilter ? Math.max(0, options.partitionFilterMinGB) * 1024 ** 3 : undefined;
+    this.autoLimit = options.autoLimit > 0 ? options.autoLimit : undefined;
+  }
+
+  /**
+   * Lint a query against the policy; when it is allowed, query is the SQL to
+   * submit
+   */
+  async check(query: string, database?: string): Promise<PolicyResult> {
+    const analysis = analyzeQuery(query);
+    const violations: PolicyViolation[] = [];
+    const notes: string[] = [];
+
+    if (analysis.statementCount > 1) {
+      violations.push({
+        rule: 'single_statement',
+        message: `The query contains ${analysis.statementCount} statements; Athena runs one statement per query`,
+        suggestion: 'Submit each statement as a separate query'
+      });
+    }
+
+    if (this.readOnly && !READ_STATEMENTS.has(analysis.statementType)) {
+      violations.push({
+        rule: 'read_only',
+        message: `${analysis.statementType.toUpperCase()} statements are not allowed: the server is in read-only mode`,
+        suggestion: 'Use a SELECT to read the data; writes, DDL and UNLOAD must be run outside this server'
+      });
+    }
+
+    violations.push(...this.checkDenied(analysis, database));
+    violations.push(...(await this.checkPartitionFilters(analysis, database, notes)));
+
+    let rewritten = query;
+    let limitApplied: number | undefined;
+    if (violations.length === 0 && this.autoLimit !== undefined && ['select', 'table'].includes(analysis.statementType) &&
+      analysis.statementCount === 1 && !analysis.limited && !analysis.aggregated) {
+      rewritten = appendLimit(query, this.autoLimit);
+      limitApplied = this.autoLimit;
+      notes.push(`Added LIMIT ${this.autoLimit} because the query neither limits nor aggregates its rows; add your own LIMIT to change it`);
+    }
+
+    return {
+      allowed: violations.length === 0,
+      query: rewritten,
+      statementType: analysis.statementType,
+      violations,
+      limitApplied,
+      notes
+    };
+  }
+
+  private checkDenied(analysis: QueryAnalysis, database: string | undefined): PolicyViolation[] {
+    const violations: PolicyViolation[] = [];
+    const references: { database: string; table?: string }[] = analysis.tables.map(reference => ({
+      database: reference.database || database || DEFAULT_DATABASE,
+      table: reference.table
+    }));
+    if (analysis.target) {
+      references.push({
+        database: analysis.target.database || database || DEFAULT_DATABASE,
+        table: analysis.target.table
+      });
+    }
+
+    const reported = new Set<string>();
+    for (const reference of references) {
+      const name = reference.table ? `${reference.database}.${reference.table}` : reference.database;
+      const denied = this.deniedBy(reference.database, reference.table);
+      if (!denied || reported.has(name)) {
+        continue;
+      }
+      reported.add(name);
+      if (denied === 'denied_database') {
+        violations.push({
+          rule: 'denied_database',
+          message: `Database ${reference.database} is denied by the query policy${reference.table ? ` (referenced as ${name})` : ''}`,
+          suggestion: 'Query tables in another database'
+        });
+      } else {
+        violations.push({
+          rule: 'denied_table',
+          message: `Table ${name} is denied by the query policy`,
+          suggestion: 'Remove the table from the query or use another table with the data you need'
+        });
+      }
+    }
+    return violations;
+  }
+
+  private deniedBy(database: string, table?: string): 'denied_database' | 'denied_table' | undefined {
+    if (this.deniedDatabases.has(database.toLowerCase())) {
+      return 'denied_database';
+    }
+    if (table && (this.deniedTables.has(`${database}.${table}`.toLowerCase()) || this.deniedTables.has(table.toLowerCase()))) {
+      return 'denied_table';
+    }
+    return undefined;
+  }
+
+  /**
+   * Partitioned tables that are large, or whose size is unknown, and that the
+   * query reads without a filter on any partition key
+   */
+  private async checkPartitionFilters(
+    analysis: QueryAnalysis,
+    database: string | undefined,
+    notes: string[]
+  ): Promise<PolicyViolation[]> {
+    if (this.partitionFilterMinBytes === undefined || METADATA_STATEMENTS.has(analysis.statementType)) {
+      return [];
+    }
+
+    const violations: PolicyViolation[] = [];
+    const checked = new Set<string>();
+    for (const reference of analysis.tables) {
+      const tableDatabase = reference.database || database || DEFAULT_DATABASE;
+      const name = `${tableDatabase}.${reference.table}`;
+      // Denied tables are already reported
+      if (checked.has(name) || this.deniedBy(tableDatabase, reference.table)) {
+        continue;
+      }
+      checked.add(name);
+
+      let metadata;
+      try {
+        metadata = await this.athenaClient.describeTable(tableDatabase, reference.table, reference.catalog);
+      } catch (error) {
+        notes.push(`Could not check partition filters on ${name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        continue;
+      }
+
+      const partitionKeys = metadata.PartitionKeys.map(key => key.Name.toLowerCase());
+      if (partitionKeys.length === 0 || this.filtersPartitions(analysis, reference, partitionKeys)) {
+        continue;
+      }
+      const size = tableSize(metadata)?.bytes;
+      if (size !== undefined && size < this.partitionFilterMinBytes) {
+        continue;
+      }
+
+      const key = metadata.PartitionKeys[0];
+      const example = /^(date|timestamp)/i.test(key.Type)
+        ? `${key.Name} >= DATE 'YYYY-MM-DD'`
+        : /^(dt|date|day)$/i.test(key.Name) ? `${key.Name} >= 'YYYY-MM-DD'` : `${key.Name} = '<value>'`;
+      violations.push({
+        rule: 'partition_filter',
+        message: `${name} is partitioned by ${partitionKeys.join(', ')} and ${size !== undefined ? `holds ${formatGB(size)}` : 'has no size statistics'}, but the query does not filter on a partition key, so it would scan every partition`,
+        suggestion: `Add a WHERE condition comparing a partition key with literal values, e.g. ${example} (=, IN, BETWEEN, <, >), ANDed with the rest of the WHERE clause; conditions that wrap the key in a function or are ORed with others do not count`
+      });
+    }
+    return violations;
+  }
+
+  private filtersPartitions(analysis: QueryAnalysis, reference: TableReference, partitionKeys: string[]): boolean {
+    return analysis.predicates.some(predicate => (
+      partitionKeys.includes(predicate.column) && predicate.operator !== 'other' &&
+      (!predicate.qualifier || predicate.qualifier === reference.table || predicate.qualifier === reference.alias)
+    ));
+  }
+}
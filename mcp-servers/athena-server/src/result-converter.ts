@@ -0,0 +1,141 @@
+import { ColumnInfo, Row } from './types.js';
+
+/**
+ * Split the body of an Athena array, map or row literal ("a, [b, c], d") at
+ * its top-level commas
+ */
+function splitTopLevel(body: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < body.length; i++) {
+    const char = body[i];
+    if (char === '[' || char === '{') {
+      depth++;
+    } else if (char === ']' || char === '}') {
+      depth--;
+    } else if (char === ',' && depth === 0) {
+      parts.push(body.slice(start, i).trim());
+      start = i + 1;
+    }
+  }
+  if (body.trim().length > 0) {
+    parts.push(body.slice(start).trim());
+  }
+  return parts;
+}
+
+/**
+ * Athena renders arrays as [a, b] and maps and rows as {k=v, ...} with
+ * unquoted strings, so element types are inferred from their text. Strings
+ * that themselves contain ", " or "=" cannot be told apart from separators.
+ */
+function parseNested(text: string): any {
+  if (text === 'null') {
+    return null;
+  }
+  if (text === 'true' || text === 'false') {
+    return text === 'true';
+  }
+  if (/^-?\d+(\.\d+)?([eE][+-]?\d+)?$/.test(text) && Number.isFinite(Number(text))) {
+    const number = Number(text);
+    return Number.isSafeInteger(number) || !Number.isInteger(number) ? number : text;
+  }
+  if (text.startsWith('[') && text.endsWith(']')) {
+    return splitTopLevel(text.slice(1, -1)).map(parseNested);
+  }
+  if (text.startsWith('{') && text.endsWith('}')) {
+    const entries = splitTopLevel(text.slice(1, -1));
+    if (entries.every(entry => entry.includes('='))) {
+      return Object.fromEntries(entries.map(entry => {
+        const separator = entry.indexOf('=');
+        return [entry.slice(0, separator), parseNested(entry.slice(separator + 1))];
+      }));
+    }
+  }
+  return text;
+}
+
+/**
+ * Convert a VarCharValue to a JSON value using the column's Athena type.
+ * Integers and decimals too large for a double are kept as strings so no
+ * digits are lost, as are dates, times and anything unrecognised.
+ */
+export function convertValue(value: string | undefined, type: string): any {
+  if (value === undefined) {
+    return null;
+  }
+
+  const baseType = type.toLowerCase().replace(/\(.*$/, '').trim();
+  if (value === '' && !['varchar', 'char', 'string', 'varbinary'].includes(baseType)) {
+    return null;
+  }
+  switch (baseType) {
+    case 'tinyint':
+    case 'smallint':
+    case 'integer':
+    case 'int':
+    case 'bigint': {
+      const number = Number(value);
+      return Number.isSafeInteger(number) ? number : value;
+    }
+    case 'double':
+    case 'float':
+    case 'real': {
+      const number = Number(value);
+      return Number.isFinite(number) ? number : value;
+    }
+    case 'decimal': {
+      const digits = value.replace(/^-/, '').replace('.', '').replace(/^0+/, '');
+      return digits.length <= 15 && Number.isFinite(Number(value)) ? Number(value) : value;
+    }
+    case 'boolean':
+      return value === 'true';
+    case 'timestamp':
+      return /^\d{4}-\d{2}-\d{2} \d/.test(value) ? value.replace(' ', 'T') : value;
+    case 'json':
+      try {
+        return JSON.parse(value);
+      } catch {
+        return value;
+      }
+    case 'array':
+    case 'map':
+    case 'row':
+      return parseNested(value.trim());
+    default:
+      return value;
+  }
+}
+
+/**
+ * Athena repeats the column names as the first row of the first page of a
+ * SELECT's results (but not for DDL or EXPLAIN)
+ */
+export function isHeaderRow(row: Row | undefined, columns: ColumnInfo[]): boolean {
+  return row !== undefined && row.Data.length === columns.length &&
+    row.Data.every((data, index) => data.VarCharValue === columns[index].Name);
+}
+
+/**
+ * Object keys for the columns; repeated names get a numeric suffix
+ */
+export function columnKeys(columns: ColumnInfo[]): string[] {
+  const seen = new Map<string, number>();
+  return columns.map(column => {
+    const count = (seen.get(column.Name) || 0) + 1;
+    seen.set(column.Name, count);
+    return count === 1 ? column.Name : `${column.Name}_${count}`;
+  });
+}
+
+/**
+ * Convert result rows to objects keyed by column name, with typed values
+ */
+export function convertRows(rows: Row[], columns: ColumnInfo[]): Record<string, any>[] {
+  const keys = columnKeys(columns);
+  return rows.map(row => Object.fromEntries(columns.map((column, index) => [
+    keys[index],
+    convertValue(row.Data[index]?.VarCharValue, column.Type)
+  ])));
+}
@@ -0,0 +1,198 @@
+import { createWriteStream, WriteStream } from 'fs';
+import { mkdir } from 'fs/promises';
+import { once } from 'events';
+import { resolve, sep } from 'path';
+import { AthenaClientWrapper } from './athena-client.js';
+import { parseCsv } from './csv-parser.js';
+import { ObjectStoreReader } from './object-store.js';
+import { columnKeys, convertValue } from './result-converter.js';
+import { ColumnarChunk, ColumnInfo, StreamResultsOptions, StreamResultsSummary } from './types.js';
+
+// A fixed-size sample is held in memory until the last row has been read
+export const MAX_SAMPLE_SIZE = 100000;
+
+interface SampledRow {
+  index: number;
+  values: (string | undefined)[];
+}
+
+/**
+ * Deterministic random numbers in [0, 1) for a seed (mulberry32)
+ */
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * ResultStreamer reads a query's output CSV straight from its
+ * ResultConfiguration.OutputLocation instead of paging through
+ * GetQueryResults, so result sets of any size can be processed in one pass
+ * with constant memory. Rows can be projected to some columns and sampled
+ * (a fraction of rows, or a fixed-size uniform sample), and are converted to
+ * typed values and written as JSON Lines, either one object per row or one
+ * columnar chunk of rows per line.
+ */
+export class ResultStreamer {
+  private athenaClient: AthenaClientWrapper;
+  private objectStore: ObjectStoreReader;
+  private exportDir: string;
+
+  /**
+   * @param exportDir Directory that outputFile names are written to
+   */
+  constructor(athenaClient: AthenaClientWrapper, objectStore: ObjectStoreReader, exportDir: string) {
+    this.athenaClient = athenaClient;
+    this.objectStore = objectStore;
+    this.exportDir = resolve(exportDir);
+  }
+
+  /**
+   * Stream the results of a succeeded query. Without an outputFile the JSON
+   * Lines are returned with the summary, so maxRows should stay small.
+   */
+  async stream(queryExecutionId: string, options: StreamResultsOptions): Promise<{ summary: StreamResultsSummary; data?: string }> {
+    const execution = await this.athenaClient.getQueryStatus(queryExecutionId);
+    if (execution.Status.State !== 'SUCCEEDED') {
+      throw new Error(`Query ${queryExecutionId} is ${execution.Status.State}; results can only be streamed once it has succeeded`);
+    }
+    const source = execution.ResultConfiguration?.OutputLocation;
+    if (!source || !source.endsWith('.csv')) {
+      throw new Error(`Query ${queryExecutionId} has no CSV output${source ? ` (${source})` : ''}; only SELECT results are written as CSV`);
+    }
+
+    const outputPath = options.outputFile ? resolve(this.exportDir, options.outputFile) : undefined;
+    if (outputPath && !outputPath.startsWith(this.exportDir + sep)) {
+      throw new Error(`outputFile must be a path inside ${this.exportDir}`);
+    }
+
+    // The column types are only in the result metadata, which one row is enough to fetch
+    const metadata = await this.athenaClient.getQueryResults(queryExecutionId, 1);
+    const columnInfo = metadata.ResultSet.ResultSetMetadata.ColumnInfo;
+
+    const rows = parseCsv(await this.objectStore.openStream(source));
+    const header = (await rows.next()).value as (string | undefined)[] | undefined;
+    if (!header) {
+      throw new Error(`Output of query ${queryExecutionId} is empty`);
+    }
+
+    const indexes = options.columns ? options.columns.map(column => header.indexOf(column)) : header.map((_name, index) => index);
+    const unknown = (options.columns || []).filter((_column, position) => indexes[position] === -1);
+    if (unknown.length > 0) {
+      await rows.return(undefined);
+      throw new Error(`Unknown column(s): ${unknown.join(', ')}. Available: ${header.join(', ')}`);
+    }
+    const columns: ColumnInfo[] = indexes.map(index => ({
+      Name: header[index] || columnInfo[index]?.Name || `_col${index}`,
+      Type: columnInfo[index]?.Type || 'varchar'
+    }));
+    const keys = columnKeys(columns);
+
+    let output: WriteStream | undefined;
+    if (outputPath) {
+      await mkdir(resolve(outputPath, '..'), { recursive: true });
+      output = createWriteStream(outputPath);
+    }
+    const lines: string[] = [];
+    const writeLine = async (line: string) => {
+      if (!output) {
+        lines.push(line);
+      } else if (!output.write(`${line}\n`)) {
+        await once(output, 'drain');
+      }
+    };
+
+    let rowsReturned = 0;
+    let chunks = 0;
+    let chunk: ColumnarChunk | undefined;
+    const flushChunk = async () => {
+      if (chunk && chunk.rowCount > 0) {
+        await writeLine(JSON.stringify(chunk));
+        chunks++;
+      }
+      chunk = undefined;
+    };
+    const emit = async (values: (string | undefined)[]) => {
+      const converted = indexes.map((index, position) => convertValue(values[index], columns[position].Type));
+      if (options.format === 'jsonl') {
+        await writeLine(JSON.stringify(Object.fromEntries(keys.map((key, position) => [key, converted[position]]))));
+      } else {
+        chunk ??= { offset: rowsReturned, rowCount: 0, columns: Object.fromEntries(keys.map(key => [key, []])) };
+        keys.forEach((key, position) => chunk!.columns[key].push(converted[position]));
+        chunk.rowCount++;
+        if (chunk.rowCount >= options.chunkSize) {
+          await flushChunk();
+        }
+      }
+      rowsReturned++;
+    };
+
+    const random = options.seed !== undefined ? seededRandom(options.seed) : Math.random;
+    const reservoir: SampledRow[] = [];
+    let rowsRead = 0;
+    let truncated = false;
+
+    try {
+      for await (const values of rows) {
+        const index = rowsRead++;
+        if (options.sampleSize !== undefined) {
+          // Reservoir sampling: every row ends up in the sample with equal probability
+          if (reservoir.length < options.sampleSize) {
+            reservoir.push({ index, values });
+          } else {
+            const slot = Math.floor(random() * (index + 1));
+            if (slot < options.sampleSize) {
+              reservoir[slot] = { index, values };
+            }
+          }
+          continue;
+        }
+        if (options.sampleRate !== undefined && random() >= options.sampleRate) {
+          continue;
+        }
+        if (options.maxRows !== undefined && rowsReturned >= options.maxRows) {
+          truncated = true;
+          break;
+        }
+        await emit(values);
+      }
+
+      reservoir.sort((a, b) => a.index - b.index);
+      for (const sampled of reservoir) {
+        if (options.maxRows !== undefined && rowsReturned >= options.maxRows) {
+          truncated = true;
+          break;
+        }
+        await emit(sampled.values);
+      }
+      await flushChunk();
+    } finally {
+      if (output) {
+        output.end();
+        await once(output, 'finish').catch(() => undefined);
+      }
+    }
+
+    return {
+      summary: {
+        queryExecutionId,
+        source,
+        format: options.format,
+        columns: columns.map((column, position) => ({ name: keys[position], type: column.Type })),
+        rowsRead,
+        rowsReturned,
+        chunks: options.format === 'columnar' ? chunks : undefined,
+        sampling: options.sampleSize !== undefined ? 'reservoir' : options.sampleRate !== undefined ? 'rate' : undefined,
+        truncated,
+        outputPath
+      },
+      data: output ? undefined : lines.join('\n')
+    };
+  }
+}
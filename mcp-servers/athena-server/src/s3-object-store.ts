@@ -0,0 +1,31 @@
+import { GetObjectCommand, S3Client } from '@aws-sdk/client-s3';
+import { Readable } from 'stream';
+import { ObjectStoreReader, parseObjectUri } from './object-store.js';
+import { AthenaConfig } from './types.js';
+
+export class S3ObjectStore implements ObjectStoreReader {
+  private client: S3Client;
+
+  constructor(config: AthenaConfig) {
+    this.client = new S3Client({
+      region: config.AWS_REGION,
+      credentials: {
+        accessKeyId: config.AWS_ACCESS_KEY_ID,
+        secretAccessKey: config.AWS_SECRET_ACCESS_KEY
+      }
+    });
+  }
+
+  async openStream(uri: string): Promise<Readable> {
+    const { bucket, key } = parseObjectUri(uri);
+    try {
+      const response = await this.client.send(new GetObjectCommand({ Bucket: bucket, Key: key }));
+      if (!(response.Body instanceof Readable)) {
+        throw new Error('Object has no readable body');
+      }
+      return response.Body;
+    } catch (error) {
+      throw new Error(`Failed to read ${uri}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
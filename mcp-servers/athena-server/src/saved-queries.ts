@@ -0,0 +1,277 @@
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import { BoundQuery, SavedQuery, SavedQueryParameter, SavedQueryParameterType } from './types.js';
+
+const NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const QUERY_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_.-]*$/;
+const PARAMETER_TYPES: SavedQueryParameterType[] = ['date', 'string', 'number', 'list'];
+const MAX_LIST_ITEMS = 1000;
+
+interface Placeholder {
+  name: string;
+  start: number;
+  end: number;
+  quoted: boolean;
+}
+
+/**
+ * The {{name}} placeholders in a query outside comments, noting those inside
+ * string literals or quoted identifiers, where a value cannot be bound
+ */
+function findPlaceholders(sql: string): Placeholder[] {
+  const placeholders: Placeholder[] = [];
+  let quote: string | undefined;
+  let i = 0;
+
+  while (i < sql.length) {
+    const rest = sql.slice(i);
+    if (!quote && rest.startsWith('--')) {
+      const end = sql.indexOf('\n', i);
+      i = end === -1 ? sql.length : end;
+      continue;
+    }
+    if (!quote && rest.startsWith('/*')) {
+      const end = sql.indexOf('*/', i + 2);
+      i = end === -1 ? sql.length : end + 2;
+      continue;
+    }
+
+    const char = sql[i];
+    if (char === '\'' || char === '"') {
+      if (!quote) {
+        quote = char;
+      } else if (quote === char) {
+        // A doubled quote is an escaped quote, not the end of the literal
+        if (sql[i + 1] === char) {
+          i += 2;
+          continue;
+        }
+        quote = undefined;
+      }
+    }
+
+    const match = rest.match(/^\{\{\s*([^}\s]*)\s*\}\}/);
+    if (match) {
+      placeholders.push({ name: match[1], start: i, end: i + match[0].length, quoted: quote !== undefined });
+      i += match[0].length;
+      continue;
+    }
+    i++;
+  }
+  return placeholders;
+}
+
+/**
+ * A value as a Presto/Trino SQL literal, validated against its type
+ */
+function renderLiteral(parameter: string, type: 'date' | 'string' | 'number', value: any): string {
+  switch (type) {
+    case 'string':
+      if (typeof value !== 'string') {
+        throw new Error(`Parameter ${parameter} must be a string`);
+      }
+      if (value.includes('\0')) {
+        throw new Error(`Parameter ${parameter} must not contain NUL characters`);
+      }
+      return `'${value.replace(/'/g, '\'\'')}'`;
+    case 'number': {
+      const number = typeof value === 'string' && /^-?\d+(\.\d+)?([eE][+-]?\d+)?$/.test(value.trim()) ? Number(value) : value;
+      if (typeof number !== 'number' || !Number.isFinite(number)) {
+        throw new Error(`Parameter ${parameter} must be a finite number`);
+      }
+      return String(number);
+    }
+    case 'date': {
+      const valid = typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) &&
+        new Date(`${value}T00:00:00Z`).toISOString().startsWith(value);
+      if (!valid) {
+        throw new Error(`Parameter ${parameter} must be a date in YYYY-MM-DD format`);
+      }
+      return `DATE '${value}'`;
+    }
+  }
+}
+
+/**
+ * The literals for a parameter's value: one for scalars, one per item for lists
+ */
+function renderValue(definition: SavedQueryParameter, value: any): string[] {
+  if (definition.type !== 'list') {
+    return [renderLiteral(definition.name, definition.type, value)];
+  }
+  if (!Array.isArray(value) || value.length === 0 || value.length > MAX_LIST_ITEMS) {
+    throw new Error(`Parameter ${definition.name} must be a list of 1 to ${MAX_LIST_ITEMS} values`);
+  }
+  return value.map(item => renderLiteral(definition.name, definition.itemType || 'string', item));
+}
+
+/**
+ * SavedQueryLibrary stores named SQL templates with typed {{name}}
+ * placeholders in a JSON file. Binding validates the values and renders each
+ * one as a SQL literal; by default the literals are passed to Athena as
+ * ExecutionParameters for ? placeholders, and for queries saved with
+ * inlineParameters (for statements that do not accept ?) they are written
+ * into the SQL itself.
+ */
+export class SavedQueryLibrary {
+  private path: string;
+  private queries = new Map<string, SavedQuery>();
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  async load(): Promise<void> {
+    try {
+      const saved = JSON.parse(await readFile(this.path, 'utf-8')) as SavedQuery[];
+      this.queries = new Map(saved.map(query => [query.name, query]));
+      console.error(`Loaded ${this.queries.size} saved queries from ${this.path}`);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw new Error(`Failed to load saved queries: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+  }
+
+  list(): SavedQuery[] {
+    return [...this.queries.values()].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  get(name: string): SavedQuery {
+    const query = this.queries.get(name);
+    if (!query) {
+      throw new Error(`Saved query not found: ${name}`);
+    }
+    return query;
+  }
+
+  async save(
+    definition: Omit<SavedQuery, 'createdAt' | 'updatedAt'>,
+    overwrite: boolean = false
+  ): Promise<SavedQuery> {
+    const existing = this.queries.get(definition.name);
+    if (existing && !overwrite) {
+      throw new Error(`Saved query ${definition.name} already exists; set overwrite to replace it`);
+    }
+    this.validate(definition);
+
+    const now = new Date().toISOString();
+    const query: SavedQuery = {
+      ...definition,
+      parameters: definition.parameters.map(parameter => ({ ...parameter, required: parameter.required ?? parameter.default === undefined })),
+      createdAt: existing?.createdAt || now,
+      updatedAt: now
+    };
+    this.queries.set(query.name, query);
+
+    try {
+      await this.persist();
+    } catch (error) {
+      if (existing) {
+        this.queries.set(existing.name, existing);
+      } else {
+        this.queries.delete(query.name);
+      }
+      throw new Error(`Failed to save query: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+    return query;
+  }
+
+  /**
+   * Bind values to a saved query's parameters. Missing optional parameters
+   * take their defaults; unknown ones are rejected.
+   */
+  bind(name: string, values: Record<string, any> = {}): BoundQuery {
+    const query = this.get(name);
+    const definitions = new Map(query.parameters.map(parameter => [parameter.name, parameter]));
+
+    const unknown = Object.keys(values).filter(key => !definitions.has(key));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown parameter(s) for ${name}: ${unknown.join(', ')}`);
+    }
+
+    const literals = new Map<string, string[]>();
+    for (const definition of query.parameters) {
+      const value = values[definition.name] ?? definition.default;
+      if (value === undefined || value === null) {
+        throw new Error(`Missing required parameter ${definition.name} (${definition.type})`);
+      }
+      literals.set(definition.name, renderValue(definition, value));
+    }
+
+    let sql = '';
+    let inlineSql = '';
+    const executionParameters: string[] = [];
+    let position = 0;
+    for (const placeholder of findPlaceholders(query.sql)) {
+      const rendered = literals.get(placeholder.name)!;
+      const before = query.sql.slice(position, placeholder.start);
+      sql += before + rendered.map(() => '?').join(', ');
+      inlineSql += before + rendered.join(', ');
+      executionParameters.push(...rendered);
+      position = placeholder.end;
+    }
+    sql += query.sql.slice(position);
+    inlineSql += query.sql.slice(position);
+
+    return query.inlineParameters || executionParameters.length === 0
+      ? { sql: inlineSql, inlineSql }
+      : { sql, executionParameters, inlineSql };
+  }
+
+  private validate(definition: Omit<SavedQuery, 'createdAt' | 'updatedAt'>): void {
+    if (!QUERY_NAME_PATTERN.test(definition.name)) {
+      throw new Error('Query name must start with a letter or digit and contain only letters, digits, _, . and -');
+    }
+    if (!definition.sql || !definition.sql.trim()) {
+      throw new Error('sql must not be empty');
+    }
+
+    const names = new Set<string>();
+    for (const parameter of definition.parameters) {
+      if (!NAME_PATTERN.test(parameter.name)) {
+        throw new Error(`Invalid parameter name: ${parameter.name}`);
+      }
+      if (names.has(parameter.name)) {
+        throw new Error(`Duplicate parameter: ${parameter.name}`);
+      }
+      names.add(parameter.name);
+      if (!PARAMETER_TYPES.includes(parameter.type)) {
+        throw new Error(`Parameter ${parameter.name} has unknown type ${parameter.type}; expected one of ${PARAMETER_TYPES.join(', ')}`);
+      }
+      if (parameter.itemType !== undefined && (parameter.type !== 'list' || !['date', 'string', 'number'].includes(parameter.itemType))) {
+        throw new Error(`Parameter ${parameter.name}: itemType applies to list parameters and must be date, string or number`);
+      }
+      if (parameter.default !== undefined) {
+        renderValue(parameter, parameter.default);
+      }
+    }
+
+    const placeholders = findPlaceholders(definition.sql);
+    const quoted = placeholders.filter(placeholder => placeholder.quoted);
+    if (quoted.length > 0) {
+      throw new Error(`Placeholder {{${quoted[0].name}}} is inside quotes; write it bare, values are quoted when they are bound`);
+    }
+    const undeclared = [...new Set(placeholders.map(placeholder => placeholder.name).filter(name => !names.has(name)))];
+    if (undeclared.length > 0) {
+      throw new Error(`Undeclared parameter(s) used in sql: ${undeclared.join(', ')}`);
+    }
+    const unused = [...names].filter(name => !placeholders.some(placeholder => placeholder.name === name));
+    if (unused.length > 0) {
+      throw new Error(`Declared parameter(s) not used in sql: ${unused.join(', ')}`);
+    }
+    if (!definition.inlineParameters && /\?/.test(definition.sql.replace(/'(?:[^']|'')*'/g, ''))) {
+      throw new Error('sql contains ? outside string literals, which would clash with the bound parameters; use {{name}} placeholders');
+    }
+  }
+
+  /**
+   * Write the library to a temporary file and move it into place
+   */
+  private async persist(): Promise<void> {
+    const temporary = `${this.path}.tmp`;
+    await mkdir(dirname(this.path), { recursive: true });
+    await writeFile(temporary, JSON.stringify(this.list(), null, 2));
+    await rename(temporary, this.path);
+  }
+}
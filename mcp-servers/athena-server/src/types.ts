@@ -4,6 +4,25 @@ export interface AthenaConfig {
   AWS_REGION: string;
   ATHENA_WORKGROUP: string;
   ATHENA_OUTPUT_LOCATION: string;
+  ATHENA_PRICE_PER_TB: number;
+  ATHENA_SESSION_BUDGET_USD: number;
+  ATHENA_WORKGROUP_BUDGETS_USD: Record<string, number>;
+  ATHENA_APPROVAL_THRESHOLD_USD: number;
+  ATHENA_MAX_QUERY_COST_USD: number;
+  ATHENA_RESULT_STORE: 's3' | 'local';
+  ATHENA_RESULT_STORE_ROOT: string;
+  ATHENA_EXPORT_DIR: string;
+  ATHENA_QUERY_TTL_SECONDS: number;
+  ATHENA_HISTORY_PATH: string;
+  ATHENA_HISTORY_MAX_ENTRIES: number;
+  ATHENA_SUBMITTER: string;
+  ATHENA_SAVED_QUERIES_PATH: string;
+  ATHENA_READ_ONLY: boolean;
+  ATHENA_DENIED_DATABASES: string[];
+  ATHENA_DENIED_TABLES: string[];
+  ATHENA_REQUIRE_PARTITION_FILTER: boolean;
+  ATHENA_PARTITION_FILTER_MIN_GB: number;
+  ATHENA_AUTO_LIMIT: number;
 }
 
 export interface QueryExecution {
@@ -12,6 +31,13 @@ export interface QueryExecution {
   Status: QueryExecutionStatus;
   Statistics?: QueryExecutionStatistics;
   ResultConfiguration?: QueryResultConfiguration;
+  QueryExecutionContext?: QueryExecutionContext;
+  WorkGroup?: string;
+}
+
+export interface QueryExecutionContext {
+  Database?: string;
+  Catalog?: string;
 }
 
 export interface QueryExecutionStatus {
@@ -88,8 +114,269 @@ export interface PartitionKey {
   Comment?: string;
 }
 
+export interface TableReference {
+  catalog?: string;
+  database?: string;
+  table: string;
+  alias?: string;
+}
+
+export interface QueryPredicate {
+  column: string;
+  qualifier?: string;
+  operator: 'eq' | 'in' | 'range' | 'other';
+  values: string[];
+}
+
+export interface StatementTarget {
+  database?: string;
+  table?: string;
+}
+
+export interface QueryAnalysis {
+  tables: TableReference[];
+  identifiers: string[];
+  selectsAll: boolean;
+  starQualifiers: string[];
+  predicates: QueryPredicate[];
+  hasLimit: boolean;
+  statementType: string;
+  statementCount: number;
+  target?: StatementTarget;
+  limited: boolean;
+  aggregated: boolean;
+}
+
+export interface ByteRange {
+  low: number;
+  high: number;
+}
+
+export interface TableScanEstimate {
+  database: string;
+  table: string;
+  format?: string;
+  tableBytes?: number;
+  rowCount?: number;
+  columnsRead: string[];
+  columnFraction: number;
+  partitionKeys: string[];
+  partitionFilters: string[];
+  partitionFraction: number;
+  estimatedBytes?: ByteRange;
+}
+
+export interface SimilarQueryStats {
+  matched: number;
+  sameShape: boolean;
+  minBytes: number;
+  medianBytes: number;
+  maxBytes: number;
+  medianExecutionTimeMs?: number;
+}
+
+export type EstimateBasis = 'explain' | 'history' | 'metadata' | 'default';
+
 export interface QueryCostEstimate {
   estimatedDataScanned: number;
   estimatedCost: number;
   estimatedExecutionTime: number;
-}
\ No newline at end of file
+  dataScannedRange: ByteRange;
+  costRange: { low: number; high: number };
+  confidence: 'low' | 'medium' | 'high';
+  basis: EstimateBasis;
+  tables: TableScanEstimate[];
+  /**
+   * Tables the query reads whose size is unknown: not described, or without size statistics
+   */
+  unsizedTables: string[];
+  similarQueries?: SimilarQueryStats;
+  explainBytes?: number;
+  assumptions: string[];
+}
+
+export interface BudgetSpend {
+  queries: number;
+  dataScannedBytes: number;
+  cost: number;
+  pendingQueries: number;
+  pendingCost: number;
+  limit?: number;
+  remaining?: number;
+}
+
+export interface WorkgroupBudgetSpend extends BudgetSpend {
+  workgroup: string;
+  periodStart: string;
+}
+
+export interface BudgetStatus {
+  pricePerTB: number;
+  approvalThreshold: number;
+  maxQueryCost?: number;
+  session: BudgetSpend & { startedAt: string };
+  workgroups: WorkgroupBudgetSpend[];
+}
+
+export interface BudgetDecision {
+  status: 'approved' | 'approval_required';
+  checkedCost: number;
+  approvalToken?: string;
+  approvalExpiresAt?: string;
+  reason?: string;
+}
+
+export interface RunQueryResult {
+  queryExecutionId: string;
+  state: QueryExecutionStatus['State'];
+  columns: { name: string; type: string }[];
+  rows: Record<string, any>[];
+  rowCount: number;
+  truncated: boolean;
+  nextToken?: string;
+  dataScannedInBytes?: number;
+  executionTimeMs?: number;
+}
+
+export interface StreamResultsOptions {
+  columns?: string[];
+  format: 'jsonl' | 'columnar';
+  sampleRate?: number;
+  /**
+   * Rows in a uniform random sample, held in memory; at most MAX_SAMPLE_SIZE
+   */
+  sampleSize?: number;
+  seed?: number;
+  maxRows?: number;
+  chunkSize: number;
+  outputFile?: string;
+}
+
+export interface ColumnarChunk {
+  offset: number;
+  rowCount: number;
+  columns: Record<string, any[]>;
+}
+
+export interface StreamResultsSummary {
+  queryExecutionId: string;
+  source: string;
+  format: 'jsonl' | 'columnar';
+  columns: { name: string; type: string }[];
+  rowsRead: number;
+  rowsReturned: number;
+  chunks?: number;
+  sampling?: 'rate' | 'reservoir';
+  truncated: boolean;
+  outputPath?: string;
+}
+
+export type QueryState = QueryExecutionStatus['State'];
+
+export interface QueryProgress {
+  elapsedMs: number;
+  queueTimeMs?: number;
+  engineExecutionTimeMs?: number;
+  dataScannedInBytes?: number;
+}
+
+export interface TrackedQuery {
+  queryExecutionId: string;
+  query: string;
+  database?: string;
+  workgroup?: string;
+  state: QueryState;
+  stateChangeReason?: string;
+  submittedAt: string;
+  completedAt?: string;
+  lastPolledAt: string;
+  nextPollAt?: string;
+  polls: number;
+  progress: QueryProgress;
+}
+
+export interface QueryHistoryEntry {
+  queryExecutionId: string;
+  query: string;
+  database?: string;
+  workgroup?: string;
+  submitter?: string;
+  rerunOf?: string;
+  savedQuery?: string;
+  executionParameters?: string[];
+  state: QueryState;
+  stateChangeReason?: string;
+  submittedAt: string;
+  completedAt?: string;
+  queueTimeMs?: number;
+  engineExecutionTimeMs?: number;
+  totalExecutionTimeMs?: number;
+  dataScannedInBytes?: number;
+  cost?: number;
+}
+
+export interface QueryHistorySearch {
+  text?: string;
+  database?: string;
+  workgroup?: string;
+  submitter?: string;
+  states?: QueryState[];
+  since?: string;
+  until?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export type SavedQueryParameterType = 'date' | 'string' | 'number' | 'list';
+
+export interface SavedQueryParameter {
+  name: string;
+  type: SavedQueryParameterType;
+  itemType?: 'date' | 'string' | 'number';
+  required?: boolean;
+  default?: any;
+  description?: string;
+}
+
+export interface SavedQuery {
+  name: string;
+  description?: string;
+  sql: string;
+  parameters: SavedQueryParameter[];
+  database?: string;
+  workgroup?: string;
+  inlineParameters?: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface BoundQuery {
+  sql: string;
+  executionParameters?: string[];
+  inlineSql: string;
+}
+
+export type PolicyRule = 'read_only' | 'single_statement' | 'denied_database' | 'denied_table' | 'partition_filter';
+
+export interface PolicyViolation {
+  rule: PolicyRule;
+  message: string;
+  suggestion: string;
+}
+
+export interface PolicyResult {
+  allowed: boolean;
+  query: string;
+  statementType: string;
+  violations: PolicyViolation[];
+  limitApplied?: number;
+  notes: string[];
+}
+
+/**
+ * What a tool call returns to the client
+ */
+export interface ToolResponse {
+  content: { type: 'text'; text: string }[];
+  isError?: boolean;
+}
@@ -0,0 +1,266 @@
+import { createHash } from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { escapeLiteral } from 'pg';
+import { MigrationRunner } from './migration-runner.js';
+import { StorageBackend } from './storage-backend.js';
+import { BackupManifest, BackupTrigger, RestoreSummary } from './types.js';
+
+const MANIFEST_FILE = 'manifest.json';
+
+// Matches the INSERT statements written by toSql
+const SQL_INSERT_PATTERN = /^INSERT INTO (\S+) SELECT \* FROM jsonb_populate_record\(NULL::\S+, ( ?E?'.*')::jsonb\) ON CONFLICT DO NOTHING;$/;
+
+/**
+ * BackupManager writes table backups to disk with a manifest and restores
+ * them. SQL backups hold Postgres INSERT statements on either backend; they
+ * are parsed back into rows on restore, never executed.
+ */
+export class BackupManager {
+  private storage: StorageBackend;
+  private migrations: MigrationRunner;
+  private backupDir: string;
+
+  constructor(storage: StorageBackend, migrations: MigrationRunner, backupDir: string) {
+    this.storage = storage;
+    this.migrations = migrations;
+    this.backupDir = backupDir;
+  }
+
+  getBackupDirectory(): string {
+    return this.backupDir;
+  }
+
+  /**
+   * Back up tables to <backupDir>/<id>/ as JSON or SQL INSERT statements
+   */
+  async backup(tables?: string[], format: 'sql' | 'json' = 'sql', trigger: BackupTrigger = 'manual'): Promise<BackupManifest> {
+    const createdAt = new Date();
+    const id = `backup-${createdAt.toISOString().replace(/[:.]/g, '-')}`;
+    const schemaVersion = await this.migrations.currentVersion();
+
+    const available = await this.storage.getBackupTables();
+    const selected = tables ? this.orderTables(tables, available) : [...available.keys()];
+
+    const exported: { name: string; qualified: string; rows: any[] }[] = [];
+    for (const table of selected) {
+      const qualified = available.get(table)!;
+      exported.push({ name: table, qualified, rows: await this.storage.exportRows(qualified) });
+    }
+
+    const data = format === 'sql' ? this.toSql(id, createdAt, exported) : this.toJson(exported);
+
+    const directory = path.join(this.backupDir, id);
+    const file = `data.${format}`;
+    await fs.mkdir(directory, { recursive: true });
+    await fs.writeFile(path.join(directory, file), data.content, 'utf-8');
+
+    const manifest: BackupManifest = {
+      id,
+      created_at: createdAt.toISOString(),
+      trigger,
+      format,
+      schema_version: schemaVersion,
+      file,
+      checksum: this.checksum(data.content),
+      size_bytes: Buffer.byteLength(data.content, 'utf-8'),
+      tables: data.tables
+    };
+    await fs.writeFile(path.join(directory, MANIFEST_FILE), JSON.stringify(manifest, null, 2), 'utf-8');
+
+    return manifest;
+  }
+
+  /**
+   * Restore tables from a backup in a single transaction
+   */
+  async restore(
+    backupFile: string,
+    options: { tables?: string[]; mode: 'append' | 'replace'; dryRun: boolean }
+  ): Promise<RestoreSummary> {
+    const { manifest, directory } = await this.readManifest(backupFile);
+
+    // Older backups restore with NULL for columns added since; newer ones may not fit at all
+    const schemaVersion = await this.migrations.currentVersion();
+    if (manifest.schema_version > schemaVersion) {
+      throw new Error(`Backup ${manifest.id} has schema version ${manifest.schema_version}, newer than the database (${schemaVersion})`);
+    }
+
+    const content = await fs.readFile(this.resolveInBackupDir(path.join(directory, manifest.file)), 'utf-8');
+    if (this.checksum(content) !== manifest.checksum) {
+      throw new Error(`Checksum mismatch for backup ${manifest.id}: ${manifest.file} has been modified or is corrupt`);
+    }
+
+    const backupTables = manifest.tables.map(table => table.name);
+    const missing = (options.tables || []).filter(table => !backupTables.includes(table));
+    if (missing.length > 0) {
+      throw new Error(`Tables not in backup ${manifest.id}: ${missing.join(', ')}`);
+    }
+
+    const available = await this.storage.getBackupTables();
+    const selected = this.orderTables(options.tables || backupTables, available);
+    const rows = manifest.format === 'sql' ? this.parseSql(content, available) : JSON.parse(content);
+
+    const counts = await this.storage.restoreRows(
+      selected.map(name => ({ qualified: available.get(name)!, rows: rows[name] || [] })),
+      { replace: options.mode === 'replace', dryRun: options.dryRun }
+    );
+
+    return {
+      backup_id: manifest.id,
+      dry_run: options.dryRun,
+      mode: options.mode,
+      tables: selected.map((name, index) => ({
+        name,
+        rows_in_backup: (rows[name] || []).length,
+        rows_deleted: counts[index].deleted,
+        rows_restored: counts[index].restored
+      }))
+    };
+  }
+
+  /**
+   * List the backups in the backup directory, newest first
+   */
+  async listBackups(): Promise<BackupManifest[]> {
+    let entries: string[];
+    try {
+      entries = await fs.readdir(this.backupDir);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const manifests: BackupManifest[] = [];
+    for (const entry of entries) {
+      try {
+        const data = await fs.readFile(path.join(this.backupDir, entry, MANIFEST_FILE), 'utf-8');
+        manifests.push(JSON.parse(data));
+      } catch {
+        // Not a backup directory
+      }
+    }
+
+    return manifests.sort((a, b) => b.created_at.localeCompare(a.created_at));
+  }
+
+  /**
+   * Remove a backup directory
+   */
+  async deleteBackup(backupId: string): Promise<void> {
+    if (!/^[A-Za-z0-9_-]+$/.test(backupId)) {
+      throw new Error(`Invalid backup ID: ${backupId}`);
+    }
+    await fs.rm(path.join(this.backupDir, backupId), { recursive: true, force: true });
+  }
+
+  /**
+   * Resolve a backup ID, backup directory or manifest path and load its manifest.
+   * Relative paths are taken from the backup directory, and paths outside it are rejected.
+   */
+  async readManifest(backupFile: string): Promise<{ manifest: BackupManifest; directory: string }> {
+    const manifestPath = this.resolveInBackupDir(path.basename(backupFile) === MANIFEST_FILE
+      ? backupFile
+      : path.join(backupFile, MANIFEST_FILE));
+
+    let manifest: BackupManifest;
+    try {
+      manifest = JSON.parse(await fs.readFile(manifestPath, 'utf-8'));
+    } catch (error) {
+      throw new Error(`Failed to read backup manifest ${manifestPath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    return { manifest, directory: path.dirname(manifestPath) };
+  }
+
+  private resolveInBackupDir(file: string): string {
+    const root = path.resolve(this.backupDir);
+    const resolved = path.resolve(root, file);
+    const relative = path.relative(root, resolved);
+    if (relative === '' || relative.startsWith('..') || path.isAbsolute(relative)) {
+      throw new Error(`Backup path is outside the backup directory ${root}: ${file}`);
+    }
+    return resolved;
+  }
+
+  /**
+   * Validate requested tables and put them in dependency order
+   */
+  private orderTables(tables: string[], available: Map<string, string>): string[] {
+    const unknown = tables.filter(table => !available.has(table));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown tables: ${unknown.join(', ')}`);
+    }
+    return [...available.keys()].filter(table => tables.includes(table));
+  }
+
+  private toJson(exported: { name: string; rows: any[] }[]): { content: string; tables: BackupManifest['tables'] } {
+    const data: Record<string, any[]> = {};
+    for (const table of exported) {
+      data[table.name] = table.rows;
+    }
+    return {
+      content: JSON.stringify(data, null, 2),
+      tables: exported.map(table => ({ name: table.name, rows: table.rows.length }))
+    };
+  }
+
+  private toSql(
+    id: string,
+    createdAt: Date,
+    exported: { name: string; qualified: string; rows: any[] }[]
+  ): { content: string; tables: BackupManifest['tables'] } {
+    const lines = [`-- Backup ${id} created ${createdAt.toISOString()}`];
+    for (const table of exported) {
+      lines.push('', `-- Table: ${table.name} (${table.rows.length} rows)`);
+      for (const row of table.rows) {
+        lines.push(
+          `INSERT INTO ${table.qualified} SELECT * FROM jsonb_populate_record(NULL::${table.qualified}, ` +
+          `${escapeLiteral(JSON.stringify(row))}::jsonb) ON CONFLICT DO NOTHING;`
+        );
+      }
+    }
+    return {
+      content: lines.join('\n') + '\n',
+      tables: exported.map(table => ({ name: table.name, rows: table.rows.length }))
+    };
+  }
+
+  /**
+   * Read the rows back out of a SQL backup without executing its statements
+   */
+  private parseSql(content: string, available: Map<string, string>): Record<string, any[]> {
+    const tablesByQualified = new Map([...available.entries()].map(([name, qualified]) => [qualified, name]));
+    const rows: Record<string, any[]> = {};
+
+    for (const line of content.split('\n')) {
+      if (line === '' || line.startsWith('--')) continue;
+
+      const match = line.match(SQL_INSERT_PATTERN);
+      const table = match ? tablesByQualified.get(match[1]) : undefined;
+      if (!match || !table) {
+        throw new Error(`Unexpected statement in SQL backup: ${line.slice(0, 80)}`);
+      }
+
+      (rows[table] ||= []).push(JSON.parse(this.unescapeLiteral(match[2])));
+    }
+
+    return rows;
+  }
+
+  private unescapeLiteral(literal: string): string {
+    const trimmed = literal.trim();
+    const hasBackslashes = trimmed.startsWith('E');
+    let value = trimmed.slice(hasBackslashes ? 2 : 1, -1).replace(/''/g, "'");
+    if (hasBackslashes) {
+      value = value.replace(/\\\\/g, '\\');
+    }
+    return value;
+  }
+
+  private checksum(content: string): string {
+    return `sha256:${createHash('sha256').update(content, 'utf-8').digest('hex')}`;
+  }
+}
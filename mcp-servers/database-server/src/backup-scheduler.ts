@@ -0,0 +1,162 @@
+import cron from 'node-cron';
+import { BackupManager } from './backup-manager.js';
+import { StorageBackend } from './storage-backend.js';
+import { BackupManifest, BackupRun, BackupStatus, BackupTrigger } from './types.js';
+
+/**
+ * BackupScheduler runs backups on the BACKUP_SCHEDULE cron expression,
+ * records every run in backup_runs and prunes scheduled backups that fall
+ * outside the daily/weekly retention policy.
+ */
+export class BackupScheduler {
+  private storage: StorageBackend;
+  private backupManager: BackupManager;
+  private schedule: string;
+  private retention: { daily: number; weekly: number };
+  private task?: cron.ScheduledTask;
+  private running = false;
+
+  constructor(
+    storage: StorageBackend,
+    backupManager: BackupManager,
+    schedule: string,
+    retention: { daily: number; weekly: number }
+  ) {
+    this.storage = storage;
+    this.backupManager = backupManager;
+    this.schedule = schedule;
+    this.retention = retention;
+  }
+
+  /**
+   * Start the cron task. Set BACKUP_SCHEDULE to "off" to disable scheduled backups.
+   */
+  async start(): Promise<void> {
+    if (!this.isEnabled()) {
+      console.error('Scheduled backups disabled');
+      return;
+    }
+
+    if (!cron.validate(this.schedule)) {
+      throw new Error(`Invalid BACKUP_SCHEDULE cron expression: ${this.schedule}`);
+    }
+
+    this.task = cron.schedule(this.schedule, async () => {
+      if (this.running) {
+        console.error('Skipping scheduled backup: previous backup still running');
+        return;
+      }
+      try {
+        await this.runBackup({ trigger: 'scheduled' });
+        await this.applyRetention();
+      } catch (error) {
+        console.error('Scheduled backup failed:', error);
+      }
+    });
+  }
+
+  stop(): void {
+    this.task?.stop();
+    this.task = undefined;
+  }
+
+  isEnabled(): boolean {
+    return this.schedule !== 'off';
+  }
+
+  /**
+   * Run a backup and record it in backup_runs
+   */
+  async runBackup(options: { tables?: string[]; format?: 'sql' | 'json'; trigger: BackupTrigger }): Promise<BackupManifest> {
+    const format = options.format || 'sql';
+    const runId = await this.storage.startBackupRun(options.trigger, format);
+
+    this.running = true;
+    try {
+      const manifest = await this.backupManager.backup(options.tables, format, options.trigger);
+
+      await this.storage.finishBackupRun(runId, { manifest });
+
+      return manifest;
+    } catch (error) {
+      await this.storage.finishBackupRun(runId, { error: error instanceof Error ? error.message : 'Unknown error' });
+      throw error;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Delete scheduled backups that are neither the newest of one of the last
+   * N days nor the newest of one of the last M weeks. Manual backups are kept.
+   */
+  async applyRetention(): Promise<string[]> {
+    const scheduled = (await this.backupManager.listBackups()).filter(backup => backup.trigger === 'scheduled');
+
+    const keep = new Set<string>();
+    const days = new Set<string>();
+    const weeks = new Set<string>();
+    for (const backup of scheduled) {
+      const day = backup.created_at.slice(0, 10);
+      if (!days.has(day) && days.size < this.retention.daily) {
+        days.add(day);
+        keep.add(backup.id);
+      }
+      const week = this.isoWeek(new Date(backup.created_at));
+      if (!weeks.has(week) && weeks.size < this.retention.weekly) {
+        weeks.add(week);
+        keep.add(backup.id);
+      }
+    }
+
+    const expired = scheduled.filter(backup => !keep.has(backup.id)).map(backup => backup.id);
+    for (const backupId of expired) {
+      await this.backupManager.deleteBackup(backupId);
+    }
+
+    if (expired.length > 0) {
+      await this.storage.markBackupsPruned(expired);
+    }
+
+    return expired;
+  }
+
+  /**
+   * Backups on disk, newest first, with the run that created them
+   */
+  async listBackups(limit: number = 20): Promise<(BackupManifest & { run?: BackupRun })[]> {
+    const manifests = (await this.backupManager.listBackups()).slice(0, limit);
+    if (manifests.length === 0) {
+      return [];
+    }
+
+    const runs = new Map((await this.storage.getBackupRuns(manifests.map(m => m.id))).map(run => [run.backup_id, run]));
+
+    return manifests.map(manifest => ({ ...manifest, run: runs.get(manifest.id) }));
+  }
+
+  async getRun(backupId: string): Promise<BackupRun | null> {
+    return this.storage.findBackupRun({ id: backupId });
+  }
+
+  async getStatus(): Promise<BackupStatus> {
+    return {
+      schedule: this.schedule,
+      enabled: this.isEnabled(),
+      running: this.running,
+      retention: this.retention,
+      backup_directory: this.backupManager.getBackupDirectory(),
+      last_run: await this.storage.findBackupRun({}) ?? undefined,
+      last_success: await this.storage.findBackupRun({ status: 'completed' }) ?? undefined
+    };
+  }
+
+  private isoWeek(date: Date): string {
+    const day = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+    const weekday = day.getUTCDay() || 7;
+    day.setUTCDate(day.getUTCDate() + 4 - weekday);
+    const yearStart = new Date(Date.UTC(day.getUTCFullYear(), 0, 1));
+    const week = Math.ceil(((day.getTime() - yearStart.getTime()) / 86400000 + 1) / 7);
+    return `${day.getUTCFullYear()}-W${String(week).padStart(2, '0')}`;
+  }
+}
@@ -0,0 +1,277 @@
+import { DataFilter, DataQuery } from './types.js';
+
+const COLUMN_ORDERINGS = ['created_at', 'expires_at', 'key'];
+
+export interface DataQueryClauses {
+  where: string;
+  orderBy: string;
+  // Parameters of the WHERE clause, then those of the ORDER BY clause
+  params: any[];
+  orderParams: any[];
+}
+
+/**
+ * Translate a structured data query into parameterized WHERE and ORDER BY
+ * clauses for a key/value table. Paths and values are always passed as
+ * parameters; only fixed SQL fragments are interpolated.
+ */
+export function buildDataQueryClauses(query: DataQuery): DataQueryClauses {
+  const params: any[] = [];
+  const conditions: string[] = [];
+  const param = (value: any) => {
+    params.push(value);
+    return `$${params.length}`;
+  };
+
+  if (!query.includeExpired) {
+    conditions.push('(expires_at IS NULL OR expires_at > CURRENT_TIMESTAMP)');
+  }
+  if (query.keyPrefix) {
+    conditions.push(`starts_with(key, ${param(query.keyPrefix)})`);
+  }
+  if (query.createdAfter) {
+    conditions.push(`created_at >= ${param(query.createdAfter)}::timestamptz`);
+  }
+  if (query.createdBefore) {
+    conditions.push(`created_at < ${param(query.createdBefore)}::timestamptz`);
+  }
+  for (const filter of query.filters) {
+    conditions.push(buildFilterCondition(filter, param));
+  }
+
+  const whereParamCount = params.length;
+  const orderExpression = buildOrderExpression(query, path => `data #> ${param(path)}::text[]`);
+  const direction = query.order === 'asc' ? 'ASC' : 'DESC';
+
+  return {
+    where: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '',
+    orderBy: `ORDER BY ${orderExpression} ${direction} NULLS LAST, key ${direction}`,
+    params: params.slice(0, whereParamCount),
+    orderParams: params.slice(whereParamCount)
+  };
+}
+
+/**
+ * SQLite version of buildDataQueryClauses, for SqliteStorage. Timestamps are
+ * ISO strings, so `now` is passed in rather than read from the database.
+ * Equality and containment use the jsonb_eq and jsonb_contains functions
+ * registered by SqliteStorage so that they follow jsonb semantics instead of
+ * comparing JSON text.
+ */
+export function buildSqliteDataQueryClauses(query: DataQuery, now: string): DataQueryClauses {
+  const params: any[] = [];
+  const conditions: string[] = [];
+  const param = (value: any) => {
+    params.push(value);
+    return '?';
+  };
+
+  if (!query.includeExpired) {
+    conditions.push(`(expires_at IS NULL OR expires_at > ${param(now)})`);
+  }
+  if (query.keyPrefix) {
+    conditions.push(`instr(key, ${param(query.keyPrefix)}) = 1`);
+  }
+  if (query.createdAfter) {
+    conditions.push(`created_at >= ${param(new Date(query.createdAfter).toISOString())}`);
+  }
+  if (query.createdBefore) {
+    conditions.push(`created_at < ${param(new Date(query.createdBefore).toISOString())}`);
+  }
+  for (const filter of query.filters) {
+    conditions.push(buildSqliteFilterCondition(filter, param));
+  }
+
+  const whereParamCount = params.length;
+  const orderExpression = buildOrderExpression(query, path => `json_extract(data, ${param(toSqliteJsonPath(path))})`);
+  const direction = query.order === 'asc' ? 'ASC' : 'DESC';
+
+  return {
+    where: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '',
+    orderBy: `ORDER BY ${orderExpression} ${direction} NULLS LAST, key ${direction}`,
+    params: params.slice(0, whereParamCount),
+    orderParams: params.slice(whereParamCount)
+  };
+}
+
+/**
+ * jsonb equality: object key order and number formatting do not matter
+ */
+export function jsonEquals(left: any, right: any): boolean {
+  if (Array.isArray(left) || Array.isArray(right)) {
+    return Array.isArray(left) && Array.isArray(right)
+      && left.length === right.length
+      && left.every((value, index) => jsonEquals(value, right[index]));
+  }
+  if (isJsonObject(left) || isJsonObject(right)) {
+    return isJsonObject(left) && isJsonObject(right)
+      && Object.keys(left).length === Object.keys(right).length
+      && Object.keys(right).every(key => key in left && jsonEquals(left[key], right[key]));
+  }
+  return left === right;
+}
+
+/**
+ * jsonb containment (@>): objects contain a subset of their keys, arrays
+ * contain any subset of their elements, and a top-level array contains a
+ * bare scalar element
+ */
+export function jsonContains(container: any, contained: any, topLevel: boolean = true): boolean {
+  if (Array.isArray(container)) {
+    if (Array.isArray(contained)) {
+      return contained.every(item => container.some(element => jsonContains(element, item, false)));
+    }
+    return topLevel && !isJsonObject(contained) && container.some(element => jsonEquals(element, contained));
+  }
+  if (isJsonObject(container)) {
+    return isJsonObject(contained)
+      && Object.keys(contained).every(key => key in container && jsonContains(container[key], contained[key], false));
+  }
+  return jsonEquals(container, contained);
+}
+
+function buildFilterCondition(filter: DataFilter, param: (value: any) => string): string {
+  const path = param(parsePath(filter.path));
+  const json = `data #> ${path}::text[]`;
+  const text = `data #>> ${path}::text[]`;
+
+  const requireValue = () => {
+    if (filter.value === undefined) {
+      throw new Error(`Filter "${filter.op}" on ${filter.path} requires a value`);
+    }
+    return filter.value;
+  };
+
+  switch (filter.op) {
+    case 'eq':
+      return `${json} = ${param(JSON.stringify(requireValue()))}::jsonb`;
+    case 'neq':
+      return `${json} IS DISTINCT FROM ${param(JSON.stringify(requireValue()))}::jsonb`;
+    case 'gt':
+    case 'gte':
+    case 'lt':
+    case 'lte': {
+      const operator = { gt: '>', gte: '>=', lt: '<', lte: '<=' }[filter.op];
+      const value = requireValue();
+      if (typeof value === 'number') {
+        // Non-numeric values never match instead of failing the cast
+        return `(CASE WHEN jsonb_typeof(${json}) = 'number' THEN (${text})::numeric END) ${operator} ${param(value)}::numeric`;
+      }
+      if (typeof value === 'string') {
+        return `${text} ${operator} ${param(value)}`;
+      }
+      throw new Error(`Filter "${filter.op}" on ${filter.path} requires a number or string value`);
+    }
+    case 'in': {
+      const values = requireValue();
+      if (!Array.isArray(values)) {
+        throw new Error(`Filter "in" on ${filter.path} requires an array value`);
+      }
+      return `${json} = ANY(${param(values.map(value => JSON.stringify(value)))}::jsonb[])`;
+    }
+    case 'contains':
+      return `${json} @> ${param(JSON.stringify(requireValue()))}::jsonb`;
+    case 'exists':
+      return `${json} IS NOT NULL`;
+    case 'like': {
+      const pattern = requireValue();
+      if (typeof pattern !== 'string') {
+        throw new Error(`Filter "like" on ${filter.path} requires a string pattern`);
+      }
+      return `${text} ILIKE ${param(pattern)}`;
+    }
+  }
+}
+
+function buildSqliteFilterCondition(filter: DataFilter, param: (value: any) => string): string {
+  const path = toSqliteJsonPath(parsePath(filter.path));
+  // JSON text of the value at the path, NULL when the path is missing
+  const json = () => `(data -> ${param(path)})`;
+  // Like Postgres #>>: strings unquoted, JSON null as NULL, everything else as JSON text
+  const text = () => `(CASE json_type(data, ${param(path)}) WHEN 'true' THEN 'true' WHEN 'false' THEN 'false' WHEN 'null' THEN NULL ELSE CAST(data ->> ${param(path)} AS TEXT) END)`;
+
+  const requireValue = () => {
+    if (filter.value === undefined) {
+      throw new Error(`Filter "${filter.op}" on ${filter.path} requires a value`);
+    }
+    return filter.value;
+  };
+
+  switch (filter.op) {
+    case 'eq':
+      return `coalesce(jsonb_eq(${json()}, ${param(JSON.stringify(requireValue()))}), 0)`;
+    case 'neq':
+      return `NOT coalesce(jsonb_eq(${json()}, ${param(JSON.stringify(requireValue()))}), 0)`;
+    case 'gt':
+    case 'gte':
+    case 'lt':
+    case 'lte': {
+      const operator = { gt: '>', gte: '>=', lt: '<', lte: '<=' }[filter.op];
+      const value = requireValue();
+      if (typeof value === 'number') {
+        // Non-numeric values never match
+        return `(CASE WHEN json_type(data, ${param(path)}) IN ('integer', 'real') THEN data ->> ${param(path)} END) ${operator} ${param(value)}`;
+      }
+      if (typeof value === 'string') {
+        return `${text()} ${operator} ${param(value)}`;
+      }
+      throw new Error(`Filter "${filter.op}" on ${filter.path} requires a number or string value`);
+    }
+    case 'in': {
+      const values = requireValue();
+      if (!Array.isArray(values)) {
+        throw new Error(`Filter "in" on ${filter.path} requires an array value`);
+      }
+      if (values.length === 0) {
+        return '0';
+      }
+      return `(${values.map(value => `coalesce(jsonb_eq(${json()}, ${param(JSON.stringify(value))}), 0)`).join(' OR ')})`;
+    }
+    case 'contains':
+      return `coalesce(jsonb_contains(${json()}, ${param(JSON.stringify(requireValue()))}), 0)`;
+    case 'exists':
+      return `${json()} IS NOT NULL`;
+    case 'like': {
+      const pattern = requireValue();
+      if (typeof pattern !== 'string') {
+        throw new Error(`Filter "like" on ${filter.path} requires a string pattern`);
+      }
+      // SQLite LIKE is case-insensitive for ASCII, like ILIKE; backslash escapes as in Postgres
+      return `${text()} LIKE ${param(pattern)} ESCAPE '\\'`;
+    }
+  }
+}
+
+function buildOrderExpression(query: DataQuery, dataPath: (path: string[]) => string): string {
+  if (COLUMN_ORDERINGS.includes(query.orderBy)) {
+    return query.orderBy;
+  }
+  if (query.orderBy.startsWith('data.')) {
+    return dataPath(parsePath(query.orderBy.slice('data.'.length)));
+  }
+  throw new Error(`Invalid orderBy "${query.orderBy}": use created_at, expires_at, key or data.<path>`);
+}
+
+/**
+ * SQLite JSON path for path segments. Numeric segments index arrays.
+ */
+function toSqliteJsonPath(segments: string[]): string {
+  return '$' + segments.map(segment => {
+    if (segment.includes('"')) {
+      throw new Error(`Invalid data path segment: ${segment}`);
+    }
+    return /^\d+$/.test(segment) ? `[${segment}]` : `."${segment}"`;
+  }).join('');
+}
+
+function isJsonObject(value: any): value is Record<string, any> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function parsePath(path: string): string[] {
+  const segments = path.split('.');
+  if (segments.some(segment => segment === '')) {
+    throw new Error(`Invalid data path: ${path}`);
+  }
+  return segments;
+}
@@ -5,25 +5,87 @@ import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
 import {
   CallToolRequestSchema,
   ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
   ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
+import path from 'path';
+import { fileURLToPath } from 'url';
 import { PostgresClient } from './postgres-client.js';
-import { RedisClient } from './redis-client.js';
+import { RedisClient, assertInvalidationPattern, namespacedKey, namespacePattern } from './redis-client.js';
+import { SqliteStorage } from './sqlite-storage.js';
+import { MemoryCache } from './memory-cache.js';
+import { CacheBackend, StorageBackend } from './storage-backend.js';
+import { JobManager } from './job-manager.js';
+import { TableRegistry } from './table-registry.js';
+import { BackupManager } from './backup-manager.js';
+import { BackupScheduler } from './backup-scheduler.js';
+import { TieredStore } from './tiered-store.js';
+import { QueryResultCache } from './query-cache.js';
+import { MigrationRunner } from './migration-runner.js';
+import { SchemaInspector } from './schema-inspector.js';
+import { RetentionManager } from './retention-manager.js';
+import { SubscriptionManager, parseChangeUri } from './subscription-manager.js';
 import {
   DatabaseConfigSchema,
   StoreDataSchema,
   RetrieveDataSchema,
+  QueryDataSchema,
+  ExecuteReadOnlySqlSchema,
+  CacheQueryResultSchema,
+  LookupQueryResultSchema,
   UpdateCacheSchema,
+  StoreManySchema,
+  RetrieveManySchema,
+  DeleteManySchema,
+  GetHistorySchema,
+  RevertDataSchema,
   DeleteDataSchema,
+  ListCacheKeysSchema,
+  InvalidatePatternSchema,
   BackupDataSchema,
   RestoreDataSchema,
+  ListBackupsSchema,
+  GetBackupStatusSchema,
+  CreateTableSchema,
+  DropTableSchema,
+  MigrateSchema,
+  RollbackSchema,
+  CreateJobSchema,
+  GetJobSchema,
+  UpdateJobStatusSchema,
+  AppendAnalysisResultSchema,
+  RegisterReportSchema,
+  ListJobsSchema,
+  SetRetentionPolicySchema,
+  DeleteRetentionPolicySchema,
+  ApplyRetentionSchema,
+  PurgeUserDataSchema,
+  GetPurgeLogSchema,
+  SubscribeSchema,
+  UnsubscribeSchema,
+  BulkReadResult,
+  BulkWriteResult,
+  HealthReport,
 } from './types.js';
 
 class DatabaseServer {
   private server: Server;
-  private postgres: PostgresClient;
-  private redis: RedisClient;
+  private storage: StorageBackend;
+  private cache: CacheBackend;
+  private tieredStore: TieredStore;
+  private subscriptions: SubscriptionManager;
+  private queryCache: QueryResultCache;
+  private jobManager: JobManager;
+  private migrationRunner: MigrationRunner;
+  private schemaInspector: SchemaInspector;
+  private backupManager: BackupManager;
+  private backupScheduler: BackupScheduler;
+  private retentionManager: RetentionManager;
+  private migrateOnStart: boolean;
+  private readOnlySqlLimits: { maxRows: number; timeoutMs: number };
 
   constructor() {
     this.server = new Server(
@@ -33,7 +95,7 @@ class DatabaseServer {
       },
       {
         capabilities: {
-          resources: {},
+          resources: { subscribe: true },
           tools: {},
         },
       }
@@ -45,296 +107,1566 @@ class DatabaseServer {
       REDIS_URL: process.env.REDIS_URL || 'redis://localhost:6379',
       DB_POOL_SIZE: parseInt(process.env.DB_POOL_SIZE || '10'),
       CACHE_DEFAULT_TTL: parseInt(process.env.CACHE_DEFAULT_TTL || '3600'),
-      BACKUP_SCHEDULE: process.env.BACKUP_SCHEDULE || '0 2 * * *'
+      CACHE_MODE: process.env.CACHE_MODE || 'tiered',
+      STORAGE_BACKEND: process.env.STORAGE_BACKEND || 'postgres',
+      SQLITE_PATH: process.env.SQLITE_PATH || './data/database-server.sqlite',
+      CACHE_BACKEND: process.env.CACHE_BACKEND || 'redis',
+      MEMORY_CACHE_MAX_KEYS: parseInt(process.env.MEMORY_CACHE_MAX_KEYS || '10000'),
+      DB_RETRY_ATTEMPTS: parseInt(process.env.DB_RETRY_ATTEMPTS || '5'),
+      DB_RETRY_BASE_DELAY_MS: parseInt(process.env.DB_RETRY_BASE_DELAY_MS || '200'),
+      DB_RETRY_MAX_DELAY_MS: parseInt(process.env.DB_RETRY_MAX_DELAY_MS || '10000'),
+      CIRCUIT_BREAKER_THRESHOLD: parseInt(process.env.CIRCUIT_BREAKER_THRESHOLD || '5'),
+      CIRCUIT_BREAKER_RESET_MS: parseInt(process.env.CIRCUIT_BREAKER_RESET_MS || '30000'),
+      BACKUP_SCHEDULE: process.env.BACKUP_SCHEDULE || '0 2 * * *',
+      BACKUP_DIRECTORY: process.env.BACKUP_DIRECTORY || './backups',
+      BACKUP_RETENTION_DAILY: parseInt(process.env.BACKUP_RETENTION_DAILY || '7'),
+      BACKUP_RETENTION_WEEKLY: parseInt(process.env.BACKUP_RETENTION_WEEKLY || '4'),
+      RETENTION_SCHEDULE: process.env.RETENTION_SCHEDULE || '30 3 * * *',
+      PURGE_LOG_SECRET: process.env.PURGE_LOG_SECRET || undefined,
+      QUERY_CACHE_MAX_BYTES: parseInt(process.env.QUERY_CACHE_MAX_BYTES || String(5 * 1024 * 1024)),
+      QUERY_CACHE_TTL: parseInt(process.env.QUERY_CACHE_TTL || '3600'),
+      READONLY_SQL_TIMEOUT_MS: parseInt(process.env.READONLY_SQL_TIMEOUT_MS || '15000'),
+      READONLY_SQL_MAX_ROWS: parseInt(process.env.READONLY_SQL_MAX_ROWS || '1000'),
+      MIGRATIONS_DIR: process.env.MIGRATIONS_DIR
+        || path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..', '..', '..', 'database', 'migrations'),
+      MIGRATE_ON_START: process.env.MIGRATE_ON_START === 'true',
+      KV_SCHEMA: process.env.KV_SCHEMA || 'kv',
+      KV_TABLES: (process.env.KV_TABLES || 'cache_data').split(',').map(table => table.trim()).filter(Boolean),
+      VERSIONED_TABLES: (process.env.VERSIONED_TABLES || '').split(',').map(table => table.trim()).filter(Boolean)
     });
 
-    this.postgres = new PostgresClient(config.DATABASE_URL, config.DB_POOL_SIZE);
-    this.redis = new RedisClient(config.REDIS_URL, config.CACHE_DEFAULT_TTL);
+    const tables = new TableRegistry(config.KV_SCHEMA, config.KV_TABLES, config.VERSIONED_TABLES);
+    const resilience = {
+      retry: {
+        attempts: config.DB_RETRY_ATTEMPTS,
+        baseDelayMs: config.DB_RETRY_BASE_DELAY_MS,
+        maxDelayMs: config.DB_RETRY_MAX_DELAY_MS
+      },
+      circuitBreaker: {
+        failureThreshold: config.CIRCUIT_BREAKER_THRESHOLD,
+        resetTimeoutMs: config.CIRCUIT_BREAKER_RESET_MS
+      }
+    };
+    this.storage = config.STORAGE_BACKEND === 'sqlite'
+      ? new SqliteStorage(config.SQLITE_PATH, tables)
+      : new PostgresClient(config.DATABASE_URL, config.DB_POOL_SIZE, tables, resilience);
+    this.cache = config.CACHE_BACKEND === 'memory'
+      ? new MemoryCache(config.CACHE_DEFAULT_TTL, config.MEMORY_CACHE_MAX_KEYS)
+      : new RedisClient(config.REDIS_URL, config.CACHE_DEFAULT_TTL, resilience);
+    this.tieredStore = new TieredStore(this.storage, this.cache, config.CACHE_MODE === 'tiered', config.CACHE_DEFAULT_TTL);
+    this.subscriptions = new SubscriptionManager(this.server, this.storage);
+    this.queryCache = new QueryResultCache(this.storage, config.QUERY_CACHE_MAX_BYTES, config.QUERY_CACHE_TTL);
+    this.jobManager = new JobManager(this.storage);
+    // SQLite schemas have their own migrations, numbered independently
+    this.migrationRunner = new MigrationRunner(
+      this.storage,
+      config.STORAGE_BACKEND === 'sqlite' ? path.join(config.MIGRATIONS_DIR, 'sqlite') : config.MIGRATIONS_DIR
+    );
+    this.schemaInspector = new SchemaInspector(this.storage);
+    this.backupManager = new BackupManager(this.storage, this.migrationRunner, config.BACKUP_DIRECTORY);
+    this.backupScheduler = new BackupScheduler(this.storage, this.backupManager, config.BACKUP_SCHEDULE, {
+      daily: config.BACKUP_RETENTION_DAILY,
+      weekly: config.BACKUP_RETENTION_WEEKLY
+    });
+    this.retentionManager = new RetentionManager(this.storage, this.tieredStore, config.RETENTION_SCHEDULE, config.PURGE_LOG_SECRET);
+    this.readOnlySqlLimits = {
+      maxRows: config.READONLY_SQL_MAX_ROWS,
+      timeoutMs: config.READONLY_SQL_TIMEOUT_MS
+    };
+    this.migrateOnStart = config.MIGRATE_ON_START;
+
+    this.setupHandlers();
+  }
+
+  private setupHandlers() {
+    // List available tools
+    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
+      return {
+        tools: [
+          {
+            name: 'store_data',
+            description: 'Store data with optional TTL',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                key: { type: 'string', description: 'Unique key for the data' },
+                data: { description: 'Data to store (any type)' },
+                ttl: { type: 'number', description: 'Time to live in seconds' },
+                table: { type: 'string', description: 'Database table name' },
+                namespace: { type: 'string', description: 'Cache namespace, e.g. "job:42" (cache only)' },
+                author: { type: 'string', description: 'Who wrote this version (versioned tables)' },
+                jobId: { type: 'string', description: 'Analysis job that produced this version (versioned tables)' }
+              },
+              required: ['key', 'data']
+            }
+          },
+          {
+            name: 'retrieve_data',
+            description: 'Retrieve stored data by key, or an earlier version of it on a versioned table',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                key: { type: 'string', description: 'Key to retrieve data for' },
+                table: { type: 'string', description: 'Database table name' },
+                namespace: { type: 'string', description: 'Cache namespace, e.g. "job:42" (cache only)' },
+                version: { type: 'number', description: 'Return this version (versioned tables)' },
+                asOf: { type: 'string', description: 'Return the version current at this ISO timestamp, or nothing if the key was deleted then (versioned tables)' }
+              },
+              required: ['key']
+            }
+          },
+          {
+            name: 'store_many',
+            description: 'Store many entries in one transaction (table) or one cache batch (cache), with a result per item',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                items: {
+                  type: 'array',
+                  description: 'Entries to store (at most 1000)',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      key: { type: 'string', description: 'Unique key for the data' },
+                      data: { description: 'Data to store (any type)' },
+                      ttl: { type: 'number', description: 'Time to live in seconds' }
+                    },
+                    required: ['key', 'data']
+                  }
+                },
+                table: { type: 'string', description: 'Database table name' },
+                namespace: { type: 'string', description: 'Cache namespace, e.g. "job:42" (cache only)' },
+                atomic: { type: 'boolean', default: false, description: 'Store every item or none of them' },
+                author: { type: 'string', description: 'Who wrote these versions (versioned tables)' },
+                jobId: { type: 'string', description: 'Analysis job that produced these versions (versioned tables)' }
+              },
+              required: ['items']
+            }
+          },
+          {
+            name: 'retrieve_many',
+            description: 'Retrieve many keys in one round trip per tier',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                keys: { type: 'array', items: { type: 'string' }, description: 'Keys to retrieve (at most 1000)' },
+                table: { type: 'string', description: 'Database table name' },
+                namespace: { type: 'string', description: 'Cache namespace, e.g. "job:42" (cache only)' }
+              },
+              required: ['keys']
+            }
+          },
+          {
+            name: 'delete_many',
+            description: 'Delete many keys in one transaction (table) or one cache batch (cache), with a result per key',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                keys: { type: 'array', items: { type: 'string' }, description: 'Keys to delete (at most 1000)' },
+                table: { type: 'string', description: 'Database table name' },
+                namespace: { type: 'string', description: 'Cache namespace, e.g. "job:42" (cache only)' },
+                atomic: { type: 'boolean', default: false, description: 'Delete every key or none of them' },
+                author: { type: 'string', description: 'Who deleted the keys (versioned tables)' },
+                jobId: { type: 'string', description: 'Analysis job that deleted the keys (versioned tables)' }
+              },
+              required: ['keys']
+            }
+          },
+          {
+            name: 'get_history',
+            description: 'List the versions of a key on a versioned table, newest first',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                key: { type: 'string', description: 'Key to get the history of' },
+                table: { type: 'string', description: 'Versioned key/value table' },
+                limit: { type: 'number', default: 50, description: 'Maximum number of versions to return' },
+                offset: { type: 'number', default: 0, description: 'Number of versions to skip' },
+                includeData: { type: 'boolean', default: true, description: 'Include the stored data of each version' }
+              },
+              required: ['key', 'table']
+            }
+          },
+          {
+            name: 'revert_data',
+            description: 'Make an earlier version of a key its current value, recorded as a new version',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                key: { type: 'string', description: 'Key to revert' },
+                table: { type: 'string', description: 'Versioned key/value table' },
+                version: { type: 'number', description: 'Version whose data becomes the current value' },
+                ttl: { type: 'number', description: 'Time to live in seconds for the reverted value' },
+                author: { type: 'string', description: 'Who reverted the key' },
+                jobId: { type: 'string', description: 'Analysis job that reverted the key' }
+              },
+              required: ['key', 'table', 'version']
+            }
+          },
+          {
+            name: 'query_data',
+            description: 'Query stored data in a key/value table with filters on the stored JSON, returning paged rows',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                table: { type: 'string', default: 'cache_data', description: 'Key/value table to query' },
+                keyPrefix: { type: 'string', description: 'Only return keys starting with this prefix' },
+                filters: {
+                  type: 'array',
+                  description: 'Predicates on the stored data (combined with AND)',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      path: { type: 'string', description: 'Dot-separated path into the stored data, e.g. "metrics.revenue"' },
+                      op: {
+                        type: 'string',
+                        enum: ['eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'in', 'contains', 'exists', 'like'],
+                        description: 'Comparison operator'
+                      },
+                      value: { description: 'Value to compare against (array for "in", ILIKE pattern for "like")' }
+                    },
+                    required: ['path', 'op']
+                  }
+                },
+                createdAfter: { type: 'string', description: 'Only rows created at or after this ISO timestamp' },
+                createdBefore: { type: 'string', description: 'Only rows created before this ISO timestamp' },
+                includeExpired: { type: 'boolean', default: false, description: 'Include rows whose TTL has passed' },
+                orderBy: { type: 'string', default: 'created_at', description: 'created_at, expires_at, key or data.<path>' },
+                order: { type: 'string', enum: ['asc', 'desc'], default: 'desc', description: 'Sort direction' },
+                limit: { type: 'number', default: 50, description: 'Maximum number of rows to return' },
+                offset: { type: 'number', default: 0, description: 'Number of rows to skip' }
+              }
+            }
+          },
+          {
+            name: 'execute_readonly_sql',
+            description: 'Run a single read-only SQL query in a READ ONLY transaction with a timeout and row cap. Returns rows in the Athena ResultSet shape (first row holds the column names).',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                sql: { type: 'string', description: 'Single SELECT / WITH / VALUES / TABLE statement; use $1, $2, ... for parameters' },
+                params: {
+                  type: 'array',
+                  items: { type: ['string', 'number', 'boolean', 'null'] },
+                  description: 'Positional parameter values for $1, $2, ...'
+                },
+                maxRows: { type: 'number', description: 'Maximum number of rows to return (capped by server limit)' },
+                timeoutMs: { type: 'number', description: 'Statement timeout in milliseconds (capped by server limit)' }
+              },
+              required: ['sql']
+            }
+          },
+          {
+            name: 'cache_query_result',
+            description: 'Cache Athena query results keyed by the normalized SQL, database and workgroup',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                query: { type: 'string', description: 'Athena SQL the results belong to' },
+                database: { type: 'string', description: 'Athena database the query ran against' },
+                workgroup: { type: 'string', default: 'primary', description: 'Athena workgroup the query ran in' },
+                results: { description: 'Query results to cache' },
+                ttl: { type: 'number', description: 'Time to live in seconds' }
+              },
+              required: ['query', 'results']
+            }
+          },
+          {
+            name: 'lookup_query_result',
+            description: 'Look up cached Athena query results before running a query',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                query: { type: 'string', description: 'Athena SQL to look up' },
+                database: { type: 'string', description: 'Athena database the query runs against' },
+                workgroup: { type: 'string', default: 'primary', description: 'Athena workgroup the query runs in' }
+              },
+              required: ['query']
+            }
+          },
+          {
+            name: 'update_cache',
+            description: 'Update cache entries',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                key: { type: 'string', description: 'Cache key to update' },
+                data: { description: 'New data to store' },
+                ttl: { type: 'number', description: 'Time to live in seconds' },
+                namespace: { type: 'string', description: 'Cache namespace, e.g. "job:42"' }
+              },
+              required: ['key', 'data']
+            }
+          },
+          {
+            name: 'delete_data',
+            description: 'Remove data entries',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                key: { type: 'string', description: 'Key to delete' },
+                table: { type: 'string', description: 'Database table name' },
+                namespace: { type: 'string', description: 'Cache namespace, e.g. "job:42" (cache only)' },
+                author: { type: 'string', description: 'Who deleted the key (versioned tables)' },
+                jobId: { type: 'string', description: 'Analysis job that deleted the key (versioned tables)' }
+              },
+              required: ['key']
+            }
+          },
+          {
+            name: 'list_cache_keys',
+            description: 'List cache keys one SCAN page at a time',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                namespace: { type: 'string', description: 'List keys in this namespace, e.g. "job:42"' },
+                pattern: { type: 'string', description: 'Glob pattern to match (ignored when namespace is given)' },
+                cursor: { type: 'string', default: '0', description: 'Cursor returned by the previous page' },
+                count: { type: 'number', default: 100, description: 'Approximate number of keys to scan per page' }
+              }
+            }
+          },
+          {
+            name: 'invalidate_pattern',
+            description: 'Delete all cache keys in a namespace or matching a pattern',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                namespace: { type: 'string', description: 'Delete every key in this namespace, e.g. "job:42"' },
+                pattern: { type: 'string', description: 'Glob pattern of keys to delete (ignored when namespace is given)' },
+                dryRun: { type: 'boolean', default: false, description: 'Count matching keys without deleting them' }
+              }
+            }
+          },
+          {
+            name: 'cleanup_expired',
+            description: 'Remove expired cache entries',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                table: { type: 'string', description: 'Database table name' }
+              }
+            }
+          },
+          {
+            name: 'backup_data',
+            description: 'Create data backups',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                tables: { 
+                  type: 'array', 
+                  items: { type: 'string' },
+                  description: 'Specific tables to backup' 
+                },
+                format: { 
+                  type: 'string', 
+                  enum: ['sql', 'json'],
+                  default: 'sql',
+                  description: 'Backup format' 
+                }
+              }
+            }
+          },
+          {
+            name: 'restore_data',
+            description: 'Restore tables from a backup in a single transaction',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                backupFile: { type: 'string', description: 'Backup ID, backup directory or path to its manifest.json, inside the backup directory' },
+                tables: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Specific tables to restore (default: all tables in the backup)'
+                },
+                mode: {
+                  type: 'string',
+                  enum: ['append', 'replace'],
+                  default: 'append',
+                  description: 'append skips rows that already exist; replace deletes existing rows first'
+                },
+                dryRun: { type: 'boolean', default: false, description: 'Validate and count rows, then roll back' }
+              },
+              required: ['backupFile']
+            }
+          },
+          {
+            name: 'list_backups',
+            description: 'List backups on disk, newest first',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                limit: { type: 'number', default: 20, description: 'Maximum number of backups to return' }
+              }
+            }
+          },
+          {
+            name: 'get_backup_status',
+            description: 'Get backup schedule, retention and last run, or the run for one backup',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                backupId: { type: 'string', description: 'Backup ID to get the run for (default: scheduler status)' }
+              }
+            }
+          },
+          {
+            name: 'get_statistics',
+            description: 'Get database usage statistics',
+            inputSchema: {
+              type: 'object',
+              properties: {}
+            }
+          },
+          {
+            name: 'health_check',
+            description: 'Check storage and cache connectivity, latency, circuit breaker state and connection pool saturation',
+            inputSchema: {
+              type: 'object',
+              properties: {}
+            }
+          },
+          {
+            name: 'create_table',
+            description: 'Create a key/value table in the key/value schema',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                table: { type: 'string', description: 'Name of the key/value table to create (lower-case letters, digits and underscores)' },
+                versioned: { type: 'boolean', default: false, description: 'Record every write to the table in its version history' }
+              },
+              required: ['table']
+            }
+          },
+          {
+            name: 'drop_table',
+            description: 'Drop a key/value table created with create_table',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                table: { type: 'string', description: 'Name of the key/value table to drop' },
+                confirm: { type: 'boolean', description: 'Must be true to confirm the table and its data are removed' }
+              },
+              required: ['table', 'confirm']
+            }
+          },
+          {
+            name: 'subscribe',
+            description: 'Get a resource-updated notification whenever a matching key is stored or deleted, or a matching analysis job changes status',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                table: { type: 'string', description: 'Key/value table, or analysis_jobs for job status changes' },
+                keyPrefix: { type: 'string', default: '', description: 'Only notify for keys (job IDs for analysis_jobs) starting with this prefix' }
+              },
+              required: ['table']
+            }
+          },
+          {
+            name: 'unsubscribe',
+            description: 'Cancel a subscription',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                subscriptionId: { type: 'string', description: 'Subscription ID returned by subscribe' }
+              },
+              required: ['subscriptionId']
+            }
+          },
+          {
+            name: 'list_subscriptions',
+            description: 'List this connection\'s subscriptions',
+            inputSchema: {
+              type: 'object',
+              properties: {}
+            }
+          },
+          {
+            name: 'migrate',
+            description: 'Apply pending schema migrations',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                target: { type: 'number', description: 'Migrate up to and including this version (default: latest)' },
+                dryRun: { type: 'boolean', default: false, description: 'List the migrations that would run without applying them' }
+              }
+            }
+          },
+          {
+            name: 'rollback_migration',
+            description: 'Roll back the most recent schema migrations',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                steps: { type: 'number', default: 1, description: 'Number of migrations to roll back' },
+                dryRun: { type: 'boolean', default: false, description: 'List the migrations that would be rolled back without running them' },
+                confirm: { type: 'boolean', description: 'Must be true, unless dryRun is set, to confirm the down migrations may drop tables and data' }
+              }
+            }
+          },
+          {
+            name: 'migration_status',
+            description: 'Get the schema version with applied and pending migrations',
+            inputSchema: {
+              type: 'object',
+              properties: {}
+            }
+          },
+          {
+            name: 'create_job',
+            description: 'Create an analysis job for a business question',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                problemDescription: { type: 'string', description: 'Business question being analysed' },
+                userId: { type: 'string', description: 'User who submitted the job' },
+                metadata: { type: 'object', description: 'Additional job metadata' }
+              },
+              required: ['problemDescription']
+            }
+          },
+          {
+            name: 'get_job',
+            description: 'Get an analysis job with optional results and reports',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                jobId: { type: 'string', description: 'Analysis job ID' },
+                includeResults: { type: 'boolean', default: false, description: 'Include analysis results and reports' }
+              },
+              required: ['jobId']
+            }
+          },
+          {
+            name: 'update_job_status',
+            description: 'Move an analysis job through its lifecycle (pending -> running -> completed/failed)',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                jobId: { type: 'string', description: 'Analysis job ID' },
+                status: {
+                  type: 'string',
+                  enum: ['pending', 'running', 'completed', 'failed'],
+                  description: 'New job status'
+                },
+                error: { type: 'string', description: 'Failure reason (recorded in metadata when status is failed)' },
+                metadata: { type: 'object', description: 'Metadata to merge into the job' }
+              },
+              required: ['jobId', 'status']
+            }
+          },
+          {
+            name: 'append_analysis_result',
+            description: 'Attach an analysis result to a running job',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                jobId: { type: 'string', description: 'Analysis job ID' },
+                analysisType: { type: 'string', description: 'Type of analysis performed' },
+                results: { description: 'Analysis results' },
+                insights: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Key insights'
+                },
+                confidenceScore: { type: 'number', description: 'Confidence score between 0 and 1' }
+              },
+              required: ['jobId', 'analysisType', 'results']
+            }
+          },
+          {
+            name: 'register_report',
+            description: 'Register a generated report for a job',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                jobId: { type: 'string', description: 'Analysis job ID' },
+                reportType: { type: 'string', default: 'pdf', description: 'Report type' },
+                filePath: { type: 'string', description: 'Path to the generated report' },
+                fileSize: { type: 'number', description: 'Report size in bytes' },
+                emailSent: { type: 'boolean', default: false, description: 'Whether the report has been emailed' }
+              },
+              required: ['jobId', 'filePath']
+            }
+          },
+          {
+            name: 'list_jobs',
+            description: 'List analysis jobs, newest first',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                status: {
+                  type: 'string',
+                  enum: ['pending', 'running', 'completed', 'failed'],
+                  description: 'Filter by job status'
+                },
+                userId: { type: 'string', description: 'Filter by user' },
+                limit: { type: 'number', default: 50, description: 'Maximum number of jobs to return' },
+                offset: { type: 'number', default: 0, description: 'Number of jobs to skip' }
+              }
+            }
+          },
+          {
+            name: 'set_retention_policy',
+            description: 'Create or replace the retention policy of an analysis table or key/value table',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                table: {
+                  type: 'string',
+                  description: 'analysis_jobs, analysis_results, reports, query_results or <KV_SCHEMA>.<table>, e.g. "kv.cache_data"'
+                },
+                maxAgeDays: { type: 'number', description: 'Delete rows created more than this many days ago' },
+                maxRows: { type: 'number', description: 'Keep only this many of the newest rows' }
+              },
+              required: ['table']
+            }
+          },
+          {
+            name: 'delete_retention_policy',
+            description: 'Remove the retention policy of a table',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                table: { type: 'string', description: 'Table whose retention policy is removed' }
+              },
+              required: ['table']
+            }
+          },
+          {
+            name: 'list_retention_policies',
+            description: 'List retention policies and the retention schedule',
+            inputSchema: {
+              type: 'object',
+              properties: {}
+            }
+          },
+          {
+            name: 'apply_retention',
+            description: 'Apply retention policies now and log what was deleted',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                table: { type: 'string', description: 'Apply only this table\'s policy (default: every policy)' },
+                dryRun: { type: 'boolean', default: false, description: 'Count the rows that would be deleted without deleting them' }
+              }
+            }
+          },
+          {
+            name: 'purge_user_data',
+            description: 'Delete all analysis jobs, analysis results, reports and report files of a user, for data-deletion requests',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                userId: { type: 'string', description: 'User whose data is deleted' },
+                requestedBy: { type: 'string', description: 'Who requested the deletion (recorded in the purge log)' },
+                reason: { type: 'string', description: 'Reason for the deletion, e.g. a ticket reference (recorded in the purge log)' },
+                dryRun: { type: 'boolean', default: false, description: 'Count the rows that would be deleted without deleting them' },
+                confirm: { type: 'boolean', description: 'Must be true, unless dryRun is set, to confirm the user\'s data is deleted' }
+              },
+              required: ['userId']
+            }
+          },
+          {
+            name: 'get_purge_log',
+            description: 'List logged user purges and retention runs, newest first',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                userId: { type: 'string', description: 'Only show purges of this user' },
+                type: { type: 'string', enum: ['user', 'retention'], description: 'Filter by purge type' },
+                limit: { type: 'number', default: 50, description: 'Maximum number of entries to return' },
+                offset: { type: 'number', default: 0, description: 'Number of entries to skip' }
+              }
+            }
+          }
+        ]
+      };
+    });
+
+    // List available resources
+    this.server.setRequestHandler(ListResourcesRequestSchema, async () => {
+      return {
+        resources: [
+          {
+            uri: 'db://tables',
+            mimeType: 'application/json',
+            name: 'Database tables with columns, indexes, row estimates and sizes'
+          },
+          {
+            uri: 'db://cache/stats',
+            mimeType: 'application/json',
+            name: 'Cache usage statistics'
+          },
+          {
+            uri: 'db://health',
+            mimeType: 'application/json',
+            name: 'Storage and cache health'
+          },
+          {
+            uri: 'db://backups',
+            mimeType: 'application/json',
+            name: 'Backup schedule and available backups'
+          }
+        ]
+      };
+    });
+
+    // List templated resources
+    this.server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+      return {
+        resourceTemplates: [
+          {
+            uriTemplate: 'db://data/{table}/{key}',
+            mimeType: 'application/json',
+            name: 'Stored entry',
+            description: 'The data stored under a key of a key/value table (subscribable)'
+          },
+          {
+            uriTemplate: 'db://job/{id}',
+            mimeType: 'application/json',
+            name: 'Analysis job',
+            description: 'An analysis job with its results and reports (subscribable)'
+          },
+          {
+            uriTemplate: 'db://table/{name}/schema',
+            mimeType: 'application/json',
+            name: 'Table schema',
+            description: 'Columns, indexes, row estimate and size of a table (key/value tables are named <schema>.<table>)'
+          },
+          {
+            uriTemplate: 'db://table/{name}/sample',
+            mimeType: 'application/json',
+            name: 'Table sample',
+            description: 'The first rows of a table'
+          }
+        ]
+      };
+    });
+
+    // Subscribe to one entry or job; tools cover key prefixes
+    this.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      const { uri } = request.params;
+      const target = parseChangeUri(uri);
+      if (!target) {
+        throw new Error(`Cannot subscribe to ${uri}: use db://data/{table}/{key} or db://job/{id}`);
+      }
+      this.assertSubscribable(target.table);
+      await this.subscriptions.subscribe(target.table, { key: target.key, uri });
+      return {};
+    });
+
+    this.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      await this.subscriptions.unsubscribeUri(request.params.uri);
+      return {};
+    });
+
+    // Handle resource requests
+    this.server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      const { uri } = request.params;
+
+      if (uri === 'db://tables') {
+        const tables = await this.schemaInspector.listTables();
+        return {
+          contents: [
+            {
+              uri,
+              mimeType: 'application/json',
+              text: JSON.stringify({ tables })
+            }
+          ]
+        };
+      }
+
+      const tableResource = uri.match(/^db:\/\/table\/([^/]+)\/(schema|sample)$/);
+      if (tableResource) {
+        const name = decodeURIComponent(tableResource[1]);
+        const contents = tableResource[2] === 'schema'
+          ? await this.schemaInspector.describeTable(name)
+          : await this.schemaInspector.sampleTable(name);
+        return {
+          contents: [
+            {
+              uri,
+              mimeType: 'application/json',
+              text: JSON.stringify(contents)
+            }
+          ]
+        };
+      }
+
+      const changeTarget = parseChangeUri(uri);
+      if (changeTarget) {
+        const contents = changeTarget.table === 'analysis_jobs'
+          ? await this.jobManager.getJob(changeTarget.key, true)
+          : await this.tieredStore.retrieve(changeTarget.key, changeTarget.table);
+        if (contents === null) {
+          throw new Error(`Resource not found: ${uri}`);
+        }
+        return {
+          contents: [
+            {
+              uri,
+              mimeType: 'application/json',
+              text: JSON.stringify(contents)
+            }
+          ]
+        };
+      }
+
+      if (uri === 'db://cache/stats') {
+        const stats = await this.cache.getStats();
+        return {
+          contents: [
+            {
+              uri,
+              mimeType: 'application/json',
+              text: JSON.stringify(stats)
+            }
+          ]
+        };
+      }
+
+      if (uri === 'db://health') {
+        const health = await this.checkHealth();
+        return {
+          contents: [
+            {
+              uri,
+              mimeType: 'application/json',
+              text: JSON.stringify(health)
+            }
+          ]
+        };
+      }
+
+      if (uri === 'db://backups') {
+        const status = await this.backupScheduler.getStatus();
+        const backups = await this.backupScheduler.listBackups();
+        return {
+          contents: [
+            {
+              uri,
+              mimeType: 'application/json',
+              text: JSON.stringify({ status, backups })
+            }
+          ]
+        };
+      }
+
+      throw new Error(`Unknown resource: ${uri}`);
+    });
+
+    // Handle tool calls
+    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+      const { name, arguments: args } = request.params;
+
+      try {
+        switch (name) {
+          case 'store_data': {
+            const { key, data, ttl, table, namespace, author, jobId } = StoreDataSchema.parse(args);
+            
+            let version;
+            if (table) {
+              version = await this.tieredStore.store(key, data, table, ttl, { author, jobId });
+            } else {
+              await this.cache.set(namespacedKey(namespace, key), data, ttl);
+            }
+
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: version !== undefined
+                    ? `Data stored successfully with key: ${key} (version ${version})`
+                    : `Data stored successfully with key: ${key}`
+                }
+              ]
+            };
+          }
+
+          case 'retrieve_data': {
+            const { key, table, namespace, version, asOf } = RetrieveDataSchema.parse(args);
+
+            if (version !== undefined || asOf !== undefined) {
+              const entry = await this.storage.retrieveVersion(key, table!, { version, asOf });
+              return {
+                content: [
+                  {
+                    type: 'text',
+                    text: entry ? JSON.stringify(entry, null, 2) : 'No data found'
+                  }
+                ]
+              };
+            }
+            
+            let data;
+            if (table) {
+              data = await this.tieredStore.retrieve(key, table);
+            } else {
+              data = await this.cache.get(namespacedKey(namespace, key));
+            }
+
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: data ? JSON.stringify(data, null, 2) : 'No data found'
+                }
+              ]
+            };
+          }
+
+          case 'store_many': {
+            const { items, table, namespace, atomic, author, jobId } = StoreManySchema.parse(args);
+
+            let result: BulkWriteResult;
+            if (table) {
+              result = await this.tieredStore.storeMany(items, table, { atomic, attribution: { author, jobId } });
+            } else {
+              const errors = await this.cache.setMany(items.map(item => ({
+                key: namespacedKey(namespace, item.key),
+                value: item.data,
+                ttl: item.ttl
+              })), atomic);
+              result = this.toBulkWriteResult(items.map(item => item.key), errors, atomic);
+            }
+
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(result, null, 2)
+                }
+              ],
+              isError: result.failed > 0
+            };
+          }
+
+          case 'retrieve_many': {
+            const { keys, table, namespace } = RetrieveManySchema.parse(args);
+
+            let result: BulkReadResult;
+            if (table) {
+              result = await this.tieredStore.retrieveMany(keys, table);
+            } else {
+              const values = await this.cache.getMany(keys.map(key => namespacedKey(namespace, key)));
+              const results = keys.map((key, index) => (values[index] !== null
+                ? { key, found: true, data: values[index] }
+                : { key, found: false }));
+              result = {
+                total: keys.length,
+                found: results.filter(entry => entry.found).length,
+                missing: results.filter(entry => !entry.found).map(entry => entry.key),
+                results
+              };
+            }
+
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(result, null, 2)
+                }
+              ]
+            };
+          }
+
+          case 'delete_many': {
+            const { keys, table, namespace, atomic, author, jobId } = DeleteManySchema.parse(args);
+
+            let result: BulkWriteResult;
+            if (table) {
+              result = await this.tieredStore.deleteMany(keys, table, { atomic, attribution: { author, jobId } });
+            } else {
+              const replies = await this.cache.deleteMany(keys.map(key => namespacedKey(namespace, key)), atomic);
+              result = this.toBulkWriteResult(
+                keys,
+                replies.map(reply => (typeof reply === 'string' ? reply : null)),
+                atomic,
+                replies.map(reply => reply === true)
+              );
+            }
+
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(result, null, 2)
+                }
+              ],
+              isError: result.failed > 0
+            };
+          }
+
+          case 'get_history': {
+            const { key, table, limit, offset, includeData } = GetHistorySchema.parse(args);
+            const history = await this.storage.getHistory(key, table, { limit, offset, includeData });
+
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(history, null, 2)
+                }
+              ]
+            };
+          }
+
+          case 'revert_data': {
+            const { key, table, version, ttl, author, jobId } = RevertDataSchema.parse(args);
+            const target = await this.storage.retrieveVersion(key, table, { version });
+            if (!target) {
+              throw new Error(`Version ${version} of ${key} not found in ${table}`);
+            }
+            if (target.operation === 'delete') {
+              throw new Error(`Version ${version} of ${key} is a delete and cannot be restored`);
+            }
+
+            const newVersion = await this.tieredStore.store(key, target.data, table, ttl, { author, jobId, revertedFrom: version });
+
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: `Reverted ${key} to version ${version} (new version ${newVersion})`
+                }
+              ]
+            };
+          }
+
+          case 'query_data': {
+            const query = QueryDataSchema.parse(args ?? {});
+            const result = await this.storage.queryData(query);
+
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(result, null, 2)
+                }
+              ]
+            };
+          }
+
+          case 'execute_readonly_sql': {
+            const { sql, params, maxRows, timeoutMs } = ExecuteReadOnlySqlSchema.parse(args);
+            const result = await this.storage.executeReadOnly(sql, params, {
+              maxRows: Math.min(maxRows ?? this.readOnlySqlLimits.maxRows, this.readOnlySqlLimits.maxRows),
+              timeoutMs: Math.min(timeoutMs ?? this.readOnlySqlLimits.timeoutMs, this.readOnlySqlLimits.timeoutMs)
+            });
+
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(result)
+                }
+              ]
+            };
+          }
+
+          case 'cache_query_result': {
+            const { query, database, workgroup, results, ttl } = CacheQueryResultSchema.parse(args);
+            const stored = await this.queryCache.store(query, results, { database, workgroup, ttl });
+
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(stored, null, 2)
+                }
+              ]
+            };
+          }
+
+          case 'lookup_query_result': {
+            const { query, database, workgroup } = LookupQueryResultSchema.parse(args);
+            const cached = await this.queryCache.lookup(query, { database, workgroup });
+
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: cached ? JSON.stringify(cached, null, 2) : 'No cached result found'
+                }
+              ]
+            };
+          }
+
+          case 'update_cache': {
+            const { key, data, ttl, namespace } = UpdateCacheSchema.parse(args);
+            await this.cache.set(namespacedKey(namespace, key), data, ttl);
+
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: `Cache updated successfully for key: ${key}`
+                }
+              ]
+            };
+          }
+
+          case 'delete_data': {
+            const { key, table, namespace, author, jobId } = DeleteDataSchema.parse(args);
+            
+            let deleted;
+            if (table) {
+              deleted = await this.tieredStore.delete(key, table, { author, jobId });
+            } else {
+              deleted = await this.cache.delete(namespacedKey(namespace, key));
+            }
+
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: deleted ? `Data deleted successfully: ${key}` : `No data found for key: ${key}`
+                }
+              ]
+            };
+          }
+
+          case 'list_cache_keys': {
+            const { namespace, pattern, cursor, count } = ListCacheKeysSchema.parse(args ?? {});
+            const page = await this.cache.scanKeys(namespace ? namespacePattern(namespace) : pattern || '*', cursor, count);
+
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(page, null, 2)
+                }
+              ]
+            };
+          }
+
+          case 'invalidate_pattern': {
+            const { namespace, pattern, dryRun } = InvalidatePatternSchema.parse(args);
+            const match = namespace ? namespacePattern(namespace) : pattern!;
+            assertInvalidationPattern(match);
+
+            const count = dryRun ? await this.cache.countPattern(match) : await this.cache.deletePattern(match);
+
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: dryRun
+                    ? `${count} keys match pattern: ${match}`
+                    : `Invalidated ${count} keys matching pattern: ${match}`
+                }
+              ]
+            };
+          }
+
+          case 'cleanup_expired': {
+            const { table } = args as { table?: string };
+            
+            let cleaned;
+            if (table) {
+              cleaned = await this.storage.cleanupExpired(table);
+            } else {
+              cleaned = await this.cache.cleanupExpired();
+            }
+
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: `Cleaned up ${cleaned} expired entries`
+                }
+              ]
+            };
+          }
+
+          case 'backup_data': {
+            const { tables, format } = BackupDataSchema.parse(args);
+            const manifest = await this.backupScheduler.runBackup({ tables, format, trigger: 'manual' });
+
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(manifest, null, 2)
+                }
+              ]
+            };
+          }
+
+          case 'restore_data': {
+            const { backupFile, tables, mode, dryRun } = RestoreDataSchema.parse(args);
+            const summary = await this.backupManager.restore(backupFile, { tables, mode, dryRun });
+
+            if (!dryRun) {
+              const kvPrefix = `${this.storage.getTableRegistry().getSchema()}.`;
+              for (const table of summary.tables) {
+                if (table.name.startsWith(kvPrefix)) {
+                  await this.tieredStore.invalidateTable(table.name.slice(kvPrefix.length));
+                }
+              }
+            }
+
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(summary, null, 2)
+                }
+              ]
+            };
+          }
+
+          case 'list_backups': {
+            const { limit } = ListBackupsSchema.parse(args ?? {});
+            const backups = await this.backupScheduler.listBackups(limit);
+
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(backups, null, 2)
+                }
+              ]
+            };
+          }
+
+          case 'get_backup_status': {
+            const { backupId } = GetBackupStatusSchema.parse(args ?? {});
+
+            let status;
+            if (backupId) {
+              status = await this.backupScheduler.getRun(backupId);
+            } else {
+              status = await this.backupScheduler.getStatus();
+            }
+
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: status ? JSON.stringify(status, null, 2) : `No backup run found for: ${backupId}`
+                }
+              ]
+            };
+          }
+
+          case 'get_statistics': {
+            const dbStats = await this.storage.getStats();
+            const cacheStats = this.cache.isAvailable()
+              ? await this.cache.getStats()
+              : { error: 'Cache is unavailable' };
+
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify({
+                    database: dbStats,
+                    cache: cacheStats,
+                    tiers: this.tieredStore.getStats()
+                  }, null, 2)
+                }
+              ]
+            };
+          }
+
+          case 'health_check': {
+            const health = await this.checkHealth();
+
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(health, null, 2)
+                }
+              ],
+              isError: health.status === 'unhealthy'
+            };
+          }
+
+          case 'create_table': {
+            const { table, versioned } = CreateTableSchema.parse(args);
+            await this.storage.createTable(table, versioned);
+
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: `Table created successfully: ${table}${versioned ? ' (versioned)' : ''}`
+                }
+              ]
+            };
+          }
+
+          case 'drop_table': {
+            const { table } = DropTableSchema.parse(args);
+            await this.storage.dropTable(table);
+            await this.tieredStore.invalidateTable(table);
+
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: `Table dropped successfully: ${table}`
+                }
+              ]
+            };
+          }
+
+          case 'subscribe': {
+            const { table, keyPrefix } = SubscribeSchema.parse(args);
+            this.assertSubscribable(table);
+            const subscription = await this.subscriptions.subscribe(table, { keyPrefix });
+
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(subscription, null, 2)
+                }
+              ]
+            };
+          }
+
+          case 'unsubscribe': {
+            const { subscriptionId } = UnsubscribeSchema.parse(args);
+            const removed = await this.subscriptions.unsubscribe(subscriptionId);
+
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: removed ? `Unsubscribed: ${subscriptionId}` : `No subscription with id: ${subscriptionId}`
+                }
+              ]
+            };
+          }
+
+          case 'list_subscriptions': {
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify({ subscriptions: this.subscriptions.list() }, null, 2)
+                }
+              ]
+            };
+          }
 
-    this.setupHandlers();
-  }
+          case 'migrate': {
+            const { target, dryRun } = MigrateSchema.parse(args ?? {});
+            const applied = await this.migrationRunner.migrate(target, dryRun);
 
-  private setupHandlers() {
-    // List available tools
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
-      return {
-        tools: [
-          {
-            name: 'store_data',
-            description: 'Store data with optional TTL',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                key: { type: 'string', description: 'Unique key for the data' },
-                data: { description: 'Data to store (any type)' },
-                ttl: { type: 'number', description: 'Time to live in seconds' },
-                table: { type: 'string', description: 'Database table name' }
-              },
-              required: ['key', 'data']
-            }
-          },
-          {
-            name: 'retrieve_data',
-            description: 'Retrieve stored data by key',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                key: { type: 'string', description: 'Key to retrieve data for' },
-                table: { type: 'string', description: 'Database table name' }
-              },
-              required: ['key']
-            }
-          },
-          {
-            name: 'update_cache',
-            description: 'Update cache entries',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                key: { type: 'string', description: 'Cache key to update' },
-                data: { description: 'New data to store' },
-                ttl: { type: 'number', description: 'Time to live in seconds' }
-              },
-              required: ['key', 'data']
-            }
-          },
-          {
-            name: 'delete_data',
-            description: 'Remove data entries',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                key: { type: 'string', description: 'Key to delete' },
-                table: { type: 'string', description: 'Database table name' }
-              },
-              required: ['key']
-            }
-          },
-          {
-            name: 'cleanup_expired',
-            description: 'Remove expired cache entries',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                table: { type: 'string', description: 'Database table name' }
-              }
-            }
-          },
-          {
-            name: 'backup_data',
-            description: 'Create data backups',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                tables: { 
-                  type: 'array', 
-                  items: { type: 'string' },
-                  description: 'Specific tables to backup' 
-                },
-                format: { 
-                  type: 'string', 
-                  enum: ['sql', 'json'],
-                  default: 'sql',
-                  description: 'Backup format' 
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify({ dryRun, migrations: applied, status: await this.migrationRunner.status() }, null, 2)
                 }
-              }
-            }
-          },
-          {
-            name: 'get_statistics',
-            description: 'Get database usage statistics',
-            inputSchema: {
-              type: 'object',
-              properties: {}
-            }
+              ]
+            };
           }
-        ]
-      };
-    });
 
-    // List available resources
-    this.server.setRequestHandler(ListResourcesRequestSchema, async () => {
-      return {
-        resources: [
-          {
-            uri: 'db://tables',
-            mimeType: 'application/json',
-            name: 'Available database tables'
-          },
-          {
-            uri: 'db://cache/stats',
-            mimeType: 'application/json',
-            name: 'Cache usage statistics'
+          case 'rollback_migration': {
+            const { steps, dryRun } = RollbackSchema.parse(args ?? {});
+            const rolledBack = await this.migrationRunner.rollback(steps, dryRun);
+
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify({ dryRun, migrations: rolledBack, status: await this.migrationRunner.status() }, null, 2)
+                }
+              ]
+            };
           }
-        ]
-      };
-    });
 
-    // Handle resource requests
-    this.server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
-      const { uri } = request.params;
+          case 'migration_status': {
+            const status = await this.migrationRunner.status();
 
-      if (uri === 'db://tables') {
-        // Return list of tables (simplified)
-        return {
-          contents: [
-            {
-              uri,
-              mimeType: 'application/json',
-              text: JSON.stringify({
-                tables: ['analysis_jobs', 'query_results', 'analysis_results', 'reports', 'ml_models', 'cache_data']
-              })
-            }
-          ]
-        };
-      }
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(status, null, 2)
+                }
+              ]
+            };
+          }
 
-      if (uri === 'db://cache/stats') {
-        const stats = await this.redis.getStats();
-        return {
-          contents: [
-            {
-              uri,
-              mimeType: 'application/json',
-              text: JSON.stringify(stats)
-            }
-          ]
-        };
-      }
+          case 'create_job': {
+            const { problemDescription, userId, metadata } = CreateJobSchema.parse(args);
+            const job = await this.jobManager.createJob(problemDescription, userId, metadata);
 
-      throw new Error(`Unknown resource: ${uri}`);
-    });
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(job, null, 2)
+                }
+              ]
+            };
+          }
 
-    // Handle tool calls
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      const { name, arguments: args } = request.params;
+          case 'get_job': {
+            const { jobId, includeResults } = GetJobSchema.parse(args);
+            const job = await this.jobManager.getJob(jobId, includeResults);
 
-      try {
-        switch (name) {
-          case 'store_data': {
-            const { key, data, ttl, table } = StoreDataSchema.parse(args);
-            
-            if (table) {
-              await this.postgres.storeData(key, data, table, ttl);
-            } else {
-              await this.redis.set(key, data, ttl);
-            }
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: job ? JSON.stringify(job, null, 2) : `No job found with id: ${jobId}`
+                }
+              ]
+            };
+          }
+
+          case 'update_job_status': {
+            const { jobId, status, error, metadata } = UpdateJobStatusSchema.parse(args);
+            const job = await this.jobManager.updateStatus(jobId, status, error, metadata);
 
             return {
               content: [
                 {
                   type: 'text',
-                  text: `Data stored successfully with key: ${key}`
+                  text: JSON.stringify(job, null, 2)
                 }
               ]
             };
           }
 
-          case 'retrieve_data': {
-            const { key, table } = RetrieveDataSchema.parse(args);
-            
-            let data;
-            if (table) {
-              data = await this.postgres.retrieveData(key, table);
-            } else {
-              data = await this.redis.get(key);
-            }
+          case 'append_analysis_result': {
+            const { jobId, analysisType, results, insights, confidenceScore } = AppendAnalysisResultSchema.parse(args);
+            const result = await this.jobManager.appendResult(jobId, analysisType, results, insights, confidenceScore);
 
             return {
               content: [
                 {
                   type: 'text',
-                  text: data ? JSON.stringify(data, null, 2) : 'No data found'
+                  text: JSON.stringify(result, null, 2)
                 }
               ]
             };
           }
 
-          case 'update_cache': {
-            const { key, data, ttl } = UpdateCacheSchema.parse(args);
-            await this.redis.set(key, data, ttl);
+          case 'register_report': {
+            const { jobId, reportType, filePath, fileSize, emailSent } = RegisterReportSchema.parse(args);
+            const report = await this.jobManager.registerReport(jobId, reportType, filePath, fileSize, emailSent);
 
             return {
               content: [
                 {
                   type: 'text',
-                  text: `Cache updated successfully for key: ${key}`
+                  text: JSON.stringify(report, null, 2)
                 }
               ]
             };
           }
 
-          case 'delete_data': {
-            const { key, table } = DeleteDataSchema.parse(args);
-            
-            let deleted;
-            if (table) {
-              deleted = await this.postgres.deleteData(key, table);
-            } else {
-              deleted = await this.redis.delete(key);
-            }
+          case 'list_jobs': {
+            const filters = ListJobsSchema.parse(args ?? {});
+            const jobs = await this.jobManager.listJobs(filters);
 
             return {
               content: [
                 {
                   type: 'text',
-                  text: deleted ? `Data deleted successfully: ${key}` : `No data found for key: ${key}`
+                  text: JSON.stringify(jobs, null, 2)
                 }
               ]
             };
           }
 
-          case 'cleanup_expired': {
-            const { table } = args as { table?: string };
-            
-            let cleaned;
-            if (table) {
-              cleaned = await this.postgres.cleanupExpired(table);
-            } else {
-              cleaned = await this.redis.cleanupExpired();
-            }
+          case 'set_retention_policy': {
+            const { table, maxAgeDays, maxRows } = SetRetentionPolicySchema.parse(args);
+            const policy = await this.retentionManager.setPolicy(table, maxAgeDays ?? null, maxRows ?? null);
 
             return {
               content: [
                 {
                   type: 'text',
-                  text: `Cleaned up ${cleaned} expired entries`
+                  text: JSON.stringify(policy, null, 2)
                 }
               ]
             };
           }
 
-          case 'backup_data': {
-            const { tables, format } = BackupDataSchema.parse(args);
-            const backup = await this.postgres.backup(tables, format);
+          case 'delete_retention_policy': {
+            const { table } = DeleteRetentionPolicySchema.parse(args);
+            const deleted = await this.retentionManager.deletePolicy(table);
 
             return {
               content: [
                 {
                   type: 'text',
-                  text: `Backup created successfully. Size: ${backup.length} characters`
+                  text: deleted ? `Retention policy removed: ${table}` : `No retention policy for table: ${table}`
                 }
               ]
             };
           }
 
-          case 'get_statistics': {
-            const dbStats = await this.postgres.getStats();
-            const cacheStats = await this.redis.getStats();
+          case 'list_retention_policies': {
 
             return {
               content: [
                 {
                   type: 'text',
                   text: JSON.stringify({
-                    database: dbStats,
-                    cache: cacheStats
+                    schedule: this.retentionManager.getSchedule(),
+                    policies: await this.retentionManager.listPolicies()
                   }, null, 2)
                 }
               ]
             };
           }
 
+          case 'apply_retention': {
+            const { table, dryRun } = ApplyRetentionSchema.parse(args ?? {});
+            const results = await this.retentionManager.applyRetention(table, dryRun);
+
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(results, null, 2)
+                }
+              ],
+              isError: results.some(result => result.error)
+            };
+          }
+
+          case 'purge_user_data': {
+            const { userId, requestedBy, reason, dryRun } = PurgeUserDataSchema.parse(args);
+            const result = await this.retentionManager.purgeUserData(userId, { requestedBy, reason, dryRun });
+
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(result, null, 2)
+                }
+              ]
+            };
+          }
+
+          case 'get_purge_log': {
+            const filters = GetPurgeLogSchema.parse(args ?? {});
+            const log = await this.retentionManager.getPurgeLog(filters);
+
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(log, null, 2)
+                }
+              ]
+            };
+          }
+
           default:
             throw new Error(`Unknown tool: ${name}`);
         }
@@ -352,10 +1684,69 @@ class DatabaseServer {
     });
   }
 
+  /**
+   * Subscriptions are to analysis jobs or to a registered key/value table
+   */
+  private assertSubscribable(table: string): void {
+    if (table !== 'analysis_jobs') {
+      this.storage.getTableRegistry().resolve(table);
+    }
+  }
+
+  /**
+   * Unhealthy when the storage backend is down; degraded when only the cache is down
+   */
+  private async checkHealth(): Promise<HealthReport> {
+    const [storage, cache] = await Promise.all([this.storage.checkHealth(), this.cache.checkHealth()]);
+
+    return {
+      status: storage.status === 'down' ? 'unhealthy' : cache.status === 'down' ? 'degraded' : 'healthy',
+      checked_at: new Date().toISOString(),
+      cache_mode: this.tieredStore.getStats().mode,
+      postgres: storage,
+      redis: cache
+    };
+  }
+
+  /**
+   * Per-key results of a cache batch. Redis runs every command of a MULTI
+   * even when one fails, so the batch is always reported as committed.
+   */
+  private toBulkWriteResult(keys: string[], errors: (string | null)[], atomic: boolean, deleted?: boolean[]): BulkWriteResult {
+    const results = keys.map((key, index) => (errors[index]
+      ? { key, ok: false, error: errors[index]! }
+      : { key, ok: true, deleted: deleted?.[index] }));
+    const succeeded = results.filter(result => result.ok).length;
+
+    return {
+      atomic,
+      committed: true,
+      total: keys.length,
+      succeeded,
+      failed: keys.length - succeeded,
+      results
+    };
+  }
+
   async start() {
     // Connect to databases
-    await this.postgres.connect();
-    await this.redis.connect();
+    await this.storage.connect();
+
+    // Refuse to serve against an out-of-date schema
+    if (this.migrateOnStart) {
+      const applied = await this.migrationRunner.migrate();
+      if (applied.length > 0) {
+        console.error(`Applied migrations: ${applied.map(migration => `${migration.version}_${migration.name}`).join(', ')}`);
+      }
+    }
+    await this.migrationRunner.assertUpToDate();
+    await this.storage.initializeTables();
+
+    if (!await this.cache.connect()) {
+      console.error('Cache unavailable, running in degraded mode (storage only) while reconnecting');
+    }
+    await this.backupScheduler.start();
+    await this.retentionManager.start();
 
     const transport = new StdioServerTransport();
     await this.server.connect(transport);
@@ -363,8 +1754,11 @@ class DatabaseServer {
   }
 
   async stop() {
-    await this.postgres.close();
-    await this.redis.close();
+    this.backupScheduler.stop();
+    this.retentionManager.stop();
+    await this.subscriptions.close();
+    await this.storage.close();
+    await this.cache.close();
   }
 }
 
@@ -0,0 +1,95 @@
+import { StorageBackend } from './storage-backend.js';
+import { AnalysisJob, AnalysisResult, JobDetails, JobStatus, Report } from './types.js';
+
+// Allowed status transitions: pending -> running -> completed/failed
+const JOB_TRANSITIONS: Record<JobStatus, JobStatus[]> = {
+  pending: ['running'],
+  running: ['completed', 'failed'],
+  completed: [],
+  failed: []
+};
+
+const TERMINAL_STATUSES: JobStatus[] = ['completed', 'failed'];
+
+/**
+ * JobManager tracks a business question end to end using the
+ * analysis_jobs, analysis_results and reports tables.
+ */
+export class JobManager {
+  private storage: StorageBackend;
+
+  constructor(storage: StorageBackend) {
+    this.storage = storage;
+  }
+
+  /**
+   * Create a new analysis job in the pending state
+   */
+  async createJob(problemDescription: string, userId?: string, metadata?: Record<string, any>): Promise<AnalysisJob> {
+    return this.storage.createJob(problemDescription, userId, metadata);
+  }
+
+  /**
+   * Get a job, optionally with its analysis results and reports
+   */
+  async getJob(jobId: string, includeResults: boolean = false): Promise<AnalysisJob | JobDetails | null> {
+    return this.storage.getJob(jobId, includeResults);
+  }
+
+  /**
+   * Move a job to a new status, rejecting transitions that skip or reverse the lifecycle
+   */
+  async updateStatus(jobId: string, status: JobStatus, error?: string, metadata?: Record<string, any>): Promise<AnalysisJob> {
+    const patch: Record<string, any> = { ...(metadata || {}) };
+    if (error) {
+      patch.error = error;
+    }
+
+    return this.storage.updateJobStatus(jobId, {
+      status,
+      terminal: TERMINAL_STATUSES.includes(status),
+      metadata: patch
+    }, (current) => {
+      if (!JOB_TRANSITIONS[current.status].includes(status)) {
+        throw new Error(`Invalid status transition for job ${jobId}: ${current.status} -> ${status}`);
+      }
+    });
+  }
+
+  /**
+   * Attach an analysis result to a running job
+   */
+  async appendResult(
+    jobId: string,
+    analysisType: string,
+    results: any,
+    insights?: string[],
+    confidenceScore?: number
+  ): Promise<AnalysisResult> {
+    return this.storage.appendJobResult(jobId, { analysisType, results, insights, confidenceScore }, (job) => {
+      if (job.status !== 'running') {
+        throw new Error(`Cannot append results to job ${jobId} in status ${job.status}`);
+      }
+    });
+  }
+
+  /**
+   * Register a generated report for a job
+   */
+  async registerReport(
+    jobId: string,
+    reportType: string,
+    filePath: string,
+    fileSize?: number,
+    emailSent: boolean = false
+  ): Promise<Report> {
+    return this.storage.registerJobReport(jobId, { reportType, filePath, fileSize, emailSent });
+  }
+
+  /**
+   * List jobs, newest first
+   */
+  async listJobs(filters: { status?: JobStatus; userId?: string; limit: number; offset: number }): Promise<{ jobs: AnalysisJob[]; total: number }> {
+    return this.storage.listJobs(filters);
+  }
+}
@@ -0,0 +1,309 @@
+import { CacheBackend } from './storage-backend.js';
+import { CacheHealth, CacheKeyPage, CacheStats, NamespaceStats } from './types.js';
+
+interface CacheEntry {
+  value: string;
+  expiresAt?: number;
+}
+
+/**
+ * Compile a Redis glob pattern (*, ?, [abc], [^a-z] and backslash escapes)
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '\\' && i + 1 < pattern.length) {
+      source += escapeRegExp(pattern[++i]);
+    } else if (char === '*') {
+      source += '[\\s\\S]*';
+    } else if (char === '?') {
+      source += '[\\s\\S]';
+    } else if (char === '[' && pattern.indexOf(']', i + 2) !== -1) {
+      const end = pattern.indexOf(']', i + 2);
+      let body = pattern.slice(i + 1, end);
+      const negated = body.startsWith('^');
+      if (negated) {
+        body = body.slice(1);
+      }
+      source += `[${negated ? '^' : ''}${body.replace(/[\\\]^]/g, '\\$&')}]`;
+      i = end;
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\/-]/g, '\\$&');
+}
+
+/**
+ * MemoryCache is an in-process CacheBackend: an LRU map of serialized JSON
+ * values with per-key TTLs. Expired keys are removed when they are read and
+ * whenever the cache is full; the least recently used key is evicted when
+ * MEMORY_CACHE_MAX_KEYS is reached. Like Redis, values are copied on the way
+ * in and out, and SCAN cursors stay valid while keys are added and removed.
+ */
+export class MemoryCache implements CacheBackend {
+  private entries = new Map<string, CacheEntry>();
+  private defaultTTL: number;
+  private maxKeys: number;
+  private stats = { hits: 0, misses: 0, expired: 0 };
+
+  constructor(defaultTTL: number = 3600, maxKeys: number = 10000) {
+    this.defaultTTL = defaultTTL;
+    this.maxKeys = maxKeys;
+  }
+
+  async connect(): Promise<boolean> {
+    console.error(`In-memory cache ready (max ${this.maxKeys} keys)`);
+    return true;
+  }
+
+  async close(): Promise<void> {
+    this.entries.clear();
+  }
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async checkHealth(): Promise<CacheHealth> {
+    return {
+      backend: 'memory',
+      status: 'up',
+      latency_ms: 0,
+      connected: true
+    };
+  }
+
+  async set(key: string, value: any, ttl?: number): Promise<void> {
+    this.write(key, JSON.stringify(value), ttl || this.defaultTTL);
+  }
+
+  async get(key: string): Promise<any | null> {
+    const entry = this.read(key, true);
+    if (!entry) {
+      this.stats.misses++;
+      return null;
+    }
+    this.stats.hits++;
+    return JSON.parse(entry.value);
+  }
+
+  async delete(key: string): Promise<boolean> {
+    return this.read(key) !== undefined && this.entries.delete(key);
+  }
+
+  async getMany(keys: string[]): Promise<any[]> {
+    return Promise.all(keys.map(key => this.get(key)));
+  }
+
+  /**
+   * Every entry is written; there is nothing to fail part-way
+   */
+  async setMany(entries: { key: string; value: any; ttl?: number }[], _atomic: boolean = false): Promise<(string | null)[]> {
+    for (const entry of entries) {
+      this.write(entry.key, JSON.stringify(entry.value), entry.ttl || this.defaultTTL);
+    }
+    return entries.map(() => null);
+  }
+
+  async deleteMany(keys: string[], _atomic: boolean = false): Promise<(boolean | string)[]> {
+    return Promise.all(keys.map(key => this.delete(key)));
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return this.read(key) !== undefined;
+  }
+
+  async keys(pattern: string = '*'): Promise<string[]> {
+    const matcher = globToRegExp(pattern);
+    return this.liveKeys().filter(key => matcher.test(key));
+  }
+
+  /**
+   * One page of keys matching a pattern, in key order. The cursor encodes the
+   * last key examined, so a full iteration returns every key that existed
+   * throughout it, as SCAN does. A cursor of "0" means the iteration is complete.
+   */
+  async scanKeys(pattern: string, cursor: string = '0', count: number = 100): Promise<CacheKeyPage> {
+    const matcher = globToRegExp(pattern);
+    const after = cursor === '0' ? undefined : this.decodeCursor(cursor);
+    const remaining = this.liveKeys().sort().filter(key => after === undefined || key > after);
+    const examined = remaining.slice(0, count);
+    const done = examined.length === remaining.length;
+
+    return {
+      cursor: done ? '0' : this.encodeCursor(examined[examined.length - 1]),
+      done,
+      keys: examined
+        .filter(key => matcher.test(key))
+        .map(key => ({ key, ttl: this.ttlOf(this.entries.get(key)!) }))
+    };
+  }
+
+  async deletePattern(pattern: string): Promise<number> {
+    const keys = await this.keys(pattern);
+    for (const key of keys) {
+      this.entries.delete(key);
+    }
+    return keys.length;
+  }
+
+  async countPattern(pattern: string): Promise<number> {
+    return (await this.keys(pattern)).length;
+  }
+
+  async flushAll(): Promise<void> {
+    this.entries.clear();
+  }
+
+  async expire(key: string, ttl: number): Promise<boolean> {
+    const entry = this.read(key);
+    if (!entry) {
+      return false;
+    }
+    entry.expiresAt = Date.now() + ttl * 1000;
+    return true;
+  }
+
+  async ttl(key: string): Promise<number> {
+    const entry = this.read(key);
+    return entry ? this.ttlOf(entry) : -2;
+  }
+
+  async getStats(): Promise<CacheStats> {
+    const namespaces = await this.getNamespaceStats();
+    const lookups = this.stats.hits + this.stats.misses;
+    const memoryBytes = namespaces.namespaces.reduce((total, namespace) => total + namespace.memory_bytes, 0);
+
+    return {
+      total_keys: this.entries.size,
+      memory_usage: this.formatBytes(memoryBytes),
+      hit_rate: lookups > 0 ? Math.round((this.stats.hits / lookups) * 10000) / 100 : 0,
+      expired_keys: this.stats.expired,
+      namespaces: namespaces.namespaces,
+      namespace_keys_scanned: namespaces.scanned,
+      namespace_scan_complete: namespaces.complete
+    };
+  }
+
+  /**
+   * Key counts and approximate memory usage (key and value bytes) grouped by
+   * namespace, as in RedisClient.getNamespaceStats
+   */
+  async getNamespaceStats(depth: number = 1, scanLimit: number = 10000): Promise<{ namespaces: NamespaceStats[]; scanned: number; complete: boolean }> {
+    const namespaces = new Map<string, NamespaceStats>();
+    const keys = this.liveKeys();
+    const scanned = keys.slice(0, scanLimit);
+
+    for (const key of scanned) {
+      const segments = key.split(':');
+      const namespace = segments.length > 1 ? segments.slice(0, Math.min(depth, segments.length - 1)).join(':') : '(none)';
+      const entry = namespaces.get(namespace) || { namespace, keys: 0, memory_bytes: 0 };
+      entry.keys++;
+      entry.memory_bytes += Buffer.byteLength(key) + Buffer.byteLength(this.entries.get(key)!.value);
+      namespaces.set(namespace, entry);
+    }
+
+    return {
+      namespaces: [...namespaces.values()].sort((a, b) => b.memory_bytes - a.memory_bytes),
+      scanned: scanned.length,
+      complete: scanned.length === keys.length
+    };
+  }
+
+  /**
+   * Remove expired keys now and return the number of keys expired so far
+   */
+  async cleanupExpired(): Promise<number> {
+    this.removeExpired();
+    return this.stats.expired;
+  }
+
+  private write(key: string, value: string, ttl: number): void {
+    // Re-inserting moves the key to the most recently used end
+    this.entries.delete(key);
+    if (this.entries.size >= this.maxKeys) {
+      this.removeExpired();
+    }
+    while (this.entries.size >= this.maxKeys) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+    this.entries.set(key, { value, expiresAt: Date.now() + ttl * 1000 });
+  }
+
+  /**
+   * The live entry for a key, dropping it if it has expired
+   */
+  private read(key: string, touch: boolean = false): CacheEntry | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    if (this.isExpired(entry)) {
+      this.entries.delete(key);
+      this.stats.expired++;
+      return undefined;
+    }
+    if (touch) {
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  private liveKeys(): string[] {
+    this.removeExpired();
+    return [...this.entries.keys()];
+  }
+
+  private removeExpired(): void {
+    for (const [key, entry] of this.entries) {
+      if (this.isExpired(entry)) {
+        this.entries.delete(key);
+        this.stats.expired++;
+      }
+    }
+  }
+
+  private isExpired(entry: CacheEntry): boolean {
+    return entry.expiresAt !== undefined && entry.expiresAt <= Date.now();
+  }
+
+  private ttlOf(entry: CacheEntry): number {
+    return entry.expiresAt !== undefined ? Math.max(0, Math.ceil((entry.expiresAt - Date.now()) / 1000)) : -1;
+  }
+
+  /**
+   * list_cache_keys only accepts numeric cursors, so the key is encoded as the
+   * decimal value of 0x01 followed by its UTF-8 bytes
+   */
+  private encodeCursor(key: string): string {
+    return BigInt(`0x01${Buffer.from(key, 'utf-8').toString('hex')}`).toString();
+  }
+
+  private decodeCursor(cursor: string): string {
+    return Buffer.from(BigInt(cursor).toString(16).slice(1), 'hex').toString('utf-8');
+  }
+
+  /**
+   * Size in the style of Redis used_memory_human
+   */
+  private formatBytes(bytes: number): string {
+    if (bytes < 1024) {
+      return `${bytes}B`;
+    }
+    const units = ['K', 'M', 'G'];
+    let size = bytes / 1024;
+    let unit = 0;
+    while (size >= 1024 && unit < units.length - 1) {
+      size /= 1024;
+      unit++;
+    }
+    return `${size.toFixed(2)}${units[unit]}`;
+  }
+}
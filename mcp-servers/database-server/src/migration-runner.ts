@@ -0,0 +1,193 @@
+import { createHash } from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { StorageBackend } from './storage-backend.js';
+import { quoteIdentifier } from './table-registry.js';
+import { Migration, MigrationStatus } from './types.js';
+
+// Migration files are named NNN_description.sql
+const MIGRATION_FILE_PATTERN = /^(\d+)_([a-z0-9_]+)\.sql$/;
+const UP_MARKER = /^--\s*migrate:up\s*$/m;
+const DOWN_MARKER = /^--\s*migrate:down\s*$/m;
+// Replaced with the quoted key/value schema in the SQL that is run
+const KV_SCHEMA_PLACEHOLDER = /\$\{KV_SCHEMA\}/g;
+
+/**
+ * MigrationRunner applies numbered SQL migrations and records them in
+ * schema_migrations. Each file has a "-- migrate:up" section and an
+ * optional "-- migrate:down" section; each migration runs in its own
+ * transaction. Postgres and SQLite have their own migrations directory.
+ * ${KV_SCHEMA} in the SQL stands for the configured key/value schema; the
+ * checksum is taken over the file as written.
+ */
+export class MigrationRunner {
+  private storage: StorageBackend;
+  private migrationsDir: string;
+
+  constructor(storage: StorageBackend, migrationsDir: string) {
+    this.storage = storage;
+    this.migrationsDir = migrationsDir;
+  }
+
+  /**
+   * Load and parse the migration files, ordered by version
+   */
+  async loadMigrations(): Promise<Migration[]> {
+    const files = (await fs.readdir(this.migrationsDir)).filter(file => file.endsWith('.sql')).sort();
+    const kvSchema = quoteIdentifier(this.storage.getTableRegistry().getSchema());
+    const migrations: Migration[] = [];
+
+    for (const file of files) {
+      const match = file.match(MIGRATION_FILE_PATTERN);
+      if (!match) {
+        throw new Error(`Invalid migration file name: ${file} (expected NNN_description.sql)`);
+      }
+
+      const content = await fs.readFile(path.join(this.migrationsDir, file), 'utf-8');
+      const upMatch = content.match(UP_MARKER);
+      if (!upMatch) {
+        throw new Error(`Migration ${file} has no "-- migrate:up" section`);
+      }
+      const downMatch = content.match(DOWN_MARKER);
+
+      const upStart = upMatch.index! + upMatch[0].length;
+      const up = downMatch && downMatch.index! > upStart
+        ? content.slice(upStart, downMatch.index)
+        : content.slice(upStart);
+      const down = downMatch ? content.slice(downMatch.index! + downMatch[0].length) : '';
+
+      const version = parseInt(match[1]);
+      if (migrations.some(migration => migration.version === version)) {
+        throw new Error(`Duplicate migration version ${version}: ${file}`);
+      }
+
+      migrations.push({
+        version,
+        name: match[2],
+        up: up.trim().replace(KV_SCHEMA_PLACEHOLDER, kvSchema),
+        down: down.trim().replace(KV_SCHEMA_PLACEHOLDER, kvSchema) || undefined,
+        checksum: createHash('sha256').update(content, 'utf-8').digest('hex')
+      });
+    }
+
+    return migrations.sort((a, b) => a.version - b.version);
+  }
+
+  async status(): Promise<MigrationStatus> {
+    const migrations = await this.loadMigrations();
+    const applied = await this.storage.getAppliedMigrations();
+
+    const appliedVersions = new Set(applied.map(row => row.version));
+    const known = new Map(migrations.map(migration => [migration.version, migration]));
+
+    return {
+      current_version: applied.length > 0 ? Math.max(...applied.map(row => row.version)) : 0,
+      latest_version: migrations.length > 0 ? migrations[migrations.length - 1].version : 0,
+      applied: applied.map(row => ({
+        version: row.version,
+        name: row.name,
+        applied_at: row.applied_at,
+        checksum_mismatch: known.has(row.version) && known.get(row.version)!.checksum !== row.checksum
+      })),
+      pending: migrations
+        .filter(migration => !appliedVersions.has(migration.version))
+        .map(migration => ({ version: migration.version, name: migration.name })),
+      unknown: applied
+        .filter(row => !known.has(row.version))
+        .map(row => ({ version: row.version, name: row.name }))
+    };
+  }
+
+  /**
+   * Current schema version (highest applied migration)
+   */
+  async currentVersion(): Promise<number> {
+    const applied = await this.storage.getAppliedMigrations();
+    return applied.length > 0 ? Math.max(...applied.map(row => row.version)) : 0;
+  }
+
+  /**
+   * Throw unless every migration has been applied and none has been edited since
+   */
+  async assertUpToDate(): Promise<void> {
+    const status = await this.status();
+
+    if (status.pending.length > 0) {
+      const pending = status.pending.map(migration => `${migration.version}_${migration.name}`).join(', ');
+      throw new Error(`Database schema is out of date (version ${status.current_version}, latest ${status.latest_version}). Pending migrations: ${pending}. Run the migrate tool or start with MIGRATE_ON_START=true`);
+    }
+    if (status.unknown.length > 0) {
+      throw new Error(`Database schema version ${status.current_version} is newer than this server (latest ${status.latest_version})`);
+    }
+    const modified = status.applied.filter(migration => migration.checksum_mismatch);
+    if (modified.length > 0) {
+      throw new Error(`Applied migrations have been modified: ${modified.map(migration => `${migration.version}_${migration.name}`).join(', ')}`);
+    }
+  }
+
+  /**
+   * Apply pending migrations up to and including the target version (default: latest)
+   */
+  async migrate(target?: number, dryRun: boolean = false): Promise<{ version: number; name: string; duration_ms: number }[]> {
+    const migrations = await this.loadMigrations();
+    const results: { version: number; name: string; duration_ms: number }[] = [];
+
+    await this.storage.withMigrationLock(async (session) => {
+      const appliedVersions = new Set((await session.getApplied()).map(row => row.version));
+      const pending = migrations.filter(migration =>
+        !appliedVersions.has(migration.version) && (target === undefined || migration.version <= target)
+      );
+
+      for (const migration of pending) {
+        const startTime = Date.now();
+        if (!dryRun) {
+          await this.run(migration, () => session.apply(migration));
+        }
+        results.push({ version: migration.version, name: migration.name, duration_ms: Date.now() - startTime });
+      }
+    });
+
+    return results;
+  }
+
+  /**
+   * Roll back the most recent migrations, newest first
+   */
+  async rollback(steps: number = 1, dryRun: boolean = false): Promise<{ version: number; name: string; duration_ms: number }[]> {
+    const migrations = new Map((await this.loadMigrations()).map(migration => [migration.version, migration]));
+    const results: { version: number; name: string; duration_ms: number }[] = [];
+
+    await this.storage.withMigrationLock(async (session) => {
+      const applied = (await session.getApplied()).sort((a, b) => b.version - a.version).slice(0, steps);
+
+      for (const row of applied) {
+        const migration = migrations.get(row.version);
+        if (!migration) {
+          throw new Error(`Cannot roll back migration ${row.version}_${row.name}: file not found`);
+        }
+        if (!migration.down) {
+          throw new Error(`Cannot roll back migration ${row.version}_${row.name}: no "-- migrate:down" section`);
+        }
+      }
+
+      for (const row of applied) {
+        const migration = migrations.get(row.version)!;
+        const startTime = Date.now();
+        if (!dryRun) {
+          await this.run(migration, () => session.revert(migration));
+        }
+        results.push({ version: migration.version, name: migration.name, duration_ms: Date.now() - startTime });
+      }
+    });
+
+    return results;
+  }
+
+  private async run(migration: Migration, fn: () => Promise<void>): Promise<void> {
+    try {
+      await fn();
+    } catch (error) {
+      throw new Error(`Migration ${migration.version}_${migration.name} failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+}
@@ -1,68 +1,248 @@
-import { Pool, PoolClient } from 'pg';
-import { StoredData, DatabaseStats } from './types.js';
+import { Client, Pool, PoolClient } from 'pg';
+import {
+  StoredData,
+  DatabaseStats,
+  DataQuery,
+  DataQueryResult,
+  ReadOnlyQueryResult,
+  BulkItem,
+  BulkItemResult,
+  BulkWriteResult,
+  DataHistory,
+  DataVersion,
+  VersionOperation,
+  WriteAttribution,
+  StorageHealth,
+  PoolStatus,
+  RetryOptions,
+  CircuitBreakerOptions,
+  DataChange,
+  AnalysisJob,
+  AnalysisResult,
+  AppliedMigration,
+  BackupManifest,
+  BackupRun,
+  BackupTrigger,
+  CachedQueryResult,
+  ColumnInfo,
+  IndexInfo,
+  JobDetails,
+  JobStatus,
+  PurgeLogEntry,
+  PurgeType,
+  Report,
+  RetentionPolicy,
+  TableInfo
+} from './types.js';
+import { TableRegistry, KV_TABLE_COLUMNS, quoteIdentifier, validateIdentifier } from './table-registry.js';
+import { buildDataQueryClauses } from './data-query.js';
+import { assertReadOnlyQuery } from './sql-guard.js';
+import { CircuitBreaker, DEFAULT_RESILIENCE, backoffDelay, isConnectionError, retryWithBackoff } from './resilience.js';
+import { MigrationSession, StorageBackend } from './storage-backend.js';
 
-export class PostgresClient {
+// Postgres type OIDs mapped to the Athena type names used in ColumnInfo
+const ATHENA_TYPE_NAMES: Record<number, string> = {
+  16: 'boolean',
+  20: 'bigint',
+  21: 'smallint',
+  23: 'integer',
+  25: 'varchar',
+  114: 'json',
+  700: 'real',
+  701: 'double',
+  1042: 'char',
+  1043: 'varchar',
+  1082: 'date',
+  1083: 'time',
+  1114: 'timestamp',
+  1184: 'timestamp with time zone',
+  1700: 'decimal',
+  2950: 'varchar',
+  3802: 'json'
+};
+
+// A tool call retries getting a connection this many times; startup uses the full retry budget
+const ACQUIRE_ATTEMPTS = 3;
+
+// Channel the change triggers notify (see migration 005)
+const CHANGE_CHANNEL = 'data_changes';
+
+// Serializes migration runs across server instances
+const MIGRATION_LOCK_ID = 4212001;
+
+// Rows inserted per statement by restoreRows
+const RESTORE_BATCH_SIZE = 500;
+
+// Array type OIDs (bool[], int8[], int4[], text[], varchar[], float8[], numeric[], jsonb[])
+const ARRAY_TYPE_OIDS = new Set([1000, 1016, 1007, 1009, 1015, 1022, 1231, 3807]);
+
+export class PostgresClient implements StorageBackend {
   private pool: Pool;
+  private poolSize: number;
+  private tables: TableRegistry;
+  private retry: RetryOptions;
+  private breaker: CircuitBreaker;
+  private connectionString: string;
+  private changeListeners = new Set<(change: DataChange) => void>();
+  private changeClient?: Client;
+  private changeClientOpening?: Promise<void>;
+  private changeReconnectTimer?: NodeJS.Timeout;
 
-  constructor(connectionString: string, poolSize: number = 10) {
+  constructor(
+    connectionString: string,
+    poolSize: number = 10,
+    tables: TableRegistry = new TableRegistry('kv', ['cache_data']),
+    resilience: { retry: RetryOptions; circuitBreaker: CircuitBreakerOptions } = DEFAULT_RESILIENCE
+  ) {
     this.pool = new Pool({
       connectionString,
       max: poolSize,
       idleTimeoutMillis: 30000,
       connectionTimeoutMillis: 2000,
     });
+    this.poolSize = poolSize;
+    this.tables = tables;
+    this.retry = resilience.retry;
+    this.breaker = new CircuitBreaker('PostgreSQL', resilience.circuitBreaker);
+    this.connectionString = connectionString;
+
+    // Idle clients emit errors when the server restarts; the pool replaces them
+    this.pool.on('error', (error) => {
+      console.error('PostgreSQL idle client error:', error.message);
+    });
   }
 
+  /**
+   * Check connectivity, retrying with exponential backoff
+   */
   async connect(): Promise<void> {
     try {
-      const client = await this.pool.connect();
-      client.release();
-      console.log('PostgreSQL connected successfully');
+      await retryWithBackoff(async () => {
+        const client = await this.pool.connect();
+        client.release();
+      }, this.retry, isConnectionError, (error, attempt, delayMs) => {
+        console.error(`PostgreSQL connection attempt ${attempt} failed, retrying in ${delayMs}ms:`, error instanceof Error ? error.message : error);
+      });
+      console.error('PostgreSQL connected successfully');
     } catch (error) {
       console.error('PostgreSQL connection failed:', error);
       throw error;
     }
   }
 
-  async storeData(key: string, data: any, table: string = 'cache_data', ttl?: number): Promise<void> {
-    const client = await this.pool.connect();
+  getTableRegistry(): TableRegistry {
+    return this.tables;
+  }
+
+  async withClient<T>(fn: (client: PoolClient) => Promise<T>): Promise<T> {
+    const client = await this.acquire();
+    let broken: Error | undefined;
     try {
-      const expiresAt = ttl ? new Date(Date.now() + ttl * 1000) : null;
-      
-      // Create table if it doesn't exist
-      await client.query(`
-        CREATE TABLE IF NOT EXISTS ${table} (
-          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-          key VARCHAR(255) UNIQUE NOT NULL,
-          data JSONB NOT NULL,
-          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-          expires_at TIMESTAMP,
-          table_name VARCHAR(255)
-        )
-      `);
+      return await fn(client);
+    } catch (error) {
+      // A client whose connection failed is discarded instead of returned to the pool
+      if (isConnectionError(error)) {
+        broken = error as Error;
+      }
+      throw error;
+    } finally {
+      client.release(broken);
+    }
+  }
 
-      // Insert or update data
-      await client.query(`
-        INSERT INTO ${table} (key, data, expires_at, table_name)
-        VALUES ($1, $2, $3, $4)
-        ON CONFLICT (key) 
-        DO UPDATE SET 
-          data = EXCLUDED.data,
-          expires_at = EXCLUDED.expires_at,
-          created_at = CURRENT_TIMESTAMP
-      `, [key, JSON.stringify(data), expiresAt, table]);
+  async transaction<T>(fn: (client: PoolClient) => Promise<T>): Promise<T> {
+    return this.withClient(async (client) => {
+      await client.query('BEGIN');
+      try {
+        const result = await fn(client);
+        await client.query('COMMIT');
+        return result;
+      } catch (error) {
+        await client.query('ROLLBACK');
+        throw error;
+      }
+    });
+  }
 
-    } finally {
-      client.release();
+  /**
+   * Insert or replace the data for a key. On versioned tables the write is
+   * also appended to data_versions and the new version number is returned.
+   */
+  async storeData(
+    key: string,
+    data: any,
+    table: string = 'cache_data',
+    ttl?: number,
+    attribution: WriteAttribution = {}
+  ): Promise<number | undefined> {
+    this.tables.resolve(table);
+
+    return this.tables.isVersioned(table)
+      ? this.transaction(client => this.writeEntry(client, table, key, data, ttl, attribution))
+      : this.withClient(client => this.writeEntry(client, table, key, data, ttl, attribution));
+  }
+
+  /**
+   * Store many entries in one transaction on a single connection. Unversioned
+   * tables are written with one multi-row statement, falling back to one
+   * statement per item if it fails so that the failing items are reported.
+   */
+  async storeMany(
+    items: BulkItem[],
+    table: string = 'cache_data',
+    options: { atomic: boolean; attribution?: WriteAttribution }
+  ): Promise<BulkWriteResult> {
+    this.tables.resolve(table);
+
+    if (!this.tables.isVersioned(table)) {
+      try {
+        return await this.upsertRows(table, items, options.atomic);
+      } catch (error) {
+        console.error(`Multi-row write to ${table} failed, retrying item by item:`, error instanceof Error ? error.message : error);
+      }
     }
+
+    return this.runBatch(items, options.atomic, async (client, item) => ({
+      version: await this.writeEntry(client, table, item.key, item.data, item.ttl, options.attribution ?? {})
+    }));
   }
 
   async retrieveData(key: string, table: string = 'cache_data'): Promise<any | null> {
-    const client = await this.pool.connect();
+    const entry = await this.retrieveEntry(key, table);
+    return entry ? entry.data : null;
+  }
+
+  /**
+   * Retrieve many keys with one query. Missing and expired keys are absent from the map.
+   */
+  async retrieveMany(keys: string[], table: string = 'cache_data'): Promise<Map<string, { data: any; ttlSeconds?: number }>> {
+    const qualifiedTable = this.tables.resolve(table);
+
+    return this.withClient(async (client) => {
+      const result = await client.query(`
+        SELECT key, data, EXTRACT(EPOCH FROM (expires_at - CURRENT_TIMESTAMP)) AS ttl_seconds
+        FROM ${qualifiedTable}
+        WHERE key = ANY($1)
+        AND (expires_at IS NULL OR expires_at > CURRENT_TIMESTAMP)
+      `, [keys]);
+
+      return new Map(result.rows.map(row => [row.key as string, {
+        data: row.data,
+        ttlSeconds: row.ttl_seconds !== null ? Math.ceil(parseFloat(row.ttl_seconds)) : undefined
+      }]));
+    });
+  }
+
+  /**
+   * Retrieve data along with the seconds left before it expires (undefined when it never expires)
+   */
+  async retrieveEntry(key: string, table: string = 'cache_data'): Promise<{ data: any; ttlSeconds?: number } | null> {
+    const qualifiedTable = this.tables.resolve(table);
+    const client = await this.acquire();
     try {
       const result = await client.query(`
-        SELECT data, expires_at 
-        FROM ${table} 
+        SELECT data, EXTRACT(EPOCH FROM (expires_at - CURRENT_TIMESTAMP)) AS ttl_seconds
+        FROM ${qualifiedTable} 
         WHERE key = $1 
         AND (expires_at IS NULL OR expires_at > CURRENT_TIMESTAMP)
       `, [key]);
@@ -71,30 +251,201 @@ export class PostgresClient {
         return null;
       }
 
-      return JSON.parse(result.rows[0].data);
+      // JSONB columns are already parsed by pg
+      const row = result.rows[0];
+      return {
+        data: row.data,
+        ttlSeconds: row.ttl_seconds !== null ? Math.ceil(parseFloat(row.ttl_seconds)) : undefined
+      };
     } finally {
       client.release();
     }
   }
 
-  async deleteData(key: string, table: string = 'cache_data'): Promise<boolean> {
-    const client = await this.pool.connect();
-    try {
+  async queryData(query: DataQuery): Promise<DataQueryResult> {
+    const qualifiedTable = this.tables.resolve(query.table);
+    const { where, orderBy, params, orderParams } = buildDataQueryClauses(query);
+    const allParams = [...params, ...orderParams];
+
+    return this.withClient(async (client) => {
+      const countResult = await client.query(`SELECT COUNT(*) AS count FROM ${qualifiedTable} ${where}`, params);
       const result = await client.query(`
-        DELETE FROM ${table} WHERE key = $1
-      `, [key]);
+        SELECT id, key, data, created_at, expires_at
+        FROM ${qualifiedTable}
+        ${where}
+        ${orderBy}
+        LIMIT $${allParams.length + 1} OFFSET $${allParams.length + 2}
+      `, [...allParams, query.limit, query.offset]);
 
-      return result.rowCount > 0;
-    } finally {
-      client.release();
+      const total = parseInt(countResult.rows[0].count);
+      return {
+        table: query.table,
+        rows: result.rows.map(row => ({
+          id: row.id,
+          key: row.key,
+          data: row.data,
+          created_at: row.created_at,
+          expires_at: row.expires_at ?? undefined
+        })),
+        total,
+        limit: query.limit,
+        offset: query.offset,
+        has_more: query.offset + result.rows.length < total
+      };
+    });
+  }
+
+  /**
+   * Run a single read-only query in a READ ONLY transaction with a statement
+   * timeout and row cap. Values are returned as text, like Athena's VarCharValue.
+   */
+  async executeReadOnly(sql: string, params: any[], options: { maxRows: number; timeoutMs: number }): Promise<ReadOnlyQueryResult> {
+    const statement = assertReadOnlyQuery(sql);
+    const maxRows = Math.floor(options.maxRows);
+    const timeoutMs = Math.floor(options.timeoutMs);
+
+    return this.withClient(async (client) => {
+      const startTime = Date.now();
+      await client.query('BEGIN READ ONLY');
+      try {
+        await client.query(`SET LOCAL statement_timeout = ${timeoutMs}`);
+
+        const result = await client.query({
+          text: `SELECT * FROM (\n${statement}\n) AS readonly_query LIMIT ${maxRows + 1}`,
+          values: params,
+          rowMode: 'array',
+          types: { getTypeParser: () => (value: string) => value }
+        });
+
+        const truncated = result.rows.length > maxRows;
+        const rows = truncated ? result.rows.slice(0, maxRows) : result.rows;
+
+        return {
+          ResultSet: {
+            Rows: [
+              { Data: result.fields.map(field => ({ VarCharValue: field.name })) },
+              ...rows.map((row: (string | null)[]) => ({
+                Data: row.map(value => (value === null ? {} : { VarCharValue: value }))
+              }))
+            ],
+            ResultSetMetadata: {
+              ColumnInfo: result.fields.map(field => ({
+                Name: field.name,
+                Type: ATHENA_TYPE_NAMES[field.dataTypeID]
+                  || (ARRAY_TYPE_OIDS.has(field.dataTypeID) ? 'array' : 'varchar')
+              }))
+            }
+          },
+          RowCount: rows.length,
+          Truncated: truncated,
+          ExecutionTimeInMillis: Date.now() - startTime
+        };
+      } finally {
+        await client.query('ROLLBACK');
+      }
+    });
+  }
+
+  async deleteData(key: string, table: string = 'cache_data', attribution: WriteAttribution = {}): Promise<boolean> {
+    this.tables.resolve(table);
+
+    return this.tables.isVersioned(table)
+      ? this.transaction(client => this.removeEntry(client, table, key, attribution))
+      : this.withClient(client => this.removeEntry(client, table, key, attribution));
+  }
+
+  /**
+   * Delete many keys in one transaction on a single connection. Unversioned
+   * tables are deleted from with one statement, as in storeMany.
+   */
+  async deleteMany(
+    keys: string[],
+    table: string = 'cache_data',
+    options: { atomic: boolean; attribution?: WriteAttribution }
+  ): Promise<BulkWriteResult> {
+    this.tables.resolve(table);
+
+    if (!this.tables.isVersioned(table)) {
+      try {
+        return await this.deleteRows(table, keys, options.atomic);
+      } catch (error) {
+        console.error(`Multi-row delete from ${table} failed, retrying item by item:`, error instanceof Error ? error.message : error);
+      }
     }
+
+    return this.runBatch(keys.map(key => ({ key })), options.atomic, async (client, item) => ({
+      deleted: await this.removeEntry(client, table, item.key, options.attribution ?? {})
+    }));
+  }
+
+  /**
+   * A single version of a key on a versioned table, by number or as of a
+   * timestamp. A key that was deleted as of the timestamp is not found.
+   */
+  async retrieveVersion(key: string, table: string, at: { version?: number; asOf?: string }): Promise<DataVersion | null> {
+    this.assertVersioned(table);
+
+    return this.withClient(async (client) => {
+      const result = at.version !== undefined
+        ? await client.query(`
+            SELECT * FROM data_versions
+            WHERE table_name = $1 AND key = $2 AND version = $3
+          `, [table, key, at.version])
+        : await client.query(`
+            SELECT * FROM data_versions
+            WHERE table_name = $1 AND key = $2 AND created_at <= $3::timestamptz
+            ORDER BY version DESC
+            LIMIT 1
+          `, [table, key, at.asOf]);
+
+      const row = result.rows[0];
+      if (!row || (at.version === undefined && row.operation === 'delete')) {
+        return null;
+      }
+      return this.mapVersion(row, true);
+    });
+  }
+
+  /**
+   * Versions of a key on a versioned table, newest first
+   */
+  async getHistory(
+    key: string,
+    table: string,
+    options: { limit: number; offset: number; includeData: boolean }
+  ): Promise<DataHistory> {
+    this.assertVersioned(table);
+
+    return this.withClient(async (client) => {
+      const countResult = await client.query(`
+        SELECT COUNT(*) AS count FROM data_versions WHERE table_name = $1 AND key = $2
+      `, [table, key]);
+      const result = await client.query(`
+        SELECT * FROM data_versions
+        WHERE table_name = $1 AND key = $2
+        ORDER BY version DESC
+        LIMIT $3 OFFSET $4
+      `, [table, key, options.limit, options.offset]);
+
+      const total = parseInt(countResult.rows[0].count);
+      return {
+        table,
+        key,
+        versions: result.rows.map(row => this.mapVersion(row, options.includeData)),
+        total,
+        limit: options.limit,
+        offset: options.offset,
+        has_more: options.offset + result.rows.length < total
+      };
+    });
   }
 
   async cleanupExpired(table: string = 'cache_data'): Promise<number> {
-    const client = await this.pool.connect();
+    const qualifiedTable = this.tables.resolve(table);
+    const client = await this.acquire();
     try {
       const result = await client.query(`
-        DELETE FROM ${table} 
+        DELETE FROM ${qualifiedTable} 
         WHERE expires_at IS NOT NULL AND expires_at <= CURRENT_TIMESTAMP
       `);
 
@@ -105,7 +456,7 @@ export class PostgresClient {
   }
 
   async getStats(): Promise<DatabaseStats> {
-    const client = await this.pool.connect();
+    const client = await this.acquire();
     try {
       // Get table count
       const tablesResult = await client.query(`
@@ -143,35 +494,1355 @@ export class PostgresClient {
     }
   }
 
-  async backup(tables?: string[], format: 'sql' | 'json' = 'sql'): Promise<string> {
-    // This would typically use pg_dump for SQL format
-    // For now, implementing a simple JSON backup
-    const client = await this.pool.connect();
+  getPoolStatus(): PoolStatus {
+    const busy = this.pool.totalCount - this.pool.idleCount;
+    return {
+      max: this.poolSize,
+      total: this.pool.totalCount,
+      idle: this.pool.idleCount,
+      waiting: this.pool.waitingCount,
+      saturation: Math.round((busy / this.poolSize) * 100) / 100
+    };
+  }
+
+  /**
+   * Round-trip a trivial query and report latency, circuit state and pool usage
+   */
+  async checkHealth(): Promise<StorageHealth> {
+    const startTime = Date.now();
+    try {
+      await this.withClient(client => client.query('SELECT 1'));
+      return {
+        backend: 'postgres',
+        status: 'up',
+        latency_ms: Date.now() - startTime,
+        circuit: this.breaker.getStatus(),
+        pool: this.getPoolStatus()
+      };
+    } catch (error) {
+      return {
+        backend: 'postgres',
+        status: 'down',
+        error: error instanceof Error ? error.message : 'Unknown error',
+        circuit: this.breaker.getStatus(),
+        pool: this.getPoolStatus()
+      };
+    }
+  }
+
+  /**
+   * Create a new key/value table in the key/value schema
+   */
+  async createTable(table: string, versioned: boolean = false): Promise<void> {
+    validateIdentifier(table);
+    if (this.tables.isRegistered(table)) {
+      throw new Error(`Table already exists: ${table}`);
+    }
+
+    await this.transaction(async (client) => {
+      await this.createKvTable(client, table);
+      if (versioned) {
+        await client.query(`
+          INSERT INTO versioned_tables (table_name) VALUES ($1)
+          ON CONFLICT (table_name) DO NOTHING
+        `, [table]);
+      }
+    });
+    this.tables.register(table);
+    if (versioned) {
+      this.tables.setVersioned(table);
+    }
+  }
+
+  /**
+   * Drop a key/value table created with createTable
+   */
+  async dropTable(table: string): Promise<void> {
+    const qualifiedTable = this.tables.resolve(table);
+    if (this.tables.isConfigured(table)) {
+      throw new Error(`Table ${table} is configured and cannot be dropped`);
+    }
+
+    await this.transaction(async (client) => {
+      await client.query(`DROP TABLE IF EXISTS ${qualifiedTable}`);
+      await client.query('DELETE FROM data_versions WHERE table_name = $1', [table]);
+      await client.query('DELETE FROM versioned_tables WHERE table_name = $1', [table]);
+    });
+    this.tables.unregister(table);
+  }
+
+  /**
+   * Create the key/value schema and configured tables, and register any
+   * key/value tables and versioned tables created by previous runs. Needs an
+   * up-to-date schema, so it runs after migrations.
+   */
+  async initializeTables(): Promise<void> {
+    const schema = this.tables.getSchema();
+
+    await this.transaction(async (client) => {
+      await client.query(`CREATE SCHEMA IF NOT EXISTS ${quoteIdentifier(schema)}`);
+
+      const result = await client.query(`
+        SELECT table_name, array_agg(column_name::text) AS columns
+        FROM information_schema.columns
+        WHERE table_schema = $1
+        GROUP BY table_name
+      `, [schema]);
+
+      const existing = new Set<string>();
+      for (const row of result.rows) {
+        const missing = KV_TABLE_COLUMNS.filter(column => !row.columns.includes(column));
+        if (missing.length > 0) {
+          console.error(`Skipping table ${schema}.${row.table_name}: missing columns ${missing.join(', ')}`);
+          continue;
+        }
+        existing.add(row.table_name);
+        this.tables.register(row.table_name);
+        await this.ensureChangeTrigger(client, row.table_name);
+      }
+
+      for (const table of this.tables.getConfiguredTables()) {
+        if (!existing.has(table)) {
+          await this.createKvTable(client, table);
+        }
+      }
+
+      const versioned = await client.query('SELECT table_name FROM versioned_tables');
+      for (const row of versioned.rows) {
+        this.tables.setVersioned(row.table_name);
+      }
+    });
+  }
+
+  /**
+   * Write one entry. On versioned tables the caller must hold a transaction.
+   */
+  private async writeEntry(
+    client: PoolClient,
+    table: string,
+    key: string,
+    data: any,
+    ttl: number | undefined,
+    attribution: WriteAttribution
+  ): Promise<number | undefined> {
+    const qualifiedTable = this.tables.resolve(table);
+    const expiresAt = ttl ? new Date(Date.now() + ttl * 1000) : null;
+
+    if (!this.tables.isVersioned(table)) {
+      // Insert or update data
+      await client.query(`
+        INSERT INTO ${qualifiedTable} (key, data, expires_at, table_name)
+        VALUES ($1, $2, $3, $4)
+        ON CONFLICT (key) 
+        DO UPDATE SET 
+          data = EXCLUDED.data,
+          expires_at = EXCLUDED.expires_at,
+          created_at = CURRENT_TIMESTAMP
+      `, [key, JSON.stringify(data), expiresAt, table]);
+      return undefined;
+    }
+
+    await this.lockKey(client, table, key);
+    const version = await this.appendVersion(client, table, key, {
+      operation: attribution.revertedFrom !== undefined ? 'revert' : 'store',
+      data,
+      expiresAt,
+      attribution
+    });
+
+    // created_at is kept so it records when the key was first written
+    await client.query(`
+      INSERT INTO ${qualifiedTable} (key, data, expires_at, table_name)
+      VALUES ($1, $2, $3, $4)
+      ON CONFLICT (key) 
+      DO UPDATE SET 
+        data = EXCLUDED.data,
+        expires_at = EXCLUDED.expires_at
+    `, [key, JSON.stringify(data), expiresAt, table]);
+
+    return version;
+  }
+
+  /**
+   * Delete one entry. On versioned tables the caller must hold a transaction.
+   */
+  private async removeEntry(client: PoolClient, table: string, key: string, attribution: WriteAttribution): Promise<boolean> {
+    const qualifiedTable = this.tables.resolve(table);
+
+    if (!this.tables.isVersioned(table)) {
+      const result = await client.query(`
+        DELETE FROM ${qualifiedTable} WHERE key = $1
+      `, [key]);
+
+      return (result.rowCount || 0) > 0;
+    }
+
+    await this.lockKey(client, table, key);
+    const existing = await client.query(`SELECT 1 FROM ${qualifiedTable} WHERE key = $1`, [key]);
+    if (existing.rows.length === 0) {
+      return false;
+    }
+
+    await this.appendVersion(client, table, key, { operation: 'delete', data: null, expiresAt: null, attribution });
+    await client.query(`DELETE FROM ${qualifiedTable} WHERE key = $1`, [key]);
+    return true;
+  }
+
+  /**
+   * Upsert many entries of an unversioned table with one statement. A key
+   * given more than once keeps its last value, as when written one by one.
+   */
+  private async upsertRows(table: string, items: BulkItem[], atomic: boolean): Promise<BulkWriteResult> {
+    const qualifiedTable = this.tables.resolve(table);
+    const rows = [...new Map(items.map(item => [item.key, item])).values()];
+    const now = Date.now();
+
+    await this.withClient(client => client.query(`
+      INSERT INTO ${qualifiedTable} (key, data, expires_at, table_name)
+      SELECT key, data, expires_at, $4::varchar
+      FROM unnest($1::varchar[], $2::jsonb[], $3::timestamp[]) AS item(key, data, expires_at)
+      ON CONFLICT (key)
+      DO UPDATE SET
+        data = EXCLUDED.data,
+        expires_at = EXCLUDED.expires_at,
+        created_at = CURRENT_TIMESTAMP
+    `, [
+      rows.map(item => item.key),
+      rows.map(item => JSON.stringify(item.data)),
+      rows.map(item => item.ttl ? new Date(now + item.ttl * 1000) : null),
+      table
+    ]));
+
+    return this.batchResult(atomic, items.map(item => ({ key: item.key, ok: true })));
+  }
+
+  /**
+   * Delete many keys of an unversioned table with one statement
+   */
+  private async deleteRows(table: string, keys: string[], atomic: boolean): Promise<BulkWriteResult> {
+    const qualifiedTable = this.tables.resolve(table);
+    const result = await this.withClient(client => client.query(`
+      DELETE FROM ${qualifiedTable} WHERE key = ANY($1::varchar[]) RETURNING key
+    `, [keys]));
+
+    // A key given more than once is only reported deleted the first time, as when deleted one by one
+    const deleted = new Set<string>(result.rows.map(row => row.key));
+    return this.batchResult(atomic, keys.map(key => ({ key, ok: true, deleted: deleted.delete(key) })));
+  }
+
+  /**
+   * Run an operation per item in one transaction. An atomic batch is rolled
+   * back on the first failure; otherwise each item runs in a savepoint so a
+   * failed item does not undo the others.
+   */
+  private async runBatch<T extends { key: string }>(
+    items: T[],
+    atomic: boolean,
+    operation: (client: PoolClient, item: T) => Promise<Partial<BulkItemResult>>
+  ): Promise<BulkWriteResult> {
+    return this.withClient(async (client) => {
+      const results: BulkItemResult[] = [];
+
+      await client.query('BEGIN');
+      try {
+        for (const [index, item] of items.entries()) {
+          if (!atomic) {
+            await client.query('SAVEPOINT bulk_item');
+          }
+          try {
+            const result = await operation(client, item);
+            if (!atomic) {
+              await client.query('RELEASE SAVEPOINT bulk_item');
+            }
+            results.push({ ...result, key: item.key, ok: true });
+          } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            if (atomic) {
+              await client.query('ROLLBACK');
+              return {
+                atomic,
+                committed: false,
+                total: items.length,
+                succeeded: 0,
+                failed: items.length,
+                results: items.map((other, otherIndex) => ({
+                  key: other.key,
+                  ok: false,
+                  error: otherIndex === index ? message : `Not applied: batch rolled back after item ${index} (${item.key}) failed`
+                }))
+              };
+            }
+            await client.query('ROLLBACK TO SAVEPOINT bulk_item');
+            results.push({ key: item.key, ok: false, error: message });
+          }
+        }
+        await client.query('COMMIT');
+      } catch (error) {
+        await client.query('ROLLBACK');
+        throw error;
+      }
+
+      return this.batchResult(atomic, results);
+    });
+  }
+
+  private batchResult(atomic: boolean, results: BulkItemResult[]): BulkWriteResult {
+    const succeeded = results.filter(result => result.ok).length;
+    return {
+      atomic,
+      committed: true,
+      total: results.length,
+      succeeded,
+      failed: results.length - succeeded,
+      results
+    };
+  }
+
+  /**
+   * Get a pooled connection through the circuit breaker
+   */
+  private async acquire(): Promise<PoolClient> {
+    return this.breaker.execute(() => retryWithBackoff(
+      () => this.pool.connect(),
+      { ...this.retry, attempts: Math.min(this.retry.attempts, ACQUIRE_ATTEMPTS) },
+      isConnectionError
+    ));
+  }
+
+  private assertVersioned(table: string): void {
+    this.tables.resolve(table);
+    if (!this.tables.isVersioned(table)) {
+      throw new Error(`Table ${table} is not versioned. Create it with create_table and versioned: true, or add it to VERSIONED_TABLES`);
+    }
+  }
+
+  /**
+   * Serialize writes to one key of a versioned table until the transaction ends
+   */
+  private async lockKey(client: PoolClient, table: string, key: string): Promise<void> {
+    await client.query('SELECT pg_advisory_xact_lock(hashtextextended($1, 0))', [`${table}:${key}`]);
+  }
+
+  /**
+   * Append the next version of a key. When a key has no history yet (the
+   * table was versioned after it was written) its current value is recorded
+   * first as the baseline version.
+   */
+  private async appendVersion(
+    client: PoolClient,
+    table: string,
+    key: string,
+    entry: { operation: VersionOperation; data: any; expiresAt: Date | null; attribution: WriteAttribution }
+  ): Promise<number> {
+    const latest = await client.query(`
+      SELECT MAX(version) AS version FROM data_versions WHERE table_name = $1 AND key = $2
+    `, [table, key]);
+    let version: number = latest.rows[0].version ?? 0;
+
+    if (version === 0) {
+      const current = await client.query(`
+        SELECT data, expires_at, created_at FROM ${this.tables.resolve(table)} WHERE key = $1
+      `, [key]);
+      if (current.rows.length > 0) {
+        version = 1;
+        await client.query(`
+          INSERT INTO data_versions (table_name, key, version, operation, data, expires_at, created_at)
+          VALUES ($1, $2, $3, 'store', $4, $5, $6)
+        `, [table, key, version, JSON.stringify(current.rows[0].data), current.rows[0].expires_at, current.rows[0].created_at]);
+      }
+    }
+
+    version++;
+    await client.query(`
+      INSERT INTO data_versions (table_name, key, version, operation, data, expires_at, author, job_id, reverted_from)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+    `, [
+      table,
+      key,
+      version,
+      entry.operation,
+      entry.operation === 'delete' ? null : JSON.stringify(entry.data),
+      entry.expiresAt,
+      entry.attribution.author ?? null,
+      entry.attribution.jobId ?? null,
+      entry.attribution.revertedFrom ?? null
+    ]);
+
+    return version;
+  }
+
+  private mapVersion(row: any, includeData: boolean): DataVersion {
+    return {
+      version: row.version,
+      operation: row.operation,
+      data: includeData ? row.data ?? undefined : undefined,
+      expires_at: row.expires_at ?? undefined,
+      author: row.author ?? undefined,
+      job_id: row.job_id ?? undefined,
+      reverted_from: row.reverted_from ?? undefined,
+      created_at: row.created_at
+    };
+  }
+
+  private async createKvTable(client: PoolClient, table: string): Promise<void> {
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS ${this.tables.qualify(table)} (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        key VARCHAR(255) UNIQUE NOT NULL,
+        data JSONB NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        expires_at TIMESTAMP,
+        table_name VARCHAR(255)
+      )
+    `);
+    await this.ensureChangeTrigger(client, table);
+  }
+
+  /**
+   * Notify CHANGE_CHANNEL of every row written to or deleted from a key/value table
+   */
+  private async ensureChangeTrigger(client: PoolClient, table: string): Promise<void> {
+    const qualifiedTable = this.tables.qualify(table);
+    const existing = await client.query(`
+      SELECT 1 FROM pg_trigger WHERE tgrelid = $1::regclass AND tgname = 'notify_kv_change'
+    `, [qualifiedTable]);
+
+    if (existing.rows.length === 0) {
+      await client.query(`
+        CREATE TRIGGER notify_kv_change
+        AFTER INSERT OR UPDATE OR DELETE ON ${qualifiedTable}
+        FOR EACH ROW EXECUTE FUNCTION notify_kv_change()
+      `);
+    }
+  }
+
+  /**
+   * Deliver changes committed by any process. Changes arrive through LISTEN
+   * on a dedicated connection outside the pool, opened for the first listener
+   * and re-opened with backoff when it drops; changes committed while it is
+   * down are not delivered.
+   */
+  async watchChanges(listener: (change: DataChange) => void): Promise<() => Promise<void>> {
+    this.changeListeners.add(listener);
     try {
-      const backupData: any = {};
-      
-      if (!tables) {
-        // Get all user tables
-        const tablesResult = await client.query(`
-          SELECT tablename 
-          FROM pg_tables 
-          WHERE schemaname = 'public'
-        `);
-        tables = tablesResult.rows.map(row => row.tablename);
+      await this.openChangeClient();
+    } catch (error) {
+      this.changeListeners.delete(listener);
+      throw error;
+    }
+
+    return async () => {
+      this.changeListeners.delete(listener);
+      if (this.changeListeners.size === 0) {
+        await this.closeChangeClient();
       }
+    };
+  }
+
+  private async openChangeClient(): Promise<void> {
+    if (this.changeClient) {
+      return;
+    }
+    this.changeClientOpening ??= retryWithBackoff(() => this.connectChangeClient(), this.retry, isConnectionError)
+      .then((client) => {
+        this.changeClient = client;
+      })
+      .finally(() => {
+        this.changeClientOpening = undefined;
+      });
+    await this.changeClientOpening;
+  }
 
-      for (const table of tables) {
-        const result = await client.query(`SELECT * FROM ${table}`);
-        backupData[table] = result.rows;
+  private async connectChangeClient(): Promise<Client> {
+    const client = new Client({ connectionString: this.connectionString });
+    client.on('notification', (message) => {
+      if (message.channel === CHANGE_CHANNEL && message.payload) {
+        this.dispatchChange(message.payload);
       }
+    });
+    // A connection error is followed by 'end', which reconnects
+    client.on('error', (error) => {
+      console.error('PostgreSQL change listener error:', error.message);
+    });
 
-      return JSON.stringify(backupData, null, 2);
-    } finally {
-      client.release();
+    try {
+      await client.connect();
+      await client.query(`LISTEN ${CHANGE_CHANNEL}`);
+    } catch (error) {
+      await client.end().catch(() => undefined);
+      throw error;
     }
+
+    client.on('end', () => {
+      if (this.changeClient !== client) {
+        return;
+      }
+      this.changeClient = undefined;
+      console.error('PostgreSQL change listener disconnected, reconnecting');
+      this.reconnectChangeClient(0);
+    });
+    return client;
+  }
+
+  private reconnectChangeClient(attempt: number): void {
+    this.changeReconnectTimer = setTimeout(() => {
+      this.changeReconnectTimer = undefined;
+      if (this.changeListeners.size === 0 || this.changeClient) {
+        return;
+      }
+      this.openChangeClient().then(
+        () => console.error('PostgreSQL change listener reconnected'),
+        (error) => {
+          console.error('PostgreSQL change listener reconnect failed:', error instanceof Error ? error.message : error);
+          this.reconnectChangeClient(attempt + 1);
+        }
+      );
+    }, backoffDelay(attempt, this.retry));
+  }
+
+  private async closeChangeClient(): Promise<void> {
+    clearTimeout(this.changeReconnectTimer);
+    this.changeReconnectTimer = undefined;
+    const client = this.changeClient;
+    this.changeClient = undefined;
+    await client?.end();
+  }
+
+  /**
+   * Pass a trigger payload on to the listeners; rows of tables outside the
+   * key/value schema other than analysis_jobs are ignored
+   */
+  private dispatchChange(payload: string): void {
+    let row: any;
+    try {
+      row = JSON.parse(payload);
+    } catch {
+      console.error(`Ignoring malformed change notification: ${payload}`);
+      return;
+    }
+
+    const isJob = row.schema === 'public' && row.table === 'analysis_jobs';
+    if (!isJob && !(row.schema === this.tables.getSchema() && this.tables.isRegistered(row.table))) {
+      return;
+    }
+
+    const change: DataChange = {
+      table: row.table,
+      key: String(row.key),
+      operation: row.operation,
+      status: row.status ?? undefined,
+      previous_status: row.previous_status ?? undefined
+    };
+    for (const listener of this.changeListeners) {
+      listener(change);
+    }
+  }
+
+  async createJob(problemDescription: string, userId?: string, metadata?: Record<string, any>): Promise<AnalysisJob> {
+    return this.withClient(async (client) => {
+      const result = await client.query(`
+        INSERT INTO analysis_jobs (problem_description, status, user_id, metadata)
+        VALUES ($1, 'pending', $2, $3)
+        RETURNING *
+      `, [problemDescription, userId ?? null, metadata ? JSON.stringify(metadata) : null]);
+
+      return this.mapJob(result.rows[0]);
+    });
+  }
+
+  async getJob(jobId: string, includeResults: boolean): Promise<AnalysisJob | JobDetails | null> {
+    return this.withClient(async (client) => {
+      const result = await client.query('SELECT * FROM analysis_jobs WHERE id = $1', [jobId]);
+      if (result.rows.length === 0) {
+        return null;
+      }
+
+      const job = this.mapJob(result.rows[0]);
+      if (!includeResults) {
+        return job;
+      }
+
+      const resultsResult = await client.query(`
+        SELECT * FROM analysis_results WHERE job_id = $1 ORDER BY created_at
+      `, [jobId]);
+      const reportsResult = await client.query(`
+        SELECT * FROM reports WHERE job_id = $1 ORDER BY created_at
+      `, [jobId]);
+
+      return {
+        ...job,
+        results: resultsResult.rows.map(row => this.mapResult(row)),
+        reports: reportsResult.rows.map(row => this.mapReport(row))
+      };
+    });
+  }
+
+  async updateJobStatus(
+    jobId: string,
+    update: { status: JobStatus; terminal: boolean; metadata: Record<string, any> },
+    check: (job: AnalysisJob) => void
+  ): Promise<AnalysisJob> {
+    return this.transaction(async (client) => {
+      check(await this.lockJob(client, jobId));
+
+      const result = await client.query(`
+        UPDATE analysis_jobs
+        SET status = $2,
+            updated_at = CURRENT_TIMESTAMP,
+            completed_at = CASE WHEN $3::boolean THEN CURRENT_TIMESTAMP ELSE completed_at END,
+            metadata = COALESCE(metadata, '{}'::jsonb) || $4::jsonb
+        WHERE id = $1
+        RETURNING *
+      `, [jobId, update.status, update.terminal, JSON.stringify(update.metadata)]);
+
+      return this.mapJob(result.rows[0]);
+    });
+  }
+
+  async appendJobResult(
+    jobId: string,
+    result: { analysisType: string; results: any; insights?: string[]; confidenceScore?: number },
+    check: (job: AnalysisJob) => void
+  ): Promise<AnalysisResult> {
+    return this.transaction(async (client) => {
+      check(await this.lockJob(client, jobId));
+
+      const inserted = await client.query(`
+        INSERT INTO analysis_results (job_id, analysis_type, results, insights, confidence_score)
+        VALUES ($1, $2, $3, $4, $5)
+        RETURNING *
+      `, [jobId, result.analysisType, JSON.stringify(result.results ?? null), result.insights ?? null, result.confidenceScore ?? null]);
+
+      await client.query('UPDATE analysis_jobs SET updated_at = CURRENT_TIMESTAMP WHERE id = $1', [jobId]);
+
+      return this.mapResult(inserted.rows[0]);
+    });
+  }
+
+  async registerJobReport(
+    jobId: string,
+    report: { reportType: string; filePath: string; fileSize?: number; emailSent: boolean }
+  ): Promise<Report> {
+    return this.transaction(async (client) => {
+      await this.lockJob(client, jobId);
+
+      const result = await client.query(`
+        INSERT INTO reports (job_id, report_type, file_path, file_size, email_sent, email_sent_at)
+        VALUES ($1, $2, $3, $4, $5, CASE WHEN $5 THEN CURRENT_TIMESTAMP END)
+        RETURNING *
+      `, [jobId, report.reportType, report.filePath, report.fileSize ?? null, report.emailSent]);
+
+      await client.query('UPDATE analysis_jobs SET updated_at = CURRENT_TIMESTAMP WHERE id = $1', [jobId]);
+
+      return this.mapReport(result.rows[0]);
+    });
+  }
+
+  async listJobs(filters: { status?: JobStatus; userId?: string; limit: number; offset: number }): Promise<{ jobs: AnalysisJob[]; total: number }> {
+    return this.withClient(async (client) => {
+      const conditions: string[] = [];
+      const params: any[] = [];
+
+      if (filters.status) {
+        params.push(filters.status);
+        conditions.push(`status = $${params.length}`);
+      }
+      if (filters.userId) {
+        params.push(filters.userId);
+        conditions.push(`user_id = $${params.length}`);
+      }
+
+      const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+      const countResult = await client.query(`SELECT COUNT(*) AS count FROM analysis_jobs ${where}`, params);
+      const result = await client.query(`
+        SELECT * FROM analysis_jobs
+        ${where}
+        ORDER BY created_at DESC
+        LIMIT $${params.length + 1} OFFSET $${params.length + 2}
+      `, [...params, filters.limit, filters.offset]);
+
+      return {
+        jobs: result.rows.map(row => this.mapJob(row)),
+        total: parseInt(countResult.rows[0].count)
+      };
+    });
+  }
+
+  async storeQueryResult(entry: { queryHash: string; queryText: string; results: string; ttl: number; sizeBytes: number }): Promise<Date> {
+    return this.withClient(async (client) => {
+      const result = await client.query(`
+        INSERT INTO query_results (query_hash, query_text, results, expires_at, size_bytes)
+        VALUES ($1, $2, $3, CURRENT_TIMESTAMP + make_interval(secs => $4), $5)
+        ON CONFLICT (query_hash)
+        DO UPDATE SET
+          query_text = EXCLUDED.query_text,
+          results = EXCLUDED.results,
+          expires_at = EXCLUDED.expires_at,
+          size_bytes = EXCLUDED.size_bytes,
+          created_at = CURRENT_TIMESTAMP
+        RETURNING expires_at
+      `, [entry.queryHash, entry.queryText, entry.results, entry.ttl, entry.sizeBytes]);
+
+      return result.rows[0].expires_at;
+    });
+  }
+
+  async lookupQueryResult(queryHash: string): Promise<CachedQueryResult | null> {
+    return this.withClient(async (client) => {
+      const result = await client.query(`
+        SELECT query_hash, query_text, results, created_at, expires_at, size_bytes
+        FROM query_results
+        WHERE query_hash = $1
+        AND (expires_at IS NULL OR expires_at > CURRENT_TIMESTAMP)
+      `, [queryHash]);
+
+      if (result.rows.length === 0) {
+        return null;
+      }
+
+      const row = result.rows[0];
+      return {
+        query_hash: row.query_hash,
+        query_text: row.query_text,
+        results: row.results,
+        created_at: row.created_at,
+        expires_at: row.expires_at ?? undefined,
+        size_bytes: row.size_bytes
+      };
+    });
+  }
+
+  async getAppliedMigrations(): Promise<AppliedMigration[]> {
+    return this.withClient(client => this.appliedMigrations(client));
+  }
+
+  /**
+   * Hold a session-level advisory lock, so migrations are serialized across
+   * server instances, and run the migrations on the same connection
+   */
+  async withMigrationLock<T>(fn: (session: MigrationSession) => Promise<T>): Promise<T> {
+    return this.withClient(async (client) => {
+      const inTransaction = async (sql: string, record: () => Promise<unknown>) => {
+        await client.query('BEGIN');
+        try {
+          await client.query(sql);
+          await record();
+          await client.query('COMMIT');
+        } catch (error) {
+          await client.query('ROLLBACK');
+          throw error;
+        }
+      };
+
+      await client.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK_ID]);
+      try {
+        return await fn({
+          getApplied: () => this.appliedMigrations(client),
+          apply: (migration) => {
+            const startTime = Date.now();
+            return inTransaction(migration.up, () => client.query(`
+              INSERT INTO schema_migrations (version, name, checksum, execution_ms)
+              VALUES ($1, $2, $3, $4)
+            `, [migration.version, migration.name, migration.checksum, Date.now() - startTime]));
+          },
+          revert: (migration) => inTransaction(migration.down ?? '', () => (
+            client.query('DELETE FROM schema_migrations WHERE version = $1', [migration.version])
+          ))
+        });
+      } finally {
+        await client.query('SELECT pg_advisory_unlock($1)', [MIGRATION_LOCK_ID]);
+      }
+    });
+  }
+
+  /**
+   * Tables that may be backed up or restored, keyed by name: the analysis
+   * tables in public plus the registered key/value tables. Referenced tables
+   * come before the tables that reference them.
+   */
+  async getBackupTables(): Promise<Map<string, string>> {
+    return this.withClient(async (client) => {
+      const result = await client.query(`
+        SELECT tablename 
+        FROM pg_tables 
+        WHERE schemaname = 'public' AND tablename <> 'schema_migrations'
+        ORDER BY tablename
+      `);
+
+      const available = new Map<string, string>();
+      for (const row of result.rows) {
+        available.set(row.tablename, `public.${quoteIdentifier(row.tablename)}`);
+      }
+      for (const table of this.tables.list()) {
+        available.set(`${this.tables.getSchema()}.${table}`, this.tables.qualify(table));
+      }
+
+      const dependencies = await client.query(`
+        SELECT conrelid::regclass::text AS child, confrelid::regclass::text AS parent
+        FROM pg_constraint
+        WHERE contype = 'f'
+      `);
+
+      const ordered = new Map<string, string>();
+      const visit = (table: string, path: Set<string>) => {
+        if (ordered.has(table) || path.has(table) || !available.has(table)) return;
+        path.add(table);
+        for (const row of dependencies.rows) {
+          if (row.child === table && row.parent !== table) {
+            visit(row.parent, path);
+          }
+        }
+        ordered.set(table, available.get(table)!);
+      };
+      for (const table of available.keys()) {
+        visit(table, new Set());
+      }
+      return ordered;
+    });
+  }
+
+  async exportRows(qualified: string): Promise<Record<string, any>[]> {
+    return this.withClient(async (client) => {
+      const result = await client.query(`SELECT to_jsonb(t) AS row FROM ${qualified} t`);
+      return result.rows.map(row => row.row);
+    });
+  }
+
+  async restoreRows(
+    tables: { qualified: string; rows: Record<string, any>[] }[],
+    options: { replace: boolean; dryRun: boolean }
+  ): Promise<{ deleted: number; restored: number }[]> {
+    return this.withClient(async (client) => {
+      const counts = tables.map(() => ({ deleted: 0, restored: 0 }));
+
+      await client.query('BEGIN');
+      try {
+        if (options.replace) {
+          // Delete children before the tables they reference
+          for (let i = tables.length - 1; i >= 0; i--) {
+            const result = await client.query(`DELETE FROM ${tables[i].qualified}`);
+            counts[i].deleted = result.rowCount || 0;
+          }
+        }
+
+        for (const [index, table] of tables.entries()) {
+          for (let i = 0; i < table.rows.length; i += RESTORE_BATCH_SIZE) {
+            const batch = table.rows.slice(i, i + RESTORE_BATCH_SIZE);
+            const result = await client.query(`
+              INSERT INTO ${table.qualified}
+              SELECT * FROM jsonb_populate_recordset(NULL::${table.qualified}, $1::jsonb)
+              ON CONFLICT DO NOTHING
+            `, [JSON.stringify(batch)]);
+            counts[index].restored += result.rowCount || 0;
+          }
+        }
+
+        await client.query(options.dryRun ? 'ROLLBACK' : 'COMMIT');
+      } catch (error) {
+        await client.query('ROLLBACK');
+        throw error;
+      }
+
+      return counts;
+    });
+  }
+
+  async startBackupRun(trigger: BackupTrigger, format: 'sql' | 'json'): Promise<string> {
+    return this.withClient(async (client) => {
+      const result = await client.query(`
+        INSERT INTO backup_runs (trigger, status, format)
+        VALUES ($1, 'running', $2)
+        RETURNING id
+      `, [trigger, format]);
+      return result.rows[0].id as string;
+    });
+  }
+
+  async finishBackupRun(runId: string, outcome: { manifest: BackupManifest } | { error: string }): Promise<void> {
+    await this.withClient(async (client) => {
+      if ('manifest' in outcome) {
+        await client.query(`
+          UPDATE backup_runs
+          SET status = 'completed', backup_id = $2, completed_at = CURRENT_TIMESTAMP,
+              size_bytes = $3, tables = $4
+          WHERE id = $1
+        `, [runId, outcome.manifest.id, outcome.manifest.size_bytes, JSON.stringify(outcome.manifest.tables)]);
+      } else {
+        await client.query(`
+          UPDATE backup_runs
+          SET status = 'failed', completed_at = CURRENT_TIMESTAMP, error = $2
+          WHERE id = $1
+        `, [runId, outcome.error]);
+      }
+    });
+  }
+
+  async markBackupsPruned(backupIds: string[]): Promise<void> {
+    await this.withClient(async (client) => {
+      await client.query(`
+        UPDATE backup_runs SET pruned_at = CURRENT_TIMESTAMP
+        WHERE backup_id = ANY($1) AND pruned_at IS NULL
+      `, [backupIds]);
+    });
+  }
+
+  async getBackupRuns(backupIds: string[]): Promise<BackupRun[]> {
+    return this.withClient(async (client) => {
+      const result = await client.query('SELECT * FROM backup_runs WHERE backup_id = ANY($1)', [backupIds]);
+      return result.rows.map(row => this.mapRun(row));
+    });
+  }
+
+  async findBackupRun(filter: { id?: string; status?: BackupRun['status'] }): Promise<BackupRun | null> {
+    return this.withClient(async (client) => {
+      const result = await client.query(`
+        SELECT * FROM backup_runs
+        WHERE ($1::text IS NULL OR backup_id = $1 OR id::text = $1)
+        AND ($2::text IS NULL OR status = $2)
+        ORDER BY started_at DESC LIMIT 1
+      `, [filter.id ?? null, filter.status ?? null]);
+      return result.rows.length > 0 ? this.mapRun(result.rows[0]) : null;
+    });
+  }
+
+  async listRetentionPolicies(): Promise<RetentionPolicy[]> {
+    return this.withClient(async (client) => {
+      const result = await client.query('SELECT * FROM retention_policies ORDER BY table_name');
+      return result.rows.map(row => this.mapPolicy(row));
+    });
+  }
+
+  async setRetentionPolicy(table: string, maxAgeDays: number | null, maxRows: number | null): Promise<RetentionPolicy> {
+    return this.withClient(async (client) => {
+      const result = await client.query(`
+        INSERT INTO retention_policies (table_name, max_age_days, max_rows)
+        VALUES ($1, $2, $3)
+        ON CONFLICT (table_name)
+        DO UPDATE SET
+          max_age_days = EXCLUDED.max_age_days,
+          max_rows = EXCLUDED.max_rows,
+          updated_at = CURRENT_TIMESTAMP
+        RETURNING *
+      `, [table, maxAgeDays, maxRows]);
+
+      return this.mapPolicy(result.rows[0]);
+    });
+  }
+
+  async deleteRetentionPolicy(table: string): Promise<boolean> {
+    return this.withClient(async (client) => {
+      const result = await client.query('DELETE FROM retention_policies WHERE table_name = $1', [table]);
+      return (result.rowCount || 0) > 0;
+    });
+  }
+
+  /**
+   * Delete rows older than max_age_days and rows beyond the newest max_rows.
+   * Jobs are only deleted once completed or failed, together with their
+   * results and reports; deleted key/value rows lose their version history.
+   */
+  async applyRetentionPolicy(policy: RetentionPolicy, kvTable: string | undefined, dryRun: boolean): Promise<Record<string, number>> {
+    const qualified = kvTable ? this.tables.resolve(kvTable) : `public.${quoteIdentifier(policy.table)}`;
+
+    const clauses: string[] = [];
+    const params: any[] = [];
+    if (policy.max_age_days !== undefined) {
+      params.push(policy.max_age_days);
+      clauses.push(`created_at < CURRENT_TIMESTAMP - make_interval(days => $${params.length})`);
+    }
+    if (policy.max_rows !== undefined) {
+      params.push(policy.max_rows);
+      clauses.push(`id IN (SELECT id FROM ${qualified} ORDER BY created_at DESC NULLS LAST, id OFFSET $${params.length})`);
+    }
+    let where = `(${clauses.join(' OR ')})`;
+    if (policy.table === 'analysis_jobs') {
+      where += ` AND status IN ('completed', 'failed')`;
+    }
+
+    return this.withClient(async (client) => {
+      await client.query('BEGIN');
+      try {
+        let counts: Record<string, number>;
+        if (policy.table === 'analysis_jobs') {
+          const jobs = await client.query(`SELECT id FROM analysis_jobs WHERE ${where} FOR UPDATE`, params);
+          counts = await this.deleteJobs(client, jobs.rows.map(row => row.id));
+        } else {
+          const result = await client.query(`DELETE FROM ${qualified} WHERE ${where} RETURNING ${kvTable ? 'key' : 'id'}`, params);
+          counts = { [policy.table]: result.rowCount || 0 };
+
+          if (kvTable && this.tables.isVersioned(kvTable)) {
+            const versions = await client.query(`
+              DELETE FROM data_versions WHERE table_name = $1 AND key = ANY($2::varchar[])
+            `, [kvTable, result.rows.map(row => row.key)]);
+            counts.data_versions = versions.rowCount || 0;
+          }
+        }
+
+        const total = Object.values(counts).reduce((sum, count) => sum + count, 0);
+        if (!dryRun && total > 0) {
+          await this.logPurge(client, 'retention', policy.table, counts, { requestedBy: 'retention_policy' });
+        }
+
+        await client.query(dryRun ? 'ROLLBACK' : 'COMMIT');
+        return counts;
+      } catch (error) {
+        await client.query('ROLLBACK');
+        throw error;
+      }
+    });
+  }
+
+  async purgeUserJobs(
+    userId: string,
+    log: { target: string; requestedBy?: string; reason?: string },
+    dryRun: boolean
+  ): Promise<{ jobIds: string[]; reportFiles: string[]; deleted: Record<string, number>; logId?: string }> {
+    return this.withClient(async (client) => {
+      await client.query('BEGIN');
+      try {
+        const jobs = await client.query(`
+          SELECT id FROM analysis_jobs WHERE user_id = $1 ORDER BY created_at FOR UPDATE
+        `, [userId]);
+        const jobIds: string[] = jobs.rows.map(row => row.id);
+
+        const reports = await client.query(`
+          SELECT file_path FROM reports WHERE job_id = ANY($1::uuid[]) ORDER BY created_at
+        `, [jobIds]);
+        const deleted = await this.deleteJobs(client, jobIds);
+        const versions = await client.query('DELETE FROM data_versions WHERE job_id = ANY($1::uuid[])', [jobIds]);
+        deleted.data_versions = versions.rowCount || 0;
+
+        const logId = dryRun
+          ? undefined
+          : await this.logPurge(client, 'user', log.target, deleted, log);
+
+        await client.query(dryRun ? 'ROLLBACK' : 'COMMIT');
+        return { jobIds, reportFiles: reports.rows.map(row => row.file_path as string), deleted, logId };
+      } catch (error) {
+        await client.query('ROLLBACK');
+        throw error;
+      }
+    });
+  }
+
+  async getPurgeLog(filters: { userTarget?: string; type?: PurgeType; limit: number; offset: number }): Promise<{ entries: PurgeLogEntry[]; total: number }> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (filters.userTarget !== undefined) {
+      params.push(filters.userTarget);
+      conditions.push(`purge_type = 'user' AND target = $${params.length}`);
+    }
+    if (filters.type) {
+      params.push(filters.type);
+      conditions.push(`purge_type = $${params.length}`);
+    }
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    return this.withClient(async (client) => {
+      const count = await client.query(`SELECT COUNT(*) AS total FROM purge_log ${where}`, params);
+      const result = await client.query(`
+        SELECT * FROM purge_log ${where}
+        ORDER BY created_at DESC, id DESC
+        LIMIT $${params.length + 1} OFFSET $${params.length + 2}
+      `, [...params, filters.limit, filters.offset]);
+
+      return {
+        entries: result.rows.map(row => this.mapLogEntry(row)),
+        total: parseInt(count.rows[0].total)
+      };
+    });
+  }
+
+  /**
+   * Tables described from information_schema, pg_catalog and pg_stat_user_tables
+   */
+  async describeTables(only?: { schema: string; table: string }): Promise<TableInfo[]> {
+    const kvSchema = this.tables.getSchema();
+    const schemas = only ? [only.schema] : ['public', kvSchema];
+    const tableFilter = only ? only.table : null;
+
+    return this.withClient(async (client) => {
+      const tables = await client.query(`
+        SELECT
+          n.nspname AS schema,
+          c.relname AS table,
+          c.reltuples::bigint AS reltuples,
+          pg_total_relation_size(c.oid) AS size_bytes,
+          pg_relation_size(c.oid) AS table_bytes,
+          pg_indexes_size(c.oid) AS index_bytes,
+          pg_size_pretty(pg_total_relation_size(c.oid)) AS size,
+          s.n_live_tup,
+          s.n_dead_tup,
+          s.seq_scan,
+          s.idx_scan,
+          GREATEST(s.last_vacuum, s.last_autovacuum) AS last_vacuum,
+          GREATEST(s.last_analyze, s.last_autoanalyze) AS last_analyze
+        FROM pg_class c
+        JOIN pg_namespace n ON n.oid = c.relnamespace
+        LEFT JOIN pg_stat_user_tables s ON s.relid = c.oid
+        WHERE c.relkind IN ('r', 'p')
+        AND n.nspname = ANY($1)
+        AND ($2::text IS NULL OR c.relname = $2)
+        ORDER BY n.nspname = 'public' DESC, n.nspname, c.relname
+      `, [schemas, tableFilter]);
+
+      const columns = await client.query(`
+        SELECT
+          c.table_schema,
+          c.table_name,
+          c.column_name,
+          CASE WHEN c.data_type = 'USER-DEFINED' OR c.data_type = 'ARRAY' THEN c.udt_name ELSE c.data_type END AS type,
+          c.is_nullable = 'YES' AS nullable,
+          c.column_default,
+          c.character_maximum_length,
+          EXISTS (
+            SELECT 1
+            FROM information_schema.table_constraints tc
+            JOIN information_schema.key_column_usage kcu
+              ON kcu.constraint_schema = tc.constraint_schema
+              AND kcu.constraint_name = tc.constraint_name
+            WHERE tc.constraint_type = 'PRIMARY KEY'
+            AND tc.table_schema = c.table_schema
+            AND tc.table_name = c.table_name
+            AND kcu.column_name = c.column_name
+          ) AS primary_key
+        FROM information_schema.columns c
+        WHERE c.table_schema = ANY($1)
+        AND ($2::text IS NULL OR c.table_name = $2)
+        ORDER BY c.table_schema, c.table_name, c.ordinal_position
+      `, [schemas, tableFilter]);
+
+      const indexes = await client.query(`
+        SELECT
+          n.nspname AS schema,
+          t.relname AS table,
+          i.relname AS name,
+          ix.indisunique AS unique,
+          ix.indisprimary AS primary,
+          pg_get_indexdef(ix.indexrelid) AS definition,
+          pg_relation_size(i.oid) AS size_bytes,
+          ARRAY(
+            SELECT a.attname::text
+            FROM unnest(ix.indkey) WITH ORDINALITY AS k(attnum, position)
+            JOIN pg_attribute a ON a.attrelid = t.oid AND a.attnum = k.attnum
+            ORDER BY k.position
+          ) AS columns
+        FROM pg_index ix
+        JOIN pg_class i ON i.oid = ix.indexrelid
+        JOIN pg_class t ON t.oid = ix.indrelid
+        JOIN pg_namespace n ON n.oid = t.relnamespace
+        WHERE n.nspname = ANY($1)
+        AND ($2::text IS NULL OR t.relname = $2)
+        ORDER BY n.nspname, t.relname, ix.indisprimary DESC, i.relname
+      `, [schemas, tableFilter]);
+
+      const columnsByTable = new Map<string, ColumnInfo[]>();
+      for (const row of columns.rows) {
+        const key = `${row.table_schema}.${row.table_name}`;
+        if (!columnsByTable.has(key)) columnsByTable.set(key, []);
+        columnsByTable.get(key)!.push({
+          name: row.column_name,
+          type: row.type,
+          nullable: row.nullable,
+          default: row.column_default ?? undefined,
+          max_length: row.character_maximum_length ?? undefined,
+          primary_key: row.primary_key
+        });
+      }
+
+      const indexesByTable = new Map<string, IndexInfo[]>();
+      for (const row of indexes.rows) {
+        const key = `${row.schema}.${row.table}`;
+        if (!indexesByTable.has(key)) indexesByTable.set(key, []);
+        indexesByTable.get(key)!.push({
+          name: row.name,
+          columns: row.columns,
+          unique: row.unique,
+          primary: row.primary,
+          definition: row.definition,
+          size_bytes: parseInt(row.size_bytes)
+        });
+      }
+
+      return tables.rows.map(row => {
+        const key = `${row.schema}.${row.table}`;
+        const reltuples = parseInt(row.reltuples);
+        return {
+          name: row.schema === 'public' ? row.table : key,
+          schema: row.schema,
+          table: row.table,
+          key_value: row.schema === kvSchema && this.tables.isRegistered(row.table),
+          versioned: row.schema === kvSchema && this.tables.isVersioned(row.table),
+          columns: columnsByTable.get(key) || [],
+          indexes: indexesByTable.get(key) || [],
+          // reltuples is -1 until the table has been vacuumed or analyzed
+          row_estimate: reltuples >= 0 ? reltuples : parseInt(row.n_live_tup || '0'),
+          dead_rows: parseInt(row.n_dead_tup || '0'),
+          size_bytes: parseInt(row.size_bytes),
+          table_bytes: parseInt(row.table_bytes),
+          index_bytes: parseInt(row.index_bytes),
+          size: row.size,
+          seq_scans: parseInt(row.seq_scan || '0'),
+          index_scans: parseInt(row.idx_scan || '0'),
+          last_vacuum: row.last_vacuum ?? undefined,
+          last_analyze: row.last_analyze ?? undefined
+        };
+      });
+    });
+  }
+
+  /**
+   * Rows of a table, read in a read-only transaction
+   */
+  async sampleRows(schema: string, table: string, limit: number): Promise<{ columns: string[]; rows: Record<string, any>[] }> {
+    return this.withClient(async (client) => {
+      await client.query('BEGIN READ ONLY');
+      try {
+        const result = await client.query(
+          `SELECT * FROM ${quoteIdentifier(schema)}.${quoteIdentifier(table)} LIMIT $1`,
+          [limit]
+        );
+        return { columns: result.fields.map(field => field.name), rows: result.rows };
+      } finally {
+        await client.query('ROLLBACK');
+      }
+    });
+  }
+
+  private async lockJob(client: PoolClient, jobId: string): Promise<AnalysisJob> {
+    const result = await client.query('SELECT * FROM analysis_jobs WHERE id = $1 FOR UPDATE', [jobId]);
+    if (result.rows.length === 0) {
+      throw new Error(`Analysis job not found: ${jobId}`);
+    }
+    return this.mapJob(result.rows[0]);
+  }
+
+  /**
+   * Delete jobs after the reports and analysis results that reference them
+   */
+  private async deleteJobs(client: PoolClient, jobIds: string[]): Promise<Record<string, number>> {
+    const reports = await client.query('DELETE FROM reports WHERE job_id = ANY($1::uuid[])', [jobIds]);
+    const results = await client.query('DELETE FROM analysis_results WHERE job_id = ANY($1::uuid[])', [jobIds]);
+    const jobs = await client.query('DELETE FROM analysis_jobs WHERE id = ANY($1::uuid[])', [jobIds]);
+
+    return {
+      analysis_jobs: jobs.rowCount || 0,
+      analysis_results: results.rowCount || 0,
+      reports: reports.rowCount || 0
+    };
+  }
+
+  private async logPurge(
+    client: PoolClient,
+    type: PurgeType,
+    target: string,
+    deleted: Record<string, number>,
+    details: { requestedBy?: string; reason?: string }
+  ): Promise<string> {
+    const result = await client.query(`
+      INSERT INTO purge_log (purge_type, target, requested_by, reason, deleted)
+      VALUES ($1, $2, $3, $4, $5)
+      RETURNING id
+    `, [type, target, details.requestedBy ?? null, details.reason ?? null, JSON.stringify(deleted)]);
+
+    return result.rows[0].id;
+  }
+
+  private async appliedMigrations(client: PoolClient): Promise<AppliedMigration[]> {
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        version INTEGER PRIMARY KEY,
+        name VARCHAR(255) NOT NULL,
+        checksum VARCHAR(64) NOT NULL,
+        applied_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        execution_ms INTEGER
+      )
+    `);
+    const result = await client.query('SELECT version, name, checksum, applied_at FROM schema_migrations ORDER BY version');
+    return result.rows;
+  }
+
+  private mapJob(row: any): AnalysisJob {
+    return {
+      id: row.id,
+      problem_description: row.problem_description,
+      status: row.status,
+      created_at: row.created_at,
+      updated_at: row.updated_at,
+      completed_at: row.completed_at ?? undefined,
+      user_id: row.user_id ?? undefined,
+      metadata: row.metadata ?? undefined
+    };
+  }
+
+  private mapResult(row: any): AnalysisResult {
+    return {
+      id: row.id,
+      job_id: row.job_id,
+      analysis_type: row.analysis_type,
+      results: row.results,
+      insights: row.insights ?? undefined,
+      confidence_score: row.confidence_score !== null ? parseFloat(row.confidence_score) : undefined,
+      created_at: row.created_at
+    };
+  }
+
+  private mapReport(row: any): Report {
+    return {
+      id: row.id,
+      job_id: row.job_id,
+      report_type: row.report_type,
+      file_path: row.file_path,
+      file_size: row.file_size ?? undefined,
+      created_at: row.created_at,
+      email_sent: row.email_sent,
+      email_sent_at: row.email_sent_at ?? undefined
+    };
+  }
+
+  private mapRun(row: any): BackupRun {
+    return {
+      id: row.id,
+      backup_id: row.backup_id ?? undefined,
+      trigger: row.trigger,
+      status: row.status,
+      format: row.format,
+      started_at: row.started_at,
+      completed_at: row.completed_at ?? undefined,
+      size_bytes: row.size_bytes !== null ? parseInt(row.size_bytes) : undefined,
+      tables: row.tables ?? undefined,
+      error: row.error ?? undefined,
+      pruned_at: row.pruned_at ?? undefined
+    };
+  }
+
+  private mapPolicy(row: any): RetentionPolicy {
+    return {
+      table: row.table_name,
+      max_age_days: row.max_age_days ?? undefined,
+      max_rows: row.max_rows ?? undefined,
+      created_at: row.created_at,
+      updated_at: row.updated_at
+    };
+  }
+
+  private mapLogEntry(row: any): PurgeLogEntry {
+    return {
+      id: row.id,
+      purge_type: row.purge_type,
+      target: row.target,
+      requested_by: row.requested_by ?? undefined,
+      reason: row.reason ?? undefined,
+      deleted: row.deleted,
+      created_at: row.created_at
+    };
   }
 
   async close(): Promise<void> {
+    this.changeListeners.clear();
+    await this.closeChangeClient();
     await this.pool.end();
   }
 }
\ No newline at end of file
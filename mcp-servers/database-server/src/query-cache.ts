@@ -0,0 +1,74 @@
+import { createHash } from 'crypto';
+import { normalizeSql } from './sql-guard.js';
+import { StorageBackend } from './storage-backend.js';
+import { CachedQueryResult } from './types.js';
+
+/**
+ * QueryResultCache stores Athena query results in the query_results table,
+ * keyed by a hash of the normalized SQL plus database and workgroup, so that
+ * re-asking the same question does not re-scan S3.
+ */
+export class QueryResultCache {
+  private storage: StorageBackend;
+  private maxBytes: number;
+  private defaultTTL: number;
+
+  /**
+   * @param maxBytes Largest serialized result that will be cached
+   * @param defaultTTL Seconds a cached result stays valid when no TTL is given
+   */
+  constructor(storage: StorageBackend, maxBytes: number, defaultTTL: number) {
+    this.storage = storage;
+    this.maxBytes = maxBytes;
+    this.defaultTTL = defaultTTL;
+  }
+
+  /**
+   * Hash of the normalized query text, database and workgroup
+   */
+  hashQuery(query: string, database: string = '', workgroup: string = 'primary'): string {
+    const normalized = normalizeSql(query);
+    return createHash('sha256').update(`${database}\n${workgroup}\n${normalized}`, 'utf-8').digest('hex');
+  }
+
+  async store(
+    query: string,
+    results: any,
+    options: { database?: string; workgroup?: string; ttl?: number }
+  ): Promise<{ cached: boolean; query_hash: string; size_bytes: number; expires_at?: Date; reason?: string }> {
+    const queryHash = this.hashQuery(query, options.database, options.workgroup);
+    const serialized = JSON.stringify(results ?? null);
+    const sizeBytes = Buffer.byteLength(serialized, 'utf-8');
+
+    if (sizeBytes > this.maxBytes) {
+      return {
+        cached: false,
+        query_hash: queryHash,
+        size_bytes: sizeBytes,
+        reason: `Results are ${sizeBytes} bytes, larger than the ${this.maxBytes} byte cache limit`
+      };
+    }
+
+    const ttl = options.ttl ?? this.defaultTTL;
+    const expiresAt = await this.storage.storeQueryResult({
+      queryHash,
+      queryText: query,
+      results: serialized,
+      ttl,
+      sizeBytes
+    });
+
+    return {
+      cached: true,
+      query_hash: queryHash,
+      size_bytes: sizeBytes,
+      expires_at: expiresAt
+    };
+  }
+
+  async lookup(query: string, options: { database?: string; workgroup?: string }): Promise<CachedQueryResult | null> {
+    const queryHash = this.hashQuery(query, options.database, options.workgroup);
+
+    return this.storage.lookupQueryResult(queryHash);
+  }
+}
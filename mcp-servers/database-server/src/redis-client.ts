@@ -1,13 +1,93 @@
-import { createClient, RedisClientType } from 'redis';
-import { CacheStats } from './types.js';
+import { createClient, ErrorReply, MultiErrorReply, RedisClientType } from 'redis';
+import { CircuitBreaker, DEFAULT_RESILIENCE, backoffDelay } from './resilience.js';
+import { CacheBackend } from './storage-backend.js';
+import {
+  CacheStats,
+  CacheKeyPage,
+  NamespaceStats,
+  CacheHealth,
+  RetryOptions,
+  CircuitBreakerOptions
+} from './types.js';
 
-export class RedisClient {
+const DELETE_BATCH_SIZE = 500;
+// Keys whose MEMORY USAGE is measured for the namespace stats
+const MEMORY_SAMPLE_SIZE = 100;
+
+// Namespace of the cached copies of key/value table rows, reserved for TieredStore
+export const TABLE_CACHE_NAMESPACE = 'tbl';
+
+/**
+ * Build a namespaced key, e.g. namespacedKey('job:42', 'result') => 'job:42:result'.
+ * Keys in the reserved table cache namespace are rejected.
+ */
+export function namespacedKey(namespace: string | undefined, key: string): string {
+  const namespaced = namespace ? `${namespace}:${key}` : key;
+  if (namespaced.startsWith(`${TABLE_CACHE_NAMESPACE}:`)) {
+    throw new Error(`Cache namespace "${TABLE_CACHE_NAMESPACE}" is reserved for cached table rows`);
+  }
+  return namespaced;
+}
+
+/**
+ * Glob pattern matching every key in a namespace, with glob characters in the namespace escaped
+ */
+export function namespacePattern(namespace: string): string {
+  return `${namespace.replace(/[*?[\]\\]/g, '\\$&')}:*`;
+}
+
+/**
+ * Reject an invalidation pattern without a literal prefix before its first
+ * wildcard, or one that could match the reserved table cache namespace
+ */
+export function assertInvalidationPattern(pattern: string): void {
+  let prefix = '';
+  let wildcard = false;
+  for (let i = 0; i < pattern.length && !wildcard; i++) {
+    if (pattern[i] === '\\' && i + 1 < pattern.length) {
+      prefix += pattern[++i];
+    } else if ('*?['.includes(pattern[i])) {
+      wildcard = true;
+    } else {
+      prefix += pattern[i];
+    }
+  }
+
+  if (prefix === '') {
+    throw new Error('Pattern must start with a literal prefix before the first wildcard, e.g. "job:42:*"');
+  }
+  const reserved = `${TABLE_CACHE_NAMESPACE}:`;
+  if (prefix.startsWith(reserved) || (wildcard && reserved.startsWith(prefix))) {
+    throw new Error(`Cache namespace "${TABLE_CACHE_NAMESPACE}" is reserved for cached table rows`);
+  }
+}
+
+/**
+ * RedisClient reconnects with exponential backoff after Redis goes away.
+ * Commands fail immediately while it is disconnected (there is no offline
+ * queue), and a circuit breaker stops sending commands after repeated
+ * failures so that callers can fall back quickly.
+ */
+export class RedisClient implements CacheBackend {
   private client: RedisClientType;
   private defaultTTL: number;
+  private retry: RetryOptions;
+  private breaker: CircuitBreaker;
 
-  constructor(connectionString: string, defaultTTL: number = 3600) {
+  constructor(
+    connectionString: string,
+    defaultTTL: number = 3600,
+    resilience: { retry: RetryOptions; circuitBreaker: CircuitBreakerOptions } = DEFAULT_RESILIENCE
+  ) {
+    this.retry = resilience.retry;
+    this.breaker = new CircuitBreaker('Redis', resilience.circuitBreaker);
     this.client = createClient({
-      url: connectionString
+      url: connectionString,
+      disableOfflineQueue: true,
+      socket: {
+        // Keep reconnecting for as long as the server runs
+        reconnectStrategy: (retries: number) => backoffDelay(retries, this.retry)
+      }
     });
     this.defaultTTL = defaultTTL;
 
@@ -15,101 +95,389 @@ export class RedisClient {
       console.error('Redis Client Error:', err);
     });
 
-    this.client.on('connect', () => {
-      console.log('Redis connected successfully');
+    this.client.on('ready', () => {
+      console.error('Redis connected successfully');
+    });
+  }
+
+  /**
+   * Connect, giving up after the configured number of attempts. Returns false
+   * when Redis is still unreachable; the client then keeps reconnecting in
+   * the background.
+   */
+  async connect(): Promise<boolean> {
+    return new Promise<boolean>((resolve) => {
+      let attempts = 1;
+      const onReady = () => {
+        cleanup();
+        resolve(true);
+      };
+      const onReconnecting = () => {
+        if (++attempts > this.retry.attempts) {
+          cleanup();
+          resolve(false);
+        }
+      };
+      const cleanup = () => {
+        this.client.off('ready', onReady);
+        this.client.off('reconnecting', onReconnecting);
+      };
+
+      this.client.on('ready', onReady);
+      this.client.on('reconnecting', onReconnecting);
+      this.client.connect().catch((error) => {
+        cleanup();
+        console.error('Redis connection failed:', error);
+        resolve(false);
+      });
     });
   }
 
-  async connect(): Promise<void> {
-    await this.client.connect();
+  /**
+   * Whether commands are currently being sent to Redis
+   */
+  isAvailable(): boolean {
+    return this.client.isReady && this.breaker.allowsRequests();
+  }
+
+  /**
+   * PING Redis and report latency and circuit state
+   */
+  async checkHealth(): Promise<CacheHealth> {
+    const startTime = Date.now();
+    try {
+      await this.command(() => this.client.ping());
+      return {
+        backend: 'redis',
+        status: 'up',
+        latency_ms: Date.now() - startTime,
+        connected: this.client.isReady,
+        circuit: this.breaker.getStatus()
+      };
+    } catch (error) {
+      return {
+        backend: 'redis',
+        status: 'down',
+        error: error instanceof Error ? error.message : 'Unknown error',
+        connected: this.client.isReady,
+        circuit: this.breaker.getStatus()
+      };
+    }
   }
 
   async set(key: string, value: any, ttl?: number): Promise<void> {
-    const serializedValue = JSON.stringify(value);
-    const expiration = ttl || this.defaultTTL;
+    return this.command(async () => {
+      const serializedValue = JSON.stringify(value);
+      const expiration = ttl || this.defaultTTL;
     
-    await this.client.setEx(key, expiration, serializedValue);
+      await this.client.setEx(key, expiration, serializedValue);
+    });
   }
 
   async get(key: string): Promise<any | null> {
-    const value = await this.client.get(key);
-    if (!value) return null;
+    return this.command(async () => {
+      const value = await this.client.get(key);
+      if (!value) return null;
     
-    try {
-      return JSON.parse(value);
-    } catch (error) {
-      console.error('Error parsing cached value:', error);
-      return null;
-    }
+      try {
+        return JSON.parse(value);
+      } catch (error) {
+        console.error('Error parsing cached value:', error);
+        return null;
+      }
+    });
   }
 
   async delete(key: string): Promise<boolean> {
-    const result = await this.client.del(key);
-    return result > 0;
+    return this.command(async () => {
+      const result = await this.client.del(key);
+      return result > 0;
+    });
+  }
+
+  /**
+   * Get many keys with one MGET; missing or unparseable values are null
+   */
+  async getMany(keys: string[]): Promise<any[]> {
+    return this.command(async () => {
+      const values = await this.client.mGet(keys);
+      return values.map(value => {
+        if (!value) return null;
+        try {
+          return JSON.parse(value);
+        } catch (error) {
+          console.error('Error parsing cached value:', error);
+          return null;
+        }
+      });
+    });
+  }
+
+  /**
+   * Set many keys in one round trip, in MULTI/EXEC when atomic and pipelined
+   * otherwise. Returns the error message for each entry, or null.
+   */
+  async setMany(entries: { key: string; value: any; ttl?: number }[], atomic: boolean = false): Promise<(string | null)[]> {
+    return this.command(async () => {
+      const multi = this.client.multi();
+      for (const entry of entries) {
+        multi.setEx(entry.key, entry.ttl || this.defaultTTL, JSON.stringify(entry.value));
+      }
+      const { errors } = await this.execBatch(multi, entries.length, atomic);
+      return errors;
+    });
+  }
+
+  /**
+   * Delete many keys in one round trip, in MULTI/EXEC when atomic and
+   * pipelined otherwise. Returns whether each key existed, or its error message.
+   */
+  async deleteMany(keys: string[], atomic: boolean = false): Promise<(boolean | string)[]> {
+    return this.command(async () => {
+      const multi = this.client.multi();
+      for (const key of keys) {
+        multi.del(key);
+      }
+      const { replies, errors } = await this.execBatch(multi, keys.length, atomic);
+      return replies.map((reply, index) => errors[index] ?? Number(reply) > 0);
+    });
   }
 
   async exists(key: string): Promise<boolean> {
-    const result = await this.client.exists(key);
-    return result === 1;
+    return this.command(async () => {
+      const result = await this.client.exists(key);
+      return result === 1;
+    });
   }
 
+  /**
+   * All keys matching a pattern, using non-blocking SCAN iteration
+   */
   async keys(pattern: string = '*'): Promise<string[]> {
-    return await this.client.keys(pattern);
+    return this.command(async () => {
+      const keys: string[] = [];
+      for await (const key of this.client.scanIterator({ MATCH: pattern, COUNT: 1000 })) {
+        keys.push(key);
+      }
+      return keys;
+    });
+  }
+
+  /**
+   * One SCAN page of keys matching a pattern. Pass the returned cursor to get
+   * the next page; a cursor of "0" means the iteration is complete.
+   */
+  async scanKeys(pattern: string, cursor: string = '0', count: number = 100): Promise<CacheKeyPage> {
+    return this.command(async () => {
+      // Cursors are unsigned 64-bit integers, so they are passed through as strings
+      const [next, keys] = await this.client.sendCommand<[string, string[]]>(['SCAN', cursor, 'MATCH', pattern, 'COUNT', String(count)]);
+      const ttls = await Promise.all(keys.map(key => this.client.ttl(key)));
+
+      return {
+        cursor: next,
+        done: next === '0',
+        keys: keys.map((key, index) => ({ key, ttl: ttls[index] }))
+      };
+    });
+  }
+
+  /**
+   * Delete every key matching a pattern, in batches, without blocking Redis
+   */
+  async deletePattern(pattern: string): Promise<number> {
+    return this.command(async () => {
+      let deleted = 0;
+      let batch: string[] = [];
+
+      for await (const key of this.client.scanIterator({ MATCH: pattern, COUNT: 1000 })) {
+        batch.push(key);
+        if (batch.length >= DELETE_BATCH_SIZE) {
+          deleted += await this.client.unlink(batch);
+          batch = [];
+        }
+      }
+      if (batch.length > 0) {
+        deleted += await this.client.unlink(batch);
+      }
+
+      return deleted;
+    });
+  }
+
+  /**
+   * Count matching keys without deleting them
+   */
+  async countPattern(pattern: string): Promise<number> {
+    return this.command(async () => {
+      let count = 0;
+      for await (const _key of this.client.scanIterator({ MATCH: pattern, COUNT: 1000 })) {
+        count++;
+      }
+      return count;
+    });
   }
 
   async flushAll(): Promise<void> {
-    await this.client.flushAll();
+    return this.command(async () => {
+      await this.client.flushAll();
+    });
   }
 
   async expire(key: string, ttl: number): Promise<boolean> {
-    const result = await this.client.expire(key, ttl);
-    return result;
+    return this.command(async () => {
+      const result = await this.client.expire(key, ttl);
+      return result;
+    });
   }
 
   async ttl(key: string): Promise<number> {
-    return await this.client.ttl(key);
+    return this.command(async () => {
+      return await this.client.ttl(key);
+    });
   }
 
   async getStats(): Promise<CacheStats> {
-    const info = await this.client.info('memory');
-    const keyspace = await this.client.info('keyspace');
-    const stats = await this.client.info('stats');
+    const stats = await this.getServerStats();
+    const namespaces = await this.getNamespaceStats();
 
-    // Parse memory usage
-    const memoryMatch = info.match(/used_memory_human:([^\r\n]+)/);
-    const memoryUsage = memoryMatch ? memoryMatch[1].trim() : 'Unknown';
+    return {
+      ...stats,
+      namespaces: namespaces.namespaces,
+      namespace_keys_scanned: namespaces.scanned,
+      namespace_scan_complete: namespaces.complete
+    };
+  }
 
-    // Parse total keys
-    const keysMatch = keyspace.match(/keys=(\d+)/);
-    const totalKeys = keysMatch ? parseInt(keysMatch[1]) : 0;
+  /**
+   * Key counts and memory usage grouped by namespace (the first `depth`
+   * colon-separated segments of each key). At most `scanLimit` keys are
+   * counted, and MEMORY USAGE is only run on the first MEMORY_SAMPLE_SIZE of
+   * them; each namespace's memory is estimated from the average size of its
+   * sampled keys (or of all sampled keys when none of its own were sampled).
+   */
+  async getNamespaceStats(depth: number = 1, scanLimit: number = 10000): Promise<{ namespaces: NamespaceStats[]; scanned: number; complete: boolean }> {
+    return this.command(async () => {
+      const counts = new Map<string, { keys: number; sampledKeys: number; sampledBytes: number }>();
+      const sample: { key: string; namespace: string }[] = [];
+      let scanned = 0;
+      let complete = true;
 
-    // Parse hit rate
-    const hitsMatch = stats.match(/keyspace_hits:(\d+)/);
-    const missesMatch = stats.match(/keyspace_misses:(\d+)/);
-    const hits = hitsMatch ? parseInt(hitsMatch[1]) : 0;
-    const misses = missesMatch ? parseInt(missesMatch[1]) : 0;
-    const hitRate = hits + misses > 0 ? (hits / (hits + misses)) * 100 : 0;
+      for await (const key of this.client.scanIterator({ COUNT: 1000 })) {
+        if (scanned >= scanLimit) {
+          complete = false;
+          break;
+        }
+        scanned++;
 
-    // Parse expired keys
-    const expiredMatch = stats.match(/expired_keys:(\d+)/);
-    const expiredKeys = expiredMatch ? parseInt(expiredMatch[1]) : 0;
+        const segments = key.split(':');
+        const namespace = segments.length > 1 ? segments.slice(0, Math.min(depth, segments.length - 1)).join(':') : '(none)';
+        const entry = counts.get(namespace) || { keys: 0, sampledKeys: 0, sampledBytes: 0 };
+        entry.keys++;
+        counts.set(namespace, entry);
+        if (sample.length < MEMORY_SAMPLE_SIZE) {
+          sample.push({ key, namespace });
+        }
+      }
 
-    return {
-      total_keys: totalKeys,
-      memory_usage: memoryUsage,
-      hit_rate: Math.round(hitRate * 100) / 100,
-      expired_keys: expiredKeys
-    };
+      // SCAN returns keys in hash order, so the first keys are a fair sample
+      const sizes = await Promise.all(sample.map(({ key }) => this.client.memoryUsage(key)));
+      let sampledBytes = 0;
+      sample.forEach(({ namespace }, index) => {
+        const entry = counts.get(namespace)!;
+        entry.sampledKeys++;
+        entry.sampledBytes += sizes[index] || 0;
+        sampledBytes += sizes[index] || 0;
+      });
+      const averageBytes = sample.length > 0 ? sampledBytes / sample.length : 0;
+
+      const namespaces: NamespaceStats[] = [...counts].map(([namespace, entry]) => ({
+        namespace,
+        keys: entry.keys,
+        memory_bytes: Math.round(entry.keys * (entry.sampledKeys > 0 ? entry.sampledBytes / entry.sampledKeys : averageBytes))
+      }));
+
+      return {
+        namespaces: namespaces.sort((a, b) => b.memory_bytes - a.memory_bytes),
+        scanned,
+        complete
+      };
+    });
+  }
+
+  private async getServerStats(): Promise<CacheStats> {
+    return this.command(async () => {
+      const info = await this.client.info('memory');
+      const keyspace = await this.client.info('keyspace');
+      const stats = await this.client.info('stats');
+
+      // Parse memory usage
+      const memoryMatch = info.match(/used_memory_human:([^\r\n]+)/);
+      const memoryUsage = memoryMatch ? memoryMatch[1].trim() : 'Unknown';
+
+      // Parse total keys
+      const keysMatch = keyspace.match(/keys=(\d+)/);
+      const totalKeys = keysMatch ? parseInt(keysMatch[1]) : 0;
+
+      // Parse hit rate
+      const hitsMatch = stats.match(/keyspace_hits:(\d+)/);
+      const missesMatch = stats.match(/keyspace_misses:(\d+)/);
+      const hits = hitsMatch ? parseInt(hitsMatch[1]) : 0;
+      const misses = missesMatch ? parseInt(missesMatch[1]) : 0;
+      const hitRate = hits + misses > 0 ? (hits / (hits + misses)) * 100 : 0;
+
+      // Parse expired keys
+      const expiredMatch = stats.match(/expired_keys:(\d+)/);
+      const expiredKeys = expiredMatch ? parseInt(expiredMatch[1]) : 0;
+
+      return {
+        total_keys: totalKeys,
+        memory_usage: memoryUsage,
+        hit_rate: Math.round(hitRate * 100) / 100,
+        expired_keys: expiredKeys
+      };
+    });
+  }
+
+  private async execBatch(
+    multi: ReturnType<RedisClientType['multi']>,
+    count: number,
+    atomic: boolean
+  ): Promise<{ replies: unknown[]; errors: (string | null)[] }> {
+    try {
+      const replies = atomic ? await multi.exec() : await multi.execAsPipeline();
+      return { replies, errors: new Array(count).fill(null) };
+    } catch (error) {
+      if (error instanceof MultiErrorReply) {
+        const failed = new Set(error.errorIndexes);
+        return {
+          replies: error.replies,
+          errors: error.replies.map((reply, index) => (failed.has(index) ? String((reply as Error).message ?? reply) : null))
+        };
+      }
+      throw error;
+    }
   }
 
   async cleanupExpired(): Promise<number> {
     // Redis automatically handles expired key cleanup
     // This method returns the count of expired keys from stats
-    const stats = await this.getStats();
+    const stats = await this.getServerStats();
     return stats.expired_keys;
   }
 
   async close(): Promise<void> {
-    await this.client.quit();
+    if (this.client.isReady) {
+      await this.client.quit();
+    } else if (this.client.isOpen) {
+      await this.client.disconnect();
+    }
+  }
+
+  /**
+   * Send commands through the circuit breaker. Error replies from Redis
+   * (e.g. WRONGTYPE) do not count as failures.
+   */
+  private async command<T>(operation: () => Promise<T>): Promise<T> {
+    return this.breaker.execute(operation, error => !(error instanceof ErrorReply));
   }
 }
\ No newline at end of file
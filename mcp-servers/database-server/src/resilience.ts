@@ -0,0 +1,180 @@
+import { CircuitBreakerOptions, CircuitStatus, RetryOptions } from './types.js';
+
+// Network errors and Postgres SQLSTATEs that mean the backend is unreachable, not that the query was wrong
+const CONNECTION_ERROR_CODES = new Set([
+  'ECONNREFUSED', 'ECONNRESET', 'ETIMEDOUT', 'EPIPE', 'ENOTFOUND', 'EAI_AGAIN', 'EHOSTUNREACH',
+  '57P01', '57P02', '57P03', '53300'
+]);
+const CONNECTION_ERROR_MESSAGES = [
+  'Connection terminated',
+  'timeout exceeded when trying to connect',
+  'The client is closed',
+  'Socket closed unexpectedly'
+];
+
+export const DEFAULT_RESILIENCE: { retry: RetryOptions; circuitBreaker: CircuitBreakerOptions } = {
+  retry: { attempts: 5, baseDelayMs: 200, maxDelayMs: 10000 },
+  circuitBreaker: { failureThreshold: 5, resetTimeoutMs: 30000 }
+};
+
+/**
+ * Whether an error means the backend could not be reached (as opposed to a
+ * rejected query or command)
+ */
+export function isConnectionError(error: unknown): boolean {
+  if (!(error instanceof Error)) {
+    return false;
+  }
+  const code = (error as { code?: string }).code;
+  if (code && (CONNECTION_ERROR_CODES.has(code) || code.startsWith('08'))) {
+    return true;
+  }
+  return CONNECTION_ERROR_MESSAGES.some(message => error.message.includes(message));
+}
+
+/**
+ * Delay before retry number `attempt` (0-based): exponential, capped, with jitter
+ */
+export function backoffDelay(attempt: number, options: RetryOptions): number {
+  const delay = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+  return Math.round(delay / 2 + Math.random() * (delay / 2));
+}
+
+/**
+ * Run an operation, retrying retryable failures with exponential backoff
+ */
+export async function retryWithBackoff<T>(
+  operation: () => Promise<T>,
+  options: RetryOptions,
+  isRetryable: (error: unknown) => boolean = () => true,
+  onRetry?: (error: unknown, attempt: number, delayMs: number) => void
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (attempt + 1 >= options.attempts || !isRetryable(error)) {
+        throw error;
+      }
+      const delayMs = backoffDelay(attempt, options);
+      onRetry?.(error, attempt + 1, delayMs);
+      await new Promise(resolve => setTimeout(resolve, delayMs));
+    }
+  }
+}
+
+/**
+ * CircuitBreaker stops calls to a backend after consecutive connection
+ * failures. While open, calls fail immediately; after resetTimeoutMs one
+ * trial call is let through (half-open) and its outcome closes or re-opens
+ * the circuit.
+ */
+export class CircuitBreaker {
+  private name: string;
+  private options: CircuitBreakerOptions;
+  private state: 'closed' | 'open' | 'half_open' = 'closed';
+  private failures = 0;
+  private openedAt?: number;
+  private lastFailureAt?: number;
+  private lastError?: string;
+  private trialInFlight = false;
+
+  constructor(name: string, options: CircuitBreakerOptions) {
+    this.name = name;
+    this.options = options;
+  }
+
+  /**
+   * Run an operation through the breaker. Only errors for which isFailure
+   * returns true count towards opening the circuit.
+   */
+  async execute<T>(operation: () => Promise<T>, isFailure: (error: unknown) => boolean = isConnectionError): Promise<T> {
+    const trial = this.beginCall();
+
+    try {
+      const result = await operation();
+      this.recordSuccess();
+      return result;
+    } catch (error) {
+      if (isFailure(error)) {
+        this.recordFailure(error);
+      } else {
+        this.recordSuccess();
+      }
+      throw error;
+    } finally {
+      if (trial) {
+        this.trialInFlight = false;
+      }
+    }
+  }
+
+  /**
+   * Whether a call would be attempted right now
+   */
+  allowsRequests(): boolean {
+    if (this.state === 'closed') {
+      return true;
+    }
+    if (this.state === 'half_open') {
+      return !this.trialInFlight;
+    }
+    return Date.now() - this.openedAt! >= this.options.resetTimeoutMs;
+  }
+
+  getStatus(): CircuitStatus {
+    return {
+      state: this.state,
+      consecutive_failures: this.failures,
+      last_failure_at: this.lastFailureAt ? new Date(this.lastFailureAt).toISOString() : undefined,
+      last_error: this.lastError,
+      retry_at: this.state === 'open'
+        ? new Date(this.openedAt! + this.options.resetTimeoutMs).toISOString()
+        : undefined
+    };
+  }
+
+  /**
+   * Returns true when this call is the half-open trial
+   */
+  private beginCall(): boolean {
+    if (this.state === 'open') {
+      if (Date.now() - this.openedAt! < this.options.resetTimeoutMs) {
+        throw new Error(`${this.name} is unavailable: circuit open after ${this.failures} consecutive failures (${this.lastError})`);
+      }
+      this.state = 'half_open';
+    }
+
+    if (this.state === 'half_open') {
+      if (this.trialInFlight) {
+        throw new Error(`${this.name} is unavailable: waiting for a trial request to succeed`);
+      }
+      this.trialInFlight = true;
+      return true;
+    }
+    return false;
+  }
+
+  private recordSuccess(): void {
+    if (this.state !== 'closed') {
+      console.error(`${this.name} circuit closed`);
+    }
+    this.state = 'closed';
+    this.failures = 0;
+    this.openedAt = undefined;
+  }
+
+  private recordFailure(error: unknown): void {
+    this.failures++;
+    this.lastFailureAt = Date.now();
+    this.lastError = error instanceof Error ? error.message : String(error);
+
+    if (this.state === 'half_open' || this.failures >= this.options.failureThreshold) {
+      if (this.state !== 'open') {
+        console.error(`${this.name} circuit opened: ${this.lastError}`);
+      }
+      this.state = 'open';
+      this.openedAt = Date.now();
+    }
+  }
+}
@@ -0,0 +1,228 @@
+import { createHmac } from 'crypto';
+import { promises as fs } from 'fs';
+import cron from 'node-cron';
+import { StorageBackend } from './storage-backend.js';
+import { TieredStore } from './tiered-store.js';
+import { PurgeLogEntry, PurgeType, RetentionPolicy, RetentionRunResult, UserPurgeResult } from './types.js';
+
+// Analysis tables that accept a retention policy; key/value tables are named <KV_SCHEMA>.<table>
+const ANALYSIS_TABLES = ['analysis_jobs', 'analysis_results', 'reports', 'query_results'];
+
+/**
+ * RetentionManager enforces per-table retention policies (maximum row age
+ * and maximum row count) on the RETENTION_SCHEDULE cron expression, and
+ * deletes everything linked to a user on request. Every purge that deletes
+ * rows is recorded in purge_log, which identifies users by an HMAC of their
+ * ID keyed with PURGE_LOG_SECRET.
+ */
+export class RetentionManager {
+  private storage: StorageBackend;
+  private tieredStore: TieredStore;
+  private schedule: string;
+  private logSecret?: string;
+  private task?: cron.ScheduledTask;
+  private running = false;
+
+  constructor(storage: StorageBackend, tieredStore: TieredStore, schedule: string, logSecret?: string) {
+    this.storage = storage;
+    this.tieredStore = tieredStore;
+    this.schedule = schedule;
+    this.logSecret = logSecret;
+  }
+
+  /**
+   * Start the cron task. Set RETENTION_SCHEDULE to "off" to only apply policies on request.
+   */
+  async start(): Promise<void> {
+    if (this.schedule === 'off') {
+      console.error('Scheduled retention disabled');
+      return;
+    }
+
+    if (!cron.validate(this.schedule)) {
+      throw new Error(`Invalid RETENTION_SCHEDULE cron expression: ${this.schedule}`);
+    }
+
+    this.task = cron.schedule(this.schedule, async () => {
+      if (this.running) {
+        console.error('Skipping scheduled retention: previous run still running');
+        return;
+      }
+      this.running = true;
+      try {
+        for (const result of await this.applyRetention()) {
+          if (result.error) {
+            console.error(`Retention failed for ${result.table}: ${result.error}`);
+          }
+        }
+      } catch (error) {
+        console.error('Scheduled retention failed:', error);
+      } finally {
+        this.running = false;
+      }
+    });
+  }
+
+  stop(): void {
+    this.task?.stop();
+    this.task = undefined;
+  }
+
+  getSchedule(): string {
+    return this.schedule;
+  }
+
+  async listPolicies(): Promise<RetentionPolicy[]> {
+    return this.storage.listRetentionPolicies();
+  }
+
+  /**
+   * Create or replace the policy for a table; a null limit is not enforced
+   */
+  async setPolicy(table: string, maxAgeDays: number | null, maxRows: number | null): Promise<RetentionPolicy> {
+    this.resolveTable(table);
+    return this.storage.setRetentionPolicy(table, maxAgeDays, maxRows);
+  }
+
+  async deletePolicy(table: string): Promise<boolean> {
+    return this.storage.deleteRetentionPolicy(table);
+  }
+
+  /**
+   * Apply the policy of one table, or every policy. Each table is purged in
+   * its own transaction, so a failure is reported in that table's result
+   * without stopping the others.
+   */
+  async applyRetention(table?: string, dryRun: boolean = false): Promise<RetentionRunResult[]> {
+    const policies = (await this.listPolicies()).filter(policy => !table || policy.table === table);
+    if (table && policies.length === 0) {
+      throw new Error(`No retention policy for table: ${table}`);
+    }
+
+    const results: RetentionRunResult[] = [];
+    for (const policy of policies) {
+      try {
+        results.push(await this.applyPolicy(policy, dryRun));
+      } catch (error) {
+        results.push({
+          table: policy.table,
+          dry_run: dryRun,
+          deleted: {},
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Delete a user's analysis jobs with their analysis results, reports and
+   * the data versions they wrote in one transaction, then remove the report
+   * files and drop the jobs' cache namespaces ("job:<id>"). The purge is
+   * logged with a hash of the user ID rather than the ID itself.
+   */
+  async purgeUserData(
+    userId: string,
+    options: { requestedBy?: string; reason?: string; dryRun: boolean }
+  ): Promise<UserPurgeResult> {
+    const purge = await this.storage.purgeUserJobs(userId, {
+      target: this.hashUserId(userId),
+      requestedBy: options.requestedBy,
+      reason: options.reason
+    }, options.dryRun);
+
+    const fileErrors: string[] = [];
+    if (!options.dryRun) {
+      let files = 0;
+      for (const file of purge.reportFiles) {
+        try {
+          await fs.unlink(file);
+          files++;
+        } catch (error) {
+          if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+            fileErrors.push(`${file}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+          }
+        }
+      }
+      purge.deleted.report_files = files;
+
+      let cacheKeys = 0;
+      for (const jobId of purge.jobIds) {
+        cacheKeys += await this.tieredStore.invalidateNamespace(`job:${jobId}`);
+      }
+      purge.deleted.cache_keys = cacheKeys;
+    }
+
+    return {
+      user_id: userId,
+      dry_run: options.dryRun,
+      deleted: purge.deleted,
+      job_ids: purge.jobIds,
+      report_files: purge.reportFiles,
+      report_file_errors: fileErrors.length > 0 ? fileErrors : undefined,
+      purge_log_id: purge.logId
+    };
+  }
+
+  /**
+   * Purge log entries, newest first
+   */
+  async getPurgeLog(filters: { userId?: string; type?: PurgeType; limit: number; offset: number }): Promise<{ entries: PurgeLogEntry[]; total: number }> {
+    return this.storage.getPurgeLog({
+      userTarget: filters.userId !== undefined ? this.hashUserId(filters.userId) : undefined,
+      type: filters.type,
+      limit: filters.limit,
+      offset: filters.offset
+    });
+  }
+
+  /**
+   * Delete the rows a policy selects: rows older than max_age_days, and rows
+   * beyond the newest max_rows. Jobs are only deleted once completed or
+   * failed, together with their results and reports; deleted key/value rows
+   * lose their version history and cached copies too.
+   */
+  private async applyPolicy(policy: RetentionPolicy, dryRun: boolean): Promise<RetentionRunResult> {
+    const { kvTable } = this.resolveTable(policy.table);
+    const deleted = await this.storage.applyRetentionPolicy(policy, kvTable, dryRun);
+
+    if (kvTable && !dryRun && deleted[policy.table] > 0) {
+      await this.tieredStore.invalidateTable(kvTable);
+    }
+
+    return { table: policy.table, dry_run: dryRun, deleted };
+  }
+
+  /**
+   * Check that a policy may be set on a table, and return the key/value
+   * table name for policies on <KV_SCHEMA>.<table>
+   */
+  private resolveTable(table: string): { kvTable?: string } {
+    if (ANALYSIS_TABLES.includes(table)) {
+      return {};
+    }
+
+    const registry = this.storage.getTableRegistry();
+    const prefix = `${registry.getSchema()}.`;
+    if (table.startsWith(prefix)) {
+      const kvTable = table.slice(prefix.length);
+      registry.resolve(kvTable);
+      return { kvTable };
+    }
+
+    throw new Error(`Retention policies apply to ${ANALYSIS_TABLES.join(', ')} and ${prefix}<table>, not ${table}`);
+  }
+
+  /**
+   * Purge log entries identify users by an HMAC-SHA256 so the log itself
+   * holds no user IDs, and known IDs cannot be matched against it without
+   * the secret
+   */
+  private hashUserId(userId: string): string {
+    if (!this.logSecret) {
+      throw new Error('PURGE_LOG_SECRET must be set to purge or look up user data');
+    }
+    return createHmac('sha256', this.logSecret).update(userId).digest('hex');
+  }
+
+}
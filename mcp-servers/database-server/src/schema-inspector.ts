@@ -0,0 +1,91 @@
+import { StorageBackend } from './storage-backend.js';
+import { TableInfo, TableSample } from './types.js';
+
+// Rows returned by the sample resource
+const SAMPLE_ROW_LIMIT = 10;
+
+// Longest string value shown in a sample before it is truncated
+const SAMPLE_VALUE_MAX_LENGTH = 500;
+
+// Internal bookkeeping tables that are not shown to clients
+const HIDDEN_TABLES = new Set(['public.schema_migrations']);
+
+/**
+ * SchemaInspector describes the tables in the public schema and the
+ * key/value schema from the storage backend's catalog (information_schema,
+ * pg_catalog and pg_stat_user_tables on Postgres; PRAGMAs and dbstat on
+ * SQLite). Public tables are named by their bare name and key/value tables
+ * by "<schema>.<table>", as in backups.
+ */
+export class SchemaInspector {
+  private storage: StorageBackend;
+
+  constructor(storage: StorageBackend) {
+    this.storage = storage;
+  }
+
+  async listTables(): Promise<TableInfo[]> {
+    return this.visible(await this.storage.describeTables());
+  }
+
+  async describeTable(name: string): Promise<TableInfo> {
+    const [info] = this.visible(await this.storage.describeTables(this.parseName(name)));
+    if (!info) {
+      throw new Error(`Table not found: ${name}`);
+    }
+    return info;
+  }
+
+  /**
+   * A few rows of a table, read without writing. Long strings are truncated.
+   */
+  async sampleTable(name: string, limit: number = SAMPLE_ROW_LIMIT): Promise<TableSample> {
+    const info = await this.describeTable(name);
+    const sample = await this.storage.sampleRows(info.schema, info.table, limit);
+
+    return {
+      name: info.name,
+      columns: sample.columns,
+      rows: sample.rows.map(row => this.truncateRow(row)),
+      row_count: sample.rows.length,
+      row_estimate: info.row_estimate
+    };
+  }
+
+  private visible(tables: TableInfo[]): TableInfo[] {
+    return tables.filter(info => !HIDDEN_TABLES.has(`${info.schema}.${info.table}`));
+  }
+
+  /**
+   * Split "<schema>.<table>" or a bare public table name
+   */
+  private parseName(name: string): { schema: string; table: string } {
+    const kvSchema = this.storage.getTableRegistry().getSchema();
+    const parts = name.split('.');
+
+    if (parts.length === 1) {
+      return { schema: 'public', table: parts[0] };
+    }
+    if (parts.length === 2 && (parts[0] === 'public' || parts[0] === kvSchema)) {
+      return { schema: parts[0], table: parts[1] };
+    }
+    throw new Error(`Invalid table name: ${name} (expected <table> or ${kvSchema}.<table>)`);
+  }
+
+  private truncateRow(row: Record<string, any>): Record<string, any> {
+    const truncated: Record<string, any> = {};
+    for (const [column, value] of Object.entries(row)) {
+      if (typeof value === 'string' && value.length > SAMPLE_VALUE_MAX_LENGTH) {
+        truncated[column] = `${value.slice(0, SAMPLE_VALUE_MAX_LENGTH)}…`;
+      } else if (value !== null && typeof value === 'object' && !(value instanceof Date)) {
+        const serialized = JSON.stringify(value);
+        truncated[column] = serialized.length > SAMPLE_VALUE_MAX_LENGTH
+          ? `${serialized.slice(0, SAMPLE_VALUE_MAX_LENGTH)}…`
+          : value;
+      } else {
+        truncated[column] = value;
+      }
+    }
+    return truncated;
+  }
+}
@@ -0,0 +1,186 @@
+// Statements that may start a read-only query
+const READ_STATEMENTS = ['SELECT', 'WITH', 'VALUES', 'TABLE'];
+
+// Keywords that change data, schema, session or transaction state
+const FORBIDDEN_KEYWORDS = new Set([
+  'INSERT', 'UPDATE', 'DELETE', 'MERGE', 'UPSERT', 'TRUNCATE', 'INTO',
+  'CREATE', 'ALTER', 'DROP', 'RENAME', 'GRANT', 'REVOKE', 'REINDEX', 'CLUSTER', 'VACUUM', 'ANALYZE',
+  'COPY', 'CALL', 'DO', 'EXECUTE', 'PREPARE', 'DEALLOCATE', 'LISTEN', 'NOTIFY', 'UNLISTEN',
+  'SET', 'RESET', 'LOCK', 'BEGIN', 'COMMIT', 'ROLLBACK', 'SAVEPOINT', 'RELEASE', 'START', 'DISCARD', 'REFRESH'
+]);
+
+// Functions with side effects that a READ ONLY transaction does not prevent
+const FORBIDDEN_FUNCTIONS = new Set([
+  'PG_TERMINATE_BACKEND', 'PG_CANCEL_BACKEND', 'PG_RELOAD_CONF', 'PG_ROTATE_LOGFILE',
+  'PG_READ_FILE', 'PG_READ_BINARY_FILE', 'PG_LS_DIR', 'PG_STAT_FILE',
+  'LO_IMPORT', 'LO_EXPORT', 'SET_CONFIG', 'DBLINK', 'DBLINK_EXEC',
+  'PG_ADVISORY_LOCK', 'PG_ADVISORY_XACT_LOCK', 'PG_SLEEP', 'PG_SLEEP_FOR', 'PG_SLEEP_UNTIL'
+]);
+
+interface Token {
+  type: 'word' | 'semicolon';
+  value: string;
+  start: number;
+}
+
+/**
+ * Check that a SQL string is a single read-only query and return it without
+ * a trailing semicolon. Comments, string literals, quoted identifiers and
+ * dollar-quoted strings are skipped, so keywords inside them are ignored.
+ * Identifiers that collide with a forbidden keyword must be double-quoted.
+ */
+export function assertReadOnlyQuery(sql: string): string {
+  const tokens = tokenize(sql);
+  const words = tokens.filter(token => token.type === 'word');
+
+  if (words.length === 0) {
+    throw new Error('SQL statement is empty');
+  }
+
+  const semicolons = tokens.filter(token => token.type === 'semicolon');
+  const lastWord = words[words.length - 1];
+  if (semicolons.some(token => token.start < lastWord.start)) {
+    throw new Error('Only a single SQL statement is allowed');
+  }
+
+  if (!READ_STATEMENTS.includes(words[0].value)) {
+    throw new Error(`Only read-only queries are allowed (${READ_STATEMENTS.join(', ')}); got ${words[0].value}`);
+  }
+
+  for (const word of words) {
+    if (FORBIDDEN_KEYWORDS.has(word.value)) {
+      throw new Error(`Keyword ${word.value} is not allowed in a read-only query`);
+    }
+    if (FORBIDDEN_FUNCTIONS.has(word.value)) {
+      throw new Error(`Function ${word.value.toLowerCase()} is not allowed in a read-only query`);
+    }
+  }
+
+  return semicolons.length > 0 ? sql.slice(0, semicolons[0].start) : sql;
+}
+
+/**
+ * Normalize SQL for hashing: comments are dropped, whitespace is collapsed and
+ * everything outside string literals and quoted identifiers is lower-cased.
+ * A trailing semicolon is removed.
+ */
+export function normalizeSql(sql: string): string {
+  let output = '';
+  let i = 0;
+
+  const appendSpace = () => {
+    if (output.length > 0 && !output.endsWith(' ')) {
+      output += ' ';
+    }
+  };
+
+  while (i < sql.length) {
+    const char = sql[i];
+    const next = sql[i + 1];
+
+    if (char === '-' && next === '-') {
+      const end = sql.indexOf('\n', i);
+      i = end === -1 ? sql.length : end + 1;
+      appendSpace();
+    } else if (char === '/' && next === '*') {
+      i = skipBlockComment(sql, i);
+      appendSpace();
+    } else if (char === "'" || char === '"') {
+      const escapes = char === "'" && /[eE]/.test(sql[i - 1] || '') && !/[A-Za-z0-9_]/.test(sql[i - 2] || '');
+      const end = skipQuoted(sql, i, char, escapes);
+      output += sql.slice(i, end);
+      i = end;
+    } else if (/\s/.test(char)) {
+      appendSpace();
+      i++;
+    } else {
+      output += char.toLowerCase();
+      i++;
+    }
+  }
+
+  return output.trim().replace(/\s*;$/, '').trim();
+}
+
+function tokenize(sql: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < sql.length) {
+    const char = sql[i];
+    const next = sql[i + 1];
+
+    if (char === '-' && next === '-') {
+      const end = sql.indexOf('\n', i);
+      i = end === -1 ? sql.length : end + 1;
+    } else if (char === '/' && next === '*') {
+      i = skipBlockComment(sql, i);
+    } else if (char === "'") {
+      const escapes = i > 0 && /[eE]/.test(sql[i - 1]) && !/[A-Za-z0-9_]/.test(sql[i - 2] || '');
+      i = skipQuoted(sql, i, "'", escapes);
+    } else if (char === '"') {
+      i = skipQuoted(sql, i, '"', false);
+    } else if (char === '$' && !/[0-9]/.test(next || '')) {
+      const tag = sql.slice(i).match(/^\$([A-Za-z_][A-Za-z0-9_]*)?\$/);
+      if (!tag) {
+        i++;
+        continue;
+      }
+      const end = sql.indexOf(tag[0], i + tag[0].length);
+      if (end === -1) {
+        throw new Error('Unterminated dollar-quoted string');
+      }
+      i = end + tag[0].length;
+    } else if (char === ';') {
+      tokens.push({ type: 'semicolon', value: ';', start: i });
+      i++;
+    } else if (/[A-Za-z_]/.test(char)) {
+      const word = sql.slice(i).match(/^[A-Za-z_][A-Za-z0-9_$]*/)![0];
+      // The E of an escape string is a prefix, not a word
+      if (!(word.toUpperCase() === 'E' && sql[i + 1] === "'")) {
+        tokens.push({ type: 'word', value: word.toUpperCase(), start: i });
+      }
+      i += word.length;
+    } else {
+      i++;
+    }
+  }
+
+  return tokens;
+}
+
+function skipBlockComment(sql: string, start: number): number {
+  let depth = 0;
+  let i = start;
+  while (i < sql.length) {
+    if (sql[i] === '/' && sql[i + 1] === '*') {
+      depth++;
+      i += 2;
+    } else if (sql[i] === '*' && sql[i + 1] === '/') {
+      depth--;
+      i += 2;
+      if (depth === 0) return i;
+    } else {
+      i++;
+    }
+  }
+  throw new Error('Unterminated block comment');
+}
+
+function skipQuoted(sql: string, start: number, quote: string, backslashEscapes: boolean): number {
+  let i = start + 1;
+  while (i < sql.length) {
+    if (backslashEscapes && sql[i] === '\\') {
+      i += 2;
+    } else if (sql[i] === quote) {
+      if (sql[i + 1] === quote) {
+        i += 2;
+      } else {
+        return i + 1;
+      }
+    } else {
+      i++;
+    }
+  }
+  throw new Error(`Unterminated ${quote === "'" ? 'string literal' : 'quoted identifier'}`);
+}
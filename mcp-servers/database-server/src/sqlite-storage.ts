@@ -0,0 +1,1622 @@
+import Database from 'better-sqlite3';
+import { randomUUID } from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import {
+  StoredData,
+  DatabaseStats,
+  DataQuery,
+  DataQueryResult,
+  ReadOnlyQueryResult,
+  AnalysisJob,
+  AnalysisResult,
+  AppliedMigration,
+  BackupManifest,
+  BackupRun,
+  BackupTrigger,
+  CachedQueryResult,
+  JobDetails,
+  JobStatus,
+  PurgeLogEntry,
+  PurgeType,
+  Report,
+  RetentionPolicy,
+  TableInfo,
+  BulkItem,
+  BulkItemResult,
+  BulkWriteResult,
+  DataChange,
+  DataHistory,
+  DataVersion,
+  VersionOperation,
+  WriteAttribution,
+  StorageHealth
+} from './types.js';
+import { TableRegistry, KV_TABLE_COLUMNS, quoteIdentifier, validateIdentifier } from './table-registry.js';
+import { buildSqliteDataQueryClauses, jsonContains, jsonEquals } from './data-query.js';
+import { assertReadOnlyQuery } from './sql-guard.js';
+import { MigrationSession, StorageBackend } from './storage-backend.js';
+
+// SQLite has no schemas, so key/value tables are stored as "<schema>__<table>"
+const TABLE_SEPARATOR = '__';
+
+// Timestamps are stored as ISO 8601 strings in UTC, which sort chronologically
+const NOW = `(strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))`;
+
+interface KvRow {
+  id: string;
+  key: string;
+  data: string;
+  created_at: string;
+  expires_at: string | null;
+}
+
+/**
+ * SqliteStorage keeps everything PostgresClient stores in a single SQLite
+ * file (or ":memory:"), so the server can run without a database server.
+ * Data is stored as JSON text and compared with jsonb semantics, and
+ * timestamps as ISO 8601 text. Changes are only seen by watchers in this
+ * process.
+ */
+export class SqliteStorage implements StorageBackend {
+  private filePath: string;
+  private tables: TableRegistry;
+  private db?: Database.Database;
+  private changeListeners = new Set<(change: DataChange) => void>();
+  private migrationLock: Promise<void> = Promise.resolve();
+
+  /**
+   * @param filePath Database file, created if missing, or ":memory:"
+   */
+  constructor(filePath: string, tables: TableRegistry = new TableRegistry('kv', ['cache_data'])) {
+    this.filePath = filePath;
+    this.tables = tables;
+  }
+
+  async connect(): Promise<void> {
+    if (this.filePath !== ':memory:') {
+      await fs.mkdir(path.dirname(path.resolve(this.filePath)), { recursive: true });
+    }
+
+    const db = new Database(this.filePath);
+    db.pragma('journal_mode = WAL');
+    db.pragma('busy_timeout = 5000');
+    db.pragma('foreign_keys = ON');
+    db.function('jsonb_eq', { deterministic: true }, (left: unknown, right: unknown) => (
+      left === null || right === null ? null : Number(jsonEquals(JSON.parse(String(left)), JSON.parse(String(right))))
+    ));
+    db.function('jsonb_contains', { deterministic: true }, (left: unknown, right: unknown) => (
+      left === null || right === null ? null : Number(jsonContains(JSON.parse(String(left)), JSON.parse(String(right))))
+    ));
+
+    this.db = db;
+    console.error(`SQLite storage opened: ${this.filePath}`);
+  }
+
+  getTableRegistry(): TableRegistry {
+    return this.tables;
+  }
+
+  /**
+   * Insert or replace the data for a key. On versioned tables the write is
+   * also appended to data_versions and the new version number is returned.
+   */
+  async storeData(
+    key: string,
+    data: any,
+    table: string = 'cache_data',
+    ttl?: number,
+    attribution: WriteAttribution = {}
+  ): Promise<number | undefined> {
+    this.tables.resolve(table);
+    const db = this.database();
+
+    const version = db.transaction(() => this.writeEntry(table, key, data, ttl, attribution))();
+    this.emitChanges(table, [key], 'store');
+    return version;
+  }
+
+  /**
+   * Store many entries in one transaction
+   */
+  async storeMany(
+    items: BulkItem[],
+    table: string = 'cache_data',
+    options: { atomic: boolean; attribution?: WriteAttribution }
+  ): Promise<BulkWriteResult> {
+    this.tables.resolve(table);
+
+    const result = this.runBatch(items, options.atomic, item => ({
+      version: this.writeEntry(table, item.key, item.data, item.ttl, options.attribution ?? {})
+    }));
+    this.emitChanges(table, result.results.filter(item => item.ok).map(item => item.key), 'store');
+    return result;
+  }
+
+  async retrieveData(key: string, table: string = 'cache_data'): Promise<any | null> {
+    const entry = await this.retrieveEntry(key, table);
+    return entry ? entry.data : null;
+  }
+
+  /**
+   * Retrieve many keys with one query. Missing and expired keys are absent from the map.
+   */
+  async retrieveMany(keys: string[], table: string = 'cache_data'): Promise<Map<string, { data: any; ttlSeconds?: number }>> {
+    const tableName = this.tableName(table);
+    const rows = this.database().prepare(`
+      SELECT key, data, expires_at
+      FROM ${tableName}
+      WHERE key IN (SELECT value FROM json_each(?))
+      AND (expires_at IS NULL OR expires_at > ?)
+    `).all(JSON.stringify(keys), new Date().toISOString()) as KvRow[];
+
+    return new Map(rows.map(row => [row.key, {
+      data: JSON.parse(row.data),
+      ttlSeconds: this.ttlSeconds(row.expires_at)
+    }]));
+  }
+
+  /**
+   * Retrieve data along with the seconds left before it expires (undefined when it never expires)
+   */
+  async retrieveEntry(key: string, table: string = 'cache_data'): Promise<{ data: any; ttlSeconds?: number } | null> {
+    const tableName = this.tableName(table);
+    const row = this.database().prepare(`
+      SELECT data, expires_at
+      FROM ${tableName}
+      WHERE key = ?
+      AND (expires_at IS NULL OR expires_at > ?)
+    `).get(key, new Date().toISOString()) as KvRow | undefined;
+
+    if (!row) {
+      return null;
+    }
+
+    return {
+      data: JSON.parse(row.data),
+      ttlSeconds: this.ttlSeconds(row.expires_at)
+    };
+  }
+
+  async queryData(query: DataQuery): Promise<DataQueryResult> {
+    const tableName = this.tableName(query.table);
+    const { where, orderBy, params, orderParams } = buildSqliteDataQueryClauses(query, new Date().toISOString());
+    const db = this.database();
+
+    const countRow = db.prepare(`SELECT COUNT(*) AS count FROM ${tableName} ${where}`).get(...params) as { count: number };
+    const rows = db.prepare(`
+      SELECT id, key, data, created_at, expires_at
+      FROM ${tableName}
+      ${where}
+      ${orderBy}
+      LIMIT ? OFFSET ?
+    `).all(...params, ...orderParams, query.limit, query.offset) as KvRow[];
+
+    return {
+      table: query.table,
+      rows: rows.map(row => this.mapRow(row)),
+      total: countRow.count,
+      limit: query.limit,
+      offset: query.offset,
+      has_more: query.offset + rows.length < countRow.count
+    };
+  }
+
+  async deleteData(key: string, table: string = 'cache_data', attribution: WriteAttribution = {}): Promise<boolean> {
+    this.tables.resolve(table);
+    const db = this.database();
+
+    const deleted = db.transaction(() => this.removeEntry(table, key, attribution))();
+    if (deleted) {
+      this.emitChanges(table, [key], 'delete');
+    }
+    return deleted;
+  }
+
+  /**
+   * Delete many keys in one transaction
+   */
+  async deleteMany(
+    keys: string[],
+    table: string = 'cache_data',
+    options: { atomic: boolean; attribution?: WriteAttribution }
+  ): Promise<BulkWriteResult> {
+    this.tables.resolve(table);
+
+    const result = this.runBatch(keys.map(key => ({ key })), options.atomic, item => ({
+      deleted: this.removeEntry(table, item.key, options.attribution ?? {})
+    }));
+    this.emitChanges(table, result.results.filter(item => item.deleted).map(item => item.key), 'delete');
+    return result;
+  }
+
+  /**
+   * A single version of a key on a versioned table, by number or as of a
+   * timestamp. A key that was deleted as of the timestamp is not found.
+   */
+  async retrieveVersion(key: string, table: string, at: { version?: number; asOf?: string }): Promise<DataVersion | null> {
+    this.assertVersioned(table);
+    const db = this.database();
+
+    const row: any = at.version !== undefined
+      ? db.prepare(`
+          SELECT * FROM data_versions
+          WHERE table_name = ? AND key = ? AND version = ?
+        `).get(table, key, at.version)
+      : db.prepare(`
+          SELECT * FROM data_versions
+          WHERE table_name = ? AND key = ? AND created_at <= ?
+          ORDER BY version DESC
+          LIMIT 1
+        `).get(table, key, new Date(at.asOf!).toISOString());
+
+    if (!row || (at.version === undefined && row.operation === 'delete')) {
+      return null;
+    }
+    return this.mapVersion(row, true);
+  }
+
+  /**
+   * Versions of a key on a versioned table, newest first
+   */
+  async getHistory(
+    key: string,
+    table: string,
+    options: { limit: number; offset: number; includeData: boolean }
+  ): Promise<DataHistory> {
+    this.assertVersioned(table);
+    const db = this.database();
+
+    const countRow = db.prepare(`
+      SELECT COUNT(*) AS count FROM data_versions WHERE table_name = ? AND key = ?
+    `).get(table, key) as { count: number };
+    const rows = db.prepare(`
+      SELECT * FROM data_versions
+      WHERE table_name = ? AND key = ?
+      ORDER BY version DESC
+      LIMIT ? OFFSET ?
+    `).all(table, key, options.limit, options.offset);
+
+    return {
+      table,
+      key,
+      versions: rows.map(row => this.mapVersion(row, options.includeData)),
+      total: countRow.count,
+      limit: options.limit,
+      offset: options.offset,
+      has_more: options.offset + rows.length < countRow.count
+    };
+  }
+
+  async cleanupExpired(table: string = 'cache_data'): Promise<number> {
+    const tableName = this.tableName(table);
+    const rows = this.database().prepare(`
+      DELETE FROM ${tableName}
+      WHERE expires_at IS NOT NULL AND expires_at <= ?
+      RETURNING key
+    `).all(new Date().toISOString()) as { key: string }[];
+
+    this.emitChanges(table, rows.map(row => row.key), 'delete');
+    return rows.length;
+  }
+
+  async getStats(): Promise<DatabaseStats> {
+    const db = this.database();
+
+    const tablesRow = db.prepare(`
+      SELECT COUNT(*) AS count FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%'
+    `).get() as { count: number };
+
+    let totalRecords = 0;
+    for (const table of this.tables.list()) {
+      const row = db.prepare(`SELECT COUNT(*) AS count FROM ${this.qualify(table)}`).get() as { count: number };
+      totalRecords += row.count;
+    }
+
+    const pageCount = db.pragma('page_count', { simple: true }) as number;
+    const pageSize = db.pragma('page_size', { simple: true }) as number;
+
+    return {
+      total_tables: tablesRow.count,
+      total_records: totalRecords,
+      database_size: this.formatSize(pageCount * pageSize),
+      active_connections: 1
+    };
+  }
+
+  /**
+   * Run a trivial query and report latency
+   */
+  async checkHealth(): Promise<StorageHealth> {
+    const startTime = Date.now();
+    try {
+      this.database().prepare('SELECT 1').get();
+      return {
+        backend: 'sqlite',
+        status: 'up',
+        latency_ms: Date.now() - startTime
+      };
+    } catch (error) {
+      return {
+        backend: 'sqlite',
+        status: 'down',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Create a new key/value table
+   */
+  async createTable(table: string, versioned: boolean = false): Promise<void> {
+    validateIdentifier(table);
+    if (this.tables.isRegistered(table)) {
+      throw new Error(`Table already exists: ${table}`);
+    }
+
+    const db = this.database();
+    db.transaction(() => {
+      this.createKvTable(table);
+      if (versioned) {
+        db.prepare('INSERT OR IGNORE INTO versioned_tables (table_name) VALUES (?)').run(table);
+      }
+    })();
+    this.tables.register(table);
+    if (versioned) {
+      this.tables.setVersioned(table);
+    }
+  }
+
+  /**
+   * Drop a key/value table created with createTable
+   */
+  async dropTable(table: string): Promise<void> {
+    const tableName = this.tableName(table);
+    if (this.tables.isConfigured(table)) {
+      throw new Error(`Table ${table} is configured and cannot be dropped`);
+    }
+
+    const db = this.database();
+    db.transaction(() => {
+      db.prepare(`DROP TABLE IF EXISTS ${tableName}`).run();
+      db.prepare('DELETE FROM data_versions WHERE table_name = ?').run(table);
+      db.prepare('DELETE FROM versioned_tables WHERE table_name = ?').run(table);
+    })();
+    this.tables.unregister(table);
+  }
+
+  /**
+   * Create the versioning and configured tables, and register any key/value
+   * tables and versioned tables created by previous runs. The analysis,
+   * backup and retention tables come from the SQLite migrations.
+   */
+  async initializeTables(): Promise<void> {
+    const db = this.database();
+    const prefix = `${this.tables.getSchema()}${TABLE_SEPARATOR}`;
+
+    db.transaction(() => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS versioned_tables (
+          table_name TEXT PRIMARY KEY,
+          enabled_at TEXT NOT NULL DEFAULT ${NOW}
+        );
+
+        CREATE TABLE IF NOT EXISTS data_versions (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          table_name TEXT NOT NULL,
+          key TEXT NOT NULL,
+          version INTEGER NOT NULL,
+          operation TEXT NOT NULL,
+          data TEXT,
+          expires_at TEXT,
+          author TEXT,
+          job_id TEXT,
+          reverted_from INTEGER,
+          created_at TEXT NOT NULL DEFAULT ${NOW},
+          UNIQUE (table_name, key, version)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_data_versions_created_at ON data_versions(table_name, key, created_at);
+        CREATE INDEX IF NOT EXISTS idx_data_versions_job_id ON data_versions(job_id);
+      `);
+
+      const existing = new Set<string>();
+      const rows = db.prepare(`SELECT name FROM sqlite_master WHERE type = 'table'`).all() as { name: string }[];
+      for (const { name } of rows) {
+        if (!name.startsWith(prefix)) {
+          continue;
+        }
+        const table = name.slice(prefix.length);
+        const columns = (db.pragma(`table_info(${quoteIdentifier(name)})`) as { name: string }[]).map(column => column.name);
+        const missing = KV_TABLE_COLUMNS.filter(column => !columns.includes(column));
+        if (missing.length > 0) {
+          console.error(`Skipping table ${name}: missing columns ${missing.join(', ')}`);
+          continue;
+        }
+        try {
+          this.tables.register(table);
+          existing.add(table);
+        } catch (error) {
+          console.error(`Skipping table ${name}:`, error instanceof Error ? error.message : error);
+        }
+      }
+
+      for (const table of this.tables.getConfiguredTables()) {
+        if (!existing.has(table)) {
+          this.createKvTable(table);
+        }
+      }
+
+      const versioned = db.prepare('SELECT table_name FROM versioned_tables').all() as { table_name: string }[];
+      for (const row of versioned) {
+        this.tables.setVersioned(row.table_name);
+      }
+    })();
+  }
+
+  /**
+   * Run a single read-only query with a row cap. SQLite cannot interrupt a
+   * statement, so the timeout is checked between rows. Parameters are bound
+   * to $1, $2, ... as on Postgres.
+   */
+  async executeReadOnly(sql: string, params: any[], options: { maxRows: number; timeoutMs: number }): Promise<ReadOnlyQueryResult> {
+    const statement = assertReadOnlyQuery(sql);
+    const maxRows = Math.floor(options.maxRows);
+    const timeoutMs = Math.floor(options.timeoutMs);
+    const startTime = Date.now();
+
+    const stmt = this.database().prepare(`SELECT * FROM (\n${statement}\n) AS readonly_query LIMIT ${maxRows + 1}`);
+    if (!stmt.readonly) {
+      throw new Error('Only read-only queries are allowed');
+    }
+    const columns = stmt.columns();
+    const bound = params.length > 0
+      ? [Object.fromEntries(params.map((value, index) => [String(index + 1), this.toSqliteValue(value)]))]
+      : [];
+
+    const rows: (string | null)[][] = [];
+    for (const row of stmt.raw(true).iterate(...bound) as IterableIterator<unknown[]>) {
+      if (Date.now() - startTime > timeoutMs) {
+        throw new Error('canceling statement due to statement timeout');
+      }
+      rows.push(row.map(value => this.toText(value)));
+    }
+
+    const truncated = rows.length > maxRows;
+    const kept = truncated ? rows.slice(0, maxRows) : rows;
+
+    return {
+      ResultSet: {
+        Rows: [
+          { Data: columns.map(column => ({ VarCharValue: column.name })) },
+          ...kept.map(row => ({
+            Data: row.map(value => (value === null ? {} : { VarCharValue: value }))
+          }))
+        ],
+        ResultSetMetadata: {
+          ColumnInfo: columns.map(column => ({ Name: column.name, Type: this.athenaType(column.type) }))
+        }
+      },
+      RowCount: kept.length,
+      Truncated: truncated,
+      ExecutionTimeInMillis: Date.now() - startTime
+    };
+  }
+
+  async createJob(problemDescription: string, userId?: string, metadata?: Record<string, any>): Promise<AnalysisJob> {
+    const now = new Date().toISOString();
+    const row = this.database().prepare(`
+      INSERT INTO analysis_jobs (id, problem_description, status, created_at, updated_at, user_id, metadata)
+      VALUES (?, ?, 'pending', ?, ?, ?, ?)
+      RETURNING *
+    `).get(randomUUID(), problemDescription, now, now, userId ?? null, metadata ? JSON.stringify(metadata) : null);
+
+    const job = this.mapJob(row);
+    this.emitChange({ table: 'analysis_jobs', key: job.id, operation: 'store', status: job.status });
+    return job;
+  }
+
+  async getJob(jobId: string, includeResults: boolean): Promise<AnalysisJob | JobDetails | null> {
+    const db = this.database();
+    const row = db.prepare('SELECT * FROM analysis_jobs WHERE id = ?').get(jobId);
+    if (!row) {
+      return null;
+    }
+
+    const job = this.mapJob(row);
+    if (!includeResults) {
+      return job;
+    }
+
+    const results = db.prepare('SELECT * FROM analysis_results WHERE job_id = ? ORDER BY created_at').all(jobId);
+    const reports = db.prepare('SELECT * FROM reports WHERE job_id = ? ORDER BY created_at').all(jobId);
+
+    return {
+      ...job,
+      results: results.map(result => this.mapResult(result)),
+      reports: reports.map(report => this.mapReport(report))
+    };
+  }
+
+  async updateJobStatus(
+    jobId: string,
+    update: { status: JobStatus; terminal: boolean; metadata: Record<string, any> },
+    check: (job: AnalysisJob) => void
+  ): Promise<AnalysisJob> {
+    const db = this.database();
+
+    const { job, previous } = db.transaction(() => {
+      const current = this.lockJob(jobId);
+      check(current);
+
+      const now = new Date().toISOString();
+      const row = db.prepare(`
+        UPDATE analysis_jobs
+        SET status = ?,
+            updated_at = ?,
+            completed_at = CASE WHEN ? THEN ? ELSE completed_at END,
+            metadata = ?
+        WHERE id = ?
+        RETURNING *
+      `).get(
+        update.status,
+        now,
+        Number(update.terminal),
+        now,
+        JSON.stringify({ ...(current.metadata ?? {}), ...update.metadata }),
+        jobId
+      );
+      return { job: this.mapJob(row), previous: current.status };
+    })();
+
+    if (job.status !== previous) {
+      this.emitChange({ table: 'analysis_jobs', key: jobId, operation: 'store', status: job.status, previous_status: previous });
+    }
+    return job;
+  }
+
+  async appendJobResult(
+    jobId: string,
+    result: { analysisType: string; results: any; insights?: string[]; confidenceScore?: number },
+    check: (job: AnalysisJob) => void
+  ): Promise<AnalysisResult> {
+    const db = this.database();
+
+    return db.transaction(() => {
+      check(this.lockJob(jobId));
+
+      const now = new Date().toISOString();
+      const row = db.prepare(`
+        INSERT INTO analysis_results (id, job_id, analysis_type, results, insights, confidence_score, created_at)
+        VALUES (?, ?, ?, ?, ?, round(?, 2), ?)
+        RETURNING *
+      `).get(
+        randomUUID(),
+        jobId,
+        result.analysisType,
+        JSON.stringify(result.results ?? null),
+        result.insights ? JSON.stringify(result.insights) : null,
+        result.confidenceScore ?? null,
+        now
+      );
+
+      db.prepare('UPDATE analysis_jobs SET updated_at = ? WHERE id = ?').run(now, jobId);
+
+      return this.mapResult(row);
+    })();
+  }
+
+  async registerJobReport(
+    jobId: string,
+    report: { reportType: string; filePath: string; fileSize?: number; emailSent: boolean }
+  ): Promise<Report> {
+    const db = this.database();
+
+    return db.transaction(() => {
+      this.lockJob(jobId);
+
+      const now = new Date().toISOString();
+      const row = db.prepare(`
+        INSERT INTO reports (id, job_id, report_type, file_path, file_size, created_at, email_sent, email_sent_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+        RETURNING *
+      `).get(
+        randomUUID(),
+        jobId,
+        report.reportType,
+        report.filePath,
+        report.fileSize ?? null,
+        now,
+        Number(report.emailSent),
+        report.emailSent ? now : null
+      );
+
+      db.prepare('UPDATE analysis_jobs SET updated_at = ? WHERE id = ?').run(now, jobId);
+
+      return this.mapReport(row);
+    })();
+  }
+
+  async listJobs(filters: { status?: JobStatus; userId?: string; limit: number; offset: number }): Promise<{ jobs: AnalysisJob[]; total: number }> {
+    const db = this.database();
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (filters.status) {
+      params.push(filters.status);
+      conditions.push('status = ?');
+    }
+    if (filters.userId) {
+      params.push(filters.userId);
+      conditions.push('user_id = ?');
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const countRow = db.prepare(`SELECT COUNT(*) AS count FROM analysis_jobs ${where}`).get(...params) as { count: number };
+    const rows = db.prepare(`
+      SELECT * FROM analysis_jobs
+      ${where}
+      ORDER BY created_at DESC
+      LIMIT ? OFFSET ?
+    `).all(...params, filters.limit, filters.offset);
+
+    return {
+      jobs: rows.map(row => this.mapJob(row)),
+      total: countRow.count
+    };
+  }
+
+  async storeQueryResult(entry: { queryHash: string; queryText: string; results: string; ttl: number; sizeBytes: number }): Promise<Date> {
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + entry.ttl * 1000).toISOString();
+
+    this.database().prepare(`
+      INSERT INTO query_results (id, query_hash, query_text, results, created_at, expires_at, size_bytes)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT (query_hash)
+      DO UPDATE SET
+        query_text = excluded.query_text,
+        results = excluded.results,
+        expires_at = excluded.expires_at,
+        size_bytes = excluded.size_bytes,
+        created_at = excluded.created_at
+    `).run(randomUUID(), entry.queryHash, entry.queryText, entry.results, now.toISOString(), expiresAt, entry.sizeBytes);
+
+    return new Date(expiresAt);
+  }
+
+  async lookupQueryResult(queryHash: string): Promise<CachedQueryResult | null> {
+    const row: any = this.database().prepare(`
+      SELECT query_hash, query_text, results, created_at, expires_at, size_bytes
+      FROM query_results
+      WHERE query_hash = ?
+      AND (expires_at IS NULL OR expires_at > ?)
+    `).get(queryHash, new Date().toISOString());
+
+    if (!row) {
+      return null;
+    }
+
+    return {
+      query_hash: row.query_hash,
+      query_text: row.query_text,
+      results: row.results !== null ? JSON.parse(row.results) : null,
+      created_at: new Date(row.created_at),
+      expires_at: this.toDate(row.expires_at),
+      size_bytes: row.size_bytes
+    };
+  }
+
+  async getAppliedMigrations(): Promise<AppliedMigration[]> {
+    return this.appliedMigrations();
+  }
+
+  /**
+   * Migrations run one at a time in this process. Each one takes SQLite's
+   * write lock for its transaction; one recorded meanwhile by another
+   * process fails on the schema_migrations primary key.
+   */
+  async withMigrationLock<T>(fn: (session: MigrationSession) => Promise<T>): Promise<T> {
+    const db = this.database();
+    const previous = this.migrationLock;
+    let release!: () => void;
+    this.migrationLock = new Promise(resolve => {
+      release = resolve;
+    });
+
+    await previous;
+    try {
+      return await fn({
+        getApplied: async () => this.appliedMigrations(),
+        apply: async (migration) => {
+          const startTime = Date.now();
+          db.transaction(() => {
+            db.exec(migration.up);
+            db.prepare(`
+              INSERT INTO schema_migrations (version, name, checksum, applied_at, execution_ms)
+              VALUES (?, ?, ?, ?, ?)
+            `).run(migration.version, migration.name, migration.checksum, new Date().toISOString(), Date.now() - startTime);
+          }).immediate();
+        },
+        revert: async (migration) => {
+          db.transaction(() => {
+            db.exec(migration.down ?? '');
+            db.prepare('DELETE FROM schema_migrations WHERE version = ?').run(migration.version);
+          }).immediate();
+        }
+      });
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Tables that may be backed up or restored, keyed by name: the analysis
+   * tables plus the registered key/value tables. Referenced tables come
+   * before the tables that reference them.
+   */
+  async getBackupTables(): Promise<Map<string, string>> {
+    const db = this.database();
+    const prefix = `${this.tables.getSchema()}${TABLE_SEPARATOR}`;
+
+    const names = (db.prepare(`
+      SELECT name FROM sqlite_master
+      WHERE type = 'table' AND name NOT LIKE 'sqlite_%' AND name <> 'schema_migrations'
+      ORDER BY name
+    `).all() as { name: string }[])
+      .map(row => row.name)
+      .filter(name => !name.startsWith(prefix));
+
+    const available = new Map<string, string>();
+    for (const name of names) {
+      available.set(name, quoteIdentifier(name));
+    }
+    for (const table of this.tables.list()) {
+      available.set(`${this.tables.getSchema()}.${table}`, this.qualify(table));
+    }
+
+    const dependencies = names.flatMap(name => (
+      (db.pragma(`foreign_key_list(${quoteIdentifier(name)})`) as { table: string }[])
+        .map(foreignKey => ({ child: name, parent: foreignKey.table }))
+    ));
+
+    const ordered = new Map<string, string>();
+    const visit = (table: string, path: Set<string>) => {
+      if (ordered.has(table) || path.has(table) || !available.has(table)) return;
+      path.add(table);
+      for (const row of dependencies) {
+        if (row.child === table && row.parent !== table) {
+          visit(row.parent, path);
+        }
+      }
+      ordered.set(table, available.get(table)!);
+    };
+    for (const table of available.keys()) {
+      visit(table, new Set());
+    }
+    return ordered;
+  }
+
+  async exportRows(qualified: string): Promise<Record<string, any>[]> {
+    return this.database().prepare(`SELECT * FROM ${qualified}`).all() as Record<string, any>[];
+  }
+
+  async restoreRows(
+    tables: { qualified: string; rows: Record<string, any>[] }[],
+    options: { replace: boolean; dryRun: boolean }
+  ): Promise<{ deleted: number; restored: number }[]> {
+    const db = this.database();
+    const counts = tables.map(() => ({ deleted: 0, restored: 0 }));
+    const changes: DataChange[] = [];
+
+    db.exec('BEGIN IMMEDIATE');
+    try {
+      if (options.replace) {
+        // Delete children before the tables they reference
+        for (let i = tables.length - 1; i >= 0; i--) {
+          const deleted = db.prepare(`DELETE FROM ${tables[i].qualified} RETURNING *`).all() as Record<string, any>[];
+          counts[i].deleted = deleted.length;
+          changes.push(...this.rowChanges(tables[i].qualified, deleted, 'delete'));
+        }
+      }
+
+      for (const [index, table] of tables.entries()) {
+        const columns = (db.pragma(`table_info(${table.qualified})`) as { name: string }[]).map(column => column.name);
+        const insert = db.prepare(`
+          INSERT INTO ${table.qualified} (${columns.map(quoteIdentifier).join(', ')})
+          VALUES (${columns.map(() => '?').join(', ')})
+          ON CONFLICT DO NOTHING
+        `);
+
+        for (const row of table.rows) {
+          if (insert.run(...columns.map(column => this.toSqliteValue(row[column] ?? null))).changes > 0) {
+            counts[index].restored++;
+            changes.push(...this.rowChanges(table.qualified, [row], 'store'));
+          }
+        }
+      }
+
+      db.exec(options.dryRun ? 'ROLLBACK' : 'COMMIT');
+    } catch (error) {
+      db.exec('ROLLBACK');
+      throw error;
+    }
+
+    if (!options.dryRun) {
+      changes.forEach(change => this.emitChange(change));
+    }
+    return counts;
+  }
+
+  async startBackupRun(trigger: BackupTrigger, format: 'sql' | 'json'): Promise<string> {
+    const id = randomUUID();
+    this.database().prepare(`
+      INSERT INTO backup_runs (id, trigger, status, format, started_at)
+      VALUES (?, ?, 'running', ?, ?)
+    `).run(id, trigger, format, new Date().toISOString());
+    return id;
+  }
+
+  async finishBackupRun(runId: string, outcome: { manifest: BackupManifest } | { error: string }): Promise<void> {
+    const db = this.database();
+    const now = new Date().toISOString();
+
+    if ('manifest' in outcome) {
+      db.prepare(`
+        UPDATE backup_runs
+        SET status = 'completed', backup_id = ?, completed_at = ?, size_bytes = ?, tables = ?
+        WHERE id = ?
+      `).run(outcome.manifest.id, now, outcome.manifest.size_bytes, JSON.stringify(outcome.manifest.tables), runId);
+    } else {
+      db.prepare(`
+        UPDATE backup_runs
+        SET status = 'failed', completed_at = ?, error = ?
+        WHERE id = ?
+      `).run(now, outcome.error, runId);
+    }
+  }
+
+  async markBackupsPruned(backupIds: string[]): Promise<void> {
+    this.database().prepare(`
+      UPDATE backup_runs SET pruned_at = ?
+      WHERE backup_id IN (SELECT value FROM json_each(?)) AND pruned_at IS NULL
+    `).run(new Date().toISOString(), JSON.stringify(backupIds));
+  }
+
+  async getBackupRuns(backupIds: string[]): Promise<BackupRun[]> {
+    const rows = this.database().prepare(`
+      SELECT * FROM backup_runs WHERE backup_id IN (SELECT value FROM json_each(?))
+    `).all(JSON.stringify(backupIds));
+    return rows.map(row => this.mapRun(row));
+  }
+
+  async findBackupRun(filter: { id?: string; status?: BackupRun['status'] }): Promise<BackupRun | null> {
+    const row = this.database().prepare(`
+      SELECT * FROM backup_runs
+      WHERE (@id IS NULL OR backup_id = @id OR id = @id)
+      AND (@status IS NULL OR status = @status)
+      ORDER BY started_at DESC LIMIT 1
+    `).get({ id: filter.id ?? null, status: filter.status ?? null });
+    return row ? this.mapRun(row) : null;
+  }
+
+  async listRetentionPolicies(): Promise<RetentionPolicy[]> {
+    const rows = this.database().prepare('SELECT * FROM retention_policies ORDER BY table_name').all();
+    return rows.map(row => this.mapPolicy(row));
+  }
+
+  async setRetentionPolicy(table: string, maxAgeDays: number | null, maxRows: number | null): Promise<RetentionPolicy> {
+    const now = new Date().toISOString();
+    const row = this.database().prepare(`
+      INSERT INTO retention_policies (table_name, max_age_days, max_rows, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT (table_name)
+      DO UPDATE SET
+        max_age_days = excluded.max_age_days,
+        max_rows = excluded.max_rows,
+        updated_at = excluded.updated_at
+      RETURNING *
+    `).get(table, maxAgeDays, maxRows, now, now);
+
+    return this.mapPolicy(row);
+  }
+
+  async deleteRetentionPolicy(table: string): Promise<boolean> {
+    return this.database().prepare('DELETE FROM retention_policies WHERE table_name = ?').run(table).changes > 0;
+  }
+
+  /**
+   * Delete rows older than max_age_days and rows beyond the newest max_rows.
+   * Jobs are only deleted once completed or failed, together with their
+   * results and reports; deleted key/value rows lose their version history.
+   */
+  async applyRetentionPolicy(policy: RetentionPolicy, kvTable: string | undefined, dryRun: boolean): Promise<Record<string, number>> {
+    const db = this.database();
+    const tableName = kvTable ? this.tableName(kvTable) : quoteIdentifier(policy.table);
+
+    const clauses: string[] = [];
+    const params: any[] = [];
+    if (policy.max_age_days !== undefined) {
+      params.push(new Date(Date.now() - policy.max_age_days * 86400000).toISOString());
+      clauses.push('created_at < ?');
+    }
+    if (policy.max_rows !== undefined) {
+      params.push(policy.max_rows);
+      clauses.push(`id IN (SELECT id FROM ${tableName} ORDER BY created_at DESC NULLS LAST, id LIMIT -1 OFFSET ?)`);
+    }
+    let where = `(${clauses.join(' OR ')})`;
+    if (policy.table === 'analysis_jobs') {
+      where += ` AND status IN ('completed', 'failed')`;
+    }
+
+    let counts: Record<string, number>;
+    const changes: DataChange[] = [];
+    db.exec('BEGIN IMMEDIATE');
+    try {
+      if (policy.table === 'analysis_jobs') {
+        const jobs = db.prepare(`SELECT id FROM analysis_jobs WHERE ${where}`).all(...params) as { id: string }[];
+        counts = this.deleteJobs(jobs.map(job => job.id));
+        changes.push(...jobs.map(job => ({ table: 'analysis_jobs', key: job.id, operation: 'delete' as const })));
+      } else {
+        const rows = db.prepare(`DELETE FROM ${tableName} WHERE ${where} RETURNING ${kvTable ? 'key' : 'id'}`).all(...params) as any[];
+        counts = { [policy.table]: rows.length };
+
+        if (kvTable) {
+          const keys: string[] = rows.map(row => row.key);
+          changes.push(...keys.map(key => ({ table: kvTable, key, operation: 'delete' as const })));
+          if (this.tables.isVersioned(kvTable)) {
+            counts.data_versions = db.prepare(`
+              DELETE FROM data_versions WHERE table_name = ? AND key IN (SELECT value FROM json_each(?))
+            `).run(kvTable, JSON.stringify(keys)).changes;
+          }
+        }
+      }
+
+      const total = Object.values(counts).reduce((sum, count) => sum + count, 0);
+      if (!dryRun && total > 0) {
+        this.logPurge('retention', policy.table, counts, { requestedBy: 'retention_policy' });
+      }
+
+      db.exec(dryRun ? 'ROLLBACK' : 'COMMIT');
+    } catch (error) {
+      db.exec('ROLLBACK');
+      throw error;
+    }
+
+    if (!dryRun) {
+      changes.forEach(change => this.emitChange(change));
+    }
+    return counts;
+  }
+
+  async purgeUserJobs(
+    userId: string,
+    log: { target: string; requestedBy?: string; reason?: string },
+    dryRun: boolean
+  ): Promise<{ jobIds: string[]; reportFiles: string[]; deleted: Record<string, number>; logId?: string }> {
+    const db = this.database();
+
+    let purge: { jobIds: string[]; reportFiles: string[]; deleted: Record<string, number>; logId?: string };
+    db.exec('BEGIN IMMEDIATE');
+    try {
+      const jobs = db.prepare('SELECT id FROM analysis_jobs WHERE user_id = ? ORDER BY created_at').all(userId) as { id: string }[];
+      const jobIds = jobs.map(job => job.id);
+
+      const reports = db.prepare(`
+        SELECT file_path FROM reports WHERE job_id IN (SELECT value FROM json_each(?)) ORDER BY created_at
+      `).all(JSON.stringify(jobIds)) as { file_path: string }[];
+      const deleted = this.deleteJobs(jobIds);
+      deleted.data_versions = db.prepare('DELETE FROM data_versions WHERE job_id IN (SELECT value FROM json_each(?))')
+        .run(JSON.stringify(jobIds)).changes;
+
+      const logId = dryRun ? undefined : this.logPurge('user', log.target, deleted, log);
+      purge = { jobIds, reportFiles: reports.map(report => report.file_path), deleted, logId };
+
+      db.exec(dryRun ? 'ROLLBACK' : 'COMMIT');
+    } catch (error) {
+      db.exec('ROLLBACK');
+      throw error;
+    }
+
+    if (!dryRun) {
+      purge.jobIds.forEach(jobId => this.emitChange({ table: 'analysis_jobs', key: jobId, operation: 'delete' }));
+    }
+    return purge;
+  }
+
+  async getPurgeLog(filters: { userTarget?: string; type?: PurgeType; limit: number; offset: number }): Promise<{ entries: PurgeLogEntry[]; total: number }> {
+    const db = this.database();
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (filters.userTarget !== undefined) {
+      params.push(filters.userTarget);
+      conditions.push(`purge_type = 'user' AND target = ?`);
+    }
+    if (filters.type) {
+      params.push(filters.type);
+      conditions.push('purge_type = ?');
+    }
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const countRow = db.prepare(`SELECT COUNT(*) AS total FROM purge_log ${where}`).get(...params) as { total: number };
+    const rows = db.prepare(`
+      SELECT * FROM purge_log ${where}
+      ORDER BY created_at DESC, id DESC
+      LIMIT ? OFFSET ?
+    `).all(...params, filters.limit, filters.offset);
+
+    return {
+      entries: rows.map(row => this.mapLogEntry(row)),
+      total: countRow.total
+    };
+  }
+
+  /**
+   * Tables described from PRAGMAs and the dbstat table. Tables outside the
+   * key/value schema are reported in "public", as on Postgres; SQLite keeps
+   * no vacuum or scan statistics.
+   */
+  async describeTables(only?: { schema: string; table: string }): Promise<TableInfo[]> {
+    const db = this.database();
+    const kvSchema = this.tables.getSchema();
+    const prefix = `${kvSchema}${TABLE_SEPARATOR}`;
+
+    const sizes = new Map((db.prepare('SELECT name, SUM(pgsize) AS size FROM dbstat GROUP BY name').all() as { name: string; size: number }[])
+      .map(row => [row.name, row.size]));
+
+    const tables = (db.prepare(`SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%'`).all() as { name: string }[])
+      .map(({ name }) => (name.startsWith(prefix)
+        ? { sqliteName: name, schema: kvSchema, table: name.slice(prefix.length) }
+        : { sqliteName: name, schema: 'public', table: name }))
+      .filter(entry => !only || (entry.schema === only.schema && entry.table === only.table))
+      .sort((a, b) => Number(b.schema === 'public') - Number(a.schema === 'public')
+        || a.schema.localeCompare(b.schema)
+        || a.table.localeCompare(b.table));
+
+    return tables.map(({ sqliteName, schema, table }) => {
+      const quoted = quoteIdentifier(sqliteName);
+
+      const columns = (db.pragma(`table_info(${quoted})`) as { name: string; type: string; notnull: number; dflt_value: string | null; pk: number }[])
+        .map(column => ({
+          name: column.name,
+          type: column.type.toLowerCase(),
+          nullable: column.notnull === 0 && column.pk === 0,
+          default: column.dflt_value ?? undefined,
+          primary_key: column.pk > 0
+        }));
+
+      const indexes = (db.pragma(`index_list(${quoted})`) as { name: string; unique: number; origin: string }[])
+        .map(index => {
+          const indexColumns = (db.pragma(`index_info(${quoteIdentifier(index.name)})`) as { seqno: number; name: string }[])
+            .sort((a, b) => a.seqno - b.seqno)
+            .map(column => column.name);
+          const definition = (db.prepare(`SELECT sql FROM sqlite_master WHERE type = 'index' AND name = ?`).get(index.name) as { sql: string | null } | undefined)?.sql;
+          return {
+            name: index.name,
+            columns: indexColumns,
+            unique: index.unique === 1,
+            primary: index.origin === 'pk',
+            definition: definition
+              ?? `CREATE ${index.unique === 1 ? 'UNIQUE ' : ''}INDEX ${quoteIdentifier(index.name)} ON ${quoted} (${indexColumns.map(quoteIdentifier).join(', ')})`,
+            size_bytes: sizes.get(index.name) ?? 0
+          };
+        })
+        .sort((a, b) => Number(b.primary) - Number(a.primary) || a.name.localeCompare(b.name));
+
+      const rowCount = (db.prepare(`SELECT COUNT(*) AS count FROM ${quoted}`).get() as { count: number }).count;
+      const tableBytes = sizes.get(sqliteName) ?? 0;
+      const indexBytes = indexes.reduce((sum, index) => sum + index.size_bytes, 0);
+
+      return {
+        name: schema === 'public' ? table : `${schema}.${table}`,
+        schema,
+        table,
+        key_value: schema === kvSchema && this.tables.isRegistered(table),
+        versioned: schema === kvSchema && this.tables.isVersioned(table),
+        columns,
+        indexes,
+        row_estimate: rowCount,
+        dead_rows: 0,
+        size_bytes: tableBytes + indexBytes,
+        table_bytes: tableBytes,
+        index_bytes: indexBytes,
+        size: this.formatSize(tableBytes + indexBytes),
+        seq_scans: 0,
+        index_scans: 0
+      };
+    });
+  }
+
+  async sampleRows(schema: string, table: string, limit: number): Promise<{ columns: string[]; rows: Record<string, any>[] }> {
+    const quoted = schema === this.tables.getSchema() ? this.qualify(table) : quoteIdentifier(table);
+    const stmt = this.database().prepare(`SELECT * FROM ${quoted} LIMIT ?`);
+    return {
+      columns: stmt.columns().map(column => column.name),
+      rows: stmt.all(limit) as Record<string, any>[]
+    };
+  }
+
+  async watchChanges(listener: (change: DataChange) => void): Promise<() => Promise<void>> {
+    this.changeListeners.add(listener);
+    return async () => {
+      this.changeListeners.delete(listener);
+    };
+  }
+
+  async close(): Promise<void> {
+    this.changeListeners.clear();
+    this.db?.close();
+    this.db = undefined;
+  }
+
+  /**
+   * Tell watchers about committed writes; called after the transaction
+   */
+  private emitChanges(table: string, keys: string[], operation: DataChange['operation']): void {
+    for (const key of keys) {
+      this.emitChange({ table, key, operation });
+    }
+  }
+
+  private emitChange(change: DataChange): void {
+    for (const listener of this.changeListeners) {
+      listener(change);
+    }
+  }
+
+  /**
+   * The job, read inside the caller's transaction. SQLite has one writer at
+   * a time, so no row lock is needed.
+   */
+  private lockJob(jobId: string): AnalysisJob {
+    const row = this.database().prepare('SELECT * FROM analysis_jobs WHERE id = ?').get(jobId);
+    if (!row) {
+      throw new Error(`Analysis job not found: ${jobId}`);
+    }
+    return this.mapJob(row);
+  }
+
+  /**
+   * Delete jobs after the reports and analysis results that reference them
+   */
+  private deleteJobs(jobIds: string[]): Record<string, number> {
+    const db = this.database();
+    const ids = JSON.stringify(jobIds);
+    const reports = db.prepare('DELETE FROM reports WHERE job_id IN (SELECT value FROM json_each(?))').run(ids);
+    const results = db.prepare('DELETE FROM analysis_results WHERE job_id IN (SELECT value FROM json_each(?))').run(ids);
+    const jobs = db.prepare('DELETE FROM analysis_jobs WHERE id IN (SELECT value FROM json_each(?))').run(ids);
+
+    return {
+      analysis_jobs: jobs.changes,
+      analysis_results: results.changes,
+      reports: reports.changes
+    };
+  }
+
+  private logPurge(
+    type: PurgeType,
+    target: string,
+    deleted: Record<string, number>,
+    details: { requestedBy?: string; reason?: string }
+  ): string {
+    const row = this.database().prepare(`
+      INSERT INTO purge_log (purge_type, target, requested_by, reason, deleted, created_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+      RETURNING id
+    `).get(type, target, details.requestedBy ?? null, details.reason ?? null, JSON.stringify(deleted), new Date().toISOString()) as { id: number };
+
+    return String(row.id);
+  }
+
+  private appliedMigrations(): AppliedMigration[] {
+    const db = this.database();
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        version INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        checksum TEXT NOT NULL,
+        applied_at TEXT DEFAULT ${NOW},
+        execution_ms INTEGER
+      )
+    `);
+    const rows = db.prepare('SELECT version, name, checksum, applied_at FROM schema_migrations ORDER BY version').all() as any[];
+    return rows.map(row => ({ ...row, applied_at: new Date(row.applied_at) }));
+  }
+
+  /**
+   * The changes watchers see for rows of a restored table: key/value
+   * entries and analysis jobs, as the Postgres triggers report them
+   */
+  private rowChanges(qualified: string, rows: Record<string, any>[], operation: DataChange['operation']): DataChange[] {
+    if (qualified === quoteIdentifier('analysis_jobs')) {
+      return rows.map(row => ({
+        table: 'analysis_jobs',
+        key: String(row.id),
+        operation,
+        status: operation === 'store' ? row.status ?? undefined : undefined
+      }));
+    }
+    const table = this.tables.list().find(name => this.qualify(name) === qualified);
+    return table ? rows.map(row => ({ table, key: String(row.key), operation })) : [];
+  }
+
+  /**
+   * Values as better-sqlite3 binds them: booleans as 0/1 and objects as JSON text
+   */
+  private toSqliteValue(value: any): any {
+    if (typeof value === 'boolean') {
+      return Number(value);
+    }
+    if (value !== null && typeof value === 'object' && !Buffer.isBuffer(value)) {
+      return JSON.stringify(value);
+    }
+    return value;
+  }
+
+  /**
+   * A value in the text form Postgres returns it in
+   */
+  private toText(value: unknown): string | null {
+    if (value === null || value === undefined) {
+      return null;
+    }
+    return Buffer.isBuffer(value) ? `\\x${value.toString('hex')}` : String(value);
+  }
+
+  /**
+   * Athena type name for a declared column type, by SQLite's type affinity rules
+   */
+  private athenaType(declared: string | null): string {
+    const type = (declared ?? '').toUpperCase();
+    if (type.includes('INT')) return 'bigint';
+    if (type.includes('BOOL')) return 'boolean';
+    if (type.includes('REAL') || type.includes('FLOA') || type.includes('DOUB')) return 'double';
+    if (type.includes('NUMERIC') || type.includes('DECIMAL')) return 'decimal';
+    return 'varchar';
+  }
+
+  private toDate(value: string | null): Date | undefined {
+    return value !== null ? new Date(value) : undefined;
+  }
+
+  private mapJob(row: any): AnalysisJob {
+    return {
+      id: row.id,
+      problem_description: row.problem_description,
+      status: row.status,
+      created_at: new Date(row.created_at),
+      updated_at: new Date(row.updated_at),
+      completed_at: this.toDate(row.completed_at),
+      user_id: row.user_id ?? undefined,
+      metadata: row.metadata !== null ? JSON.parse(row.metadata) : undefined
+    };
+  }
+
+  private mapResult(row: any): AnalysisResult {
+    return {
+      id: row.id,
+      job_id: row.job_id,
+      analysis_type: row.analysis_type,
+      results: JSON.parse(row.results),
+      insights: row.insights !== null ? JSON.parse(row.insights) : undefined,
+      confidence_score: row.confidence_score ?? undefined,
+      created_at: new Date(row.created_at)
+    };
+  }
+
+  private mapReport(row: any): Report {
+    return {
+      id: row.id,
+      job_id: row.job_id,
+      report_type: row.report_type,
+      file_path: row.file_path,
+      file_size: row.file_size ?? undefined,
+      created_at: new Date(row.created_at),
+      email_sent: row.email_sent === 1,
+      email_sent_at: this.toDate(row.email_sent_at)
+    };
+  }
+
+  private mapRun(row: any): BackupRun {
+    return {
+      id: row.id,
+      backup_id: row.backup_id ?? undefined,
+      trigger: row.trigger,
+      status: row.status,
+      format: row.format,
+      started_at: new Date(row.started_at),
+      completed_at: this.toDate(row.completed_at),
+      size_bytes: row.size_bytes ?? undefined,
+      tables: row.tables !== null ? JSON.parse(row.tables) : undefined,
+      error: row.error ?? undefined,
+      pruned_at: this.toDate(row.pruned_at)
+    };
+  }
+
+  private mapPolicy(row: any): RetentionPolicy {
+    return {
+      table: row.table_name,
+      max_age_days: row.max_age_days ?? undefined,
+      max_rows: row.max_rows ?? undefined,
+      created_at: new Date(row.created_at),
+      updated_at: new Date(row.updated_at)
+    };
+  }
+
+  private mapLogEntry(row: any): PurgeLogEntry {
+    return {
+      id: String(row.id),
+      purge_type: row.purge_type,
+      target: row.target,
+      requested_by: row.requested_by ?? undefined,
+      reason: row.reason ?? undefined,
+      deleted: JSON.parse(row.deleted),
+      created_at: new Date(row.created_at)
+    };
+  }
+
+  /**
+   * Write one entry. On versioned tables the caller must hold a transaction.
+   */
+  private writeEntry(
+    table: string,
+    key: string,
+    data: any,
+    ttl: number | undefined,
+    attribution: WriteAttribution
+  ): number | undefined {
+    const db = this.database();
+    const tableName = this.tableName(table);
+    const now = new Date();
+    const expiresAt = ttl ? new Date(now.getTime() + ttl * 1000).toISOString() : null;
+    const serialized = JSON.stringify(data) ?? null;
+
+    if (!this.tables.isVersioned(table)) {
+      db.prepare(`
+        INSERT INTO ${tableName} (id, key, data, created_at, expires_at, table_name)
+        VALUES (?, ?, ?, ?, ?, ?)
+        ON CONFLICT (key)
+        DO UPDATE SET
+          data = excluded.data,
+          expires_at = excluded.expires_at,
+          created_at = excluded.created_at
+      `).run(randomUUID(), key, serialized, now.toISOString(), expiresAt, table);
+      return undefined;
+    }
+
+    const version = this.appendVersion(table, key, {
+      operation: attribution.revertedFrom !== undefined ? 'revert' : 'store',
+      data: serialized,
+      expiresAt,
+      attribution
+    });
+
+    // created_at is kept so it records when the key was first written
+    db.prepare(`
+      INSERT INTO ${tableName} (id, key, data, created_at, expires_at, table_name)
+      VALUES (?, ?, ?, ?, ?, ?)
+      ON CONFLICT (key)
+      DO UPDATE SET
+        data = excluded.data,
+        expires_at = excluded.expires_at
+    `).run(randomUUID(), key, serialized, now.toISOString(), expiresAt, table);
+
+    return version;
+  }
+
+  /**
+   * Delete one entry. On versioned tables the caller must hold a transaction.
+   */
+  private removeEntry(table: string, key: string, attribution: WriteAttribution): boolean {
+    const db = this.database();
+    const tableName = this.tableName(table);
+
+    if (!this.tables.isVersioned(table)) {
+      return db.prepare(`DELETE FROM ${tableName} WHERE key = ?`).run(key).changes > 0;
+    }
+
+    const existing = db.prepare(`SELECT 1 FROM ${tableName} WHERE key = ?`).get(key);
+    if (!existing) {
+      return false;
+    }
+
+    this.appendVersion(table, key, { operation: 'delete', data: null, expiresAt: null, attribution });
+    db.prepare(`DELETE FROM ${tableName} WHERE key = ?`).run(key);
+    return true;
+  }
+
+  /**
+   * Run an operation per item in one transaction. An atomic batch is rolled
+   * back on the first failure; otherwise each item runs in a nested
+   * transaction (a savepoint) so a failed item does not undo the others.
+   */
+  private runBatch<T extends { key: string }>(
+    items: T[],
+    atomic: boolean,
+    operation: (item: T) => Partial<BulkItemResult>
+  ): BulkWriteResult {
+    const db = this.database();
+    const runItem = db.transaction(operation);
+    const results: BulkItemResult[] = [];
+    let failure: { index: number; message: string } | undefined;
+
+    try {
+      db.transaction(() => {
+        for (const [index, item] of items.entries()) {
+          try {
+            results.push({ ...runItem(item), key: item.key, ok: true });
+          } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            if (atomic) {
+              failure = { index, message };
+              throw error;
+            }
+            results.push({ key: item.key, ok: false, error: message });
+          }
+        }
+      })();
+    } catch (error) {
+      if (!failure) {
+        throw error;
+      }
+      const { index, message } = failure;
+      return {
+        atomic,
+        committed: false,
+        total: items.length,
+        succeeded: 0,
+        failed: items.length,
+        results: items.map((other, otherIndex) => ({
+          key: other.key,
+          ok: false,
+          error: otherIndex === index ? message : `Not applied: batch rolled back after item ${index} (${items[index].key}) failed`
+        }))
+      };
+    }
+
+    const succeeded = results.filter(result => result.ok).length;
+    return {
+      atomic,
+      committed: true,
+      total: items.length,
+      succeeded,
+      failed: items.length - succeeded,
+      results
+    };
+  }
+
+  /**
+   * Append the next version of a key. When a key has no history yet (the
+   * table was versioned after it was written) its current value is recorded
+   * first as the baseline version. Writes are serialized by SQLite, so no
+   * lock is needed.
+   */
+  private appendVersion(
+    table: string,
+    key: string,
+    entry: { operation: VersionOperation; data: string | null; expiresAt: string | null; attribution: WriteAttribution }
+  ): number {
+    const db = this.database();
+    const latest = db.prepare(`
+      SELECT MAX(version) AS version FROM data_versions WHERE table_name = ? AND key = ?
+    `).get(table, key) as { version: number | null };
+    let version = latest.version ?? 0;
+
+    if (version === 0) {
+      const current = db.prepare(`
+        SELECT data, expires_at, created_at FROM ${this.tableName(table)} WHERE key = ?
+      `).get(key) as KvRow | undefined;
+      if (current) {
+        version = 1;
+        db.prepare(`
+          INSERT INTO data_versions (table_name, key, version, operation, data, expires_at, created_at)
+          VALUES (?, ?, ?, 'store', ?, ?, ?)
+        `).run(table, key, version, current.data, current.expires_at, current.created_at);
+      }
+    }
+
+    version++;
+    db.prepare(`
+      INSERT INTO data_versions (table_name, key, version, operation, data, expires_at, author, job_id, reverted_from, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      table,
+      key,
+      version,
+      entry.operation,
+      entry.operation === 'delete' ? null : entry.data,
+      entry.expiresAt,
+      entry.attribution.author ?? null,
+      entry.attribution.jobId ?? null,
+      entry.attribution.revertedFrom ?? null,
+      new Date().toISOString()
+    );
+
+    return version;
+  }
+
+  private assertVersioned(table: string): void {
+    this.tables.resolve(table);
+    if (!this.tables.isVersioned(table)) {
+      throw new Error(`Table ${table} is not versioned. Create it with create_table and versioned: true, or add it to VERSIONED_TABLES`);
+    }
+  }
+
+  private createKvTable(table: string): void {
+    this.database().exec(`
+      CREATE TABLE IF NOT EXISTS ${this.qualify(table)} (
+        id TEXT PRIMARY KEY,
+        key TEXT UNIQUE NOT NULL CHECK (length(key) <= 255),
+        data TEXT NOT NULL,
+        created_at TEXT NOT NULL DEFAULT ${NOW},
+        expires_at TEXT,
+        table_name TEXT
+      )
+    `);
+  }
+
+  /**
+   * Quoted SQLite name for a table without checking registration
+   */
+  private qualify(table: string): string {
+    return quoteIdentifier(`${this.tables.getSchema()}${TABLE_SEPARATOR}${validateIdentifier(table)}`);
+  }
+
+  /**
+   * Quoted SQLite name for a registered table
+   */
+  private tableName(table: string): string {
+    this.tables.resolve(table);
+    return this.qualify(table);
+  }
+
+  private database(): Database.Database {
+    if (!this.db) {
+      throw new Error('SQLite storage is not connected');
+    }
+    return this.db;
+  }
+
+  private ttlSeconds(expiresAt: string | null): number | undefined {
+    return expiresAt !== null ? Math.ceil((Date.parse(expiresAt) - Date.now()) / 1000) : undefined;
+  }
+
+  private mapRow(row: KvRow): StoredData {
+    return {
+      id: row.id,
+      key: row.key,
+      data: JSON.parse(row.data),
+      created_at: new Date(row.created_at),
+      expires_at: row.expires_at !== null ? new Date(row.expires_at) : undefined
+    };
+  }
+
+  private mapVersion(row: any, includeData: boolean): DataVersion {
+    return {
+      version: row.version,
+      operation: row.operation,
+      data: includeData && row.data !== null ? JSON.parse(row.data) : undefined,
+      expires_at: row.expires_at !== null ? new Date(row.expires_at) : undefined,
+      author: row.author ?? undefined,
+      job_id: row.job_id ?? undefined,
+      reverted_from: row.reverted_from ?? undefined,
+      created_at: new Date(row.created_at)
+    };
+  }
+
+  /**
+   * Human-readable size in the style of pg_size_pretty
+   */
+  private formatSize(bytes: number): string {
+    const units = ['bytes', 'kB', 'MB', 'GB', 'TB'];
+    let size = bytes;
+    let unit = 0;
+    while (size >= 10 * 1024 && unit < units.length - 1) {
+      size /= 1024;
+      unit++;
+    }
+    return `${Math.round(size)} ${units[unit]}`;
+  }
+}
@@ -0,0 +1,321 @@
+import { TableRegistry } from './table-registry.js';
+import {
+  AnalysisJob,
+  AnalysisResult,
+  AppliedMigration,
+  BackupManifest,
+  BackupRun,
+  BackupTrigger,
+  BulkItem,
+  BulkWriteResult,
+  CacheHealth,
+  CacheKeyPage,
+  CacheStats,
+  CachedQueryResult,
+  DataChange,
+  DataHistory,
+  DataQuery,
+  DataQueryResult,
+  DataVersion,
+  DatabaseStats,
+  JobDetails,
+  JobStatus,
+  Migration,
+  NamespaceStats,
+  PurgeLogEntry,
+  PurgeType,
+  ReadOnlyQueryResult,
+  Report,
+  RetentionPolicy,
+  StorageHealth,
+  TableInfo,
+  WriteAttribution
+} from './types.js';
+
+/**
+ * The migrations table as seen while holding the migration lock
+ */
+export interface MigrationSession {
+  getApplied(): Promise<AppliedMigration[]>;
+
+  /**
+   * Run the up section and record the migration, in one transaction
+   */
+  apply(migration: Migration): Promise<void>;
+
+  /**
+   * Run the down section and remove the record, in one transaction
+   */
+  revert(migration: Migration): Promise<void>;
+}
+
+/**
+ * StorageBackend is the database behind the tools: registered key/value
+ * tables with TTLs, structured queries, bulk writes and version history,
+ * plus the tables of the analysis jobs, the Athena query cache, backups,
+ * migrations and retention. PostgresClient is the production implementation
+ * and SqliteStorage the embedded one; both must behave identically as seen
+ * through the tools. The managers (JobManager, BackupManager, ...) keep the
+ * rules and call these methods for the SQL.
+ */
+export interface StorageBackend {
+  /**
+   * Open the database, retrying where the backend supports it
+   */
+  connect(): Promise<void>;
+
+  /**
+   * Create configured tables and register tables from previous runs
+   */
+  initializeTables(): Promise<void>;
+
+  close(): Promise<void>;
+
+  getTableRegistry(): TableRegistry;
+
+  /**
+   * Returns the new version number on versioned tables
+   */
+  storeData(key: string, data: any, table?: string, ttl?: number, attribution?: WriteAttribution): Promise<number | undefined>;
+
+  storeMany(items: BulkItem[], table: string, options: { atomic: boolean; attribution?: WriteAttribution }): Promise<BulkWriteResult>;
+
+  retrieveData(key: string, table?: string): Promise<any | null>;
+
+  /**
+   * Data along with the seconds left before it expires (undefined when it never expires)
+   */
+  retrieveEntry(key: string, table?: string): Promise<{ data: any; ttlSeconds?: number } | null>;
+
+  /**
+   * Missing and expired keys are absent from the map
+   */
+  retrieveMany(keys: string[], table?: string): Promise<Map<string, { data: any; ttlSeconds?: number }>>;
+
+  deleteData(key: string, table?: string, attribution?: WriteAttribution): Promise<boolean>;
+
+  deleteMany(keys: string[], table: string, options: { atomic: boolean; attribution?: WriteAttribution }): Promise<BulkWriteResult>;
+
+  queryData(query: DataQuery): Promise<DataQueryResult>;
+
+  retrieveVersion(key: string, table: string, at: { version?: number; asOf?: string }): Promise<DataVersion | null>;
+
+  getHistory(key: string, table: string, options: { limit: number; offset: number; includeData: boolean }): Promise<DataHistory>;
+
+  cleanupExpired(table?: string): Promise<number>;
+
+  getStats(): Promise<DatabaseStats>;
+
+  checkHealth(): Promise<StorageHealth>;
+
+  createTable(table: string, versioned?: boolean): Promise<void>;
+
+  dropTable(table: string): Promise<void>;
+
+  /**
+   * Call the listener for every committed store or delete on a key/value
+   * table, and for analysis job status changes where the backend has jobs.
+   * Returns a function that removes the listener.
+   */
+  watchChanges(listener: (change: DataChange) => void): Promise<() => Promise<void>>;
+
+  /**
+   * Run a single read-only query with a row cap and statement timeout. Values are returned as text.
+   */
+  executeReadOnly(sql: string, params: any[], options: { maxRows: number; timeoutMs: number }): Promise<ReadOnlyQueryResult>;
+
+  createJob(problemDescription: string, userId?: string, metadata?: Record<string, any>): Promise<AnalysisJob>;
+
+  getJob(jobId: string, includeResults: boolean): Promise<AnalysisJob | JobDetails | null>;
+
+  /**
+   * Set a job's status and merge the metadata patch. check is called with
+   * the job locked and throws to reject the update.
+   */
+  updateJobStatus(
+    jobId: string,
+    update: { status: JobStatus; terminal: boolean; metadata: Record<string, any> },
+    check: (job: AnalysisJob) => void
+  ): Promise<AnalysisJob>;
+
+  /**
+   * check is called with the job locked and throws to reject the result
+   */
+  appendJobResult(
+    jobId: string,
+    result: { analysisType: string; results: any; insights?: string[]; confidenceScore?: number },
+    check: (job: AnalysisJob) => void
+  ): Promise<AnalysisResult>;
+
+  registerJobReport(
+    jobId: string,
+    report: { reportType: string; filePath: string; fileSize?: number; emailSent: boolean }
+  ): Promise<Report>;
+
+  /**
+   * Jobs newest first
+   */
+  listJobs(filters: { status?: JobStatus; userId?: string; limit: number; offset: number }): Promise<{ jobs: AnalysisJob[]; total: number }>;
+
+  /**
+   * Insert or replace a cached query result; returns when it expires
+   */
+  storeQueryResult(entry: { queryHash: string; queryText: string; results: string; ttl: number; sizeBytes: number }): Promise<Date>;
+
+  /**
+   * An unexpired cached query result
+   */
+  lookupQueryResult(queryHash: string): Promise<CachedQueryResult | null>;
+
+  getAppliedMigrations(): Promise<AppliedMigration[]>;
+
+  /**
+   * Run fn while no other server applies or rolls back migrations
+   */
+  withMigrationLock<T>(fn: (session: MigrationSession) => Promise<T>): Promise<T>;
+
+  /**
+   * Tables that may be backed up or restored, keyed by name ("<table>" or
+   * "<KV_SCHEMA>.<table>") with the quoted name to use in SQL. Referenced
+   * tables come before the tables that reference them.
+   */
+  getBackupTables(): Promise<Map<string, string>>;
+
+  /**
+   * Every row of a table as a JSON object
+   */
+  exportRows(qualified: string): Promise<Record<string, any>[]>;
+
+  /**
+   * Insert rows into tables in one transaction, skipping rows that conflict.
+   * With replace, the tables are emptied first, in reverse order. A dry run
+   * is rolled back. Returns the rows deleted and restored per table.
+   */
+  restoreRows(
+    tables: { qualified: string; rows: Record<string, any>[] }[],
+    options: { replace: boolean; dryRun: boolean }
+  ): Promise<{ deleted: number; restored: number }[]>;
+
+  /**
+   * Record a running backup; returns the run ID
+   */
+  startBackupRun(trigger: BackupTrigger, format: 'sql' | 'json'): Promise<string>;
+
+  finishBackupRun(runId: string, outcome: { manifest: BackupManifest } | { error: string }): Promise<void>;
+
+  markBackupsPruned(backupIds: string[]): Promise<void>;
+
+  getBackupRuns(backupIds: string[]): Promise<BackupRun[]>;
+
+  /**
+   * The latest run, optionally for a backup ID or run ID and with a status
+   */
+  findBackupRun(filter: { id?: string; status?: BackupRun['status'] }): Promise<BackupRun | null>;
+
+  listRetentionPolicies(): Promise<RetentionPolicy[]>;
+
+  setRetentionPolicy(table: string, maxAgeDays: number | null, maxRows: number | null): Promise<RetentionPolicy>;
+
+  deleteRetentionPolicy(table: string): Promise<boolean>;
+
+  /**
+   * Delete the rows a policy selects in one transaction and record the purge
+   * in purge_log; a dry run is rolled back. kvTable is the key/value table of
+   * a policy on "<KV_SCHEMA>.<table>". Returns the rows deleted per table.
+   */
+  applyRetentionPolicy(policy: RetentionPolicy, kvTable: string | undefined, dryRun: boolean): Promise<Record<string, number>>;
+
+  /**
+   * Delete a user's jobs with their results, reports and the data versions
+   * they wrote in one transaction, and record the purge in purge_log under
+   * target; a dry run is rolled back
+   */
+  purgeUserJobs(
+    userId: string,
+    log: { target: string; requestedBy?: string; reason?: string },
+    dryRun: boolean
+  ): Promise<{ jobIds: string[]; reportFiles: string[]; deleted: Record<string, number>; logId?: string }>;
+
+  /**
+   * Purge log entries newest first, optionally only the user purges with a target
+   */
+  getPurgeLog(filters: { userTarget?: string; type?: PurgeType; limit: number; offset: number }): Promise<{ entries: PurgeLogEntry[]; total: number }>;
+
+  /**
+   * Tables in the public and key/value schemas, or the one named by only
+   */
+  describeTables(only?: { schema: string; table: string }): Promise<TableInfo[]>;
+
+  /**
+   * Up to limit rows of a table, read without writing
+   */
+  sampleRows(schema: string, table: string, limit: number): Promise<{ columns: string[]; rows: Record<string, any>[] }>;
+}
+
+/**
+ * CacheBackend is the expiring JSON cache used for namespaced cache entries
+ * and as the fast tier in front of the storage backend. RedisClient is the
+ * production implementation and MemoryCache the in-process one. Keys use
+ * Redis glob patterns and SCAN-style cursors in both.
+ */
+export interface CacheBackend {
+  /**
+   * Returns false when the cache is unreachable; callers then run without it
+   */
+  connect(): Promise<boolean>;
+
+  close(): Promise<void>;
+
+  /**
+   * Whether commands are currently being sent to the cache
+   */
+  isAvailable(): boolean;
+
+  checkHealth(): Promise<CacheHealth>;
+
+  set(key: string, value: any, ttl?: number): Promise<void>;
+
+  get(key: string): Promise<any | null>;
+
+  delete(key: string): Promise<boolean>;
+
+  getMany(keys: string[]): Promise<any[]>;
+
+  /**
+   * Returns the error message for each entry, or null
+   */
+  setMany(entries: { key: string; value: any; ttl?: number }[], atomic?: boolean): Promise<(string | null)[]>;
+
+  /**
+   * Returns whether each key existed, or its error message
+   */
+  deleteMany(keys: string[], atomic?: boolean): Promise<(boolean | string)[]>;
+
+  exists(key: string): Promise<boolean>;
+
+  keys(pattern?: string): Promise<string[]>;
+
+  scanKeys(pattern: string, cursor?: string, count?: number): Promise<CacheKeyPage>;
+
+  deletePattern(pattern: string): Promise<number>;
+
+  countPattern(pattern: string): Promise<number>;
+
+  flushAll(): Promise<void>;
+
+  expire(key: string, ttl: number): Promise<boolean>;
+
+  /**
+   * Seconds left, -1 when the key never expires and -2 when it does not exist
+   */
+  ttl(key: string): Promise<number>;
+
+  getStats(): Promise<CacheStats>;
+
+  getNamespaceStats(depth?: number, scanLimit?: number): Promise<{ namespaces: NamespaceStats[]; scanned: number; complete: boolean }>;
+
+  /**
+   * Number of keys that have expired
+   */
+  cleanupExpired(): Promise<number>;
+}
@@ -0,0 +1,140 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { randomUUID } from 'crypto';
+import { StorageBackend } from './storage-backend.js';
+import { DataChange, Subscription } from './types.js';
+
+/**
+ * Resource URI of a changed row: db://job/{id} for analysis jobs and
+ * db://data/{table}/{key} for key/value entries
+ */
+export function changeUri(table: string, key: string): string {
+  return table === 'analysis_jobs'
+    ? `db://job/${encodeURIComponent(key)}`
+    : `db://data/${encodeURIComponent(table)}/${encodeURIComponent(key)}`;
+}
+
+/**
+ * The table and key a changeUri refers to, or null for any other URI
+ */
+export function parseChangeUri(uri: string): { table: string; key: string } | null {
+  const job = uri.match(/^db:\/\/job\/([^/]+)$/);
+  if (job) {
+    return { table: 'analysis_jobs', key: decodeURIComponent(job[1]) };
+  }
+  const data = uri.match(/^db:\/\/data\/([^/]+)\/([^/]+)$/);
+  if (data) {
+    return { table: decodeURIComponent(data[1]), key: decodeURIComponent(data[2]) };
+  }
+  return null;
+}
+
+/**
+ * SubscriptionManager sends the connected client a
+ * notifications/resources/updated message for every committed change that
+ * matches one of its subscriptions, with the changeUri of the row. The
+ * storage backend is only watched while there are subscriptions.
+ */
+export class SubscriptionManager {
+  private server: Server;
+  private storage: StorageBackend;
+  private subscriptions = new Map<string, Subscription>();
+  private watching?: Promise<() => Promise<void>>;
+
+  constructor(server: Server, storage: StorageBackend) {
+    this.server = server;
+    this.storage = storage;
+  }
+
+  /**
+   * Subscribe to the keys of a table starting with a prefix, or to one exact
+   * key when the subscription comes from resources/subscribe
+   */
+  async subscribe(table: string, match: { keyPrefix: string } | { key: string; uri: string }): Promise<Subscription> {
+    const subscription: Subscription = {
+      id: randomUUID(),
+      table,
+      ...('uri' in match ? { key: match.key, uri: match.uri } : { key_prefix: match.keyPrefix }),
+      created_at: new Date().toISOString(),
+      notifications_sent: 0
+    };
+    this.subscriptions.set(subscription.id, subscription);
+
+    this.watching ??= this.storage.watchChanges(change => {
+      void this.notify(change);
+    });
+    try {
+      await this.watching;
+    } catch (error) {
+      this.subscriptions.delete(subscription.id);
+      this.watching = undefined;
+      throw error;
+    }
+    return subscription;
+  }
+
+  async unsubscribe(subscriptionId: string): Promise<boolean> {
+    if (!this.subscriptions.delete(subscriptionId)) {
+      return false;
+    }
+    await this.stopWatchingIfIdle();
+    return true;
+  }
+
+  /**
+   * Remove the resources/subscribe subscriptions for a URI
+   */
+  async unsubscribeUri(uri: string): Promise<number> {
+    const matching = [...this.subscriptions.values()].filter(subscription => subscription.uri === uri);
+    for (const subscription of matching) {
+      this.subscriptions.delete(subscription.id);
+    }
+    await this.stopWatchingIfIdle();
+    return matching.length;
+  }
+
+  list(): Subscription[] {
+    return [...this.subscriptions.values()];
+  }
+
+  async close(): Promise<void> {
+    this.subscriptions.clear();
+    await this.stopWatchingIfIdle();
+  }
+
+  /**
+   * One notification per change, however many subscriptions it matches
+   */
+  private async notify(change: DataChange): Promise<void> {
+    const matching = [...this.subscriptions.values()].filter(subscription => (
+      subscription.table === change.table && (subscription.key !== undefined
+        ? change.key === subscription.key
+        : change.key.startsWith(subscription.key_prefix ?? ''))
+    ));
+    if (matching.length === 0) {
+      return;
+    }
+
+    for (const subscription of matching) {
+      subscription.notifications_sent++;
+    }
+    try {
+      await this.server.sendResourceUpdated({
+        uri: changeUri(change.table, change.key),
+        ...change,
+        subscription_ids: matching.map(subscription => subscription.id)
+      });
+    } catch (error) {
+      console.error('Failed to send change notification:', error instanceof Error ? error.message : error);
+    }
+  }
+
+  private async stopWatchingIfIdle(): Promise<void> {
+    if (this.subscriptions.size > 0 || !this.watching) {
+      return;
+    }
+    const watching = this.watching;
+    this.watching = undefined;
+    const stop = await watching.catch(() => undefined);
+    await stop?.();
+  }
+}
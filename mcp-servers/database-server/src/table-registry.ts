@@ -0,0 +1,113 @@
+// Lower-case Postgres identifiers only, within the 63 byte NAMEDATALEN limit
+const IDENTIFIER_PATTERN = /^[a-z_][a-z0-9_]{0,62}$/;
+const RESERVED_PREFIXES = ['pg_', 'sql_'];
+
+// Columns every key/value table must have
+export const KV_TABLE_COLUMNS = ['key', 'data', 'created_at', 'expires_at'];
+
+/**
+ * Quote a Postgres identifier so it can be safely interpolated into SQL
+ */
+export function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Validate a table or schema name supplied by a tool call
+ */
+export function validateIdentifier(name: string): string {
+  if (!IDENTIFIER_PATTERN.test(name)) {
+    throw new Error(`Invalid identifier "${name}": use lower-case letters, digits and underscores (max 63 characters)`);
+  }
+  if (RESERVED_PREFIXES.some(prefix => name.startsWith(prefix))) {
+    throw new Error(`Invalid identifier "${name}": reserved prefix`);
+  }
+  return name;
+}
+
+/**
+ * TableRegistry is the allow-list of key/value tables that tools may touch.
+ * All key/value tables live in a dedicated schema, so a tool call can never
+ * resolve to the analysis tables in public or to the system catalogs.
+ */
+export class TableRegistry {
+  private schema: string;
+  private configuredTables: Set<string>;
+  private tables: Set<string>;
+  private versionedTables: Set<string>;
+
+  /**
+   * @param versionedTables Tables whose writes are always recorded in data_versions
+   */
+  constructor(schema: string, configuredTables: string[], versionedTables: string[] = []) {
+    this.schema = validateIdentifier(schema);
+    if (this.schema === 'public') {
+      throw new Error('Key/value tables cannot live in the public schema');
+    }
+    this.configuredTables = new Set(configuredTables.map(validateIdentifier));
+    this.tables = new Set(this.configuredTables);
+    this.versionedTables = new Set(versionedTables.map(validateIdentifier));
+  }
+
+  getSchema(): string {
+    return this.schema;
+  }
+
+  getConfiguredTables(): string[] {
+    return [...this.configuredTables];
+  }
+
+  list(): string[] {
+    return [...this.tables].sort();
+  }
+
+  isRegistered(table: string): boolean {
+    return this.tables.has(table);
+  }
+
+  isConfigured(table: string): boolean {
+    return this.configuredTables.has(table);
+  }
+
+  register(table: string): void {
+    this.tables.add(validateIdentifier(table));
+  }
+
+  unregister(table: string): void {
+    if (this.configuredTables.has(table)) {
+      throw new Error(`Table ${table} is configured and cannot be removed`);
+    }
+    this.tables.delete(table);
+    this.versionedTables.delete(table);
+  }
+
+  isVersioned(table: string): boolean {
+    return this.versionedTables.has(table);
+  }
+
+  setVersioned(table: string): void {
+    this.versionedTables.add(validateIdentifier(table));
+  }
+
+  listVersioned(): string[] {
+    return [...this.versionedTables].sort();
+  }
+
+  /**
+   * Schema-qualified, quoted name for a table without checking registration
+   */
+  qualify(table: string): string {
+    return `${quoteIdentifier(this.schema)}.${quoteIdentifier(validateIdentifier(table))}`;
+  }
+
+  /**
+   * Schema-qualified, quoted name for a registered table
+   */
+  resolve(table: string): string {
+    validateIdentifier(table);
+    if (!this.tables.has(table)) {
+      throw new Error(`Unknown table: ${table}. Create it with create_table first`);
+    }
+    return this.qualify(table);
+  }
+}
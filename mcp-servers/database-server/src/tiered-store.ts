@@ -0,0 +1,239 @@
+import { TABLE_CACHE_NAMESPACE, namespacePattern } from './redis-client.js';
+import { CacheBackend, StorageBackend } from './storage-backend.js';
+import { BulkItem, BulkReadResult, BulkWriteResult, TieredCacheStats, WriteAttribution } from './types.js';
+
+// Cached in place of a stored JSON null, which the cache would report as a miss
+const CACHED_NULL = { __tiered_store_null: true };
+
+/**
+ * TieredStore fronts the key/value tables of the storage backend with the
+ * cache backend (cache-aside). Reads check the cache first and back-fill it
+ * from storage; writes go through to both tiers and deletes invalidate the
+ * cached copy. Cache failures are logged and the operation falls back to
+ * storage alone; while the cache is unavailable it is skipped entirely
+ * (degraded mode), and the cached rows are dropped once it is back because
+ * they may have missed writes. The stats report the cache tier as "redis"
+ * and the storage tier as "postgres" whichever backends are configured.
+ */
+export class TieredStore {
+  private storage: StorageBackend;
+  private cache: CacheBackend;
+  private enabled: boolean;
+  private maxCacheTTL: number;
+  private staleAfterOutage = false;
+  private counters = {
+    redis: { hits: 0, misses: 0, errors: 0 },
+    postgres: { hits: 0, misses: 0 }
+  };
+
+  /**
+   * @param enabled When false, table reads and writes go to the storage backend only
+   * @param maxCacheTTL Upper bound in seconds for cached copies of stored rows
+   */
+  constructor(storage: StorageBackend, cache: CacheBackend, enabled: boolean, maxCacheTTL: number) {
+    this.storage = storage;
+    this.cache = cache;
+    this.enabled = enabled;
+    this.maxCacheTTL = maxCacheTTL;
+  }
+
+  /**
+   * Returns the new version number on versioned tables
+   */
+  async store(key: string, data: any, table: string, ttl?: number, attribution?: WriteAttribution): Promise<number | undefined> {
+    const version = await this.storage.storeData(key, data, table, ttl, attribution);
+
+    if (this.enabled) {
+      await this.withCache(() => this.cache.set(this.cacheKey(table, key), this.toCached(data), this.cacheTTL(ttl)));
+    }
+
+    return version;
+  }
+
+  async retrieve(key: string, table: string): Promise<any | null> {
+    const cacheKey = this.cacheKey(table, key);
+
+    if (this.enabled) {
+      const cached = await this.withCache(() => this.cache.get(cacheKey));
+      if (cached !== null && cached !== undefined) {
+        this.counters.redis.hits++;
+        return this.fromCached(cached);
+      }
+      this.counters.redis.misses++;
+    }
+
+    const entry = await this.storage.retrieveEntry(key, table);
+    if (!entry) {
+      this.counters.postgres.misses++;
+      return null;
+    }
+    this.counters.postgres.hits++;
+
+    if (this.enabled) {
+      await this.withCache(() => this.cache.set(cacheKey, this.toCached(entry.data), this.cacheTTL(entry.ttlSeconds)));
+    }
+
+    return entry.data;
+  }
+
+  async delete(key: string, table: string, attribution?: WriteAttribution): Promise<boolean> {
+    const deleted = await this.storage.deleteData(key, table, attribution);
+
+    if (this.enabled) {
+      await this.withCache(() => this.cache.delete(this.cacheKey(table, key)));
+    }
+
+    return deleted;
+  }
+
+  /**
+   * Store many entries in one storage transaction, then cache the stored
+   * entries with one cache batch
+   */
+  async storeMany(items: BulkItem[], table: string, options: { atomic: boolean; attribution?: WriteAttribution }): Promise<BulkWriteResult> {
+    const result = await this.storage.storeMany(items, table, options);
+
+    if (this.enabled && result.committed) {
+      const stored = items.filter((_item, index) => result.results[index].ok);
+      if (stored.length > 0) {
+        await this.withCache(() => this.cache.setMany(stored.map(item => ({
+          key: this.cacheKey(table, item.key),
+          value: this.toCached(item.data),
+          ttl: this.cacheTTL(item.ttl)
+        }))));
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Read many keys with one cache lookup, then read the misses from storage
+   * with one query and back-fill them into the cache
+   */
+  async retrieveMany(keys: string[], table: string): Promise<BulkReadResult> {
+    const values = new Map<string, any>();
+
+    if (this.enabled) {
+      const cached = await this.withCache(() => this.cache.getMany(keys.map(key => this.cacheKey(table, key))));
+      keys.forEach((key, index) => {
+        if (cached && cached[index] !== null && cached[index] !== undefined) {
+          values.set(key, this.fromCached(cached[index]));
+        }
+      });
+      this.counters.redis.hits += values.size;
+      this.counters.redis.misses += keys.length - values.size;
+    }
+
+    const misses = [...new Set(keys.filter(key => !values.has(key)))];
+    if (misses.length > 0) {
+      const entries = await this.storage.retrieveMany(misses, table);
+      this.counters.postgres.hits += entries.size;
+      this.counters.postgres.misses += misses.length - entries.size;
+
+      for (const [key, entry] of entries) {
+        values.set(key, entry.data);
+      }
+
+      if (this.enabled && entries.size > 0) {
+        await this.withCache(() => this.cache.setMany([...entries].map(([key, entry]) => ({
+          key: this.cacheKey(table, key),
+          value: this.toCached(entry.data),
+          ttl: this.cacheTTL(entry.ttlSeconds)
+        }))));
+      }
+    }
+
+    const results = keys.map(key => (values.has(key)
+      ? { key, found: true, data: values.get(key) }
+      : { key, found: false }));
+    return {
+      total: keys.length,
+      found: results.filter(result => result.found).length,
+      missing: results.filter(result => !result.found).map(result => result.key),
+      results
+    };
+  }
+
+  /**
+   * Delete many keys in one storage transaction and drop their cached copies
+   */
+  async deleteMany(keys: string[], table: string, options: { atomic: boolean; attribution?: WriteAttribution }): Promise<BulkWriteResult> {
+    const result = await this.storage.deleteMany(keys, table, options);
+
+    if (this.enabled && result.committed) {
+      await this.withCache(() => this.cache.deleteMany(keys.map(key => this.cacheKey(table, key))));
+    }
+
+    return result;
+  }
+
+  /**
+   * Remove every cached row of a table, e.g. after it is dropped or restored
+   */
+  async invalidateTable(table: string): Promise<number> {
+    if (!this.enabled) {
+      return 0;
+    }
+    const deleted = await this.withCache(() => this.cache.deletePattern(namespacePattern(`${TABLE_CACHE_NAMESPACE}:${table}`)));
+    return deleted || 0;
+  }
+
+  /**
+   * Remove every cache entry in a namespace, e.g. "job:42". Namespaced entries
+   * live only in the cache, so this applies whatever the cache mode.
+   */
+  async invalidateNamespace(namespace: string): Promise<number> {
+    const deleted = await this.withCache(() => this.cache.deletePattern(namespacePattern(namespace)));
+    return deleted || 0;
+  }
+
+  getStats(): TieredCacheStats {
+    const { redis, postgres } = this.counters;
+    const lookups = redis.hits + redis.misses;
+
+    return {
+      mode: !this.enabled ? 'postgres' : this.cache.isAvailable() ? 'tiered' : 'degraded',
+      redis: { ...redis },
+      postgres: { ...postgres },
+      redis_hit_rate: lookups > 0 ? Math.round((redis.hits / lookups) * 10000) / 100 : 0
+    };
+  }
+
+  private cacheKey(table: string, key: string): string {
+    return `${TABLE_CACHE_NAMESPACE}:${table}:${key}`;
+  }
+
+  private toCached(data: any): any {
+    return data === null ? CACHED_NULL : data;
+  }
+
+  private fromCached(value: any): any {
+    return value !== null && typeof value === 'object' && value.__tiered_store_null === true ? null : value;
+  }
+
+  private cacheTTL(ttl?: number): number {
+    return ttl !== undefined ? Math.max(1, Math.min(ttl, this.maxCacheTTL)) : this.maxCacheTTL;
+  }
+
+  private async withCache<T>(operation: () => Promise<T>): Promise<T | null> {
+    // Degraded mode: skip the cache while it is disconnected or its circuit is open
+    if (!this.cache.isAvailable()) {
+      this.staleAfterOutage = true;
+      return null;
+    }
+
+    try {
+      if (this.staleAfterOutage) {
+        await this.cache.deletePattern(namespacePattern(TABLE_CACHE_NAMESPACE));
+        this.staleAfterOutage = false;
+      }
+      return await operation();
+    } catch (error) {
+      this.counters.redis.errors++;
+      this.staleAfterOutage = true;
+      console.error('Cache tier unavailable, using storage only:', error);
+      return null;
+    }
+  }
+}
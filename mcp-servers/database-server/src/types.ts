@@ -6,7 +6,31 @@ export const DatabaseConfigSchema = z.object({
   REDIS_URL: z.string(),
   DB_POOL_SIZE: z.number().default(10),
   CACHE_DEFAULT_TTL: z.number().default(3600),
-  BACKUP_SCHEDULE: z.string().default('0 2 * * *')
+  CACHE_MODE: z.enum(['tiered', 'postgres']).default('tiered'),
+  STORAGE_BACKEND: z.enum(['postgres', 'sqlite']).default('postgres'),
+  SQLITE_PATH: z.string().default('./data/database-server.sqlite'),
+  CACHE_BACKEND: z.enum(['redis', 'memory']).default('redis'),
+  MEMORY_CACHE_MAX_KEYS: z.number().int().positive().default(10000),
+  DB_RETRY_ATTEMPTS: z.number().int().min(1).default(5),
+  DB_RETRY_BASE_DELAY_MS: z.number().int().positive().default(200),
+  DB_RETRY_MAX_DELAY_MS: z.number().int().positive().default(10000),
+  CIRCUIT_BREAKER_THRESHOLD: z.number().int().min(1).default(5),
+  CIRCUIT_BREAKER_RESET_MS: z.number().int().positive().default(30000),
+  BACKUP_SCHEDULE: z.string().default('0 2 * * *'),
+  BACKUP_DIRECTORY: z.string().default('./backups'),
+  BACKUP_RETENTION_DAILY: z.number().int().min(0).default(7),
+  BACKUP_RETENTION_WEEKLY: z.number().int().min(0).default(4),
+  RETENTION_SCHEDULE: z.string().default('30 3 * * *'),
+  PURGE_LOG_SECRET: z.string().min(16).optional(),
+  QUERY_CACHE_MAX_BYTES: z.number().int().positive().default(5 * 1024 * 1024),
+  QUERY_CACHE_TTL: z.number().int().positive().default(3600),
+  READONLY_SQL_TIMEOUT_MS: z.number().int().positive().default(15000),
+  READONLY_SQL_MAX_ROWS: z.number().int().positive().default(1000),
+  MIGRATIONS_DIR: z.string(),
+  MIGRATE_ON_START: z.boolean().default(false),
+  KV_SCHEMA: z.string().default('kv'),
+  KV_TABLES: z.array(z.string()).default(['cache_data']),
+  VERSIONED_TABLES: z.array(z.string()).default([])
 });
 
 export type DatabaseConfig = z.infer<typeof DatabaseConfigSchema>;
@@ -16,23 +40,145 @@ export const StoreDataSchema = z.object({
   key: z.string().describe('Unique key for the data'),
   data: z.any().describe('Data to store (any type)'),
   ttl: z.number().optional().describe('Time to live in seconds'),
-  table: z.string().optional().describe('Database table name')
+  table: z.string().optional().describe('Database table name'),
+  namespace: z.string().optional().describe('Cache namespace, e.g. "job:42" (cache only)'),
+  author: z.string().max(255).optional().describe('Who wrote this version (versioned tables)'),
+  jobId: z.string().uuid().optional().describe('Analysis job that produced this version (versioned tables)')
 });
 
 export const RetrieveDataSchema = z.object({
   key: z.string().describe('Key to retrieve data for'),
-  table: z.string().optional().describe('Database table name')
+  table: z.string().optional().describe('Database table name'),
+  namespace: z.string().optional().describe('Cache namespace, e.g. "job:42" (cache only)'),
+  version: z.number().int().positive().optional().describe('Return this version (versioned tables)'),
+  asOf: z.string().datetime({ offset: true }).optional().describe('Return the version current at this ISO timestamp, or nothing if the key was deleted then (versioned tables)')
+}).refine(value => value.version === undefined || value.asOf === undefined, {
+  message: 'Use either version or asOf, not both'
+}).refine(value => (value.version === undefined && value.asOf === undefined) || value.table, {
+  message: 'version and asOf require a table'
 });
 
 export const UpdateCacheSchema = z.object({
   key: z.string().describe('Cache key to update'),
   data: z.any().describe('New data to store'),
-  ttl: z.number().optional().describe('Time to live in seconds')
+  ttl: z.number().optional().describe('Time to live in seconds'),
+  namespace: z.string().optional().describe('Cache namespace, e.g. "job:42"')
 });
 
 export const DeleteDataSchema = z.object({
   key: z.string().describe('Key to delete'),
-  table: z.string().optional().describe('Database table name')
+  table: z.string().optional().describe('Database table name'),
+  namespace: z.string().optional().describe('Cache namespace, e.g. "job:42" (cache only)'),
+  author: z.string().max(255).optional().describe('Who deleted the key (versioned tables)'),
+  jobId: z.string().uuid().optional().describe('Analysis job that deleted the key (versioned tables)')
+});
+
+export const BulkItemSchema = z.object({
+  key: z.string().describe('Unique key for the data'),
+  data: z.any().describe('Data to store (any type)'),
+  ttl: z.number().optional().describe('Time to live in seconds')
+});
+
+export type BulkItem = z.infer<typeof BulkItemSchema>;
+
+export const StoreManySchema = z.object({
+  items: z.array(BulkItemSchema).min(1).max(1000).describe('Entries to store'),
+  table: z.string().optional().describe('Database table name'),
+  namespace: z.string().optional().describe('Cache namespace, e.g. "job:42" (cache only)'),
+  atomic: z.boolean().default(false).describe('Store every item or none of them'),
+  author: z.string().max(255).optional().describe('Who wrote these versions (versioned tables)'),
+  jobId: z.string().uuid().optional().describe('Analysis job that produced these versions (versioned tables)')
+});
+
+export const RetrieveManySchema = z.object({
+  keys: z.array(z.string()).min(1).max(1000).describe('Keys to retrieve'),
+  table: z.string().optional().describe('Database table name'),
+  namespace: z.string().optional().describe('Cache namespace, e.g. "job:42" (cache only)')
+});
+
+export const DeleteManySchema = z.object({
+  keys: z.array(z.string()).min(1).max(1000).describe('Keys to delete'),
+  table: z.string().optional().describe('Database table name'),
+  namespace: z.string().optional().describe('Cache namespace, e.g. "job:42" (cache only)'),
+  atomic: z.boolean().default(false).describe('Delete every key or none of them'),
+  author: z.string().max(255).optional().describe('Who deleted the keys (versioned tables)'),
+  jobId: z.string().uuid().optional().describe('Analysis job that deleted the keys (versioned tables)')
+});
+
+export const GetHistorySchema = z.object({
+  key: z.string().describe('Key to get the history of'),
+  table: z.string().describe('Versioned key/value table'),
+  limit: z.number().int().min(1).max(500).default(50).describe('Maximum number of versions to return'),
+  offset: z.number().int().min(0).default(0).describe('Number of versions to skip'),
+  includeData: z.boolean().default(true).describe('Include the stored data of each version')
+});
+
+export const RevertDataSchema = z.object({
+  key: z.string().describe('Key to revert'),
+  table: z.string().describe('Versioned key/value table'),
+  version: z.number().int().positive().describe('Version whose data becomes the current value'),
+  ttl: z.number().optional().describe('Time to live in seconds for the reverted value'),
+  author: z.string().max(255).optional().describe('Who reverted the key'),
+  jobId: z.string().uuid().optional().describe('Analysis job that reverted the key')
+});
+
+export const ListCacheKeysSchema = z.object({
+  namespace: z.string().optional().describe('List keys in this namespace, e.g. "job:42"'),
+  pattern: z.string().optional().describe('Glob pattern to match (ignored when namespace is given)'),
+  cursor: z.string().regex(/^\d+$/).default('0').describe('Cursor returned by the previous page'),
+  count: z.number().int().min(1).max(1000).default(100).describe('Approximate number of keys to scan per page')
+});
+
+export const InvalidatePatternSchema = z.object({
+  namespace: z.string().optional().describe('Delete every key in this namespace, e.g. "job:42"'),
+  pattern: z.string().optional().describe('Glob pattern of keys to delete (ignored when namespace is given)'),
+  dryRun: z.boolean().default(false).describe('Count matching keys without deleting them')
+}).refine(value => value.namespace || value.pattern, { message: 'Either namespace or pattern is required' });
+
+export const DataFilterSchema = z.object({
+  path: z.string().min(1).describe('Dot-separated path into the stored data, e.g. "metrics.revenue"'),
+  op: z.enum(['eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'in', 'contains', 'exists', 'like'])
+    .describe('Comparison operator'),
+  value: z.any().optional().describe('Value to compare against (array for "in", ILIKE pattern for "like")')
+});
+
+export type DataFilter = z.infer<typeof DataFilterSchema>;
+
+export const QueryDataSchema = z.object({
+  table: z.string().default('cache_data').describe('Key/value table to query'),
+  keyPrefix: z.string().optional().describe('Only return keys starting with this prefix'),
+  filters: z.array(DataFilterSchema).default([]).describe('Predicates on the stored data (combined with AND)'),
+  createdAfter: z.string().datetime({ offset: true }).optional().describe('Only rows created at or after this ISO timestamp'),
+  createdBefore: z.string().datetime({ offset: true }).optional().describe('Only rows created before this ISO timestamp'),
+  includeExpired: z.boolean().default(false).describe('Include rows whose TTL has passed'),
+  orderBy: z.string().default('created_at').describe('created_at, expires_at, key or data.<path>'),
+  order: z.enum(['asc', 'desc']).default('desc').describe('Sort direction'),
+  limit: z.number().int().min(1).max(500).default(50).describe('Maximum number of rows to return'),
+  offset: z.number().int().min(0).default(0).describe('Number of rows to skip')
+});
+
+export type DataQuery = z.infer<typeof QueryDataSchema>;
+
+export const ExecuteReadOnlySqlSchema = z.object({
+  sql: z.string().min(1).describe('Single SELECT / WITH / VALUES / TABLE statement; use $1, $2, ... for parameters'),
+  params: z.array(z.union([z.string(), z.number(), z.boolean(), z.null()])).default([])
+    .describe('Positional parameter values for $1, $2, ...'),
+  maxRows: z.number().int().positive().optional().describe('Maximum number of rows to return (capped by server limit)'),
+  timeoutMs: z.number().int().positive().optional().describe('Statement timeout in milliseconds (capped by server limit)')
+});
+
+export const CacheQueryResultSchema = z.object({
+  query: z.string().min(1).describe('Athena SQL the results belong to'),
+  database: z.string().optional().describe('Athena database the query ran against'),
+  workgroup: z.string().default('primary').describe('Athena workgroup the query ran in'),
+  results: z.any().describe('Query results to cache'),
+  ttl: z.number().int().positive().optional().describe('Time to live in seconds')
+});
+
+export const LookupQueryResultSchema = z.object({
+  query: z.string().min(1).describe('Athena SQL to look up'),
+  database: z.string().optional().describe('Athena database the query runs against'),
+  workgroup: z.string().default('primary').describe('Athena workgroup the query runs in')
 });
 
 export const BackupDataSchema = z.object({
@@ -41,8 +187,126 @@ export const BackupDataSchema = z.object({
 });
 
 export const RestoreDataSchema = z.object({
-  backupFile: z.string().describe('Path to backup file'),
-  format: z.enum(['sql', 'json']).default('sql').describe('Backup format')
+  backupFile: z.string().describe('Backup ID, backup directory or path to its manifest.json, inside the backup directory'),
+  tables: z.array(z.string()).optional().describe('Specific tables to restore (default: all tables in the backup)'),
+  mode: z.enum(['append', 'replace']).default('append').describe('append skips rows that already exist; replace deletes existing rows first'),
+  dryRun: z.boolean().default(false).describe('Validate and count rows, then roll back')
+});
+
+export const CreateTableSchema = z.object({
+  table: z.string().describe('Name of the key/value table to create'),
+  versioned: z.boolean().default(false).describe('Record every write to the table in its version history')
+});
+
+export const DropTableSchema = z.object({
+  table: z.string().describe('Name of the key/value table to drop'),
+  confirm: z.literal(true).describe('Must be true to confirm the table and its data are removed')
+});
+
+export const MigrateSchema = z.object({
+  target: z.number().int().positive().optional().describe('Migrate up to and including this version (default: latest)'),
+  dryRun: z.boolean().default(false).describe('List the migrations that would run without applying them')
+});
+
+export const RollbackSchema = z.object({
+  steps: z.number().int().min(1).default(1).describe('Number of migrations to roll back'),
+  dryRun: z.boolean().default(false).describe('List the migrations that would be rolled back without running them'),
+  confirm: z.boolean().optional().describe('Must be true, unless dryRun is set, to confirm the down migrations may drop tables and data')
+}).refine(value => value.dryRun || value.confirm === true, {
+  message: 'confirm must be true to roll back migrations',
+  path: ['confirm']
+});
+
+// Analysis job lifecycle schemas
+export const JobStatusSchema = z.enum(['pending', 'running', 'completed', 'failed']);
+
+export type JobStatus = z.infer<typeof JobStatusSchema>;
+
+export const CreateJobSchema = z.object({
+  problemDescription: z.string().min(1).describe('Business question being analysed'),
+  userId: z.string().optional().describe('User who submitted the job'),
+  metadata: z.record(z.string(), z.any()).optional().describe('Additional job metadata')
+});
+
+export const GetJobSchema = z.object({
+  jobId: z.string().uuid().describe('Analysis job ID'),
+  includeResults: z.boolean().default(false).describe('Include analysis results and reports')
+});
+
+export const UpdateJobStatusSchema = z.object({
+  jobId: z.string().uuid().describe('Analysis job ID'),
+  status: JobStatusSchema.describe('New job status'),
+  error: z.string().optional().describe('Failure reason (recorded in metadata when status is failed)'),
+  metadata: z.record(z.string(), z.any()).optional().describe('Metadata to merge into the job')
+});
+
+export const AppendAnalysisResultSchema = z.object({
+  jobId: z.string().uuid().describe('Analysis job ID'),
+  analysisType: z.string().min(1).max(100).describe('Type of analysis performed'),
+  results: z.any().describe('Analysis results'),
+  insights: z.array(z.string()).optional().describe('Key insights'),
+  confidenceScore: z.number().min(0).max(1).optional().describe('Confidence score between 0 and 1')
+});
+
+export const RegisterReportSchema = z.object({
+  jobId: z.string().uuid().describe('Analysis job ID'),
+  reportType: z.string().max(50).default('pdf').describe('Report type'),
+  filePath: z.string().describe('Path to the generated report'),
+  fileSize: z.number().int().nonnegative().optional().describe('Report size in bytes'),
+  emailSent: z.boolean().default(false).describe('Whether the report has been emailed')
+});
+
+export const ListJobsSchema = z.object({
+  status: JobStatusSchema.optional().describe('Filter by job status'),
+  userId: z.string().optional().describe('Filter by user'),
+  limit: z.number().int().min(1).max(500).default(50).describe('Maximum number of jobs to return'),
+  offset: z.number().int().min(0).default(0).describe('Number of jobs to skip')
+});
+
+// Retention and purge schemas
+export const SetRetentionPolicySchema = z.object({
+  table: z.string().describe('analysis_jobs, analysis_results, reports, query_results or <KV_SCHEMA>.<table>'),
+  maxAgeDays: z.number().int().positive().nullable().optional().describe('Delete rows created more than this many days ago'),
+  maxRows: z.number().int().min(0).nullable().optional().describe('Keep only this many of the newest rows')
+}).refine(value => value.maxAgeDays != null || value.maxRows != null, {
+  message: 'Either maxAgeDays or maxRows is required'
+});
+
+export const DeleteRetentionPolicySchema = z.object({
+  table: z.string().describe('Table whose retention policy is removed')
+});
+
+export const ApplyRetentionSchema = z.object({
+  table: z.string().optional().describe('Apply only this table\'s policy (default: every policy)'),
+  dryRun: z.boolean().default(false).describe('Count the rows that would be deleted without deleting them')
+});
+
+export const PurgeUserDataSchema = z.object({
+  userId: z.string().min(1).describe('User whose jobs, analysis results, reports and report files are deleted'),
+  requestedBy: z.string().optional().describe('Who requested the deletion (recorded in the purge log)'),
+  reason: z.string().optional().describe('Reason for the deletion, e.g. a ticket reference (recorded in the purge log)'),
+  dryRun: z.boolean().default(false).describe('Count the rows that would be deleted without deleting them'),
+  confirm: z.boolean().optional().describe('Must be true, unless dryRun is set, to confirm the user\'s data is deleted')
+}).refine(value => value.dryRun || value.confirm === true, {
+  message: 'confirm must be true to purge a user\'s data',
+  path: ['confirm']
+});
+
+export const GetPurgeLogSchema = z.object({
+  userId: z.string().optional().describe('Only show purges of this user'),
+  type: z.enum(['user', 'retention']).optional().describe('Filter by purge type'),
+  limit: z.number().int().min(1).max(500).default(50).describe('Maximum number of entries to return'),
+  offset: z.number().int().min(0).default(0).describe('Number of entries to skip')
+});
+
+// Change subscription schemas
+export const SubscribeSchema = z.object({
+  table: z.string().describe('Key/value table, or analysis_jobs for job status changes'),
+  keyPrefix: z.string().default('').describe('Only notify for keys (job IDs for analysis_jobs) starting with this prefix')
+});
+
+export const UnsubscribeSchema = z.object({
+  subscriptionId: z.string().describe('Subscription ID returned by subscribe')
 });
 
 // Data types
@@ -55,11 +319,196 @@ export interface StoredData {
   table_name?: string;
 }
 
+export const ListBackupsSchema = z.object({
+  limit: z.number().int().min(1).max(200).default(20).describe('Maximum number of backups to return')
+});
+
+export const GetBackupStatusSchema = z.object({
+  backupId: z.string().optional().describe('Backup ID to get the run for (default: scheduler status)')
+});
+
+export type BackupTrigger = 'scheduled' | 'manual';
+
+export interface DataQueryResult {
+  table: string;
+  rows: StoredData[];
+  total: number;
+  limit: number;
+  offset: number;
+  has_more: boolean;
+}
+
+export interface CachedQueryResult {
+  query_hash: string;
+  query_text: string;
+  results: any;
+  created_at: Date;
+  expires_at?: Date;
+  size_bytes: number;
+}
+
+// Same shape as Athena's GetQueryResults ResultSet: the first row holds the column names
+export interface ResultSet {
+  Rows: { Data: { VarCharValue?: string }[] }[];
+  ResultSetMetadata: {
+    ColumnInfo: { Name: string; Type: string }[];
+  };
+}
+
+export interface ReadOnlyQueryResult {
+  ResultSet: ResultSet;
+  RowCount: number;
+  Truncated: boolean;
+  ExecutionTimeInMillis: number;
+}
+
+export interface BackupManifest {
+  id: string;
+  created_at: string;
+  trigger: BackupTrigger;
+  format: 'sql' | 'json';
+  schema_version: number;
+  file: string;
+  checksum: string;
+  size_bytes: number;
+  tables: { name: string; rows: number }[];
+}
+
+export interface BackupRun {
+  id: string;
+  backup_id?: string;
+  trigger: BackupTrigger;
+  status: 'running' | 'completed' | 'failed';
+  format: 'sql' | 'json';
+  started_at: Date;
+  completed_at?: Date;
+  size_bytes?: number;
+  tables?: { name: string; rows: number }[];
+  error?: string;
+  pruned_at?: Date;
+}
+
+export interface BackupStatus {
+  schedule: string;
+  enabled: boolean;
+  running: boolean;
+  retention: { daily: number; weekly: number };
+  backup_directory: string;
+  last_run?: BackupRun;
+  last_success?: BackupRun;
+}
+
+export interface RestoreSummary {
+  backup_id: string;
+  dry_run: boolean;
+  mode: 'append' | 'replace';
+  tables: { name: string; rows_in_backup: number; rows_deleted: number; rows_restored: number }[];
+}
+
+export interface NamespaceStats {
+  namespace: string;
+  keys: number;
+  memory_bytes: number;
+}
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: string;
+  down?: string;
+  checksum: string;
+}
+
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  checksum: string;
+  applied_at: Date;
+}
+
+export interface MigrationStatus {
+  current_version: number;
+  latest_version: number;
+  applied: { version: number; name: string; applied_at: Date; checksum_mismatch: boolean }[];
+  pending: { version: number; name: string }[];
+  unknown: { version: number; name: string }[];
+}
+
 export interface CacheStats {
   total_keys: number;
   memory_usage: string;
   hit_rate: number;
   expired_keys: number;
+  namespaces?: NamespaceStats[];
+  namespace_keys_scanned?: number;
+  namespace_scan_complete?: boolean;
+}
+
+export interface CacheKeyPage {
+  cursor: string;
+  done: boolean;
+  keys: { key: string; ttl: number }[];
+}
+
+export interface TieredCacheStats {
+  mode: 'tiered' | 'degraded' | 'postgres';
+  redis: { hits: number; misses: number; errors: number };
+  postgres: { hits: number; misses: number };
+  redis_hit_rate: number;
+}
+
+export interface RetryOptions {
+  attempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number;
+  resetTimeoutMs: number;
+}
+
+export interface CircuitStatus {
+  state: 'closed' | 'open' | 'half_open';
+  consecutive_failures: number;
+  last_failure_at?: string;
+  last_error?: string;
+  retry_at?: string;
+}
+
+export interface PoolStatus {
+  max: number;
+  total: number;
+  idle: number;
+  waiting: number;
+  saturation: number;
+}
+
+export interface BackendHealth {
+  status: 'up' | 'down';
+  latency_ms?: number;
+  error?: string;
+  // Embedded backends have no circuit breaker
+  circuit?: CircuitStatus;
+}
+
+export interface StorageHealth extends BackendHealth {
+  backend: DatabaseConfig['STORAGE_BACKEND'];
+  pool?: PoolStatus;
+}
+
+export interface CacheHealth extends BackendHealth {
+  backend: DatabaseConfig['CACHE_BACKEND'];
+  connected: boolean;
+}
+
+export interface HealthReport {
+  status: 'healthy' | 'degraded' | 'unhealthy';
+  checked_at: string;
+  cache_mode: TieredCacheStats['mode'];
+  // Named after the production backends, as in TieredCacheStats, whichever backends are configured
+  postgres: StorageHealth;
+  redis: CacheHealth;
 }
 
 export interface DatabaseStats {
@@ -67,4 +516,216 @@ export interface DatabaseStats {
   total_records: number;
   database_size: string;
   active_connections: number;
-}
\ No newline at end of file
+}
+
+export interface BulkItemResult {
+  key: string;
+  ok: boolean;
+  version?: number;
+  deleted?: boolean;
+  error?: string;
+}
+
+export interface BulkWriteResult {
+  atomic: boolean;
+  committed: boolean;
+  total: number;
+  succeeded: number;
+  failed: number;
+  results: BulkItemResult[];
+}
+
+export interface BulkReadResult {
+  total: number;
+  found: number;
+  missing: string[];
+  results: { key: string; found: boolean; data?: any }[];
+}
+
+export type VersionOperation = 'store' | 'delete' | 'revert';
+
+export interface WriteAttribution {
+  author?: string;
+  jobId?: string;
+  revertedFrom?: number;
+}
+
+export interface DataVersion {
+  version: number;
+  operation: VersionOperation;
+  data?: any;
+  expires_at?: Date;
+  author?: string;
+  job_id?: string;
+  reverted_from?: number;
+  created_at: Date;
+}
+
+export interface DataHistory {
+  table: string;
+  key: string;
+  versions: DataVersion[];
+  total: number;
+  limit: number;
+  offset: number;
+  has_more: boolean;
+}
+
+export interface ColumnInfo {
+  name: string;
+  type: string;
+  nullable: boolean;
+  default?: string;
+  max_length?: number;
+  primary_key: boolean;
+}
+
+export interface IndexInfo {
+  name: string;
+  columns: string[];
+  unique: boolean;
+  primary: boolean;
+  definition: string;
+  size_bytes: number;
+}
+
+export interface TableInfo {
+  name: string;
+  schema: string;
+  table: string;
+  key_value: boolean;
+  versioned: boolean;
+  columns: ColumnInfo[];
+  indexes: IndexInfo[];
+  row_estimate: number;
+  dead_rows: number;
+  size_bytes: number;
+  table_bytes: number;
+  index_bytes: number;
+  size: string;
+  seq_scans: number;
+  index_scans: number;
+  last_vacuum?: Date;
+  last_analyze?: Date;
+}
+
+export interface TableSample {
+  name: string;
+  columns: string[];
+  rows: Record<string, any>[];
+  row_count: number;
+  row_estimate: number;
+}
+
+export interface AnalysisJob {
+  id: string;
+  problem_description: string;
+  status: JobStatus;
+  created_at: Date;
+  updated_at: Date;
+  completed_at?: Date;
+  user_id?: string;
+  metadata?: Record<string, any>;
+}
+
+export interface AnalysisResult {
+  id: string;
+  job_id: string;
+  analysis_type: string;
+  results: any;
+  insights?: string[];
+  confidence_score?: number;
+  created_at: Date;
+}
+
+export interface Report {
+  id: string;
+  job_id: string;
+  report_type: string;
+  file_path: string;
+  file_size?: number;
+  created_at: Date;
+  email_sent: boolean;
+  email_sent_at?: Date;
+}
+
+export interface JobDetails extends AnalysisJob {
+  results: AnalysisResult[];
+  reports: Report[];
+}
+
+export interface RetentionPolicy {
+  table: string;
+  max_age_days?: number;
+  max_rows?: number;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface RetentionRunResult {
+  table: string;
+  dry_run: boolean;
+  /**
+   * Rows deleted (or that would be deleted) per table, including dependent rows
+   */
+  deleted: Record<string, number>;
+  error?: string;
+}
+
+export interface UserPurgeResult {
+  user_id: string;
+  dry_run: boolean;
+  deleted: Record<string, number>;
+  job_ids: string[];
+  /**
+   * Report files of the purged jobs, removed from disk unless this is a dry run
+   */
+  report_files: string[];
+  /**
+   * Report files that could not be removed; files already gone are not listed
+   */
+  report_file_errors?: string[];
+  purge_log_id?: string;
+}
+
+export type PurgeType = 'user' | 'retention';
+
+export interface PurgeLogEntry {
+  id: string;
+  purge_type: PurgeType;
+  /**
+   * Table name for retention purges; SHA-256 of the user ID for user purges
+   */
+  target: string;
+  requested_by?: string;
+  reason?: string;
+  deleted: Record<string, number>;
+  created_at: Date;
+}
+
+export interface DataChange {
+  /**
+   * Key/value table name, or "analysis_jobs"
+   */
+  table: string;
+  /**
+   * Key, or job ID for analysis_jobs
+   */
+  key: string;
+  operation: 'store' | 'delete';
+  status?: JobStatus;
+  previous_status?: JobStatus;
+}
+
+export interface Subscription {
+  id: string;
+  table: string;
+  key_prefix?: string;
+  /**
+   * Exact key, for subscriptions made with resources/subscribe
+   */
+  key?: string;
+  uri?: string;
+  created_at: string;
+  notifications_sent: number;
+}
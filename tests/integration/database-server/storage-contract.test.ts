@@ -0,0 +1,289 @@
+import { randomUUID } from 'crypto';
+import { existsSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Client } from 'pg';
+import { BackupManager } from '../../../mcp-servers/database-server/src/backup-manager.js';
+import { JobManager } from '../../../mcp-servers/database-server/src/job-manager.js';
+import { MemoryCache } from '../../../mcp-servers/database-server/src/memory-cache.js';
+import { MigrationRunner } from '../../../mcp-servers/database-server/src/migration-runner.js';
+import { PostgresClient } from '../../../mcp-servers/database-server/src/postgres-client.js';
+import { QueryResultCache } from '../../../mcp-servers/database-server/src/query-cache.js';
+import { RetentionManager } from '../../../mcp-servers/database-server/src/retention-manager.js';
+import { SchemaInspector } from '../../../mcp-servers/database-server/src/schema-inspector.js';
+import { SqliteStorage } from '../../../mcp-servers/database-server/src/sqlite-storage.js';
+import { StorageBackend } from '../../../mcp-servers/database-server/src/storage-backend.js';
+import { TieredStore } from '../../../mcp-servers/database-server/src/tiered-store.js';
+import { QueryDataSchema } from '../../../mcp-servers/database-server/src/types.js';
+
+const MIGRATIONS_DIR = join(__dirname, '..', '..', '..', 'database', 'migrations');
+
+interface Backend {
+  name: string;
+  migrationsDir: string;
+  create(): Promise<StorageBackend>;
+}
+
+/**
+ * Drop everything the migrations and the server created, so each test starts
+ * from an empty database
+ */
+async function resetPostgres(connectionString: string): Promise<void> {
+  const client = new Client({ connectionString });
+  await client.connect();
+  try {
+    await client.query('DROP SCHEMA IF EXISTS kv CASCADE');
+    await client.query('DROP SCHEMA public CASCADE');
+    await client.query('CREATE SCHEMA public');
+  } finally {
+    await client.end();
+  }
+}
+
+const backends: Backend[] = [
+  {
+    name: 'SqliteStorage',
+    migrationsDir: join(MIGRATIONS_DIR, 'sqlite'),
+    create: async () => new SqliteStorage(':memory:')
+  }
+];
+
+// PostgreSQL runs only when a disposable database is given; every test empties it
+const postgresUrl = process.env.TEST_DATABASE_URL;
+if (postgresUrl) {
+  backends.push({
+    name: 'PostgresClient',
+    migrationsDir: MIGRATIONS_DIR,
+    create: async () => {
+      await resetPostgres(postgresUrl);
+      return new PostgresClient(postgresUrl, 2);
+    }
+  });
+}
+
+describe.each(backends)('StorageBackend contract: $name', ({ migrationsDir, create }) => {
+  let directory: string;
+  let storage: StorageBackend;
+  let cache: MemoryCache;
+  let store: TieredStore;
+  let migrations: MigrationRunner;
+  let jobs: JobManager;
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    directory = mkdtempSync(join(tmpdir(), 'storage-contract-'));
+    storage = await create();
+    cache = new MemoryCache();
+    await storage.connect();
+    await cache.connect();
+    migrations = new MigrationRunner(storage, migrationsDir);
+    await migrations.migrate();
+    await storage.initializeTables();
+    store = new TieredStore(storage, cache, true, 3600);
+    jobs = new JobManager(storage);
+  });
+
+  afterEach(async () => {
+    await cache.close();
+    await storage.close();
+    rmSync(directory, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  test('applies and rolls back the migrations', async () => {
+    const latest = (await migrations.status()).latest_version;
+    expect(latest).toBeGreaterThan(0);
+    await migrations.assertUpToDate();
+
+    await migrations.rollback(latest);
+    expect(await migrations.currentVersion()).toBe(0);
+    await expect(jobs.createJob('After rollback')).rejects.toThrow(/no such table|does not exist/);
+
+    await migrations.migrate();
+    expect(await migrations.currentVersion()).toBe(latest);
+  });
+
+  test('runs a job through its lifecycle with results and reports', async () => {
+    const job = await jobs.createJob('Why did revenue drop?', 'user-1', { source: 'test' });
+    await jobs.updateStatus(job.id, 'running', undefined, { step: 1 });
+    await expect(jobs.updateStatus(job.id, 'pending')).rejects.toThrow(/Invalid status transition/);
+
+    await jobs.appendResult(job.id, 'trend', { change: -0.15 }, ['Revenue fell'], 0.876);
+    await jobs.registerReport(job.id, 'pdf', '/reports/q2.pdf', 1024, true);
+    const completed = await jobs.updateStatus(job.id, 'completed');
+    expect(completed).toMatchObject({ status: 'completed', metadata: { source: 'test', step: 1 } });
+    expect(completed.completed_at).toBeInstanceOf(Date);
+    await expect(jobs.appendResult(job.id, 'trend', {})).rejects.toThrow(/in status completed/);
+
+    expect(await jobs.getJob(job.id, true)).toMatchObject({
+      results: [{ analysis_type: 'trend', results: { change: -0.15 }, insights: ['Revenue fell'], confidence_score: 0.88 }],
+      reports: [{ report_type: 'pdf', file_size: 1024, email_sent: true }]
+    });
+    expect(await jobs.listJobs({ status: 'completed', userId: 'user-1', limit: 10, offset: 0 })).toMatchObject({ total: 1 });
+    expect(await jobs.getJob('00000000-0000-0000-0000-000000000000')).toBeNull();
+  });
+
+  test('tells watchers about committed changes', async () => {
+    const changes: string[] = [];
+    const unwatch = await storage.watchChanges(change => changes.push(`${change.table}:${change.operation}:${change.status ?? change.key}`));
+
+    const job = await jobs.createJob('Watched');
+    await jobs.updateStatus(job.id, 'running');
+    await storage.storeData('report:1', { revenue: 100 }, 'cache_data');
+    await storage.deleteData('report:1', 'cache_data');
+
+    // PostgreSQL delivers notifications asynchronously
+    for (let attempt = 0; changes.length < 4 && attempt < 50; attempt++) {
+      await new Promise(resolve => setTimeout(resolve, 20));
+    }
+    await unwatch();
+    expect(changes).toEqual([
+      'analysis_jobs:store:pending',
+      'analysis_jobs:store:running',
+      'cache_data:store:report:1',
+      'cache_data:delete:report:1'
+    ]);
+  });
+
+  test('stores and looks up cached query results until they expire', async () => {
+    const queryCache = new QueryResultCache(storage, 1024, 3600);
+
+    await queryCache.store('SELECT 1', [{ value: 1 }], { database: 'sales' });
+    expect(await queryCache.lookup('SELECT  1', { database: 'sales' })).toMatchObject({ results: [{ value: 1 }] });
+    expect(await queryCache.lookup('SELECT 1', { database: 'other' })).toBeNull();
+
+    await queryCache.store('SELECT 2', [], { ttl: -1 });
+    expect(await queryCache.lookup('SELECT 2', {})).toBeNull();
+  });
+
+  test('executes read-only SQL with parameters and a row cap', async () => {
+    await jobs.createJob('First');
+    await jobs.createJob('Second');
+
+    const result = await storage.executeReadOnly(
+      'SELECT problem_description FROM analysis_jobs WHERE status = $1 ORDER BY problem_description',
+      ['pending'],
+      { maxRows: 1, timeoutMs: 1000 }
+    );
+    expect(result).toMatchObject({ RowCount: 1, Truncated: true });
+    expect(result.ResultSet.Rows).toEqual([
+      { Data: [{ VarCharValue: 'problem_description' }] },
+      { Data: [{ VarCharValue: 'First' }] }
+    ]);
+
+    await expect(storage.executeReadOnly('DELETE FROM analysis_jobs', [], { maxRows: 1, timeoutMs: 1000 })).rejects.toThrow();
+  });
+
+  test('queries stored data by filter and orders by a data path', async () => {
+    for (const [key, revenue] of [['report:a', 300], ['report:b', 100], ['report:c', 200], ['other', 500]] as const) {
+      await storage.storeData(key, { metrics: { revenue } }, 'cache_data');
+    }
+
+    const result = await storage.queryData(QueryDataSchema.parse({
+      keyPrefix: 'report:',
+      filters: [{ path: 'metrics.revenue', op: 'gte', value: 150 }],
+      orderBy: 'data.metrics.revenue',
+      order: 'asc'
+    }));
+
+    expect(result.total).toBe(2);
+    expect(result.rows.map(row => row.key)).toEqual(['report:c', 'report:a']);
+  });
+
+  test('keeps the version history of versioned tables', async () => {
+    const jobId = randomUUID();
+    await storage.createTable('docs', true);
+    await storage.storeData('readme', { text: 'v1' }, 'docs', undefined, { jobId });
+    await storage.storeData('readme', { text: 'v2' }, 'docs');
+    await storage.deleteData('readme', 'docs');
+
+    const history = await storage.getHistory('readme', 'docs', { limit: 10, offset: 0, includeData: true });
+    expect(history.versions.map(version => [version.version, version.operation])).toEqual([[3, 'delete'], [2, 'store'], [1, 'store']]);
+    expect(await storage.retrieveVersion('readme', 'docs', { version: 1 })).toMatchObject({ data: { text: 'v1' }, job_id: jobId });
+    expect(await storage.retrieveData('readme', 'docs')).toBeNull();
+  });
+
+  test('finds versions as of a timestamp, and nothing once the key was deleted', async () => {
+    const tick = () => new Promise(resolve => setTimeout(resolve, 5));
+    await storage.createTable('docs', true);
+    await store.store('readme', { text: 'v1' }, 'docs');
+    await tick();
+    const beforeDelete = new Date().toISOString();
+    await tick();
+    await store.delete('readme', 'docs');
+    await tick();
+
+    expect(await storage.retrieveVersion('readme', 'docs', { asOf: beforeDelete })).toMatchObject({ version: 1, data: { text: 'v1' } });
+    expect(await storage.retrieveVersion('readme', 'docs', { asOf: new Date().toISOString() })).toBeNull();
+    expect(await storage.retrieveVersion('readme', 'docs', { version: 2 })).toMatchObject({ operation: 'delete' });
+  });
+
+  test('backs up and restores tables', async () => {
+    const backups = new BackupManager(storage, migrations, directory);
+    const job = await jobs.createJob('Backed up', 'user-1');
+    await store.store('report:1', { revenue: 100 }, 'cache_data');
+
+    for (const format of ['sql', 'json'] as const) {
+      const manifest = await backups.backup(['analysis_jobs', 'kv.cache_data'], format);
+      expect(manifest.tables).toEqual([{ name: 'analysis_jobs', rows: 1 }, { name: 'kv.cache_data', rows: 1 }]);
+
+      const summary = await backups.restore(manifest.id, { mode: 'replace', dryRun: false });
+      expect(summary.tables.map(table => table.rows_restored)).toEqual([1, 1]);
+      expect(await jobs.getJob(job.id)).toMatchObject({ problem_description: 'Backed up', user_id: 'user-1' });
+      expect(await storage.retrieveData('report:1', 'cache_data')).toEqual({ revenue: 100 });
+    }
+  });
+
+  test('applies retention policies and purges user data', async () => {
+    const retention = new RetentionManager(storage, store, '30 3 * * *', 'purge-log-test-secret');
+    for (const key of ['a', 'b', 'c']) {
+      await store.store(key, { key }, 'cache_data');
+      await new Promise(resolve => setTimeout(resolve, 5));
+    }
+    await retention.setPolicy('kv.cache_data', null, 1);
+
+    expect(await retention.applyRetention('kv.cache_data', true)).toEqual([{ table: 'kv.cache_data', dry_run: true, deleted: { 'kv.cache_data': 2 } }]);
+    await retention.applyRetention('kv.cache_data');
+    expect(await storage.retrieveData('c', 'cache_data')).toEqual({ key: 'c' });
+    expect(await storage.retrieveData('a', 'cache_data')).toBeNull();
+
+    const job = await jobs.createJob('Personal', 'user-1');
+    const report = join(directory, 'personal.pdf');
+    writeFileSync(report, 'report');
+    await jobs.registerReport(job.id, 'pdf', report);
+    await storage.createTable('docs', true);
+    await storage.storeData('summary', { text: 'personal' }, 'docs', undefined, { jobId: job.id });
+
+    const purge = await retention.purgeUserData('user-1', { reason: 'erasure request', dryRun: false });
+    expect(purge).toMatchObject({
+      job_ids: [job.id],
+      report_files: [report],
+      deleted: { analysis_jobs: 1, reports: 1, data_versions: 1, report_files: 1 }
+    });
+    expect(await jobs.getJob(job.id)).toBeNull();
+    expect(existsSync(report)).toBe(false);
+    expect((await storage.getHistory('summary', 'docs', { limit: 10, offset: 0, includeData: false })).versions).toEqual([]);
+
+    const log = await retention.getPurgeLog({ userId: 'user-1', limit: 10, offset: 0 });
+    expect(log.entries).toMatchObject([{ purge_type: 'user', reason: 'erasure request', deleted: { analysis_jobs: 1 } }]);
+    expect(log.entries[0].target).not.toContain('user-1');
+
+    const withoutSecret = new RetentionManager(storage, store, '30 3 * * *');
+    await expect(withoutSecret.purgeUserData('user-1', { dryRun: true })).rejects.toThrow(/PURGE_LOG_SECRET/);
+  });
+
+  test('describes and samples tables', async () => {
+    const inspector = new SchemaInspector(storage);
+    await jobs.createJob('Sampled');
+
+    const tables = (await inspector.listTables()).map(table => table.name);
+    expect(tables).toEqual(expect.arrayContaining(['analysis_jobs', 'kv.cache_data']));
+    expect(tables).not.toContain('schema_migrations');
+
+    const description = await inspector.describeTable('analysis_jobs');
+    expect(description.columns.find(column => column.name === 'id')).toMatchObject({ primary_key: true });
+
+    const sample = await inspector.sampleTable('analysis_jobs');
+    expect(sample.rows).toEqual([expect.objectContaining({ problem_description: 'Sampled' })]);
+  });
+});
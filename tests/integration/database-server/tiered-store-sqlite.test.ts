@@ -0,0 +1,72 @@
+import { MemoryCache } from '../../../mcp-servers/database-server/src/memory-cache.js';
+import { SqliteStorage } from '../../../mcp-servers/database-server/src/sqlite-storage.js';
+import { TieredStore } from '../../../mcp-servers/database-server/src/tiered-store.js';
+
+describe('TieredStore over SqliteStorage and MemoryCache', () => {
+  let storage: SqliteStorage;
+  let cache: MemoryCache;
+  let store: TieredStore;
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    storage = new SqliteStorage(':memory:');
+    cache = new MemoryCache();
+    await storage.connect();
+    await storage.initializeTables();
+    await cache.connect();
+    store = new TieredStore(storage, cache, true, 3600);
+  });
+
+  afterEach(async () => {
+    await cache.close();
+    await storage.close();
+    jest.restoreAllMocks();
+  });
+
+  test('reads back stored data from the cache, then from storage once evicted', async () => {
+    await store.store('user:1', { name: 'Ada' }, 'cache_data');
+    expect(await store.retrieve('user:1', 'cache_data')).toEqual({ name: 'Ada' });
+    expect(store.getStats().redis.hits).toBe(1);
+
+    await cache.delete('tbl:cache_data:user:1');
+    expect(await store.retrieve('user:1', 'cache_data')).toEqual({ name: 'Ada' });
+    expect(store.getStats()).toMatchObject({ mode: 'tiered', redis: { misses: 1 }, postgres: { hits: 1 } });
+  });
+
+  test('serves a stored null from the cache', async () => {
+    await store.store('flag', null, 'cache_data');
+    expect(await store.retrieve('flag', 'cache_data')).toBeNull();
+    expect(store.getStats()).toMatchObject({ redis: { hits: 1, misses: 0 }, postgres: { hits: 0, misses: 0 } });
+
+    await cache.delete('tbl:cache_data:flag');
+    expect(await store.retrieve('flag', 'cache_data')).toBeNull();
+    expect(await store.retrieve('flag', 'cache_data')).toBeNull();
+    expect(store.getStats()).toMatchObject({ redis: { hits: 2, misses: 1 }, postgres: { hits: 1 } });
+    expect((await store.retrieveMany(['flag'], 'cache_data')).results).toEqual([{ key: 'flag', found: true, data: null }]);
+  });
+
+  test('drops the cached copy on delete', async () => {
+    await store.store('user:1', { name: 'Ada' }, 'cache_data');
+    expect(await store.delete('user:1', 'cache_data')).toBe(true);
+    expect(await store.retrieve('user:1', 'cache_data')).toBeNull();
+    expect(await store.delete('user:1', 'cache_data')).toBe(false);
+  });
+
+  test('writes and reads many keys', async () => {
+    const written = await store.storeMany(
+      [{ key: 'a', data: { n: 1 } }, { key: 'b', data: { n: 2 } }],
+      'cache_data',
+      { atomic: true }
+    );
+    expect(written).toMatchObject({ committed: true, succeeded: 2, failed: 0 });
+
+    await cache.delete('tbl:cache_data:b');
+    const read = await store.retrieveMany(['a', 'b', 'c'], 'cache_data');
+    expect(read).toMatchObject({ total: 3, found: 2, missing: ['c'] });
+    expect(read.results.map(result => result.data)).toEqual([{ n: 1 }, { n: 2 }, undefined]);
+
+    const deleted = await store.deleteMany(['a', 'c'], 'cache_data', { atomic: false });
+    expect(deleted.results.map(result => result.deleted)).toEqual([true, false]);
+    expect(await store.retrieve('a', 'cache_data')).toBeNull();
+  });
+});
@@ -0,0 +1,177 @@
+import { AthenaClientWrapper } from '../../../mcp-servers/athena-server/src/athena-client.js';
+import { BudgetManager } from '../../../mcp-servers/athena-server/src/budget-manager.js';
+import { QueryCostEstimate, QueryExecution, QueryState } from '../../../mcp-servers/athena-server/src/types.js';
+
+const TB = 1024 ** 4;
+
+function estimate(high: number, overrides: Partial<QueryCostEstimate> = {}): QueryCostEstimate {
+  return {
+    estimatedDataScanned: 0,
+    estimatedCost: high / 2,
+    estimatedExecutionTime: 1,
+    dataScannedRange: { low: 0, high: 0 },
+    costRange: { low: high / 4, high },
+    confidence: 'medium',
+    basis: 'metadata',
+    tables: [],
+    unsizedTables: [],
+    assumptions: [],
+    ...overrides
+  };
+}
+
+function stubClient(options: { statuses?: Record<string, QueryExecution>; history?: QueryExecution[] } = {}) {
+  return {
+    getQueryStatus: jest.fn(async (queryExecutionId: string) => {
+      return options.statuses?.[queryExecutionId] || { QueryExecutionId: queryExecutionId, Query: '', Status: { State: 'RUNNING' } };
+    }),
+    listRecentQueryExecutions: jest.fn(async () => options.history || [])
+  };
+}
+
+function budgets(client: ReturnType<typeof stubClient>, options: Partial<ConstructorParameters<typeof BudgetManager>[1]> = {}) {
+  return new BudgetManager(client as unknown as AthenaClientWrapper, {
+    defaultWorkgroup: 'primary',
+    pricePerTB: 5,
+    sessionBudget: 0,
+    workgroupBudgets: {},
+    approvalThreshold: 1,
+    maxQueryCost: 0,
+    ...options
+  });
+}
+
+function finished(queryExecutionId: string, state: QueryState, scannedBytes: number): QueryExecution {
+  return {
+    QueryExecutionId: queryExecutionId,
+    Query: '',
+    Status: { State: state, SubmissionDateTime: new Date() },
+    Statistics: { DataScannedInBytes: scannedBytes }
+  };
+}
+
+describe('BudgetManager', () => {
+  test('rejects a query over the maximum query cost', async () => {
+    const manager = budgets(stubClient(), { maxQueryCost: 2 });
+    await expect(manager.authorize('SELECT 1', {}, estimate(3))).rejects.toThrow('exceeds the maximum of $2 per query');
+  });
+
+  test('rejects a query over what is left of the session budget, counting pending queries', async () => {
+    const manager = budgets(stubClient(), { sessionBudget: 5 });
+    manager.track('q-1', undefined, estimate(0.8));
+    manager.track('q-2', undefined, estimate(0.8));
+
+    await expect(manager.authorize('SELECT 1', {}, estimate(3.5))).rejects.toThrow('exceeds the $3.4 left in the session budget of $5');
+    await expect(manager.authorize('SELECT 1', {}, estimate(0.5))).resolves.toMatchObject({ status: 'approved' });
+  });
+
+  test("rejects a query over what is left of its workgroup's budget for the day", async () => {
+    const client = stubClient({ history: [finished('earlier', 'SUCCEEDED', TB), finished('failed', 'FAILED', TB)] });
+    const manager = budgets(client, { workgroupBudgets: { analytics: 6 } });
+
+    await expect(manager.authorize('SELECT 1', { workgroup: 'analytics' }, estimate(1.5)))
+      .rejects.toThrow("exceeds the $1 left in today's budget of $6 for workgroup analytics");
+    await expect(manager.authorize('SELECT 1', { workgroup: 'primary' }, estimate(0.5))).resolves.toMatchObject({ status: 'approved' });
+  });
+
+  test('requires an approval token above the threshold and for estimates that are guesses', async () => {
+    const manager = budgets(stubClient());
+
+    await expect(manager.authorize('SELECT 1', {}, estimate(0.5))).resolves.toEqual({ status: 'approved', checkedCost: 0.5 });
+    await expect(manager.authorize('SELECT 1', {}, estimate(2))).resolves.toMatchObject({
+      status: 'approval_required',
+      reason: 'Estimated cost up to $2 is above the approval threshold of $1'
+    });
+    await expect(manager.authorize('SELECT 1', {}, estimate(0.5, { basis: 'default' }))).resolves.toMatchObject({ status: 'approval_required' });
+    await expect(manager.authorize('SELECT 1', {}, estimate(0.5, { unsizedTables: ['sales.raw'] }))).resolves.toMatchObject({
+      status: 'approval_required',
+      reason: 'The size of sales.raw is unknown, so the estimate of up to $0.5 may be far too low'
+    });
+  });
+
+  test('only accepts an approval token for the exact query it was issued for', async () => {
+    const manager = budgets(stubClient());
+    const { approvalToken } = await manager.authorize('SELECT * FROM orders', { database: 'sales' }, estimate(2));
+
+    await expect(manager.authorize('SELECT * FROM orders', { database: 'other', approve: approvalToken }, estimate(2)))
+      .rejects.toThrow('Invalid or expired approval token');
+    // A mismatched attempt uses the token up
+    await expect(manager.authorize('SELECT * FROM orders', { database: 'sales', approve: approvalToken }, estimate(2)))
+      .rejects.toThrow('Invalid or expired approval token');
+  });
+
+  test('uses an approval token up once the query is submitted', async () => {
+    const manager = budgets(stubClient());
+    const { approvalToken } = await manager.authorize('SELECT * FROM orders', {}, estimate(2));
+
+    // Until the query is tracked, a failed submission can be retried with the same token
+    const first = await manager.authorize('SELECT * FROM orders', { approve: approvalToken }, estimate(2));
+    expect(first).toMatchObject({ status: 'approved', approvalToken });
+    const retry = await manager.authorize(' SELECT * FROM orders ', { approve: approvalToken }, estimate(2));
+    expect(retry.status).toBe('approved');
+
+    manager.track('q-1', undefined, estimate(2), retry.approvalToken);
+    await expect(manager.authorize('SELECT * FROM orders', { approve: approvalToken }, estimate(2)))
+      .rejects.toThrow('approval tokens are single-use');
+  });
+
+  test('rejects an expired approval token', async () => {
+    jest.useFakeTimers();
+    try {
+      const manager = budgets(stubClient());
+      const { approvalToken } = await manager.authorize('SELECT 1', {}, estimate(2));
+      jest.advanceTimersByTime(10 * 60 * 1000 + 1);
+      await expect(manager.authorize('SELECT 1', { approve: approvalToken }, estimate(2))).rejects.toThrow('Invalid or expired');
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  test('replaces reservations with what finished queries scanned', async () => {
+    const statuses: Record<string, QueryExecution> = {};
+    const client = stubClient({ statuses });
+    const manager = budgets(client, { sessionBudget: 10 });
+    manager.track('done', undefined, estimate(3));
+    manager.track('failed', undefined, estimate(3));
+    manager.track('running', undefined, estimate(3));
+    statuses.done = finished('done', 'SUCCEEDED', TB / 4);
+    statuses.failed = finished('failed', 'FAILED', TB);
+
+    const status = await manager.getStatus();
+    expect(status.session).toMatchObject({ queries: 2, dataScannedBytes: 1.25 * TB, cost: 1.25, pendingQueries: 1, pendingCost: 3, remaining: 5.75 });
+    expect(client.getQueryStatus).toHaveBeenCalledTimes(3);
+
+    statuses.running = finished('running', 'CANCELLED', 0);
+    expect((await manager.getStatus()).session).toMatchObject({ queries: 3, cost: 1.25, pendingQueries: 0, remaining: 8.75 });
+    expect(client.getQueryStatus).toHaveBeenCalledTimes(4);
+  });
+
+  test('checks pending queries in parallel and keeps those it could not check', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const client = stubClient();
+    client.getQueryStatus.mockImplementation(async (queryExecutionId: string) => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise(resolve => setImmediate(resolve));
+      inFlight--;
+      if (queryExecutionId === 'unknown') {
+        throw new Error('Throttled');
+      }
+      return finished(queryExecutionId, 'SUCCEEDED', 0);
+    });
+    const manager = budgets(client);
+    for (const id of ['a', 'b', 'c', 'unknown']) {
+      manager.track(id, undefined, estimate(1));
+    }
+
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    try {
+      const status = await manager.getStatus();
+      expect(maxInFlight).toBe(4);
+      expect(status.session).toMatchObject({ queries: 3, pendingQueries: 1 });
+    } finally {
+      jest.restoreAllMocks();
+    }
+  });
+});
@@ -0,0 +1,170 @@
+import { AthenaClientWrapper } from '../../../mcp-servers/athena-server/src/athena-client.js';
+import { CostEstimator } from '../../../mcp-servers/athena-server/src/cost-estimator.js';
+import { QueryExecution, TableMetadata } from '../../../mcp-servers/athena-server/src/types.js';
+
+const GB = 1024 ** 3;
+
+const tables: Record<string, TableMetadata> = {
+  'sales.orders': {
+    Name: 'orders',
+    Columns: [
+      { Name: 'id', Type: 'bigint' },
+      { Name: 'amount', Type: 'double' },
+      { Name: 'note', Type: 'string' }
+    ],
+    PartitionKeys: [{ Name: 'dt', Type: 'string' }],
+    Parameters: {
+      classification: 'parquet',
+      totalSize: String(96 * GB),
+      'projection.dt.type': 'enum',
+      'projection.dt.values': 'a,b,c,d'
+    }
+  },
+  'sales.raw': {
+    Name: 'raw',
+    Columns: [{ Name: 'line', Type: 'string' }],
+    PartitionKeys: [],
+    Parameters: { classification: 'csv' }
+  }
+};
+
+function execution(query: string, scannedBytes: number, database: string = 'sales'): QueryExecution {
+  return {
+    QueryExecutionId: `q-${Math.random()}`,
+    Query: query,
+    Status: { State: 'SUCCEEDED' },
+    Statistics: { DataScannedInBytes: scannedBytes, EngineExecutionTimeInMillis: 4000 },
+    QueryExecutionContext: { Database: database }
+  };
+}
+
+function stubClient(options: { history?: QueryExecution[] | Error; explainBytes?: number | string } = {}) {
+  return {
+    describeTable: jest.fn(async (database: string, table: string) => {
+      const metadata = tables[`${database}.${table}`];
+      if (!metadata) {
+        throw new Error('Table not found');
+      }
+      return metadata;
+    }),
+    listRecentQueryExecutions: jest.fn(async () => {
+      if (options.history instanceof Error) {
+        throw options.history;
+      }
+      return options.history || [];
+    }),
+    executeQuery: jest.fn(async () => 'explain-1'),
+    waitForQueryCompletion: jest.fn(async () => ({ QueryExecutionId: 'explain-1', Query: '', Status: { State: 'SUCCEEDED' } })),
+    getQueryResults: jest.fn(async () => ({
+      ResultSet: {
+        Rows: [{ Data: [{ VarCharValue: `{"inputTableColumnInfos":[{"estimate":{"outputSizeInBytes":${options.explainBytes}}}]}` }] }]
+      }
+    }))
+  };
+}
+
+function estimator(client: ReturnType<typeof stubClient>): CostEstimator {
+  return new CostEstimator(client as unknown as AthenaClientWrapper, 5);
+}
+
+describe('CostEstimator', () => {
+  test('estimates from table statistics, narrowed by the columns and partitions read', async () => {
+    const client = stubClient();
+    const estimate = await estimator(client).estimate("SELECT amount FROM orders WHERE dt = 'a'", { database: 'sales' });
+
+    expect(estimate).toMatchObject({ basis: 'metadata', confidence: 'medium', unsizedTables: [] });
+    expect(estimate.tables[0]).toMatchObject({ columnsRead: ['amount'], partitionFilters: ['dt'], partitionFraction: 0.25 });
+    // amount is 8 of the 48 type-width units of a row, in 1 of 4 partitions
+    expect(estimate.estimatedDataScanned / GB).toBeCloseTo(4, 2);
+    expect(client.executeQuery).not.toHaveBeenCalled();
+
+    const ored = await estimator(client).estimate("SELECT amount FROM orders WHERE dt = 'a' OR amount > 0", { database: 'sales' });
+    expect(ored.tables[0]).toMatchObject({ partitionFilters: [], partitionFraction: 1 });
+  });
+
+  test('prefers earlier runs of the same query shape over table statistics', async () => {
+    const client = stubClient({
+      history: [
+        execution("SELECT amount FROM orders WHERE dt = 'b'", 1 * GB),
+        execution("SELECT amount FROM orders WHERE dt = 'c'", 2 * GB),
+        execution("SELECT amount FROM orders WHERE dt = 'd'", 3 * GB),
+        execution('SELECT note FROM orders', 50 * GB)
+      ]
+    });
+    const estimate = await estimator(client).estimate("SELECT amount FROM orders WHERE dt = 'a'", { database: 'sales' });
+
+    expect(estimate).toMatchObject({
+      basis: 'history',
+      confidence: 'high',
+      estimatedDataScanned: 2 * GB,
+      dataScannedRange: { low: 1 * GB, high: 3 * GB },
+      estimatedExecutionTime: 4,
+      similarQueries: { matched: 3, sameShape: true }
+    });
+  });
+
+  test('falls back to runs reading the same tables when a table has no statistics', async () => {
+    const client = stubClient({ history: [execution('SELECT count(*) FROM raw', 5 * GB), execution('SELECT 1', 1)] });
+    const estimate = await estimator(client).estimate('SELECT * FROM raw', { database: 'sales' });
+
+    expect(estimate).toMatchObject({
+      basis: 'history',
+      confidence: 'low',
+      estimatedDataScanned: 5 * GB,
+      unsizedTables: ['sales.raw'],
+      similarQueries: { matched: 1, sameShape: false }
+    });
+  });
+
+  test('uses EXPLAIN when requested and falls back when it has no estimate', async () => {
+    const withExplain = await estimator(stubClient({ explainBytes: 8 * GB }))
+      .estimate("SELECT amount FROM orders WHERE dt = 'a'", { database: 'sales', explain: true });
+    expect(withExplain).toMatchObject({ basis: 'explain', confidence: 'high', explainBytes: 8 * GB, estimatedDataScanned: 4 * GB });
+
+    const client = stubClient({ explainBytes: '"NaN"' });
+    const withoutEstimate = await estimator(client)
+      .estimate("SELECT amount FROM orders WHERE dt = 'a'", { database: 'sales', explain: true });
+    expect(client.executeQuery).toHaveBeenCalledWith(expect.stringMatching(/^EXPLAIN \(TYPE IO, FORMAT JSON\) SELECT/), 'sales', undefined);
+    expect(withoutEstimate.basis).toBe('metadata');
+    expect(withoutEstimate.assumptions).toContain('EXPLAIN (TYPE IO) had no size estimate for every table; it was not used');
+  });
+
+  test('assumes the default range without statistics, history or EXPLAIN', async () => {
+    const client = stubClient({ history: new Error('AccessDenied') });
+    const estimate = await estimator(client).estimate('SELECT * FROM raw', { database: 'sales' });
+
+    expect(estimate).toMatchObject({
+      basis: 'default',
+      confidence: 'low',
+      estimatedDataScanned: GB,
+      dataScannedRange: { low: 10 * 1024 * 1024, high: 100 * GB },
+      unsizedTables: ['sales.raw']
+    });
+    expect(estimate.assumptions).toContain('Query history unavailable: AccessDenied');
+  });
+
+  test('lists the tables it could not size and does not sum a partial estimate', async () => {
+    const client = stubClient();
+    const estimate = await estimator(client).estimate(
+      'SELECT * FROM orders JOIN missing ON orders.id = missing.id JOIN raw ON orders.id = raw.line',
+      { database: 'sales' }
+    );
+
+    expect(estimate.unsizedTables).toEqual(['sales.missing', 'sales.raw']);
+    expect(estimate.basis).toBe('default');
+    expect(estimate.assumptions).toContain('Could not describe sales.missing: Table not found');
+
+    const withoutDatabase = await estimator(client).estimate('SELECT * FROM orders');
+    expect(withoutDatabase.unsizedTables).toEqual(['orders']);
+  });
+
+  test('caches table metadata and the query history between estimates', async () => {
+    const client = stubClient();
+    const costs = estimator(client);
+    await costs.estimate('SELECT amount FROM orders', { database: 'sales' });
+    await costs.estimate('SELECT note FROM orders', { database: 'sales' });
+
+    expect(client.describeTable).toHaveBeenCalledTimes(1);
+    expect(client.listRecentQueryExecutions).toHaveBeenCalledTimes(1);
+  });
+});
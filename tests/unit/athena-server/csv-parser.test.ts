@@ -0,0 +1,35 @@
+import { Readable } from 'stream';
+import { parseCsv } from '../../../mcp-servers/athena-server/src/csv-parser.js';
+
+async function parse(chunks: string[]): Promise<(string | undefined)[][]> {
+  const rows: (string | undefined)[][] = [];
+  for await (const row of parseCsv(Readable.from(chunks.map(chunk => Buffer.from(chunk))))) {
+    rows.push(row);
+  }
+  return rows;
+}
+
+describe('parseCsv', () => {
+  test('parses quoted fields, escaped quotes and embedded separators', async () => {
+    expect(await parse(['"id","note"\n"1","a, ""b""\nc"\n'])).toEqual([
+      ['id', 'note'],
+      ['1', 'a, "b"\nc']
+    ]);
+  });
+
+  test('returns unquoted empty fields as undefined and quoted ones as empty strings', async () => {
+    expect(await parse(['"a",,""\n'])).toEqual([['a', undefined, '']]);
+  });
+
+  test('handles CRLF line endings, a missing final newline and quotes split across chunks', async () => {
+    expect(await parse(['"x","y"\r\n"1","say ""', 'hi"""', '\r\n"2","3"'])).toEqual([
+      ['x', 'y'],
+      ['1', 'say "hi"'],
+      ['2', '3']
+    ]);
+  });
+
+  test('yields nothing for an empty stream', async () => {
+    expect(await parse([])).toEqual([]);
+  });
+});
@@ -0,0 +1,137 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { QueryHistory } from '../../../mcp-servers/athena-server/src/query-history.js';
+import { QueryExecution, QueryState } from '../../../mcp-servers/athena-server/src/types.js';
+
+function execution(
+  queryExecutionId: string,
+  state: QueryState,
+  submittedAt: string,
+  options: { query?: string; database?: string; scannedBytes?: number } = {}
+): QueryExecution {
+  return {
+    QueryExecutionId: queryExecutionId,
+    Query: options.query || `SELECT '${queryExecutionId}'`,
+    Status: { State: state, SubmissionDateTime: new Date(submittedAt) },
+    Statistics: options.scannedBytes !== undefined ? { DataScannedInBytes: options.scannedBytes } : undefined,
+    QueryExecutionContext: { Database: options.database || 'sales' }
+  };
+}
+
+describe('QueryHistory', () => {
+  let directory: string;
+  let path: string;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    directory = mkdtempSync(join(tmpdir(), 'query-history-'));
+    path = join(directory, 'history', 'queries.jsonl');
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  function lines(): string[] {
+    return readFileSync(path, 'utf-8').split('\n').filter(Boolean);
+  }
+
+  test('loads the latest version of each entry and compacts the file', async () => {
+    const history = new QueryHistory(path, 100, 5);
+    await history.recordSubmission(execution('q-1', 'RUNNING', '2024-01-01T00:00:00Z'), { submitter: 'ana' });
+    await history.recordExecution(execution('q-1', 'SUCCEEDED', '2024-01-01T00:00:00Z', { scannedBytes: 1024 ** 4 }));
+    await history.recordSubmission(execution('q-2', 'QUEUED', '2024-01-01T00:01:00Z'), {});
+    writeFileSync(path, readFileSync(path, 'utf-8') + 'not json\n');
+    expect(lines()).toHaveLength(4);
+
+    const reloaded = new QueryHistory(path, 100, 5);
+    await reloaded.load();
+
+    expect(reloaded.get('q-1')).toMatchObject({ state: 'SUCCEEDED', submitter: 'ana', database: 'sales', dataScannedInBytes: 1024 ** 4, cost: 5 });
+    expect(reloaded.get('q-2')).toMatchObject({ state: 'QUEUED' });
+    expect(lines().map(line => JSON.parse(line).queryExecutionId)).toEqual(['q-1', 'q-2']);
+  });
+
+  test('compacts once superseded lines outnumber the live ones', async () => {
+    const history = new QueryHistory(path, 100, 5);
+    await history.recordSubmission(execution('q-1', 'RUNNING', '2024-01-01T00:00:00Z'), {});
+    for (let update = 0; update < 200; update++) {
+      await history.recordExecution(execution('q-1', 'RUNNING', '2024-01-01T00:00:00Z', { scannedBytes: update }));
+    }
+    expect(lines()).toHaveLength(201);
+
+    await history.recordExecution(execution('q-1', 'SUCCEEDED', '2024-01-01T00:00:00Z', { scannedBytes: 200 }));
+    expect(lines()).toHaveLength(1);
+    expect(JSON.parse(lines()[0])).toMatchObject({ state: 'SUCCEEDED', dataScannedInBytes: 200 });
+  });
+
+  test('keeps only the newest maxEntries entries', async () => {
+    const history = new QueryHistory(path, 2, 5);
+    await history.recordSubmission(execution('q-2', 'SUCCEEDED', '2024-01-02T00:00:00Z'), {});
+    await history.recordSubmission(execution('q-1', 'SUCCEEDED', '2024-01-01T00:00:00Z'), {});
+    await history.recordSubmission(execution('q-3', 'SUCCEEDED', '2024-01-03T00:00:00Z'), {});
+
+    expect(history.get('q-1')).toBeUndefined();
+    expect(lines().map(line => JSON.parse(line).queryExecutionId).sort()).toEqual(['q-2', 'q-3']);
+
+    const smaller = new QueryHistory(path, 1, 5);
+    await smaller.load();
+    expect(smaller.search().entries.map(entry => entry.queryExecutionId)).toEqual(['q-3']);
+    expect(lines()).toHaveLength(1);
+  });
+
+  test('searches by text, context, state and submission time, newest first', async () => {
+    const history = new QueryHistory(path, 100, 5);
+    await history.recordSubmission(
+      execution('q-1', 'SUCCEEDED', '2024-01-01T00:00:00Z', { query: 'SELECT * FROM orders' }),
+      { workgroup: 'primary', submitter: 'ana' }
+    );
+    await history.recordSubmission(
+      execution('q-2', 'FAILED', '2024-01-02T00:00:00Z', { query: 'SELECT * FROM Orders WHERE dt = 1' }),
+      { workgroup: 'analytics', submitter: 'ben' }
+    );
+    await history.recordSubmission(
+      execution('q-3', 'SUCCEEDED', '2024-01-03T00:00:00Z', { query: 'SELECT 1', database: 'logs' }),
+      { workgroup: 'primary', submitter: 'ana' }
+    );
+
+    const ids = (filter: Parameters<QueryHistory['search']>[0]) => history.search(filter).entries.map(entry => entry.queryExecutionId);
+    expect(ids({})).toEqual(['q-3', 'q-2', 'q-1']);
+    expect(ids({ text: 'orders' })).toEqual(['q-2', 'q-1']);
+    expect(ids({ text: 'Q-3' })).toEqual(['q-3']);
+    expect(ids({ database: 'logs' })).toEqual(['q-3']);
+    expect(ids({ workgroup: 'primary', submitter: 'ana' })).toEqual(['q-3', 'q-1']);
+    expect(ids({ states: ['FAILED'] })).toEqual(['q-2']);
+    expect(ids({ since: '2024-01-02T00:00:00Z', until: '2024-01-02T23:59:59Z' })).toEqual(['q-2']);
+    expect(() => history.search({ since: 'yesterday' })).toThrow('since and until must be ISO 8601 dates');
+
+    expect(history.search({ limit: 2 })).toMatchObject({ total: 3, entries: [{ queryExecutionId: 'q-3' }, { queryExecutionId: 'q-2' }] });
+    expect(history.search({ limit: 2, offset: 2 })).toMatchObject({ total: 3, entries: [{ queryExecutionId: 'q-1' }] });
+  });
+
+  test('lists the queries that had not finished, so they can be resumed after a restart', async () => {
+    const history = new QueryHistory(path, 100, 5);
+    await history.recordSubmission(execution('q-1', 'QUEUED', '2024-01-01T00:00:00Z'), {});
+    await history.recordSubmission(execution('q-2', 'QUEUED', '2024-01-01T00:01:00Z'), {});
+    await history.recordSubmission(execution('q-3', 'QUEUED', '2024-01-01T00:02:00Z'), {});
+    await history.recordExecution(execution('q-1', 'RUNNING', '2024-01-01T00:00:00Z'));
+    await history.recordExecution(execution('q-2', 'CANCELLED', '2024-01-01T00:01:00Z'));
+    // Queries not submitted through the server are not recorded
+    await history.recordExecution(execution('elsewhere', 'RUNNING', '2024-01-01T00:03:00Z'));
+    await history.flush();
+
+    const restarted = new QueryHistory(path, 100, 5);
+    await restarted.load();
+    expect(restarted.unfinished()).toEqual(['q-1', 'q-3']);
+    expect(restarted.get('elsewhere')).toBeUndefined();
+  });
+
+  test('starts empty without a history file', async () => {
+    const history = new QueryHistory(path, 100, 5);
+    await history.load();
+    expect(history.search()).toEqual({ total: 0, entries: [] });
+    expect(history.unfinished()).toEqual([]);
+  });
+});
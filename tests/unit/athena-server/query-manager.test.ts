@@ -0,0 +1,198 @@
+import { AthenaClientWrapper } from '../../../mcp-servers/athena-server/src/athena-client.js';
+import { QueryManager } from '../../../mcp-servers/athena-server/src/query-manager.js';
+import { QueryExecution, QueryState, Row } from '../../../mcp-servers/athena-server/src/types.js';
+
+const columns = [
+  { Name: 'id', Type: 'integer' },
+  { Name: 'name', Type: 'varchar' }
+];
+
+function row(...values: string[]): Row {
+  return { Data: values.map(value => ({ VarCharValue: value })) };
+}
+
+/**
+ * A client whose queries are in whatever state states holds for them, and
+ * whose results come back at most pageLimit rows at a time
+ */
+function stubClient(options: { resultRows?: Row[]; pageLimit?: number } = {}) {
+  const states: Record<string, QueryState> = {};
+  const polledAt: Record<string, number[]> = {};
+  const resultRows = [row('id', 'name'), ...(options.resultRows || [])];
+  const pageLimit = options.pageLimit ?? 1000;
+  let submitted = 0;
+
+  const execution = (queryExecutionId: string): QueryExecution => ({
+    QueryExecutionId: queryExecutionId,
+    Query: `SELECT ${queryExecutionId}`,
+    Status: { State: states[queryExecutionId] }
+  });
+
+  const client = {
+    executeQuery: jest.fn(async () => {
+      const queryExecutionId = `q-${++submitted}`;
+      states[queryExecutionId] ??= 'QUEUED';
+      return queryExecutionId;
+    }),
+    getQueryStatus: jest.fn(async (queryExecutionId: string) => {
+      (polledAt[queryExecutionId] ??= []).push(Date.now());
+      return execution(queryExecutionId);
+    }),
+    waitForQueryCompletion: jest.fn(async (queryExecutionId: string) => execution(queryExecutionId)),
+    getQueryResults: jest.fn(async (_queryExecutionId: string, maxResults: number, nextToken?: string) => {
+      const offset = nextToken ? Number(nextToken) : 0;
+      const end = offset + Math.min(maxResults, pageLimit);
+      return {
+        ResultSet: { Rows: resultRows.slice(offset, end), ResultSetMetadata: { ColumnInfo: columns } },
+        NextToken: end < resultRows.length ? String(end) : undefined
+      };
+    })
+  };
+  return { client, states, polledAt };
+}
+
+function manager(client: ReturnType<typeof stubClient>['client'], ttlSeconds?: number): QueryManager {
+  return new QueryManager(client as unknown as AthenaClientWrapper, ttlSeconds);
+}
+
+function gaps(times: number[]): number[] {
+  return times.slice(1).map((time, index) => time - times[index]);
+}
+
+describe('QueryManager', () => {
+  let queries: QueryManager | undefined;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    queries?.stop();
+    queries = undefined;
+    jest.useRealTimers();
+  });
+
+  test('polls every second at first and backs off to every 30 seconds while the state does not change', async () => {
+    const { client, states, polledAt } = stubClient();
+    queries = manager(client);
+    const queryExecutionId = await queries.submitQuery('SELECT 1');
+
+    await jest.advanceTimersByTimeAsync(1000 + 2000 + 4000 + 8000 + 16000 + 30000 + 30000);
+    expect(gaps(polledAt[queryExecutionId])).toEqual([1000, 2000, 4000, 8000, 16000, 30000, 30000]);
+
+    // A state change polls every second again
+    states[queryExecutionId] = 'RUNNING';
+    await jest.advanceTimersByTimeAsync(30000 + 1000 + 2000);
+    expect(gaps(polledAt[queryExecutionId]).slice(-3)).toEqual([30000, 1000, 2000]);
+    expect(queries.listQueries()[0]).toMatchObject({ state: 'RUNNING', polls: 11 });
+
+    // Finished queries are not polled
+    states[queryExecutionId] = 'SUCCEEDED';
+    await jest.advanceTimersByTimeAsync(4000);
+    await jest.advanceTimersByTimeAsync(60000);
+    expect(polledAt[queryExecutionId]).toHaveLength(12);
+    expect(queries.listQueries()[0].nextPollAt).toBeUndefined();
+  });
+
+  test('backs off when a poll fails', async () => {
+    const { client, polledAt } = stubClient();
+    queries = manager(client);
+    const queryExecutionId = await queries.submitQuery('SELECT 1');
+    client.getQueryStatus.mockImplementationOnce(async () => {
+      polledAt[queryExecutionId].push(Date.now());
+      throw new Error('Throttled');
+    });
+
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    try {
+      await jest.advanceTimersByTimeAsync(1000 + 2000 + 4000);
+      expect(gaps(polledAt[queryExecutionId])).toEqual([1000, 2000, 4000]);
+    } finally {
+      jest.restoreAllMocks();
+    }
+  });
+
+  test('forgets finished queries once their TTL has passed', async () => {
+    const { client, states } = stubClient();
+    queries = manager(client, 60);
+    states['q-1'] = 'SUCCEEDED';
+    await queries.submitQuery('SELECT 1');
+    await jest.advanceTimersByTimeAsync(1000);
+    await queries.submitQuery('SELECT 2');
+
+    await jest.advanceTimersByTimeAsync(59000);
+    expect(queries.listQueries().map(query => query.queryExecutionId)).toEqual(['q-2', 'q-1']);
+
+    await jest.advanceTimersByTimeAsync(1);
+    expect(queries.listQueries().map(query => query.queryExecutionId)).toEqual(['q-2']);
+  });
+
+  test('lists queries newest first, filtered by state and age', async () => {
+    const { client, states } = stubClient();
+    queries = manager(client);
+    states['q-1'] = 'SUCCEEDED';
+    states['q-3'] = 'FAILED';
+    await queries.submitQuery('SELECT 1');
+    await jest.advanceTimersByTimeAsync(120000);
+    await queries.submitQuery('SELECT 2');
+    await jest.advanceTimersByTimeAsync(1000);
+    await queries.submitQuery('SELECT 3');
+
+    const ids = (filter: Parameters<QueryManager['listQueries']>[0]) => queries!.listQueries(filter).map(query => query.queryExecutionId);
+    expect(ids({})).toEqual(['q-3', 'q-2', 'q-1']);
+    expect(ids({ states: ['SUCCEEDED', 'FAILED'] })).toEqual(['q-3', 'q-1']);
+    expect(ids({ maxAgeSeconds: 60 })).toEqual(['q-3', 'q-2']);
+    expect(ids({ states: ['QUEUED', 'RUNNING'], maxAgeSeconds: 60 })).toEqual(['q-2']);
+    expect(ids({ limit: 1 })).toEqual(['q-3']);
+  });
+
+  describe('runQuery', () => {
+    const resultRows = [row('1', 'a'), row('2', 'b'), row('3', 'c'), row('4', 'd'), row('5', 'e')];
+
+    test('follows NextToken across pages and drops the header row', async () => {
+      const { client, states } = stubClient({ resultRows, pageLimit: 2 });
+      states['q-1'] = 'SUCCEEDED';
+      queries = manager(client);
+      const onSubmitted = jest.fn();
+
+      const result = await queries.runQuery('SELECT * FROM t', 'db', undefined, { maxRows: 10, onSubmitted });
+
+      expect(onSubmitted).toHaveBeenCalledWith('q-1');
+      expect(result).toMatchObject({
+        queryExecutionId: 'q-1',
+        state: 'SUCCEEDED',
+        columns: [{ name: 'id', type: 'integer' }, { name: 'name', type: 'varchar' }],
+        rowCount: 5,
+        truncated: false,
+        nextToken: undefined
+      });
+      expect(result.rows[0]).toEqual({ id: 1, name: 'a' });
+      expect(client.getQueryResults.mock.calls.map(call => call[2])).toEqual([undefined, '2', '4']);
+    });
+
+    test('stops at maxRows and returns the token for the rest', async () => {
+      const { client, states } = stubClient({ resultRows, pageLimit: 2 });
+      states['q-1'] = 'SUCCEEDED';
+      queries = manager(client);
+
+      const result = await queries.runQuery('SELECT * FROM t', 'db', undefined, { maxRows: 3 });
+
+      expect(result).toMatchObject({ rowCount: 3, truncated: true, nextToken: '4' });
+      expect(result.rows.map(converted => converted.id)).toEqual([1, 2, 3]);
+      // The first page asks for one extra row for the header
+      expect(client.getQueryResults.mock.calls.map(call => call[1])).toEqual([4, 2]);
+    });
+
+    test('returns no rows for a query still running at the timeout and throws for a failed one', async () => {
+      const { client, states } = stubClient({ resultRows });
+      queries = manager(client);
+
+      await expect(queries.runQuery('SELECT 1', undefined, undefined, { timeoutMs: 10 }))
+        .resolves.toMatchObject({ state: 'QUEUED', rows: [], rowCount: 0, truncated: false });
+
+      states['q-2'] = 'FAILED';
+      await expect(queries.runQuery('SELECT 2')).rejects.toThrow('Query q-2 failed');
+      expect(client.getQueryResults).not.toHaveBeenCalled();
+    });
+  });
+});
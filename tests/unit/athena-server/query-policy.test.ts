@@ -0,0 +1,115 @@
+import { AthenaClientWrapper } from '../../../mcp-servers/athena-server/src/athena-client.js';
+import { QueryPolicy } from '../../../mcp-servers/athena-server/src/query-policy.js';
+import { TableMetadata } from '../../../mcp-servers/athena-server/src/types.js';
+
+const GB = 1024 ** 3;
+
+const tables: Record<string, TableMetadata> = {
+  'logs.events': {
+    Name: 'events',
+    Columns: [{ Name: 'message', Type: 'string' }],
+    PartitionKeys: [{ Name: 'dt', Type: 'string' }],
+    Parameters: { totalSize: String(50 * GB) }
+  },
+  'logs.small': {
+    Name: 'small',
+    Columns: [{ Name: 'message', Type: 'string' }],
+    PartitionKeys: [{ Name: 'dt', Type: 'date' }],
+    Parameters: { totalSize: '1000' }
+  },
+  'logs.unsized': {
+    Name: 'unsized',
+    Columns: [{ Name: 'message', Type: 'string' }],
+    PartitionKeys: [{ Name: 'region', Type: 'string' }]
+  }
+};
+
+const client = {
+  describeTable: async (database: string, table: string) => {
+    const metadata = tables[`${database}.${table}`];
+    if (!metadata) {
+      throw new Error('Table not found');
+    }
+    return metadata;
+  }
+} as unknown as AthenaClientWrapper;
+
+function policy(overrides: Partial<ConstructorParameters<typeof QueryPolicy>[1]> = {}): QueryPolicy {
+  return new QueryPolicy(client, {
+    readOnly: true,
+    deniedDatabases: ['secretdb'],
+    deniedTables: ['hr.salaries', 'pii'],
+    requirePartitionFilter: true,
+    partitionFilterMinGB: 10,
+    autoLimit: 1000,
+    ...overrides
+  });
+}
+
+async function rules(query: string, database: string = 'logs'): Promise<string[]> {
+  return (await policy().check(query, database)).violations.map(violation => violation.rule);
+}
+
+describe('QueryPolicy', () => {
+  test('allows reads and blocks writes in read-only mode', async () => {
+    expect(await rules("SELECT * FROM events WHERE dt = '2024-01-01'")).toEqual([]);
+    expect(await rules('DROP TABLE logs.events')).toEqual(['read_only']);
+    expect(await rules('INSERT INTO logs.small SELECT * FROM logs.small')).toEqual(['read_only']);
+    expect(await rules('CREATE TABLE t AS SELECT 1')).toEqual(['read_only']);
+    expect(await rules('EXPLAIN SELECT * FROM events')).toEqual([]);
+    expect((await policy({ readOnly: false }).check('DROP TABLE logs.small')).allowed).toBe(true);
+  });
+
+  test('rejects more than one statement', async () => {
+    expect(await rules('SELECT 1; DROP TABLE x')).toEqual(['single_statement']);
+  });
+
+  test('denies databases and tables wherever they are referenced', async () => {
+    expect(await rules('SELECT * FROM secretdb.t')).toEqual(['denied_database']);
+    expect(await rules('SELECT a FROM hr.salaries s')).toEqual(['denied_table']);
+    expect(await rules('SELECT * FROM pii')).toEqual(['denied_table']);
+    expect(await rules('DESCRIBE pii')).toEqual(['denied_table']);
+    expect(await rules('SHOW TABLES IN secretdb')).toEqual(['denied_database']);
+    expect(await rules('SELECT * FROM small s JOIN hr.salaries x ON s.message = x.name LIMIT 1')).toEqual(['denied_table']);
+    expect(await rules('SELECT * FROM (secretdb.t)')).toEqual(['denied_database']);
+    expect(await rules('SELECT a FROM (hr.salaries) s')).toEqual(['denied_table']);
+    expect(await rules('TABLE pii')).toEqual(['denied_table']);
+  });
+
+  test('requires a partition filter on large or unsized partitioned tables', async () => {
+    const result = await policy().check('SELECT * FROM events', 'logs');
+    expect(result.violations.map(violation => violation.rule)).toEqual(['partition_filter']);
+    expect(result.violations[0].suggestion).toContain("dt >= 'YYYY-MM-DD'");
+
+    expect(await rules('SELECT * FROM unsized')).toEqual(['partition_filter']);
+    expect(await rules('SELECT count(*) FROM (logs.events)')).toEqual(['partition_filter']);
+    expect(await rules('TABLE logs.events')).toEqual(['partition_filter']);
+    expect(await rules('SELECT * FROM small')).toEqual([]);
+    expect(await rules("SELECT count(*) FROM events e WHERE e.dt BETWEEN '2024-01-01' AND '2024-01-31'")).toEqual([]);
+    expect(await rules('SELECT * FROM events WHERE dt = ?')).toEqual([]);
+    expect(await rules("SELECT * FROM events WHERE dt = '2024-01-01' OR 1=1")).toEqual(['partition_filter']);
+    expect(await rules("SELECT * FROM events WHERE (dt = '2024-01-01' AND level = 'error') OR level = 'fatal'")).toEqual(['partition_filter']);
+    expect(await rules("SELECT * FROM events WHERE dt = '2024-01-01' AND (level = 'error' OR level = 'fatal')")).toEqual([]);
+    expect(await rules("SELECT * FROM events WHERE (dt = '2024-01-01' OR dt = '2024-01-02') AND level = 'error'")).toEqual(['partition_filter']);
+    expect(await rules("SELECT a OR b FROM events WHERE dt = '2024-01-01'")).toEqual([]);
+    expect(await rules('SHOW COLUMNS FROM events')).toEqual([]);
+    expect((await policy({ requirePartitionFilter: false }).check('SELECT * FROM events', 'logs')).allowed).toBe(true);
+  });
+
+  test('adds a LIMIT to queries that neither limit nor aggregate their rows', async () => {
+    const result = await policy().check('SELECT * FROM small ORDER BY message; -- done', 'logs');
+    expect(result.query).toBe('SELECT * FROM small ORDER BY message\nLIMIT 1000');
+    expect(result.limitApplied).toBe(1000);
+    expect((await policy().check('TABLE small', 'logs')).query).toBe('TABLE small\nLIMIT 1000');
+
+    for (const query of [
+      'SELECT * FROM small LIMIT 5',
+      'SELECT * FROM small FETCH FIRST 5 ROWS ONLY',
+      'SELECT dt, count(*) FROM small GROUP BY dt',
+      'SHOW TABLES'
+    ]) {
+      expect((await policy().check(query, 'logs')).limitApplied).toBeUndefined();
+    }
+    expect((await policy({ autoLimit: 0 }).check('SELECT * FROM small', 'logs')).query).toBe('SELECT * FROM small');
+  });
+});
@@ -0,0 +1,44 @@
+import { columnKeys, convertRows, convertValue, isHeaderRow } from '../../../mcp-servers/athena-server/src/result-converter.js';
+
+describe('convertValue', () => {
+  test('converts numbers and keeps integers too large for a double as strings', () => {
+    expect(convertValue('42', 'integer')).toBe(42);
+    expect(convertValue('9007199254740993', 'bigint')).toBe('9007199254740993');
+    expect(convertValue('1.5', 'double')).toBe(1.5);
+    expect(convertValue('NaN', 'double')).toBe('NaN');
+    expect(convertValue('12.34', 'decimal(10,2)')).toBe(12.34);
+    expect(convertValue('12345678901234567.89', 'decimal(38,2)')).toBe('12345678901234567.89');
+  });
+
+  test('converts booleans, timestamps and JSON', () => {
+    expect(convertValue('true', 'boolean')).toBe(true);
+    expect(convertValue('2024-01-02 03:04:05.000', 'timestamp')).toBe('2024-01-02T03:04:05.000');
+    expect(convertValue('2024-01-02', 'date')).toBe('2024-01-02');
+    expect(convertValue('{"a":[1]}', 'json')).toEqual({ a: [1] });
+  });
+
+  test('parses arrays, maps and rows', () => {
+    expect(convertValue('[1, 2, [3, x]]', 'array(varchar)')).toEqual([1, 2, [3, 'x']]);
+    expect(convertValue('{a=1, b=null}', 'map(varchar,integer)')).toEqual({ a: 1, b: null });
+  });
+
+  test('returns null for missing values and empty non-string values', () => {
+    expect(convertValue(undefined, 'varchar')).toBeNull();
+    expect(convertValue('', 'double')).toBeNull();
+    expect(convertValue('', 'varchar')).toBe('');
+  });
+});
+
+describe('rows', () => {
+  const columns = [{ Name: 'id', Type: 'integer' }, { Name: 'id', Type: 'varchar' }];
+
+  test('detects the header row and suffixes repeated column names', () => {
+    expect(isHeaderRow({ Data: [{ VarCharValue: 'id' }, { VarCharValue: 'id' }] }, columns)).toBe(true);
+    expect(isHeaderRow({ Data: [{ VarCharValue: '1' }, { VarCharValue: 'id' }] }, columns)).toBe(false);
+    expect(columnKeys(columns)).toEqual(['id', 'id_2']);
+  });
+
+  test('converts rows to objects with typed values', () => {
+    expect(convertRows([{ Data: [{ VarCharValue: '7' }, {}] }], columns)).toEqual([{ id: 7, id_2: null }]);
+  });
+});
@@ -0,0 +1,70 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { SavedQueryLibrary } from '../../../mcp-servers/athena-server/src/saved-queries.js';
+
+describe('SavedQueryLibrary', () => {
+  let directory: string;
+  let library: SavedQueryLibrary;
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    directory = mkdtempSync(join(tmpdir(), 'saved-queries-'));
+    library = new SavedQueryLibrary(join(directory, 'saved.json'));
+    await library.save({
+      name: 'daily_sales',
+      sql: 'SELECT * FROM sales WHERE dt BETWEEN {{start}} AND {{end}} AND country IN ({{countries}}) AND amount > {{min}}',
+      parameters: [
+        { name: 'start', type: 'date' },
+        { name: 'end', type: 'date' },
+        { name: 'countries', type: 'list', itemType: 'string' },
+        { name: 'min', type: 'number', default: 0 }
+      ]
+    });
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  test('binds values as execution parameters and renders them inline', () => {
+    const bound = library.bind('daily_sales', { start: '2024-01-01', end: '2024-01-31', countries: ['US', "O'Hare"] });
+
+    expect(bound.sql).toBe('SELECT * FROM sales WHERE dt BETWEEN ? AND ? AND country IN (?, ?) AND amount > ?');
+    expect(bound.executionParameters).toEqual(["DATE '2024-01-01'", "DATE '2024-01-31'", "'US'", "'O''Hare'", '0']);
+    expect(bound.inlineSql).toBe(
+      "SELECT * FROM sales WHERE dt BETWEEN DATE '2024-01-01' AND DATE '2024-01-31' AND country IN ('US', 'O''Hare') AND amount > 0"
+    );
+  });
+
+  test('validates values against their types', () => {
+    const valid = { start: '2024-01-01', end: '2024-01-31', countries: ['US'] };
+    expect(() => library.bind('daily_sales', { ...valid, start: '2024-02-30' })).toThrow(/YYYY-MM-DD/);
+    expect(() => library.bind('daily_sales', { ...valid, countries: [] })).toThrow(/list of 1 to/);
+    expect(() => library.bind('daily_sales', { ...valid, min: 'ten' })).toThrow(/finite number/);
+    expect(() => library.bind('daily_sales', { ...valid, countries: ['a\0b'] })).toThrow(/NUL/);
+    expect(() => library.bind('daily_sales', { start: '2024-01-01', countries: ['US'] })).toThrow(/Missing required parameter end/);
+    expect(() => library.bind('daily_sales', { ...valid, other: 1 })).toThrow(/Unknown parameter/);
+  });
+
+  test('rejects definitions whose placeholders do not match their parameters', async () => {
+    await expect(library.save({ name: 'quoted', sql: "SELECT '{{x}}'", parameters: [{ name: 'x', type: 'string' }] }))
+      .rejects.toThrow(/inside quotes/);
+    await expect(library.save({ name: 'undeclared', sql: 'SELECT {{x}}', parameters: [] })).rejects.toThrow(/Undeclared/);
+    await expect(library.save({ name: 'unused', sql: 'SELECT 1', parameters: [{ name: 'x', type: 'string' }] }))
+      .rejects.toThrow(/not used/);
+    await expect(library.save({ name: 'daily_sales', sql: 'SELECT 1', parameters: [] })).rejects.toThrow(/already exists/);
+  });
+
+  test('writes values into the SQL for inline queries', async () => {
+    await library.save({ name: 'partitions', sql: 'SHOW PARTITIONS {{table}}', parameters: [{ name: 'table', type: 'string' }], inlineParameters: true });
+    expect(library.bind('partitions', { table: 'sales' })).toEqual({ sql: "SHOW PARTITIONS 'sales'", inlineSql: "SHOW PARTITIONS 'sales'" });
+  });
+
+  test('persists saved queries', async () => {
+    const reloaded = new SavedQueryLibrary(join(directory, 'saved.json'));
+    await reloaded.load();
+    expect(reloaded.list().map(query => query.name)).toEqual(['daily_sales']);
+  });
+});
@@ -0,0 +1,74 @@
+import {
+  buildDataQueryClauses,
+  buildSqliteDataQueryClauses,
+  jsonContains,
+  jsonEquals
+} from '../../../mcp-servers/database-server/src/data-query.js';
+import { QueryDataSchema } from '../../../mcp-servers/database-server/src/types.js';
+
+function placeholders(sql: string): number[] {
+  return [...sql.matchAll(/\$(\d+)/g)].map(match => Number(match[1]));
+}
+
+describe('buildDataQueryClauses', () => {
+  test('numbers WHERE parameters in order and keeps ORDER BY parameters separate', () => {
+    const query = QueryDataSchema.parse({
+      keyPrefix: 'report:',
+      filters: [{ path: 'metrics.revenue', op: 'gt', value: 100 }],
+      orderBy: 'data.metrics.revenue',
+      order: 'asc'
+    });
+    const clauses = buildDataQueryClauses(query);
+
+    // The COUNT query runs with the WHERE parameters alone
+    expect(Math.max(...placeholders(clauses.where))).toBe(clauses.params.length);
+    expect(clauses.params).toEqual(['report:', ['metrics', 'revenue'], 100]);
+    expect(clauses.orderParams).toEqual([['metrics', 'revenue']]);
+    expect(placeholders(clauses.orderBy)).toEqual([clauses.params.length + 1]);
+    expect(clauses.orderBy).toBe('ORDER BY data #> $4::text[] ASC NULLS LAST, key ASC');
+  });
+
+  test('filters out expired rows unless asked not to', () => {
+    expect(buildDataQueryClauses(QueryDataSchema.parse({})).where).toContain('expires_at > CURRENT_TIMESTAMP');
+    expect(buildDataQueryClauses(QueryDataSchema.parse({ includeExpired: true })).where).toBe('');
+  });
+
+  test('passes values as parameters, never as SQL', () => {
+    const clauses = buildDataQueryClauses(QueryDataSchema.parse({
+      filters: [{ path: 'name', op: 'eq', value: "x'; DROP TABLE t; --" }]
+    }));
+    expect(clauses.where).not.toContain('DROP');
+    expect(clauses.params).toContain(JSON.stringify("x'; DROP TABLE t; --"));
+  });
+
+  test('rejects unknown orderings, empty path segments and missing values', () => {
+    expect(() => buildDataQueryClauses(QueryDataSchema.parse({ orderBy: 'id; DROP' }))).toThrow(/Invalid orderBy/);
+    expect(() => buildDataQueryClauses(QueryDataSchema.parse({ filters: [{ path: 'a..b', op: 'exists' }] }))).toThrow();
+    expect(() => buildDataQueryClauses(QueryDataSchema.parse({ filters: [{ path: 'a', op: 'eq' }] }))).toThrow(/requires a value/);
+    expect(() => buildDataQueryClauses(QueryDataSchema.parse({ filters: [{ path: 'a', op: 'in', value: 1 }] }))).toThrow(/array/);
+  });
+});
+
+describe('buildSqliteDataQueryClauses', () => {
+  test('uses ? placeholders matching the parameter counts', () => {
+    const clauses = buildSqliteDataQueryClauses(QueryDataSchema.parse({
+      filters: [{ path: 'tags', op: 'contains', value: ['a'] }],
+      orderBy: 'data.items.0'
+    }), '2024-01-01T00:00:00.000Z');
+
+    expect(clauses.where.split('?').length - 1).toBe(clauses.params.length);
+    expect(clauses.orderParams).toEqual(['$."items"[0]']);
+  });
+});
+
+describe('jsonEquals and jsonContains', () => {
+  test('follow jsonb semantics', () => {
+    expect(jsonEquals({ a: 1, b: [1, 2] }, { b: [1, 2], a: 1 })).toBe(true);
+    expect(jsonEquals([1, 2], [2, 1])).toBe(false);
+    expect(jsonContains({ a: 1, b: { c: 2, d: 3 } }, { b: { c: 2 } })).toBe(true);
+    expect(jsonContains([1, 2, 3], [3, 1])).toBe(true);
+    expect(jsonContains([1, 2, 3], 2)).toBe(true);
+    expect(jsonContains([[1, 2]], 1)).toBe(false);
+    expect(jsonContains({ a: 1 }, { a: 1, b: 2 })).toBe(false);
+  });
+});
@@ -0,0 +1,36 @@
+import {
+  assertInvalidationPattern,
+  namespacePattern,
+  namespacedKey
+} from '../../../mcp-servers/database-server/src/redis-client.js';
+
+describe('namespacedKey', () => {
+  test('prefixes the key with the namespace', () => {
+    expect(namespacedKey('job:42', 'revenue')).toBe('job:42:revenue');
+    expect(namespacedKey(undefined, 'revenue')).toBe('revenue');
+  });
+
+  test('rejects keys in the table cache namespace', () => {
+    expect(() => namespacedKey('tbl', 'cache_data:a')).toThrow(/reserved/);
+  });
+});
+
+describe('assertInvalidationPattern', () => {
+  test('accepts patterns with a literal prefix', () => {
+    expect(() => assertInvalidationPattern('job:42:*')).not.toThrow();
+    expect(() => assertInvalidationPattern(namespacePattern('report[1]'))).not.toThrow();
+    expect(() => assertInvalidationPattern('tb')).not.toThrow();
+  });
+
+  test('rejects patterns that start with a wildcard', () => {
+    expect(() => assertInvalidationPattern('*:*')).toThrow(/literal prefix/);
+    expect(() => assertInvalidationPattern('?ob:*')).toThrow(/literal prefix/);
+    expect(() => assertInvalidationPattern('[jt]*')).toThrow(/literal prefix/);
+  });
+
+  test('rejects patterns that could match cached table rows', () => {
+    expect(() => assertInvalidationPattern(namespacePattern('tbl'))).toThrow(/reserved/);
+    expect(() => assertInvalidationPattern('tbl:cache_data:user:1')).toThrow(/reserved/);
+    expect(() => assertInvalidationPattern('t*')).toThrow(/reserved/);
+  });
+});
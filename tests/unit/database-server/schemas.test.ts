@@ -0,0 +1,19 @@
+import { PurgeUserDataSchema, RollbackSchema } from '../../../mcp-servers/database-server/src/types.js';
+
+describe('RollbackSchema', () => {
+  test('requires confirm unless it is a dry run', () => {
+    expect(RollbackSchema.parse({ dryRun: true })).toMatchObject({ steps: 1, dryRun: true });
+    expect(RollbackSchema.parse({ steps: 2, confirm: true })).toMatchObject({ steps: 2, dryRun: false });
+    expect(() => RollbackSchema.parse({})).toThrow(/confirm must be true/);
+    expect(() => RollbackSchema.parse({ confirm: false })).toThrow(/confirm must be true/);
+  });
+});
+
+describe('PurgeUserDataSchema', () => {
+  test('requires confirm unless it is a dry run', () => {
+    expect(PurgeUserDataSchema.parse({ userId: 'user-1', dryRun: true })).toMatchObject({ userId: 'user-1', dryRun: true });
+    expect(PurgeUserDataSchema.parse({ userId: 'user-1', confirm: true })).toMatchObject({ dryRun: false, confirm: true });
+    expect(() => PurgeUserDataSchema.parse({ userId: 'user-1' })).toThrow(/confirm must be true/);
+    expect(() => PurgeUserDataSchema.parse({ userId: 'user-1', dryRun: false, confirm: false })).toThrow(/confirm must be true/);
+  });
+});
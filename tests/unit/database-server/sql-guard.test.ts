@@ -0,0 +1,43 @@
+import { assertReadOnlyQuery, normalizeSql } from '../../../mcp-servers/database-server/src/sql-guard.js';
+
+describe('assertReadOnlyQuery', () => {
+  test('accepts read-only statements and strips a trailing semicolon', () => {
+    expect(assertReadOnlyQuery('SELECT 1;')).toBe('SELECT 1');
+    expect(assertReadOnlyQuery('WITH t AS (SELECT 1) SELECT * FROM t')).toBe('WITH t AS (SELECT 1) SELECT * FROM t');
+    expect(assertReadOnlyQuery('VALUES (1), (2)')).toBe('VALUES (1), (2)');
+    expect(assertReadOnlyQuery('TABLE kv.cache_data')).toBe('TABLE kv.cache_data');
+  });
+
+  test('rejects statements that are not queries', () => {
+    expect(() => assertReadOnlyQuery('DELETE FROM t')).toThrow(/Only read-only queries/);
+    expect(() => assertReadOnlyQuery('')).toThrow(/empty/);
+  });
+
+  test('rejects more than one statement', () => {
+    expect(() => assertReadOnlyQuery('SELECT 1; DROP TABLE t')).toThrow(/single SQL statement/);
+  });
+
+  test('rejects forbidden keywords and functions anywhere in the query', () => {
+    expect(() => assertReadOnlyQuery('WITH d AS (DELETE FROM t RETURNING *) SELECT * FROM d')).toThrow(/DELETE/);
+    expect(() => assertReadOnlyQuery('SELECT * INTO copy FROM t')).toThrow(/INTO/);
+    expect(() => assertReadOnlyQuery('SELECT pg_sleep(10)')).toThrow(/pg_sleep/);
+    expect(() => assertReadOnlyQuery('SELECT pg_read_file(\'/etc/passwd\')')).toThrow(/pg_read_file/);
+  });
+
+  test('ignores keywords inside comments, strings and quoted identifiers', () => {
+    expect(() => assertReadOnlyQuery('SELECT \'drop table t\' AS "delete" -- update\n/* insert */')).not.toThrow();
+    expect(() => assertReadOnlyQuery('SELECT $tag$ DELETE FROM t $tag$')).not.toThrow();
+    expect(() => assertReadOnlyQuery('SELECT E\'it\\\'s; DROP\'')).not.toThrow();
+  });
+
+  test('rejects unterminated literals and comments', () => {
+    expect(() => assertReadOnlyQuery('SELECT \'open')).toThrow(/Unterminated string literal/);
+    expect(() => assertReadOnlyQuery('SELECT 1 /* open')).toThrow(/Unterminated block comment/);
+  });
+});
+
+describe('normalizeSql', () => {
+  test('drops comments, collapses whitespace and lower-cases outside literals', () => {
+    expect(normalizeSql('SELECT  "Name", \'Value\'\n  FROM T -- comment\n;')).toBe('select "Name", \'Value\' from t');
+  });
+});